@@ -6,6 +6,8 @@ import {IGameManager} from "../../_interfaces/games/IGameManager.sol";
 import {IPauseManager} from "../../_interfaces/access/IPauseManager.sol";
 import {ITokensManager} from "../tokens/ITokensManager.sol";
 import {IReferralProgram} from "../vaults/IReferralProgram.sol";
+import {IJackpotPool} from "../vaults/IJackpotPool.sol";
+import {IRandomnessProvider} from "../randomness/IRandomnessProvider.sol";
 
 interface IAddressBook {
     function accessRoles() external view returns (IAccessRoles);
@@ -19,4 +21,8 @@ interface IAddressBook {
     function tokensManager() external view returns (ITokensManager);
 
     function referralProgram() external view returns (IReferralProgram);
+
+    function jackpotPool() external view returns (IJackpotPool);
+
+    function randomnessProvider() external view returns (IRandomnessProvider);
 }
@@ -0,0 +1,10 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title IRandomnessConsumer
+ * @dev Interface for the games receiving random words from a randomness provider
+ */
+interface IRandomnessConsumer {
+    function fulfillRandomness(uint256 requestId, uint256[] calldata randomWords) external;
+}
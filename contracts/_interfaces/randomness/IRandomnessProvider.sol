@@ -0,0 +1,13 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title IRandomnessProvider
+ * @dev Interface for the randomness providers the games request random words from through the AddressBook
+ * @dev A provider delivers the words by calling IRandomnessConsumer.fulfillRandomness on the requesting game
+ */
+interface IRandomnessProvider {
+    function requestRandomness(address player, uint32 numWords) external returns (uint256 requestId);
+
+    function isFulfilled(uint256 requestId) external view returns (bool);
+}
@@ -0,0 +1,23 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title IJackpotPool
+ * @dev Interface for the JackpotPool contract
+ */
+interface IJackpotPool {
+    function jackpots(address token) external view returns (uint256);
+
+    function calculateContribution(uint256 tokenAmount) external view returns (uint256);
+
+    function contribute(
+        address player,
+        uint256 tokenAmount,
+        address tokenAddress,
+        uint256 randomWord
+    ) external payable returns (uint256 payout);
+
+    function claimWinnings(address token) external;
+
+    function getClaimableWinnings(address player, address token) external view returns (uint256);
+}
@@ -9,6 +9,8 @@ import {IGameManager} from "../_interfaces/games/IGameManager.sol";
 import {IPauseManager} from "../_interfaces/access/IPauseManager.sol";
 import {ITokensManager} from "../_interfaces/tokens/ITokensManager.sol";
 import {IReferralProgram} from "../_interfaces/vaults/IReferralProgram.sol";
+import {IJackpotPool} from "../_interfaces/vaults/IJackpotPool.sol";
+import {IRandomnessProvider} from "../_interfaces/randomness/IRandomnessProvider.sol";
 
 /**
  * @title AddressBook
@@ -35,6 +37,12 @@ contract AddressBook is IAddressBook, UUPSUpgradeable {
     /// @notice Reference to the referral program contract that manages referral rewards
     IReferralProgram public referralProgram;
 
+    /// @notice Reference to the jackpot pool contract that collects a share of every wager (optional)
+    IJackpotPool public jackpotPool;
+
+    /// @notice Reference to the randomness provider the games request random words from (optional)
+    IRandomnessProvider public randomnessProvider;
+
     /**
      * @notice Constructor that disables initializers
      * @dev Prevents the implementation contract from being initialized
@@ -114,6 +122,31 @@ contract AddressBook is IAddressBook, UUPSUpgradeable {
         referralProgram = IReferralProgram(_referralProgram);
     }
 
+    /**
+     * @notice Sets the jackpot pool contract address during initial setup
+     * @dev Can only be called by the deployer and only if the jackpot pool hasn't been set yet
+     * @dev Games skip the jackpot contribution while no jackpot pool is set
+     * @param _jackpotPool Address of the jackpot pool contract
+     */
+    function initialSetJackpotPool(address _jackpotPool) external {
+        accessRoles.requireDeployer(msg.sender);
+        require(_jackpotPool != address(0), "_jackpotPool is zero!");
+        require(address(jackpotPool) == address(0), "jackpotPool contract exists!");
+        jackpotPool = IJackpotPool(_jackpotPool);
+    }
+
+    /**
+     * @notice Sets the randomness provider contract address
+     * @dev Can only be called by the owners multisig, games fall back to their own Chainlink VRF subscription
+     *      while no randomness provider is set
+     * @dev Bets awaiting random words from the replaced provider can only be refunded
+     * @param _randomnessProvider Address of the randomness provider contract (address(0) to unset)
+     */
+    function setRandomnessProvider(address _randomnessProvider) external {
+        accessRoles.requireOwnersMultisig(msg.sender);
+        randomnessProvider = IRandomnessProvider(_randomnessProvider);
+    }
+
     /**
      * @notice Authorization function for contract upgrades
      * @dev Only the owners multisig can upgrade the contract
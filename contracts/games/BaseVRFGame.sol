@@ -0,0 +1,1162 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import {IVRFCoordinatorV2Plus} from "@chainlink/contracts/src/v0.8/vrf/dev/interfaces/IVRFCoordinatorV2Plus.sol";
+import {VRFConsumerBaseV2Plus} from "@chainlink/contracts/src/v0.8/vrf/dev/VRFConsumerBaseV2Plus.sol";
+import {VRFV2PlusClient} from "@chainlink/contracts/src/v0.8/vrf/dev/libraries/VRFV2PlusClient.sol";
+import {UUPSUpgradeable} from "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import {IGame} from "../_interfaces/games/IGame.sol";
+import {IAddressBook} from "../_interfaces/access/IAddressBook.sol";
+import {IJackpotPool} from "../_interfaces/vaults/IJackpotPool.sol";
+import {IReferralProgram} from "../_interfaces/vaults/IReferralProgram.sol";
+import {IRandomnessConsumer} from "../_interfaces/randomness/IRandomnessConsumer.sol";
+import {IRandomnessProvider} from "../_interfaces/randomness/IRandomnessProvider.sol";
+import {ITokensManager} from "../_interfaces/tokens/ITokensManager.sol";
+import {Address} from "@openzeppelin/contracts/utils/Address.sol";
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+/**
+ * @title Base VRF Game Config
+ * @notice Storage of the Chainlink VRF request settings and the AddressBook reference shared by the VRF games
+ * @dev Declared in the storage order of the deployed Dice and Grid proxies. Game variables packed into the slot of
+ * addressBook must be declared by a contract inherited between this contract and BaseVRFGameLimits
+ */
+abstract contract BaseVRFGameConfig is VRFConsumerBaseV2Plus {
+    /// @notice Chainlink VRF subscription ID
+    uint256 internal subscriptionId;
+    /// @notice Chainlink VRF key hash for the gas lane
+    bytes32 internal keyHash;
+    /// @notice Gas limit for the Chainlink VRF callback
+    uint32 internal callbackGasLimit;
+    /// @notice Number of confirmations required for Chainlink VRF
+    uint16 internal requestConfirmations;
+    /// @notice Reference to the address book contract
+    IAddressBook internal addressBook;
+}
+
+/**
+ * @title Base VRF Game Limits
+ * @notice Storage of the global bet limits, the house edge and the request owners shared by the VRF games
+ * @dev Declared in the storage order of the deployed Dice and Grid proxies. Game bet mappings declared before
+ * latestRequestIds must be declared by a contract inherited between this contract and BaseVRFGame
+ */
+abstract contract BaseVRFGameLimits is BaseVRFGameConfig, IGame {
+    /// @notice Minimum bet amount allowed in the game (in USD with 18 decimals)
+    uint256 public minBetAmount;
+    /// @notice Maximum bet amount allowed in the game (in USD with 18 decimals)
+    uint256 public maxBetAmount;
+    /// @notice House edge in whole percent, rounded down from houseEdgeBps (kept for IGame compatibility)
+    uint8 public houseEdge;
+
+    /// @notice Mapping from Chainlink VRF request ID to the address of the player who made the request
+    mapping(uint256 => address) internal requestIdToSender;
+}
+
+/**
+ * @title Base VRF Game
+ * @notice Shared bet lifecycle of the games settled with Chainlink VRF v2.5 randomness
+ * @dev Takes the stakes, reserves the potential payouts, requests randomness and pays out, while the games validate
+ * their bet parameters and settle the bets in the _validateBet, _settleBet and _refundBet hooks
+ * @dev Randomness comes from the randomness provider of the AddressBook when one is set, otherwise from the Chainlink
+ * VRF subscription of the game
+ * @dev Implements UUPS upgradeable pattern. New state of the base contract is kept in the ERC-7201 namespaced
+ * BaseVRFGameStorage, as sequential variables would shift the storage of the deployed games
+ */
+abstract contract BaseVRFGame is BaseVRFGameLimits, IRandomnessConsumer, UUPSUpgradeable {
+    using SafeERC20 for IERC20;
+    using Address for address payable;
+
+    /// @notice Constant used as a divisor for basis point calculations (100% = 10000)
+    uint256 public constant DIVIDER = 10000;
+    /// @notice Gas forwarded to the recipient of a native token payout pushed during settlement
+    uint256 public constant PAYOUT_GAS_LIMIT = 50000;
+    /// @notice Precision of the TokensManager prices (8 decimals)
+    uint256 private constant PRICE_PRECISION = 1e8;
+
+    /**
+     * @notice Struct representing per-token overrides of the global game settings
+     * @dev A zero value means the global setting is used for the token
+     */
+    struct TokenSettings {
+        /// @notice Minimum bet amount for the token (in USD with 18 decimals)
+        uint256 minBetAmount;
+        /// @notice Maximum bet amount for the token (in USD with 18 decimals)
+        uint256 maxBetAmount;
+        /// @notice Legacy house edge percentage for the token, superseded by houseEdgeBps
+        uint8 houseEdge;
+        /// @notice House edge for the token (in basis points, e.g., 150 for 1.5%)
+        uint16 houseEdgeBps;
+    }
+
+    /**
+     * @notice Struct referencing the player and the Chainlink VRF request of a bet
+     */
+    struct BetEntry {
+        /// @notice Address of the player who made the bet
+        address player;
+        /// @notice Chainlink VRF request ID of the bet
+        uint256 requestId;
+    }
+
+    /**
+     * @notice Struct representing the Chainlink VRF request settings of the game
+     */
+    struct VRFConfig {
+        /// @notice Address of the Chainlink VRF Coordinator
+        address coordinator;
+        /// @notice Chainlink VRF subscription ID
+        uint256 subscriptionId;
+        /// @notice Chainlink VRF key hash for the gas lane
+        bytes32 keyHash;
+        /// @notice Gas limit for the Chainlink VRF callback
+        uint32 callbackGasLimit;
+        /// @notice Number of confirmations required for Chainlink VRF
+        uint16 requestConfirmations;
+        /// @notice Whether requests are paid for in native tokens instead of LINK
+        bool nativePayment;
+    }
+
+    /**
+     * @notice Namespaced storage of the base contract
+     * @custom:storage-location erc7201:games.storage.BaseVRFGame
+     */
+    struct BaseVRFGameStorage {
+        /// @notice Total number of bets placed since bet history was introduced
+        uint256 betCount;
+        /// @notice Mapping from bet ID to the player and the Chainlink VRF request of the bet
+        mapping(uint256 => BetEntry) betEntries;
+        /// @notice Mapping from player address to the IDs of their bets, in the order they were placed
+        mapping(address => uint256[]) playerBetIds;
+        /// @notice Mapping from Chainlink VRF request ID to the ID of the bet
+        mapping(uint256 => uint256) requestIdToBetId;
+        /// @notice Mapping from player address to the number of their bets awaiting fulfillment or refund
+        mapping(address => uint256) pendingBetCounts;
+        /// @notice Maximum number of pending bets per player (0 is treated as 1)
+        uint256 maxPendingBets;
+        /// @notice Mapping from player address to token address to the winnings that could not be pushed to the player
+        mapping(address => mapping(address => uint256)) claimableWinnings;
+        /// @notice Mapping from token address to the total winnings waiting to be claimed
+        mapping(address => uint256) unclaimedWinnings;
+        /// @notice Whether the VRF callback only records the random word, leaving the bet to be settled with settle
+        bool deferredSettlement;
+        /// @notice Mapping from Chainlink VRF request ID to whether its random word is recorded and awaiting settlement
+        mapping(uint256 => bool) awaitingSettlement;
+        /// @notice Mapping from Chainlink VRF request ID to the recorded random word awaiting settlement
+        mapping(uint256 => uint256) recordedRandomWords;
+        /// @notice Whether Chainlink VRF requests are paid for in native tokens instead of LINK
+        bool nativePayment;
+        /// @notice Mapping from request ID to the randomness provider it was sent to (address(0) for Chainlink VRF)
+        mapping(uint256 => IRandomnessProvider) requestProviders;
+        /// @notice Time initializeV2 migrated the proxy at, bets placed before it have no creation time
+        uint256 v2InitializedAt;
+    }
+
+    /// @notice Storage slot of BaseVRFGameStorage: keccak256(abi.encode(uint256(keccak256("games.storage.BaseVRFGame")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant BASE_VRF_GAME_STORAGE_LOCATION =
+        0x3195ed451c2d8384e8baa3441807162a9aa4e0965530b871e78e1118d11acd00;
+
+    /// @notice Mapping from player address to the Chainlink VRF request ID of their latest bet
+    mapping(address => uint256) internal latestRequestIds;
+    /// @notice Time after which an unfulfilled roll can be refunded (in seconds)
+    uint256 public refundTimeout;
+    /// @notice Mapping from token address to the total potential payout of pending bets
+    mapping(address => uint256) public liabilities;
+    /// @notice Maximum share of the bankroll pending bets can be liable for (in basis points, 0 means 100%)
+    uint256 public maxExposureRatio;
+    /// @notice Mapping from token address to its overrides of the global game settings
+    mapping(address => TokenSettings) public tokenSettings;
+    /// @notice House edge (in basis points, e.g., 150 for 1.5%)
+    uint16 public houseEdgeBps;
+
+    /// @notice Error thrown when trying to set a houseEdge is outside the valid range
+    error InvalidHouseEdge();
+    /// @notice Error thrown when a min bet value is 0
+    error InvalidMinBetAmount();
+    /// @notice Error thrown when a min value greater than max value
+    error MinGreaterThanMax();
+    /// @notice Error thrown when a bet amount is outside the allowed range
+    error InvalidBetAmount();
+    /// @notice Error thrown when the contract has insufficient balance to pay out a potential win
+    error InsufficientContractBalance();
+    /// @notice Error thrown when a bet cannot be refunded (not pending or refund timeout not reached)
+    error RefundNotAvailable();
+    /// @notice Error thrown when a refund timeout is outside the valid range
+    error InvalidRefundTimeout();
+    /// @notice Error thrown when a bet would push the pending payouts above the allowed share of the bankroll
+    error ExposureLimitExceeded();
+    /// @notice Error thrown when a max exposure ratio is outside the valid range
+    error InvalidMaxExposureRatio();
+    /// @notice Error thrown when a bet ID does not exist
+    error BetNotFound();
+    /// @notice Error thrown when a player already has the maximum number of rolls in progress
+    error RollInProgress();
+    /// @notice Error thrown when a max pending bets value is 0
+    error InvalidMaxPendingBets();
+    /// @notice Error thrown when a player has no winnings to claim
+    error NothingToClaim();
+    /// @notice Error thrown when a bet has no recorded random word awaiting settlement
+    error SettlementNotAvailable();
+    /// @notice Error thrown when a key hash is empty
+    error InvalidKeyHash();
+    /// @notice Error thrown when a number of request confirmations is outside the range accepted by Chainlink VRF
+    error InvalidRequestConfirmations();
+    /// @notice Error thrown when random words are not delivered by the randomness provider the request was sent to
+    error OnlyRandomnessProvider();
+    /// @notice Error thrown when a migration is called on a game deployed after the migration was introduced
+    error MigrationNotSupported();
+
+    /**
+     * @notice Event emitted when an unfulfilled bet is refunded
+     * @param requestId The Chainlink VRF request ID of the refunded bet
+     * @param player The address of the player who made the bet
+     * @param amount The amount of tokens returned to the player
+     * @param token The address of the token used for the bet (address(0) for ETH)
+     */
+    event BetRefunded(uint256 indexed requestId, address indexed player, uint256 amount, address token);
+
+    /**
+     * @notice Event emitted when winnings could not be pushed to a player and were credited for claiming instead
+     * @param player The address of the player the winnings belong to
+     * @param token The address of the token of the winnings (address(0) for ETH)
+     * @param amount The amount of tokens credited
+     */
+    event WinningsCredited(address indexed player, address token, uint256 amount);
+
+    /**
+     * @notice Event emitted when a player claims their credited winnings
+     * @param player The address of the player who claimed the winnings
+     * @param token The address of the token of the winnings (address(0) for ETH)
+     * @param amount The amount of tokens claimed
+     */
+    event WinningsClaimed(address indexed player, address token, uint256 amount);
+
+    /**
+     * @notice Event emitted when a settled wager could not be reported to the ReferralProgram or the jackpot pool
+     * @param receiver The address of the contract that rejected the wager
+     * @param player The address of the player who made the wager
+     * @param amount The amount of tokens wagered
+     * @param token The address of the token used for the wager (address(0) for ETH)
+     */
+    event WagerNotReported(address indexed receiver, address indexed player, uint256 amount, address token);
+
+    /**
+     * @notice Event emitted when the random word of a bet is recorded for deferred settlement
+     * @param requestId The Chainlink VRF request ID of the bet
+     * @param player The address of the player who made the bet
+     */
+    event RandomnessRecorded(uint256 indexed requestId, address indexed player);
+
+    /// @notice Event emitted when the subscription ID is updated
+    event SubscriptionIdSet(uint256 subscriptionId);
+    /// @notice Event emitted when the key hash is updated
+    event KeyHashSet(bytes32 keyHash);
+    /// @notice Event emitted when the callback gas limit is updated
+    event CallbackGasLimitSet(uint32 callbackGasLimit);
+    /// @notice Event emitted when the number of request confirmations is updated
+    event RequestConfirmationsSet(uint16 requestConfirmations);
+    /// @notice Event emitted when the VRF billing token is switched between LINK and native tokens
+    event NativePaymentSet(bool nativePayment);
+
+    /**
+     * @notice Constructor that disables initializers
+     * @param _vrfCoordinator The address of the VRF Coordinator
+     */
+    constructor(address _vrfCoordinator) VRFConsumerBaseV2Plus(_vrfCoordinator) {
+        _disableInitializers();
+    }
+
+    /**
+     * @notice Returns the namespaced storage of the base contract
+     * @return $ The BaseVRFGameStorage struct
+     */
+    function _getBaseVRFGameStorage() private pure returns (BaseVRFGameStorage storage $) {
+        assembly {
+            $.slot := BASE_VRF_GAME_STORAGE_LOCATION
+        }
+    }
+
+    /**
+     * @notice Initializes the shared VRF and bet settings of the game
+     * @param _vrfCoordinator The address of the VRF Coordinator
+     * @param _subscriptionId The ID of the VRF subscription
+     * @param _keyHash The gas lane key hash
+     * @param _addressBook The address of the AddressBook contract
+     * @param _minBetAmount The minimum bet amount allowed in the game (in USD with 18 decimals)
+     * @param _maxBetAmount The maximum bet amount allowed in the game (in USD with 18 decimals)
+     * @param _houseEdge The house edge (in basis points, e.g., 1000 for 10%)
+     */
+    function __BaseVRFGame_init(
+        address _vrfCoordinator,
+        uint256 _subscriptionId,
+        bytes32 _keyHash,
+        address _addressBook,
+        uint256 _minBetAmount,
+        uint256 _maxBetAmount,
+        uint16 _houseEdge
+    ) internal onlyInitializing {
+        require(_vrfCoordinator != address(0), "_vrfCoordinator is zero!");
+        require(_addressBook != address(0), "_addressBook is zero!");
+        if (_houseEdge > DIVIDER / 2) revert InvalidHouseEdge();
+        if (_minBetAmount == 0) revert InvalidMinBetAmount();
+        if (_minBetAmount >= _maxBetAmount) revert MinGreaterThanMax();
+
+        s_vrfCoordinator = IVRFCoordinatorV2Plus(_vrfCoordinator);
+        subscriptionId = _subscriptionId;
+        keyHash = _keyHash;
+        callbackGasLimit = 300000;
+        requestConfirmations = 3;
+        refundTimeout = 1 hours;
+        maxExposureRatio = DIVIDER / 2;
+        addressBook = IAddressBook(_addressBook);
+        minBetAmount = _minBetAmount;
+        maxBetAmount = _maxBetAmount;
+        houseEdgeBps = _houseEdge;
+        houseEdge = uint8(_houseEdge / 100);
+        __UUPSUpgradeable_init();
+    }
+
+    /**
+     * @notice Migrates proxies deployed before basis point support to the current settings
+     * @dev Should be called through upgradeToAndCall by the owners multisig. Token overrides are migrated lazily in getHouseEdge
+     * @dev The bet limits of those proxies are stored in wei and are converted to USD at the current native token
+     *      price. The refund timeout and the exposure cap they never set get the defaults of new proxies. Bets pending
+     *      from before the migration can be refunded once the refund timeout has passed since it
+     * @dev Games deployed after the migration override it to revert with MigrationNotSupported
+     */
+    function initializeV2() external virtual reinitializer(2) {
+        _requireOwnersMultisig();
+        houseEdgeBps = uint16(houseEdge) * 100;
+
+        uint256 nativePrice = addressBook.tokensManager().getPrice(address(0));
+        minBetAmount = (minBetAmount * nativePrice) / PRICE_PRECISION;
+        maxBetAmount = (maxBetAmount * nativePrice) / PRICE_PRECISION;
+
+        if (refundTimeout == 0) refundTimeout = 1 hours;
+        if (maxExposureRatio == 0) maxExposureRatio = DIVIDER / 2;
+        _getBaseVRFGameStorage().v2InitializedAt = block.timestamp;
+    }
+
+    /**
+     * @notice Authorizes an upgrade to a new implementation
+     * @dev Only the owners multisig can upgrade the contract
+     * @param newImplementation Address of the new implementation (unused parameter required by UUPS)
+     */
+    function _authorizeUpgrade(address newImplementation) internal view override {
+        _requireOwnersMultisig();
+    }
+
+    /**
+     * @notice Reverts if the caller is not the owners multisig
+     * @dev Shared by the setters instead of repeating the AccessRoles call, which keeps the games under the contract size limit
+     */
+    function _requireOwnersMultisig() internal view {
+        addressBook.accessRoles().requireOwnersMultisig(msg.sender);
+    }
+
+    /**
+     * @notice Receive function to allow the contract to receive ETH
+     */
+    receive() external payable {}
+
+    /**
+     * @notice Fallback function to allow the contract to receive ETH
+     */
+    fallback() external payable {}
+
+    /**
+     * @notice Checks that the game accepts bets in a token, takes the stake from the caller and validates its amount
+     * @param token The address of the token to bet with (use address(0) for ETH)
+     * @param betAmount The amount of tokens to bet (ignored for native token, use msg.value instead)
+     * @return actualBetAmount The amount of tokens received
+     */
+    function _acceptBet(address token, uint256 betAmount) internal returns (uint256 actualBetAmount) {
+        require(
+            addressBook.gameManager().isGameExist(address(this)),
+            "Game doesn't exist in GameManager"
+        );
+        addressBook.pauseManager().requireNotPaused();
+        addressBook.tokensManager().requireTokenSupport(token);
+
+        actualBetAmount = _collectBet(token, betAmount);
+
+        if (getPendingBetCount(msg.sender) >= getMaxPendingBets()) revert RollInProgress();
+        _validateBet(msg.sender, token, actualBetAmount);
+        _requireValidBetAmount(token, actualBetAmount);
+    }
+
+    /**
+     * @notice Takes the bet stake from the caller
+     * @param token The address of the token to bet with (use address(0) for ETH)
+     * @param betAmount The amount of tokens to bet (ignored for native token, use msg.value instead)
+     * @return actualBetAmount The amount of tokens received
+     */
+    function _collectBet(address token, uint256 betAmount) internal returns (uint256 actualBetAmount) {
+        if (token == address(0)) {
+            actualBetAmount = msg.value;
+            require(
+                betAmount == 0 || betAmount == msg.value,
+                "Bet amount must match msg.value for native token"
+            );
+        } else {
+            actualBetAmount = betAmount;
+            require(msg.value == 0, "Cannot send ETH when betting with tokens");
+            IERC20(token).safeTransferFrom(msg.sender, address(this), actualBetAmount);
+        }
+    }
+
+    /**
+     * @notice Game specific checks of a new bet, run before its amount is checked against the bet limits
+     * @dev Bet parameters are validated by the games themselves, this hook covers the player state
+     * @param player The address of the player placing the bet
+     * @param token The address of the token used for the bet (address(0) for ETH)
+     * @param amount The amount of tokens bet
+     */
+    function _validateBet(address player, address token, uint256 amount) internal view virtual {}
+
+    /**
+     * @notice Reserves the potential payout of a validated bet and requests randomness for it
+     * @dev Registers the request and a new pending bet ID for the caller and sets the referrer in the ReferralProgram
+     * @param token The address of the token used for the bet (address(0) for ETH)
+     * @param potentialPayout The potential payout of the bet
+     * @param referrer The address of the referrer (use address(0) for no referrer)
+     * @return requestId The ID of the Chainlink VRF request associated with the bet
+     */
+    function _placeBet(address token, uint256 potentialPayout, address referrer) internal returns (uint256 requestId) {
+        _reserveLiability(token, potentialPayout);
+
+        BaseVRFGameStorage storage $ = _getBaseVRFGameStorage();
+        uint256 betId = ++$.betCount;
+
+        requestId = _requestBetRandomness(betId);
+
+        $.betEntries[betId] = BetEntry({player: msg.sender, requestId: requestId});
+        $.playerBetIds[msg.sender].push(betId);
+
+        if (referrer != address(0)) addressBook.referralProgram().setReferral(msg.sender, referrer);
+    }
+
+    /**
+     * @notice Requests randomness for a bet of the caller and registers the request as pending
+     * @dev Games settling a bet over several requests, like the Mines reveals, call this for each request after the first
+     * @param betId The ID of the bet
+     * @return requestId The ID of the Chainlink VRF request
+     */
+    function _requestBetRandomness(uint256 betId) internal returns (uint256 requestId) {
+        requestId = _requestRandomWords();
+
+        requestIdToSender[requestId] = msg.sender;
+        latestRequestIds[msg.sender] = requestId;
+
+        BaseVRFGameStorage storage $ = _getBaseVRFGameStorage();
+        $.requestIdToBetId[requestId] = betId;
+        $.pendingBetCounts[msg.sender]++;
+    }
+
+    /**
+     * @notice Requests a single random word for the bet of the caller
+     * @dev Goes through the randomness provider of the AddressBook if one is set, otherwise to the VRF Coordinator.
+     * The provider is stored with the request so that replacing it in the AddressBook does not strand pending requests
+     * @return requestId The ID of the request
+     */
+    function _requestRandomWords() internal returns (uint256 requestId) {
+        IRandomnessProvider randomnessProvider = addressBook.randomnessProvider();
+        if (address(randomnessProvider) != address(0)) {
+            requestId = randomnessProvider.requestRandomness(msg.sender, 1);
+            _getBaseVRFGameStorage().requestProviders[requestId] = randomnessProvider;
+            return requestId;
+        }
+
+        VRFV2PlusClient.RandomWordsRequest memory request = VRFV2PlusClient.RandomWordsRequest({
+            keyHash: keyHash,
+            subId: subscriptionId,
+            requestConfirmations: requestConfirmations,
+            callbackGasLimit: callbackGasLimit,
+            numWords: 1,
+            extraArgs: VRFV2PlusClient._argsToBytes(
+                VRFV2PlusClient.ExtraArgsV1({nativePayment: _getBaseVRFGameStorage().nativePayment})
+            )
+        });
+
+        return s_vrfCoordinator.requestRandomWords(request);
+    }
+
+    /**
+     * @notice Callback function used by Chainlink VRF to deliver random words
+     * @param requestId The ID of the request
+     * @param randomWords The random words generated by Chainlink VRF
+     */
+    function fulfillRandomWords(
+        uint256 requestId,
+        uint256[] calldata randomWords
+    ) internal override {
+        IRandomnessProvider randomnessProvider = _getBaseVRFGameStorage().requestProviders[requestId];
+        if (address(randomnessProvider) != address(0)) revert OnlyRandomnessProvider();
+        _fulfill(requestId, randomWords[0]);
+    }
+
+    /**
+     * @notice Callback function used by randomness providers to deliver random words
+     * @dev Only the provider the request was sent to can fulfill it
+     * @param requestId The ID of the request
+     * @param randomWords The random words generated by the randomness provider
+     */
+    function fulfillRandomness(uint256 requestId, uint256[] calldata randomWords) external override {
+        IRandomnessProvider randomnessProvider = _getBaseVRFGameStorage().requestProviders[requestId];
+        if (msg.sender != address(randomnessProvider)) revert OnlyRandomnessProvider();
+        _fulfill(requestId, randomWords[0]);
+    }
+
+    /**
+     * @notice Settles the bet of a fulfilled request, or only records the random word while settlement is deferred
+     * @dev Games whose requests are not bets, like the Lottery draws, override this to consume the random word
+     * @param requestId The ID of the request
+     * @param randomWord The random word delivered for the bet
+     */
+    function _fulfill(uint256 requestId, uint256 randomWord) internal virtual {
+        address player = requestIdToSender[requestId];
+
+        // The request was cancelled and its bet refunded
+        if (player == address(0)) return;
+
+        BaseVRFGameStorage storage $ = _getBaseVRFGameStorage();
+        if ($.deferredSettlement) {
+            $.awaitingSettlement[requestId] = true;
+            $.recordedRandomWords[requestId] = randomWord;
+            emit RandomnessRecorded(requestId, player);
+            return;
+        }
+
+        _settle(requestId, player, randomWord);
+    }
+
+    /**
+     * @notice Settles a bet whose random word was recorded by a deferred VRF callback
+     * @dev Can be called by anyone, e.g. the player or a keeper
+     * @param requestId The Chainlink VRF request ID of the bet
+     */
+    function settle(uint256 requestId) external {
+        BaseVRFGameStorage storage $ = _getBaseVRFGameStorage();
+        if (!$.awaitingSettlement[requestId]) revert SettlementNotAvailable();
+
+        uint256 randomWord = $.recordedRandomWords[requestId];
+        delete $.awaitingSettlement[requestId];
+        delete $.recordedRandomWords[requestId];
+
+        _settle(requestId, requestIdToSender[requestId], randomWord);
+    }
+
+    /**
+     * @notice Settles a bet and reports the wager to the ReferralProgram and the jackpot pool
+     * @dev Nothing is reported when the bet returns no amount, i.e. the wager was reported by an earlier request.
+     * A failed report does not revert the settlement, e.g. once the game is paused or removed from the GameManager
+     * @param requestId The Chainlink VRF request ID of the bet
+     * @param player The address of the player who made the bet
+     * @param randomWord The random word generated by Chainlink VRF
+     */
+    function _settle(uint256 requestId, address player, uint256 randomWord) private {
+        (uint256 amount, address token) = _settleBet(requestId, player, randomWord);
+        _closeBet(requestId, player);
+
+        if (amount == 0) return;
+
+        IReferralProgram referralProgram = addressBook.referralProgram();
+        try referralProgram.addReward(player, amount, token) {} catch {
+            emit WagerNotReported(address(referralProgram), player, amount, token);
+        }
+        _contributeToJackpot(player, amount, token, randomWord);
+    }
+
+    /**
+     * @notice Settles the bet of a fulfilled request: derives the result, releases the liability and pays out a win
+     * @dev Wins must be paid out with _payOut so a recipient that rejects the transfer cannot revert the callback
+     * @param requestId The Chainlink VRF request ID of the bet
+     * @param player The address of the player who made the bet
+     * @param randomWord The random word generated by Chainlink VRF
+     * @return amount The amount of tokens wagered (0 if already reported for an earlier request of the bet)
+     * @return token The address of the token used for the bet (address(0) for ETH)
+     */
+    function _settleBet(
+        uint256 requestId,
+        address player,
+        uint256 randomWord
+    ) internal virtual returns (uint256 amount, address token);
+
+    /**
+     * @notice Removes a settled or refunded bet from the pending bets of the player
+     * @dev Bets placed before bet IDs were introduced were never counted as pending
+     * @param requestId The Chainlink VRF request ID of the bet
+     * @param player The address of the player who made the bet
+     */
+    function _closeBet(uint256 requestId, address player) internal {
+        BaseVRFGameStorage storage $ = _getBaseVRFGameStorage();
+        if ($.requestIdToBetId[requestId] != 0) $.pendingBetCounts[player]--;
+    }
+
+    /**
+     * @notice Sends tokens held by the game to an account
+     * @param to The address of the recipient
+     * @param token The address of the token (address(0) for ETH)
+     * @param amount The amount of tokens to send
+     */
+    function _transferOut(address to, address token, uint256 amount) internal {
+        if (token == address(0)) {
+            payable(to).sendValue(amount);
+        } else {
+            IERC20(token).safeTransfer(to, amount);
+        }
+    }
+
+    /**
+     * @notice Pays out winnings or refunds without letting the recipient revert the VRF callback or a batch of refunds
+     * @dev If the transfer fails the amount is credited to the player, who can withdraw it with claimWinnings
+     * @param to The address of the player
+     * @param token The address of the token (address(0) for ETH)
+     * @param amount The amount of tokens to pay out
+     */
+    function _payOut(address to, address token, uint256 amount) internal {
+        bool success;
+        if (token == address(0)) {
+            // Return data is not copied so the recipient cannot make the callback run out of gas
+            assembly {
+                success := call(PAYOUT_GAS_LIMIT, to, amount, 0, 0, 0, 0)
+            }
+        } else {
+            success = IERC20(token).trySafeTransfer(to, amount);
+        }
+        if (success) return;
+
+        BaseVRFGameStorage storage $ = _getBaseVRFGameStorage();
+        $.claimableWinnings[to][token] += amount;
+        $.unclaimedWinnings[token] += amount;
+
+        emit WinningsCredited(to, token, amount);
+    }
+
+    /**
+     * @notice Withdraws the caller's winnings that could not be paid out during settlement
+     * @param token The address of the token of the winnings (address(0) for ETH)
+     */
+    function claimWinnings(address token) external {
+        BaseVRFGameStorage storage $ = _getBaseVRFGameStorage();
+        uint256 amount = $.claimableWinnings[msg.sender][token];
+        if (amount == 0) revert NothingToClaim();
+
+        delete $.claimableWinnings[msg.sender][token];
+        $.unclaimedWinnings[token] -= amount;
+
+        _transferOut(msg.sender, token, amount);
+
+        emit WinningsClaimed(msg.sender, token, amount);
+    }
+
+    /**
+     * @notice Get the winnings of a player waiting to be claimed
+     * @param player The address of the player
+     * @param token The address of the token (address(0) for ETH)
+     * @return The amount of tokens the player can claim
+     */
+    function getClaimableWinnings(address player, address token) external view returns (uint256) {
+        return _getBaseVRFGameStorage().claimableWinnings[player][token];
+    }
+
+    /**
+     * @notice Reports a wager to the jackpot pool along with its contribution
+     * @dev Skipped while no jackpot pool is set in the AddressBook. If the pool fails to price or rejects the wager
+     * the contribution stays in the game
+     * @param player The address of the player who made the wager
+     * @param amount The amount of tokens wagered
+     * @param token The address of the token used for the wager (address(0) for ETH)
+     * @param randomWord The VRF word the wager was settled with
+     */
+    function _contributeToJackpot(address player, uint256 amount, address token, uint256 randomWord) internal {
+        IJackpotPool jackpotPool = addressBook.jackpotPool();
+        if (address(jackpotPool) == address(0)) return;
+
+        uint256 contribution;
+        try jackpotPool.calculateContribution(amount) returns (uint256 calculatedContribution) {
+            contribution = calculatedContribution;
+        } catch {
+            emit WagerNotReported(address(jackpotPool), player, amount, token);
+            return;
+        }
+
+        if (token != address(0)) IERC20(token).forceApprove(address(jackpotPool), contribution);
+
+        try jackpotPool.contribute{value: token == address(0) ? contribution : 0}(player, amount, token, randomWord) {
+        } catch {
+            if (token != address(0)) IERC20(token).forceApprove(address(jackpotPool), 0);
+            emit WagerNotReported(address(jackpotPool), player, amount, token);
+        }
+    }
+
+    /**
+     * @notice Refunds the caller's latest bet if its VRF request has not been fulfilled in time
+     * @dev Can be called once refundTimeout has passed since the bet was placed
+     */
+    function refundBet() external {
+        _refund(latestRequestIds[msg.sender], msg.sender);
+    }
+
+    /**
+     * @notice Refunds one of the caller's pending bets if its VRF request has not been fulfilled in time
+     * @dev Can be called once refundTimeout has passed since the bet was placed
+     * @param requestId The Chainlink VRF request ID of the bet
+     */
+    function refundBet(uint256 requestId) external {
+        _refund(requestId, msg.sender);
+    }
+
+    /**
+     * @notice Cancels stale VRF requests and refunds their bets (administrators only)
+     * @dev Each request must be pending for at least refundTimeout. A refund the player cannot receive is credited
+     *      for claiming, so one player cannot block the cancellation of the others
+     * @param requestIds The Chainlink VRF request IDs to cancel
+     */
+    function cancelStaleRequests(uint256[] calldata requestIds) external {
+        addressBook.accessRoles().requireAdministrator(msg.sender);
+        for (uint256 i; i < requestIds.length; ++i) {
+            _refund(requestIds[i], requestIdToSender[requestIds[i]]);
+        }
+    }
+
+    /**
+     * @notice Refunds a pending bet of a player and removes it from their pending bets
+     * @param requestId The Chainlink VRF request ID of the bet
+     * @param player The address of the player who made the bet
+     */
+    function _refund(uint256 requestId, address player) private {
+        if (player == address(0) || requestIdToSender[requestId] != player) revert RefundNotAvailable();
+        // The outcome of a bet is known once its random word is recorded or determined by the randomness provider
+        BaseVRFGameStorage storage $ = _getBaseVRFGameStorage();
+        if ($.awaitingSettlement[requestId]) revert RefundNotAvailable();
+        IRandomnessProvider randomnessProvider = $.requestProviders[requestId];
+        if (address(randomnessProvider) != address(0) && randomnessProvider.isFulfilled(requestId)) {
+            revert RefundNotAvailable();
+        }
+        _refundBet(requestId);
+        _closeBet(requestId, player);
+    }
+
+    /**
+     * @notice Returns the stake of a pending bet to the player in the original token with _payOut
+     * @dev Must revert with RefundNotAvailable if the bet is not pending for at least refundTimeout
+     * @param requestId The Chainlink VRF request ID of the bet
+     */
+    function _refundBet(uint256 requestId) internal virtual;
+
+    /**
+     * @notice Get the total number of bets placed in the game
+     * @dev Bets placed before bet history was introduced are not counted
+     * @return The number of bets, which is also the ID of the latest bet
+     */
+    function getBetCount() external view returns (uint256) {
+        return _getBaseVRFGameStorage().betCount;
+    }
+
+    /**
+     * @notice Get the number of bets placed by a player
+     * @param player The address of the player
+     * @return The number of bets placed by the player
+     */
+    function getPlayerBetCount(address player) external view returns (uint256) {
+        return _getBaseVRFGameStorage().playerBetIds[player].length;
+    }
+
+    /**
+     * @notice Get a page of the bet IDs of a player, in the order the bets were placed
+     * @param player The address of the player
+     * @param offset The index of the first bet ID to return
+     * @param limit The maximum number of bet IDs to return
+     * @return betIds The bet IDs (empty if offset is past the last bet)
+     */
+    function getPlayerBetIds(
+        address player,
+        uint256 offset,
+        uint256 limit
+    ) public view returns (uint256[] memory betIds) {
+        uint256[] storage playerBetIds = _getBaseVRFGameStorage().playerBetIds[player];
+        if (offset >= playerBetIds.length) return betIds;
+
+        uint256 end = limit > playerBetIds.length - offset ? playerBetIds.length : offset + limit;
+        betIds = new uint256[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            betIds[i - offset] = playerBetIds[i];
+        }
+    }
+
+    /**
+     * @notice Get the number of bets of a player awaiting fulfillment or refund
+     * @param player The address of the player
+     * @return The number of pending bets of the player
+     */
+    function getPendingBetCount(address player) public view returns (uint256) {
+        return _getBaseVRFGameStorage().pendingBetCounts[player];
+    }
+
+    /**
+     * @notice Get the maximum number of pending bets per player
+     * @return The maximum number of pending bets per player (1 until set by the owners multisig)
+     */
+    function getMaxPendingBets() public view returns (uint256) {
+        uint256 maxPendingBets = _getBaseVRFGameStorage().maxPendingBets;
+        return maxPendingBets == 0 ? 1 : maxPendingBets;
+    }
+
+    /**
+     * @notice Get the Chainlink VRF request settings of the game
+     * @return The VRFConfig struct
+     */
+    function getVRFConfig() external view returns (VRFConfig memory) {
+        return VRFConfig({
+            coordinator: address(s_vrfCoordinator),
+            subscriptionId: subscriptionId,
+            keyHash: keyHash,
+            callbackGasLimit: callbackGasLimit,
+            requestConfirmations: requestConfirmations,
+            nativePayment: _getBaseVRFGameStorage().nativePayment
+        });
+    }
+
+    /**
+     * @notice Get whether the VRF callback only records random words, leaving bets to be settled with settle
+     * @return Whether settlement is deferred
+     */
+    function isSettlementDeferred() external view returns (bool) {
+        return _getBaseVRFGameStorage().deferredSettlement;
+    }
+
+    /**
+     * @notice Get whether a bet has a recorded random word and can be settled with settle
+     * @param requestId The Chainlink VRF request ID of the bet
+     * @return Whether the bet is awaiting settlement
+     */
+    function isAwaitingSettlement(uint256 requestId) external view returns (bool) {
+        return _getBaseVRFGameStorage().awaitingSettlement[requestId];
+    }
+
+    /**
+     * @notice Get the ID of the bet associated with a Chainlink VRF request
+     * @param requestId The Chainlink VRF request ID
+     * @return The bet ID (0 if the request has no bet ID)
+     */
+    function getBetIdByRequestId(uint256 requestId) public view returns (uint256) {
+        return _getBaseVRFGameStorage().requestIdToBetId[requestId];
+    }
+
+    /**
+     * @notice Returns the player and the Chainlink VRF request of a bet
+     * @dev Reverts with BetNotFound if the bet ID does not exist
+     * @param betId The ID of the bet
+     * @return entry The player and the Chainlink VRF request ID of the bet
+     */
+    function _getBetEntry(uint256 betId) internal view returns (BetEntry memory entry) {
+        entry = _getBaseVRFGameStorage().betEntries[betId];
+        if (entry.player == address(0)) revert BetNotFound();
+    }
+
+    /**
+     * @notice Get the effective house edge for a token
+     * @dev Returns the token override if set (including legacy percentage overrides), otherwise the global house edge
+     * @param token The address of the token (address(0) for ETH)
+     * @return The house edge in basis points
+     */
+    function getHouseEdge(address token) public view returns (uint16) {
+        TokenSettings storage settings = tokenSettings[token];
+        if (settings.houseEdgeBps != 0) return settings.houseEdgeBps;
+        if (settings.houseEdge != 0) return uint16(settings.houseEdge) * 100;
+        return houseEdgeBps;
+    }
+
+    /**
+     * @notice Get the effective bet limits for a token
+     * @dev Converts the USD denominated limits (token overrides or global values) with the TokensManager prices
+     * @param token The address of the token (address(0) for ETH)
+     * @return minAmount The minimum bet amount in the token
+     * @return maxAmount The maximum bet amount in the token
+     */
+    function getBetLimits(address token) public view returns (uint256 minAmount, uint256 maxAmount) {
+        TokenSettings memory settings = tokenSettings[token];
+        ITokensManager tokensManager = addressBook.tokensManager();
+        minAmount = tokensManager.usdAmountToToken(
+            settings.minBetAmount != 0 ? settings.minBetAmount : minBetAmount,
+            token
+        );
+        maxAmount = tokensManager.usdAmountToToken(
+            settings.maxBetAmount != 0 ? settings.maxBetAmount : maxBetAmount,
+            token
+        );
+    }
+
+    /**
+     * @notice Checks that a bet amount is within the effective bet limits for a token
+     * @dev Reverts with InvalidBetAmount if the amount is outside the limits
+     * @param token The address of the token (address(0) for ETH)
+     * @param amount The bet amount in the token
+     */
+    function _requireValidBetAmount(address token, uint256 amount) internal view {
+        (uint256 minAmount, uint256 maxAmount) = getBetLimits(token);
+        if (amount < minAmount || amount > maxAmount) revert InvalidBetAmount();
+    }
+
+    /**
+     * @notice Get the current exposure of the game for a token
+     * @dev The allowed liability is the maxExposureRatio share of the token balance held by the game, excluding unclaimed winnings
+     * @param token The address of the token (address(0) for ETH)
+     * @return liability The total potential payout of pending bets
+     * @return maxLiability The maximum total potential payout allowed by the current bankroll
+     */
+    function getExposure(address token) public view returns (uint256 liability, uint256 maxLiability) {
+        liability = liabilities[token];
+        maxLiability = token == address(0) ? address(this).balance : IERC20(token).balanceOf(address(this));
+        maxLiability -= _getBaseVRFGameStorage().unclaimedWinnings[token];
+        if (maxExposureRatio != 0) maxLiability = (maxLiability * maxExposureRatio) / DIVIDER;
+    }
+
+    /**
+     * @notice Reserves the potential payout of a new bet
+     * @dev Reverts if the total liability would exceed the allowed share of the bankroll
+     * @param token The address of the token used for the bet (address(0) for ETH)
+     * @param amount The potential payout of the bet
+     */
+    function _reserveLiability(address token, uint256 amount) internal {
+        (uint256 liability, uint256 maxLiability) = getExposure(token);
+        if (liability + amount > maxLiability) revert ExposureLimitExceeded();
+        liabilities[token] = liability + amount;
+    }
+
+    /**
+     * @notice Releases the potential payout of a bet that is no longer pending
+     * @dev Bets placed before liabilities were tracked are not included, so the liability is clamped at zero
+     * @param token The address of the token used for the bet (address(0) for ETH)
+     * @param amount The potential payout of the bet
+     */
+    function _releaseLiability(address token, uint256 amount) internal {
+        uint256 liability = liabilities[token];
+        liabilities[token] = liability > amount ? liability - amount : 0;
+    }
+
+    /**
+     * @notice Returns the time after which a pending bet can be refunded
+     * @dev Bets placed before initializeV2 have no creation time, their refund timeout runs from the migration instead
+     * @param createdAt The time the bet was placed at (0 for bets placed before initializeV2)
+     * @return The time the refund timeout of the bet ends at
+     */
+    function _refundableAt(uint256 createdAt) internal view returns (uint256) {
+        if (createdAt == 0) createdAt = _getBaseVRFGameStorage().v2InitializedAt;
+        return createdAt + refundTimeout;
+    }
+
+    /**
+     * @notice Get the contract balance
+     * @dev Returns the current balance of the contract
+     * @return The contract balance
+     */
+    function getContractBalance() external view returns (uint256) {
+        return address(this).balance;
+    }
+
+    /**
+     * @notice Withdraw funds (native or ERC20) from the contract to treasury (administrators only)
+     * @dev Allows the administrators to withdraw funds from the contract to treasury
+     * @dev Funds reserved for the potential payouts of pending bets and for unclaimed winnings cannot be withdrawn
+     * @param _token The address of the token to withdraw (use address(0) for ETH)
+     * @param _amount The amount to withdraw
+     */
+    function withdrawToTreasury(address _token, uint256 _amount) external {
+        addressBook.accessRoles().requireAdministrator(msg.sender);
+        require(_amount > 0, "_amount is zero!");
+
+        if (_token != address(0)) addressBook.tokensManager().requireTokenSupport(_token);
+
+        uint256 reserved = liabilities[_token] + _getBaseVRFGameStorage().unclaimedWinnings[_token];
+
+        if (_token == address(0)) {
+            if (address(this).balance <= _amount + reserved) revert InsufficientContractBalance();
+            Address.sendValue(payable(addressBook.treasury()), _amount);
+        } else {
+            IERC20 token = IERC20(_token);
+            if (token.balanceOf(address(this)) <= _amount + reserved) revert InsufficientContractBalance();
+            token.safeTransfer(addressBook.treasury(), _amount);
+        }
+    }
+
+    /**
+     * @notice Sets the minimum bet amount (owners multisig only)
+     * @dev Allows the owners multisig to update the minimum bet amount
+     * @param newMinBetAmount The new minimum bet amount (in USD with 18 decimals)
+     */
+    function setMinBetAmount(uint256 newMinBetAmount) external {
+        _requireOwnersMultisig();
+        if (newMinBetAmount == 0) revert InvalidMinBetAmount();
+        if (newMinBetAmount >= maxBetAmount) revert MinGreaterThanMax();
+        minBetAmount = newMinBetAmount;
+    }
+
+    /**
+     * @notice Sets the maximum bet amount (owners multisig only)
+     * @dev Allows the owners multisig to update the maximum bet amount
+     * @param newMaxBetAmount The new maximum bet amount (in USD with 18 decimals)
+     */
+    function setMaxBetAmount(uint256 newMaxBetAmount) external {
+        _requireOwnersMultisig();
+        if (newMaxBetAmount <= minBetAmount) revert MinGreaterThanMax();
+        maxBetAmount = newMaxBetAmount;
+    }
+
+    /**
+     * @notice Sets the house edge (owners multisig only)
+     * @dev Allows the owners multisig to update the house edge, the whole percent houseEdge is kept in sync
+     * @param newHouseEdge The new house edge (in basis points, up to 5000)
+     */
+    function setHouseEdge(uint16 newHouseEdge) public virtual {
+        _requireOwnersMultisig();
+        if (newHouseEdge > DIVIDER / 2) revert InvalidHouseEdge();
+        houseEdgeBps = newHouseEdge;
+        houseEdge = uint8(newHouseEdge / 100);
+    }
+
+    /**
+     * @notice Sets the bet amount overrides for a token (owners multisig only)
+     * @dev Allows the owners multisig to set per-token bet limits, 0 falls back to the global value
+     * @param token The address of the token (address(0) for ETH)
+     * @param newMinBetAmount The new minimum bet amount for the token (in USD with 18 decimals)
+     * @param newMaxBetAmount The new maximum bet amount for the token (in USD with 18 decimals)
+     */
+    function setTokenBetAmounts(address token, uint256 newMinBetAmount, uint256 newMaxBetAmount) external {
+        _requireOwnersMultisig();
+        addressBook.tokensManager().requireTokenSupport(token);
+
+        uint256 effectiveMin = newMinBetAmount != 0 ? newMinBetAmount : minBetAmount;
+        uint256 effectiveMax = newMaxBetAmount != 0 ? newMaxBetAmount : maxBetAmount;
+        if (effectiveMin >= effectiveMax) revert MinGreaterThanMax();
+
+        tokenSettings[token].minBetAmount = newMinBetAmount;
+        tokenSettings[token].maxBetAmount = newMaxBetAmount;
+    }
+
+    /**
+     * @notice Sets the house edge override for a token (owners multisig only)
+     * @dev Allows the owners multisig to set a per-token house edge, 0 falls back to the global value
+     * @param token The address of the token (address(0) for ETH)
+     * @param newHouseEdge The new house edge for the token (in basis points, up to 5000)
+     */
+    function setTokenHouseEdge(address token, uint16 newHouseEdge) public virtual {
+        _requireOwnersMultisig();
+        addressBook.tokensManager().requireTokenSupport(token);
+        if (newHouseEdge > DIVIDER / 2) revert InvalidHouseEdge();
+        tokenSettings[token].houseEdge = 0;
+        tokenSettings[token].houseEdgeBps = newHouseEdge;
+    }
+
+    /**
+     * @notice Sets the gas limit for Chainlink callback function
+     * @dev Allows the owners multisig to update the gas limit
+     * @param newGasLimit The new gas limit
+     */
+    function setCallbackGasLimit(uint32 newGasLimit) external {
+        _requireOwnersMultisig();
+        require(newGasLimit > 50000, "Gas limit too low");
+        callbackGasLimit = newGasLimit;
+        emit CallbackGasLimitSet(newGasLimit);
+    }
+
+    /**
+     * @notice Sets the Chainlink VRF key hash (owners multisig only)
+     * @dev Allows the owners multisig to switch to another gas lane
+     * @param newKeyHash The new key hash
+     */
+    function setKeyHash(bytes32 newKeyHash) external {
+        _requireOwnersMultisig();
+        if (newKeyHash == bytes32(0)) revert InvalidKeyHash();
+        keyHash = newKeyHash;
+        emit KeyHashSet(newKeyHash);
+    }
+
+    /**
+     * @notice Sets the number of confirmations required for Chainlink VRF (owners multisig only)
+     * @dev Allows the owners multisig to update the confirmations within the 3 to 200 range accepted by Chainlink
+     * @param newRequestConfirmations The new number of request confirmations
+     */
+    function setRequestConfirmations(uint16 newRequestConfirmations) external {
+        _requireOwnersMultisig();
+        if (newRequestConfirmations < 3 || newRequestConfirmations > 200) revert InvalidRequestConfirmations();
+        requestConfirmations = newRequestConfirmations;
+        emit RequestConfirmationsSet(newRequestConfirmations);
+    }
+
+    /**
+     * @notice Sets whether Chainlink VRF requests are paid for in native tokens (owners multisig only)
+     * @dev Allows the owners multisig to switch the billing of the subscription between LINK and native tokens
+     * @param newNativePayment Whether to pay in native tokens
+     */
+    function setNativePayment(bool newNativePayment) external {
+        _requireOwnersMultisig();
+        _getBaseVRFGameStorage().nativePayment = newNativePayment;
+        emit NativePaymentSet(newNativePayment);
+    }
+
+    /**
+     * @notice Sets the timeout after which an unfulfilled roll can be refunded (owners multisig only)
+     * @dev Allows the owners multisig to update the refund timeout
+     * @param newRefundTimeout The new refund timeout (in seconds)
+     */
+    function setRefundTimeout(uint256 newRefundTimeout) external {
+        _requireOwnersMultisig();
+        if (newRefundTimeout < 5 minutes) revert InvalidRefundTimeout();
+        refundTimeout = newRefundTimeout;
+    }
+
+    /**
+     * @notice Sets the maximum number of pending bets per player (owners multisig only)
+     * @dev Allows the owners multisig to let players place new bets before their previous ones are fulfilled
+     * @param newMaxPendingBets The new maximum number of pending bets per player
+     */
+    function setMaxPendingBets(uint256 newMaxPendingBets) external {
+        _requireOwnersMultisig();
+        if (newMaxPendingBets == 0) revert InvalidMaxPendingBets();
+        _getBaseVRFGameStorage().maxPendingBets = newMaxPendingBets;
+    }
+
+    /**
+     * @notice Sets whether the VRF callback only records random words (owners multisig only)
+     * @dev Allows the owners multisig to keep the callback within its gas limit, bets are then settled with settle.
+     * Random words recorded before the mode is switched off can still be settled with settle
+     * @param deferred Whether to defer settlement
+     */
+    function setDeferredSettlement(bool deferred) external {
+        _requireOwnersMultisig();
+        _getBaseVRFGameStorage().deferredSettlement = deferred;
+    }
+
+    /**
+     * @notice Sets the maximum share of the bankroll pending bets can be liable for (owners multisig only)
+     * @dev Allows the owners multisig to update the max exposure ratio
+     * @param newMaxExposureRatio The new max exposure ratio (in basis points, e.g., 5000 = 50%)
+     */
+    function setMaxExposureRatio(uint256 newMaxExposureRatio) external {
+        _requireOwnersMultisig();
+        if (newMaxExposureRatio == 0 || newMaxExposureRatio > DIVIDER) revert InvalidMaxExposureRatio();
+        maxExposureRatio = newMaxExposureRatio;
+    }
+
+    /**
+     * @notice Updates the VRF Coordinator and/or subscription ID (owners multisig only)
+     * @dev Allows the owners multisig to update the VRF Coordinator address and subscription ID in one call
+     * @param newCoordinator The address of the new VRF Coordinator (set to address(0) to leave unchanged)
+     * @param newSubscriptionId The new subscription ID (set to 0 to leave unchanged)
+     */
+    function updateVRFSettings(address newCoordinator, uint256 newSubscriptionId) external {
+        _requireOwnersMultisig();
+
+        if (newCoordinator != address(0)) {
+            s_vrfCoordinator = IVRFCoordinatorV2Plus(newCoordinator);
+            emit CoordinatorSet(newCoordinator);
+        }
+
+        if (newSubscriptionId > 0) {
+            subscriptionId = newSubscriptionId;
+            emit SubscriptionIdSet(newSubscriptionId);
+        }
+    }
+}
@@ -0,0 +1,337 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import {BaseVRFGame} from "./BaseVRFGame.sol";
+
+/**
+ * @title Coinflip Contract
+ * @notice A contract that provides a coin flip game using Chainlink VRF v2.5 for randomness
+ * @dev Players bet on heads or tails, a winning bet pays out 2x minus the house edge
+ * @dev Implements UUPS upgradeable pattern
+ */
+contract Coinflip is BaseVRFGame {
+    /**
+     * @notice Enum representing the sides of the coin
+     */
+    enum Side {
+        /// @notice Heads side of the coin
+        HEADS,
+        /// @notice Tails side of the coin
+        TAILS
+    }
+
+    /**
+     * @notice Struct representing a bet in the coinflip game
+     * @dev Stores all information about a player's bet
+     */
+    struct Bet {
+        /// @notice Amount of tokens bet
+        uint256 amount;
+        /// @notice Side of the coin the player bet on
+        Side side;
+        /// @notice Side of the coin the flip landed on (valid once the bet is settled)
+        Side result;
+        /// @notice Whether the bet has been settled
+        bool settled;
+        /// @notice Whether the bet was won
+        bool won;
+        /// @notice Potential payout amount if the bet is won
+        uint256 payout;
+        /// @notice Address of the token used for the bet (address(0) for ETH)
+        address token;
+        /// @notice Timestamp of the block in which the bet was placed
+        uint256 createdAt;
+        /// @notice Whether the stake was refunded because the VRF request was not fulfilled in time
+        bool refunded;
+    }
+
+    /**
+     * @notice Struct representing a bet in the bet history
+     */
+    struct BetRecord {
+        /// @notice ID of the bet
+        uint256 betId;
+        /// @notice Chainlink VRF request ID of the bet
+        uint256 requestId;
+        /// @notice Address of the player who made the bet
+        address player;
+        /// @notice The bet, including its result once settled
+        Bet bet;
+    }
+
+    /// @notice Mapping from Chainlink VRF request ID to the associated bet
+    mapping(uint256 => Bet) private requestIdToBet;
+
+    /**
+     * @notice Event emitted when a coin flip is requested
+     * @param requestId The Chainlink VRF request ID
+     * @param player The address of the player making the flip
+     * @param betAmount The amount of tokens bet
+     * @param side The side of the coin the player bet on
+     * @param token The address of the token used for the bet (address(0) for ETH)
+     */
+    event CoinflipRequested(
+        uint256 indexed requestId,
+        address indexed player,
+        uint256 betAmount,
+        Side side,
+        address token
+    );
+
+    /**
+     * @notice Event emitted when a coin flip is fulfilled by Chainlink VRF
+     * @param requestId The Chainlink VRF request ID
+     * @param player The address of the player who made the flip
+     * @param result The side of the coin the flip landed on
+     * @param won Whether the player won the bet
+     * @param payout The amount paid out to the player (0 if lost)
+     * @param token The address of the token used for the bet (address(0) for ETH)
+     */
+    event CoinflipFulfilled(
+        uint256 indexed requestId,
+        address indexed player,
+        Side result,
+        bool won,
+        uint256 payout,
+        address token
+    );
+
+    /**
+     * @notice Event emitted when a bet is settled
+     * @param player The address of the player who made the bet
+     * @param amount The amount of tokens bet
+     * @param side The side of the coin the player bet on
+     * @param result The side of the coin the flip landed on
+     * @param won Whether the player won the bet
+     * @param payout The amount paid out to the player (0 if lost)
+     * @param token The address of the token used for the bet (address(0) for ETH)
+     */
+    event BetSettled(
+        address indexed player,
+        uint256 amount,
+        Side side,
+        Side result,
+        bool won,
+        uint256 payout,
+        address token
+    );
+
+    /**
+     * @notice Constructor that disables initializers
+     * @param _vrfCoordinator The address of the VRF Coordinator
+     */
+    constructor(address _vrfCoordinator) BaseVRFGame(_vrfCoordinator) {}
+
+    /**
+     * @notice Initializes the Coinflip contract with Chainlink VRF parameters
+     * @param _vrfCoordinator The address of the VRF Coordinator
+     * @param _subscriptionId The ID of the VRF subscription
+     * @param _keyHash The gas lane key hash
+     * @param _addressBook The address of the AddressBook contract
+     * @param _minBetAmount The minimum bet amount allowed in the game (in USD with 18 decimals)
+     * @param _maxBetAmount The maximum bet amount allowed in the game (in USD with 18 decimals)
+     * @param _houseEdge The house edge (in basis points, e.g., 500 for 5%)
+     */
+    function initialize(
+        address _vrfCoordinator,
+        uint256 _subscriptionId,
+        bytes32 _keyHash,
+        address _addressBook,
+        uint256 _minBetAmount,
+        uint256 _maxBetAmount,
+        uint16 _houseEdge
+    ) external initializer {
+        __BaseVRFGame_init(
+            _vrfCoordinator,
+            _subscriptionId,
+            _keyHash,
+            _addressBook,
+            _minBetAmount,
+            _maxBetAmount,
+            _houseEdge
+        );
+    }
+
+    /**
+     * @notice Not used, Coinflip was deployed after the house edge and bet limit migration
+     * @dev Always reverts, the bet limits of Coinflip are stored in USD and must not be converted again
+     */
+    function initializeV2() external pure override {
+        revert MigrationNotSupported();
+    }
+
+    /**
+     * @notice Flips the coin with either a native token (ETH) or ERC20 token bet and requests randomness from Chainlink VRF
+     * @dev Validates bet parameters, stores the bet, and sends a VRF request
+     * @param side The side of the coin to bet on: HEADS or TAILS
+     * @param token The address of the token to bet with (use address(0) for ETH)
+     * @param betAmount The amount of tokens to bet (ignored for native token, use msg.value instead)
+     * @param referrer The address of the referrer (use address(0) for no referrer)
+     * @return requestId The ID of the Chainlink VRF request associated with this flip
+     */
+    function flip(
+        Side side,
+        address token,
+        uint256 betAmount,
+        address referrer
+    ) public payable returns (uint256) {
+        uint256 actualBetAmount = _acceptBet(token, betAmount);
+
+        uint256 payout = calculatePayout(actualBetAmount, token);
+
+        Bet memory bet = Bet({
+            amount: actualBetAmount,
+            side: side,
+            result: Side.HEADS,
+            settled: false,
+            won: false,
+            payout: payout,
+            token: token,
+            createdAt: block.timestamp,
+            refunded: false
+        });
+
+        uint256 requestId = _placeBet(token, payout, referrer);
+
+        requestIdToBet[requestId] = bet;
+
+        emit CoinflipRequested(requestId, msg.sender, actualBetAmount, side, token);
+
+        return requestId;
+    }
+
+    /**
+     * @notice Calculate the potential payout for a bet
+     * @dev A winning bet pays out 2x the bet amount minus the house edge of the bet token
+     * @param betAmount The amount of the bet
+     * @param token The address of the token used for the bet (address(0) for ETH)
+     * @return The potential payout amount
+     */
+    function calculatePayout(uint256 betAmount, address token) public view returns (uint256) {
+        return (betAmount * 2 * (DIVIDER - getHouseEdge(token))) / DIVIDER;
+    }
+
+    /**
+     * @notice Determines the side of the coin for a fulfilled request and settles the bet
+     * @param requestId The Chainlink VRF request ID of the bet
+     * @param player The address of the player who made the flip
+     * @param randomWord The random word generated by Chainlink VRF
+     * @return amount The amount of tokens wagered
+     * @return token The address of the token used for the bet (address(0) for ETH)
+     */
+    function _settleBet(
+        uint256 requestId,
+        address player,
+        uint256 randomWord
+    ) internal override returns (uint256 amount, address token) {
+        Bet storage bet = requestIdToBet[requestId];
+
+        Side result = randomWord % 2 == 0 ? Side.HEADS : Side.TAILS;
+        bool won = result == bet.side;
+
+        _releaseLiability(bet.token, bet.payout);
+
+        bet.result = result;
+        bet.settled = true;
+        bet.won = won;
+
+        if (won) _payOut(player, bet.token, bet.payout);
+
+        emit CoinflipFulfilled(requestId, player, result, won, won ? bet.payout : 0, bet.token);
+        emit BetSettled(player, bet.amount, bet.side, result, won, won ? bet.payout : 0, bet.token);
+
+        return (bet.amount, bet.token);
+    }
+
+    /**
+     * @notice Returns the stake of a pending bet to the player in the original token
+     * @dev Settles the bet without a result, a late fulfillment of the request is ignored
+     * @param requestId The Chainlink VRF request ID of the bet
+     */
+    function _refundBet(uint256 requestId) internal override {
+        address player = requestIdToSender[requestId];
+        Bet storage bet = requestIdToBet[requestId];
+
+        if (player == address(0) || bet.settled || refundTimeout == 0) revert RefundNotAvailable();
+        if (block.timestamp < bet.createdAt + refundTimeout) revert RefundNotAvailable();
+
+        delete requestIdToSender[requestId];
+        _releaseLiability(bet.token, bet.payout);
+        bet.settled = true;
+        bet.refunded = true;
+
+        _payOut(player, bet.token, bet.amount);
+
+        emit BetRefunded(requestId, player, bet.amount, bet.token);
+    }
+
+    /**
+     * @notice Check if a flip is in progress for the caller
+     * @dev Returns true if any bet of the caller is awaiting fulfillment or refund, false otherwise
+     * @return True if a flip is in progress, false otherwise
+     */
+    function isFlipInProgress() external view returns (bool) {
+        return getPendingBetCount(msg.sender) > 0;
+    }
+
+    /**
+     * @notice Get the current bet details for the caller
+     * @dev Returns the details of the latest bet placed by the caller
+     * @return amount The bet amount
+     * @return side The side of the coin the player bet on
+     * @return result The side of the coin the flip landed on (valid once settled)
+     * @return settled Whether the bet has been settled
+     * @return won Whether the bet was won
+     * @return payout The potential payout
+     */
+    function getCurrentBet()
+    external
+    view
+    returns (
+        uint256 amount,
+        Side side,
+        Side result,
+        bool settled,
+        bool won,
+        uint256 payout
+    )
+    {
+        Bet memory bet = requestIdToBet[latestRequestIds[msg.sender]];
+        return (bet.amount, bet.side, bet.result, bet.settled, bet.won, bet.payout);
+    }
+
+    /**
+     * @notice Get a bet from the bet history
+     * @dev Reverts with BetNotFound if the bet ID does not exist
+     * @param betId The ID of the bet
+     * @return The bet record, including the flip result once settled
+     */
+    function getBet(uint256 betId) public view returns (BetRecord memory) {
+        BetEntry memory entry = _getBetEntry(betId);
+        return BetRecord({
+            betId: betId,
+            requestId: entry.requestId,
+            player: entry.player,
+            bet: requestIdToBet[entry.requestId]
+        });
+    }
+
+    /**
+     * @notice Get a page of the bets of a player, in the order they were placed
+     * @param player The address of the player
+     * @param offset The index of the first bet to return
+     * @param limit The maximum number of bets to return
+     * @return records The bet records (empty if offset is past the last bet)
+     */
+    function getPlayerBets(
+        address player,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (BetRecord[] memory records) {
+        uint256[] memory betIds = getPlayerBetIds(player, offset, limit);
+        records = new BetRecord[](betIds.length);
+        for (uint256 i = 0; i < betIds.length; i++) {
+            records[i] = getBet(betIds[i]);
+        }
+    }
+}
@@ -0,0 +1,406 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import {BaseVRFGame} from "./BaseVRFGame.sol";
+
+/**
+ * @title Crash Contract
+ * @notice A contract that provides a Crash game using Chainlink VRF v2.5 for randomness
+ * @dev Every bet carries a target multiplier and wins when the crash point is at or above it
+ * @dev The crash point reaches a multiplier m with a chance of (100% - house edge) / m
+ * @dev Implements UUPS upgradeable pattern
+ */
+contract Crash is BaseVRFGame {
+    /// @notice Minimum target multiplier (in basis points, 1.01x)
+    uint256 public constant MIN_TARGET_MULTIPLIER = 10100;
+    /// @notice Maximum target multiplier (in basis points, 1000x)
+    uint256 public constant MAX_TARGET_MULTIPLIER = 10_000_000;
+    /// @notice Quantity of the random word bits used to derive the crash point
+    uint256 private constant CRASH_POINT_BITS = 52;
+
+    /**
+     * @notice Struct representing a bet in the crash game
+     * @dev Stores all information about a player's bet
+     */
+    struct Bet {
+        /// @notice Amount of tokens bet
+        uint256 amount;
+        /// @notice Multiplier the player cashes out at (in basis points)
+        uint256 targetMultiplier;
+        /// @notice Multiplier the round crashed at (in basis points, valid once the bet is settled)
+        uint256 crashPoint;
+        /// @notice Whether the bet has been settled
+        bool settled;
+        /// @notice Whether the bet was won
+        bool won;
+        /// @notice House edge applied to the crash point distribution (in basis points)
+        uint16 houseEdgeBps;
+        /// @notice Potential payout amount if the bet is won
+        uint256 payout;
+        /// @notice Address of the token used for the bet (address(0) for ETH)
+        address token;
+        /// @notice Timestamp of the block in which the bet was placed
+        uint256 createdAt;
+    }
+
+    /**
+     * @notice Struct representing a bet in the bet history
+     */
+    struct BetRecord {
+        /// @notice ID of the bet
+        uint256 betId;
+        /// @notice Chainlink VRF request ID of the bet
+        uint256 requestId;
+        /// @notice Address of the player who made the bet
+        address player;
+        /// @notice The bet, including its crash point once settled
+        Bet bet;
+    }
+
+    /// @notice Mapping from Chainlink VRF request ID to the associated bet
+    mapping(uint256 => Bet) private requestIdToBet;
+    /// @notice Max payout of a single bet (in USD with 18 decimals, 0 means no cap)
+    uint256 public maxPayout;
+    /// @notice Mapping from token address to its max payout override (in USD with 18 decimals, 0 falls back to maxPayout)
+    mapping(address => uint256) public tokenMaxPayouts;
+
+    /**
+     * @notice Event emitted when a bet is placed
+     * @param requestId The Chainlink VRF request ID
+     * @param player The address of the player placing the bet
+     * @param betAmount The amount of tokens bet
+     * @param targetMultiplier The multiplier the player cashes out at (in basis points)
+     * @param token The address of the token used for the bet (address(0) for ETH)
+     */
+    event CrashBetPlaced(
+        uint256 indexed requestId,
+        address indexed player,
+        uint256 betAmount,
+        uint256 targetMultiplier,
+        address token
+    );
+
+    /**
+     * @notice Event emitted when a bet is fulfilled by Chainlink VRF
+     * @param requestId The Chainlink VRF request ID
+     * @param player The address of the player who placed the bet
+     * @param crashPoint The multiplier the round crashed at (in basis points)
+     * @param won Whether the player won the bet
+     * @param payout The amount paid out to the player (0 if lost)
+     * @param token The address of the token used for the bet (address(0) for ETH)
+     */
+    event CrashBetFulfilled(
+        uint256 indexed requestId,
+        address indexed player,
+        uint256 crashPoint,
+        bool won,
+        uint256 payout,
+        address token
+    );
+
+    /**
+     * @notice Event emitted when a bet is settled
+     * @param player The address of the player who made the bet
+     * @param amount The amount of tokens bet
+     * @param targetMultiplier The multiplier the player cashes out at (in basis points)
+     * @param crashPoint The multiplier the round crashed at (in basis points)
+     * @param won Whether the player won the bet
+     * @param payout The amount paid out to the player (0 if lost)
+     * @param token The address of the token used for the bet (address(0) for ETH)
+     */
+    event BetSettled(
+        address indexed player,
+        uint256 amount,
+        uint256 targetMultiplier,
+        uint256 crashPoint,
+        bool won,
+        uint256 payout,
+        address token
+    );
+
+    /// @notice Error thrown when a target multiplier is outside MIN_TARGET_MULTIPLIER..MAX_TARGET_MULTIPLIER
+    error InvalidTargetMultiplier();
+    /// @notice Error thrown when the payout of a bet is above the max payout of the token
+    error PayoutLimitExceeded();
+
+    /**
+     * @notice Constructor that disables initializers
+     * @param _vrfCoordinator The address of the VRF Coordinator
+     */
+    constructor(address _vrfCoordinator) BaseVRFGame(_vrfCoordinator) {}
+
+    /**
+     * @notice Initializes the Crash contract with Chainlink VRF parameters
+     * @param _vrfCoordinator The address of the VRF Coordinator
+     * @param _subscriptionId The ID of the VRF subscription
+     * @param _keyHash The gas lane key hash
+     * @param _addressBook The address of the AddressBook contract
+     * @param _minBetAmount The minimum bet amount allowed in the game (in USD with 18 decimals)
+     * @param _maxBetAmount The maximum bet amount allowed in the game (in USD with 18 decimals)
+     * @param _houseEdge The house edge (in basis points, e.g., 100 for 1%)
+     */
+    function initialize(
+        address _vrfCoordinator,
+        uint256 _subscriptionId,
+        bytes32 _keyHash,
+        address _addressBook,
+        uint256 _minBetAmount,
+        uint256 _maxBetAmount,
+        uint16 _houseEdge
+    ) external initializer {
+        __BaseVRFGame_init(
+            _vrfCoordinator,
+            _subscriptionId,
+            _keyHash,
+            _addressBook,
+            _minBetAmount,
+            _maxBetAmount,
+            _houseEdge
+        );
+    }
+
+    /**
+     * @notice Not used, Crash was deployed after the house edge and bet limit migration
+     * @dev Always reverts, the bet limits of Crash are stored in USD and must not be converted again
+     */
+    function initializeV2() external pure override {
+        revert MigrationNotSupported();
+    }
+
+    /**
+     * @notice Places a bet with either a native token (ETH) or ERC20 token and requests randomness from Chainlink VRF
+     * @dev Validates bet parameters, checks the payout against the max payout and exposure, and sends a VRF request
+     * @param targetMultiplier The multiplier to cash out at (in basis points, 10100 for 1.01x up to 10000000 for 1000x)
+     * @param token The address of the token to bet with (use address(0) for ETH)
+     * @param betAmount The amount of tokens to bet (ignored for native token, use msg.value instead)
+     * @param referrer The address of the referrer (use address(0) for no referrer)
+     * @return requestId The ID of the Chainlink VRF request associated with this bet
+     */
+    function placeBet(
+        uint256 targetMultiplier,
+        address token,
+        uint256 betAmount,
+        address referrer
+    ) public payable returns (uint256) {
+        uint256 actualBetAmount = _acceptBet(token, betAmount);
+
+        uint256 payout = calculatePayout(actualBetAmount, targetMultiplier);
+
+        uint256 tokenMaxPayout = getMaxPayout(token);
+        if (tokenMaxPayout != 0 && payout > tokenMaxPayout) revert PayoutLimitExceeded();
+
+        Bet memory bet = Bet({
+            amount: actualBetAmount,
+            targetMultiplier: targetMultiplier,
+            crashPoint: 0,
+            settled: false,
+            won: false,
+            houseEdgeBps: getHouseEdge(token),
+            payout: payout,
+            token: token,
+            createdAt: block.timestamp
+        });
+
+        uint256 requestId = _placeBet(token, payout, referrer);
+
+        requestIdToBet[requestId] = bet;
+
+        emit CrashBetPlaced(requestId, msg.sender, actualBetAmount, targetMultiplier, token);
+
+        return requestId;
+    }
+
+    /**
+     * @notice Calculate the potential payout for a bet
+     * @dev The house edge is taken by the crash point distribution, a winning bet pays the full target multiplier
+     * @param betAmount The amount of the bet
+     * @param targetMultiplier The multiplier to cash out at (in basis points)
+     * @return The potential payout amount
+     */
+    function calculatePayout(uint256 betAmount, uint256 targetMultiplier) public pure returns (uint256) {
+        if (targetMultiplier < MIN_TARGET_MULTIPLIER || targetMultiplier > MAX_TARGET_MULTIPLIER) {
+            revert InvalidTargetMultiplier();
+        }
+        return (betAmount * targetMultiplier) / DIVIDER;
+    }
+
+    /**
+     * @notice Derives the crash point from a random word
+     * @dev With r the lowest CRASH_POINT_BITS bits of the word and E = 2^CRASH_POINT_BITS, the crash point is
+     *      (100% - house edge) * E / (E - r), so it reaches m with a chance of (100% - house edge) / m
+     * @param rw The random word
+     * @param edge The house edge (in basis points)
+     * @return The multiplier the round crashes at (in basis points)
+     */
+    function deriveCrashPointFromRandom(uint256 rw, uint16 edge) public pure returns (uint256) {
+        uint256 range = 1 << CRASH_POINT_BITS;
+        uint256 r = rw & (range - 1);
+        return ((DIVIDER - edge) * range) / (range - r);
+    }
+
+    /**
+     * @notice Determines the crash point for a fulfilled request and settles the bet
+     * @param requestId The Chainlink VRF request ID of the bet
+     * @param player The address of the player who placed the bet
+     * @param randomWord The random word generated by Chainlink VRF
+     * @return amount The amount of tokens wagered
+     * @return token The address of the token used for the bet (address(0) for ETH)
+     */
+    function _settleBet(
+        uint256 requestId,
+        address player,
+        uint256 randomWord
+    ) internal override returns (uint256 amount, address token) {
+        Bet storage bet = requestIdToBet[requestId];
+
+        uint256 crashPoint = deriveCrashPointFromRandom(randomWord, bet.houseEdgeBps);
+        bool won = crashPoint >= bet.targetMultiplier;
+
+        _releaseLiability(bet.token, bet.payout);
+
+        bet.crashPoint = crashPoint;
+        bet.settled = true;
+        bet.won = won;
+
+        if (won) _payOut(player, bet.token, bet.payout);
+
+        emit CrashBetFulfilled(requestId, player, crashPoint, won, won ? bet.payout : 0, bet.token);
+        emit BetSettled(
+            player,
+            bet.amount,
+            bet.targetMultiplier,
+            crashPoint,
+            won,
+            won ? bet.payout : 0,
+            bet.token
+        );
+
+        return (bet.amount, bet.token);
+    }
+
+    /**
+     * @notice Returns the stake of a pending bet to the player in the original token
+     * @dev Settles the bet without a result, a late fulfillment of the request is ignored
+     * @param requestId The Chainlink VRF request ID of the bet
+     */
+    function _refundBet(uint256 requestId) internal override {
+        address player = requestIdToSender[requestId];
+        Bet storage bet = requestIdToBet[requestId];
+
+        if (player == address(0) || bet.settled || refundTimeout == 0) revert RefundNotAvailable();
+        if (block.timestamp < bet.createdAt + refundTimeout) revert RefundNotAvailable();
+
+        delete requestIdToSender[requestId];
+        _releaseLiability(bet.token, bet.payout);
+        bet.settled = true;
+
+        _payOut(player, bet.token, bet.amount);
+
+        emit BetRefunded(requestId, player, bet.amount, bet.token);
+    }
+
+    /**
+     * @notice Check if a bet is in progress for the caller
+     * @dev Returns true if any bet of the caller is awaiting fulfillment or refund, false otherwise
+     * @return True if a bet is in progress, false otherwise
+     */
+    function isBetInProgress() external view returns (bool) {
+        return getPendingBetCount(msg.sender) > 0;
+    }
+
+    /**
+     * @notice Get the current bet details for the caller
+     * @dev Returns the details of the latest bet placed by the caller
+     * @return amount The bet amount
+     * @return targetMultiplier The multiplier the player cashes out at (in basis points)
+     * @return crashPoint The multiplier the round crashed at (valid once settled)
+     * @return settled Whether the bet has been settled
+     * @return won Whether the bet was won
+     * @return payout The potential payout
+     */
+    function getCurrentBet()
+    external
+    view
+    returns (
+        uint256 amount,
+        uint256 targetMultiplier,
+        uint256 crashPoint,
+        bool settled,
+        bool won,
+        uint256 payout
+    )
+    {
+        Bet memory bet = requestIdToBet[latestRequestIds[msg.sender]];
+        return (bet.amount, bet.targetMultiplier, bet.crashPoint, bet.settled, bet.won, bet.payout);
+    }
+
+    /**
+     * @notice Get a bet from the bet history
+     * @dev Reverts with BetNotFound if the bet ID does not exist
+     * @param betId The ID of the bet
+     * @return The bet record, including the crash point once settled
+     */
+    function getBet(uint256 betId) public view returns (BetRecord memory) {
+        BetEntry memory entry = _getBetEntry(betId);
+        return BetRecord({
+            betId: betId,
+            requestId: entry.requestId,
+            player: entry.player,
+            bet: requestIdToBet[entry.requestId]
+        });
+    }
+
+    /**
+     * @notice Get a page of the bets of a player, in the order they were placed
+     * @param player The address of the player
+     * @param offset The index of the first bet to return
+     * @param limit The maximum number of bets to return
+     * @return records The bet records (empty if offset is past the last bet)
+     */
+    function getPlayerBets(
+        address player,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (BetRecord[] memory records) {
+        uint256[] memory betIds = getPlayerBetIds(player, offset, limit);
+        records = new BetRecord[](betIds.length);
+        for (uint256 i = 0; i < betIds.length; i++) {
+            records[i] = getBet(betIds[i]);
+        }
+    }
+
+    /**
+     * @notice Get the effective max payout of a single bet for a token
+     * @dev Converts the USD denominated cap (token override or global value) with the TokensManager prices
+     * @param token The address of the token (address(0) for ETH)
+     * @return The max payout in the token (0 means the payout is only limited by the exposure check)
+     */
+    function getMaxPayout(address token) public view returns (uint256) {
+        uint256 tokenMaxPayout = tokenMaxPayouts[token];
+        uint256 usdMaxPayout = tokenMaxPayout != 0 ? tokenMaxPayout : maxPayout;
+        if (usdMaxPayout == 0) return 0;
+        return addressBook.tokensManager().usdAmountToToken(usdMaxPayout, token);
+    }
+
+    /**
+     * @notice Sets the max payout of a single bet (owners multisig only)
+     * @dev Allows the owners multisig to cap the payout of high targets, 0 removes the cap
+     * @param newMaxPayout The new max payout (in USD with 18 decimals)
+     */
+    function setMaxPayout(uint256 newMaxPayout) external {
+        _requireOwnersMultisig();
+        maxPayout = newMaxPayout;
+    }
+
+    /**
+     * @notice Sets the max payout override for a token (owners multisig only)
+     * @dev Allows the owners multisig to set a per-token max payout, 0 falls back to the global value
+     * @param token The address of the token (address(0) for ETH)
+     * @param newMaxPayout The new max payout for the token (in USD with 18 decimals)
+     */
+    function setTokenMaxPayout(address token, uint256 newMaxPayout) external {
+        _requireOwnersMultisig();
+        addressBook.tokensManager().requireTokenSupport(token);
+        tokenMaxPayouts[token] = newMaxPayout;
+    }
+}
@@ -1,59 +1,41 @@
 // SPDX-License-Identifier: MIT
 pragma solidity 0.8.28;
 
-import {IVRFCoordinatorV2Plus} from "@chainlink/contracts/src/v0.8/vrf/dev/interfaces/IVRFCoordinatorV2Plus.sol";
-import {VRFConsumerBaseV2Plus} from "@chainlink/contracts/src/v0.8/vrf/dev/VRFConsumerBaseV2Plus.sol";
-import {VRFV2PlusClient} from "@chainlink/contracts/src/v0.8/vrf/dev/libraries/VRFV2PlusClient.sol";
-import {UUPSUpgradeable} from "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
-import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
-import {IGame} from "../_interfaces/games/IGame.sol";
-import {IAddressBook} from "../_interfaces/access/IAddressBook.sol";
-import {ITokensManager} from "../_interfaces/tokens/ITokensManager.sol";
-import {AddressBook} from "../access/AddressBook.sol";
-import {Address} from "@openzeppelin/contracts/utils/Address.sol";
-import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
-import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {BaseVRFGame, BaseVRFGameConfig, BaseVRFGameLimits} from "./BaseVRFGame.sol";
 
 /**
- * @title Dice Contract
- * @notice A contract that provides a dice roll function using Chainlink VRF v2.5 for randomness
- * @dev Returns a random number between 1 and 100 (inclusive) and allows betting
- * @dev Implements UUPS upgradeable pattern
+ * @title Dice Target Storage
+ * @notice Storage of the target number bounds of the Dice game
+ * @dev Packed into the slot of the AddressBook reference of the deployed proxies
  */
-contract Dice is VRFConsumerBaseV2Plus, UUPSUpgradeable, IGame {
-    using SafeERC20 for IERC20;
-    using Address for address payable;
-
-    /// @notice Chainlink VRF subscription ID
-    uint256 private subscriptionId;
-    /// @notice Chainlink VRF key hash for the gas lane
-    bytes32 private keyHash;
-    /// @notice Gas limit for the Chainlink VRF callback
-    uint32 private callbackGasLimit;
-    /// @notice Number of confirmations required for Chainlink VRF
-    uint16 private requestConfirmations;
-    /// @notice Reference to the address book contract
-    IAddressBook private addressBook;
-    /// @notice Minimum target number value allowed in the game (from 1)
+abstract contract DiceTargetStorage is BaseVRFGameConfig {
+    /// @notice Minimum target number value allowed in the game (from 1, scaled by 100 in high resolution mode)
     uint8 public minBetValue;
-    /// @notice Maximum target number value allowed in the game (up to 100)
+    /// @notice Maximum target number value allowed in the game (up to 100, scaled by 100 in high resolution mode)
     uint8 public maxBetValue;
-    /// @notice Minimum bet amount allowed in the game (in wei)
-    uint256 public minBetAmount;
-    /// @notice Maximum bet amount allowed in the game (in wei)
-    uint256 public maxBetAmount;
-    /// @notice House edge percentage (e.g., 10 for 10%)
-    uint8 public houseEdge;
+}
 
+/**
+ * @title Dice Bet Storage
+ * @notice Storage of the Dice bets and roll results
+ * @dev Declared between the shared bet limits and the shared bet accounting, as in the deployed proxies
+ */
+abstract contract DiceBetStorage is BaseVRFGameLimits {
     /**
      * @notice Enum representing the type of comparison for dice roll bets
-     * @dev Used to determine if the roll result should be greater than or less than the target number
+     * @dev Used to determine how the roll result is compared against the target number (or range)
      */
     enum ComparisonType {
         /// @notice Roll result must be greater than the target number
         GREATER_THAN,
         /// @notice Roll result must be less than the target number
-        LESS_THAN
+        LESS_THAN,
+        /// @notice Roll result must be within the inclusive range between the low and high numbers
+        BETWEEN,
+        /// @notice Roll result must be outside the inclusive range between the low and high numbers
+        OUTSIDE,
+        /// @notice Roll result must be equal to the target number
+        EXACT
     }
 
     /**
@@ -63,9 +45,9 @@ contract Dice is VRFConsumerBaseV2Plus, UUPSUpgradeable, IGame {
     struct Bet {
         /// @notice Amount of tokens bet
         uint256 amount;
-        /// @notice Target number for the bet (between minBetValue and maxBetValue)
+        /// @notice Target number for the bet, or the low end of the range for range bets (between minBetValue and maxBetValue)
         uint256 targetNumber;
-        /// @notice Type of comparison (GREATER_THAN or LESS_THAN)
+        /// @notice Type of comparison (GREATER_THAN, LESS_THAN, BETWEEN, OUTSIDE or EXACT)
         ComparisonType comparisonType;
         /// @notice Whether the bet has been settled
         bool settled;
@@ -75,40 +57,78 @@ contract Dice is VRFConsumerBaseV2Plus, UUPSUpgradeable, IGame {
         uint256 payout;
         /// @notice Address of the token used for the bet (address(0) for ETH)
         address token;
+        /// @notice Timestamp of the block in which the bet was placed
+        uint256 createdAt;
+        /// @notice High end of the range for range bets (equals targetNumber for other bet types)
+        uint256 upperNumber;
+        /// @notice Whether the bet was placed in high resolution mode (results 0-9999 instead of 1-100)
+        bool highResolution;
+        /// @notice Whether the stake was refunded because the VRF request was not fulfilled in time
+        bool refunded;
+        /// @notice Result of the dice roll once the bet is settled (1-100, or 0-9999 in high resolution mode)
+        uint256 result;
     }
 
-    /// @notice Mapping from Chainlink VRF request ID to the address of the player who made the request
-    mapping(uint256 => address) private requestIdToSender;
-    /// @notice Mapping from player address to their latest roll result (type(uint256).max indicates roll in progress)
-    mapping(address => uint256) private rollResults;
-    /// @notice Mapping from player address to their current bet
-    mapping(address => Bet) private bets;
+    /// @notice Mapping from player address to their most recently settled roll result (type(uint256).max indicates a roll
+    /// placed before concurrent bets were introduced is in progress)
+    mapping(address => uint256) internal rollResults;
+    /// @notice Mapping from player address to their current bet, only kept for bets placed before bets were keyed by request ID
+    mapping(address => Bet) internal bets;
     /// @notice Mapping from Chainlink VRF request ID to the associated bet
-    mapping(uint256 => Bet) private requestIdToBet;
+    mapping(uint256 => Bet) internal requestIdToBet;
+}
+
+/**
+ * @title Dice Contract
+ * @notice A contract that provides a dice roll function using Chainlink VRF v2.5 for randomness
+ * @dev Returns a random number between 1 and 100 (inclusive) and allows betting
+ * @dev Implements UUPS upgradeable pattern
+ */
+contract Dice is DiceTargetStorage, DiceBetStorage, BaseVRFGame {
+    /// @notice Whether new bets use high resolution rolls (results 0-9999 and targets with two-decimal precision)
+    bool public highResolution;
+
+    /**
+     * @notice Struct representing a bet in the bet history
+     */
+    struct BetRecord {
+        /// @notice ID of the bet
+        uint256 betId;
+        /// @notice Chainlink VRF request ID of the bet
+        uint256 requestId;
+        /// @notice Address of the player who made the bet
+        address player;
+        /// @notice The bet, including its result once settled
+        Bet bet;
+    }
 
     /**
      * @notice Event emitted when a dice roll is requested
      * @param requestId The Chainlink VRF request ID
      * @param roller The address of the player making the roll
      * @param betAmount The amount of tokens bet
-     * @param targetNumber The target number for the bet
-     * @param comparisonType The type of comparison (GREATER_THAN or LESS_THAN)
+     * @param targetNumber The target number for the bet (low end of the range for range bets)
+     * @param upperNumber The high end of the range for range bets (equals targetNumber for other bet types)
+     * @param comparisonType The type of comparison (GREATER_THAN, LESS_THAN, BETWEEN, OUTSIDE or EXACT)
      * @param token The address of the token used for the bet (address(0) for ETH)
+     * @param highResolution Whether the bet uses high resolution rolls (target numbers and result in hundredths)
      */
     event DiceRollRequested(
         uint256 indexed requestId,
         address indexed roller,
         uint256 betAmount,
         uint256 targetNumber,
+        uint256 upperNumber,
         ComparisonType comparisonType,
-        address token
+        address token,
+        bool highResolution
     );
 
     /**
      * @notice Event emitted when a dice roll is fulfilled by Chainlink VRF
      * @param requestId The Chainlink VRF request ID
      * @param roller The address of the player who made the roll
-     * @param result The result of the dice roll (1-100)
+     * @param result The result of the dice roll (1-100, or 0-9999 in high resolution mode)
      * @param won Whether the player won the bet
      * @param payout The amount paid out to the player (0 if lost)
      * @param token The address of the token used for the bet (address(0) for ETH)
@@ -126,55 +146,42 @@ contract Dice is VRFConsumerBaseV2Plus, UUPSUpgradeable, IGame {
      * @notice Event emitted when a bet is settled
      * @param player The address of the player who made the bet
      * @param amount The amount of tokens bet
-     * @param targetNumber The target number for the bet
-     * @param comparisonType The type of comparison (GREATER_THAN or LESS_THAN)
-     * @param result The result of the dice roll (1-100)
+     * @param targetNumber The target number for the bet (low end of the range for range bets)
+     * @param upperNumber The high end of the range for range bets (equals targetNumber for other bet types)
+     * @param comparisonType The type of comparison (GREATER_THAN, LESS_THAN, BETWEEN, OUTSIDE or EXACT)
+     * @param result The result of the dice roll (1-100, or 0-9999 in high resolution mode)
      * @param won Whether the player won the bet
      * @param payout The amount paid out to the player (0 if lost)
      * @param token The address of the token used for the bet (address(0) for ETH)
+     * @param highResolution Whether the bet used high resolution rolls (target numbers and result in hundredths)
      */
     event BetSettled(
         address indexed player,
         uint256 amount,
         uint256 targetNumber,
+        uint256 upperNumber,
         ComparisonType comparisonType,
         uint256 result,
         bool won,
         uint256 payout,
-        address token
+        address token,
+        bool highResolution
     );
 
-    /// @notice Error thrown when trying to set a houseEdge is outside the valid range
-    error InvalidHouseEdge();
-    /// @notice Error thrown when a min bet value is 0
-    error InvalidMinBetAmount();
     /// @notice Error thrown when a min bet value is 0
     error InvalidMinBetValue();
     /// @notice Error thrown when a min bet value is greater or equals 100
     error InvalidMaxBetValue();
-    /// @notice Error thrown when a min value greater than max value
-    error MinGreaterThanMax();
-    /// @notice Error thrown when a player tries to roll while a previous roll is still in progress
-    error RollInProgress();
     /// @notice Error thrown when a roll is outside the valid range
     error InvalidRollRange();
-    /// @notice Error thrown when a bet amount is outside the allowed range
-    error InvalidBetAmount();
-    /// @notice Error thrown when a target number is outside the allowed range
+    /// @notice Error thrown when a target number or range is outside the allowed range
     error InvalidTargetNumber();
-    /// @notice Error thrown when the contract has insufficient balance to pay out a potential win
-    error InsufficientContractBalance();
-
-    /// @notice Event emitted when the subscription ID is updated
-    event SubscriptionIdSet(uint256 subscriptionId);
 
     /**
      * @notice Constructor that disables initializers
      * @param _vrfCoordinator The address of the VRF Coordinator
      */
-    constructor(address _vrfCoordinator) VRFConsumerBaseV2Plus(_vrfCoordinator) {
-        _disableInitializers();
-    }
+    constructor(address _vrfCoordinator) BaseVRFGame(_vrfCoordinator) {}
 
     /**
      * @notice Initializes the Dice contract with Chainlink VRF parameters
@@ -184,9 +191,10 @@ contract Dice is VRFConsumerBaseV2Plus, UUPSUpgradeable, IGame {
      * @param _addressBook The address of the AddressBook contract
      * @param _minBetValue The minimum target number value allowed in the game (from 1)
      * @param _maxBetValue The maximum target number value allowed in the game (up to 100)
-     * @param _minBetAmount The minimum bet amount allowed in the game (in wei)
-     * @param _maxBetAmount The maximum bet amount allowed in the game (in wei)
-     * @param _houseEdge The house edge percentage (e.g., 10 for 10%)
+     * @param _minBetAmount The minimum bet amount allowed in the game (in USD with 18 decimals)
+     * @param _maxBetAmount The maximum bet amount allowed in the game (in USD with 18 decimals)
+     * @param _houseEdge The house edge (in basis points, e.g., 1000 for 10%)
+     * @dev Uses version 2 so that initializeV2 cannot be called on freshly deployed proxies
      */
     function initialize(
         address _vrfCoordinator,
@@ -197,55 +205,30 @@ contract Dice is VRFConsumerBaseV2Plus, UUPSUpgradeable, IGame {
         uint8 _maxBetValue,
         uint256 _minBetAmount,
         uint256 _maxBetAmount,
-        uint8 _houseEdge
-    ) external initializer {
-        require(_vrfCoordinator != address(0), "_vrfCoordinator is zero!");
-        require(_addressBook != address(0), "_addressBook is zero!");
-        if (_houseEdge > 50) revert InvalidHouseEdge();
-        if (_minBetAmount == 0) revert InvalidBetAmount();
-        if (_minBetAmount >= _maxBetAmount) revert MinGreaterThanMax();
+        uint16 _houseEdge
+    ) external reinitializer(2) {
+        __BaseVRFGame_init(
+            _vrfCoordinator,
+            _subscriptionId,
+            _keyHash,
+            _addressBook,
+            _minBetAmount,
+            _maxBetAmount,
+            _houseEdge
+        );
         if (_minBetValue == 0) revert InvalidMinBetValue();
         if (_maxBetValue >= 100) revert InvalidMaxBetValue();
         if (_minBetValue >= _maxBetValue) revert MinGreaterThanMax();
 
-        s_vrfCoordinator = IVRFCoordinatorV2Plus(_vrfCoordinator);
-        subscriptionId = _subscriptionId;
-        keyHash = _keyHash;
-        callbackGasLimit = 300000;
-        requestConfirmations = 3;
-        addressBook = IAddressBook(_addressBook);
         minBetValue = _minBetValue;
         maxBetValue = _maxBetValue;
-        minBetAmount = _minBetAmount;
-        maxBetAmount = _maxBetAmount;
-        houseEdge = _houseEdge;
-        __UUPSUpgradeable_init();
     }
 
-    /**
-     * @notice Authorizes an upgrade to a new implementation
-     * @dev Only the owners multisig can upgrade the contract
-     * @param newImplementation Address of the new implementation (unused parameter required by UUPS)
-     */
-    function _authorizeUpgrade(address newImplementation) internal view override {
-        addressBook.accessRoles().requireOwnersMultisig(msg.sender);
-    }
-
-    /**
-     * @notice Receive function to allow the contract to receive ETH
-     */
-    receive() external payable {}
-
-    /**
-     * @notice Fallback function to allow the contract to receive ETH
-     */
-    fallback() external payable {}
-
     /**
      * @notice Initiates a dice roll with either a native token (ETH) or ERC20 token bet and requests randomness from Chainlink VRF
-     * @dev Validates bet parameters, stores the bet, and sends a VRF request
+     * @dev Validates bet parameters, stores the bet, and sends a VRF request. Range bets (BETWEEN, OUTSIDE) must use rollRange
      * @param targetNumber The number to compare the roll result against (must be between minBetValue and maxBetValue)
-     * @param comparisonType The type of comparison for the bet: GREATER_THAN or LESS_THAN
+     * @param comparisonType The type of comparison for the bet: GREATER_THAN, LESS_THAN or EXACT
      * @param token The address of the token to bet with (use address(0) for ETH)
      * @param betAmount The amount of tokens to bet (ignored for native token, use msg.value instead)
      * @param referrer The address of the referrer (use address(0) for no referrer)
@@ -258,164 +241,273 @@ contract Dice is VRFConsumerBaseV2Plus, UUPSUpgradeable, IGame {
         uint256 betAmount,
         address referrer
     ) public payable returns (uint256) {
-        require(
-            addressBook.gameManager().isGameExist(address(this)),
-            "Game doesn't exist in GameManager"
-        );
-        addressBook.pauseManager().requireNotPaused();
-        addressBook.tokensManager().requireTokenSupport(token);
-
-        uint256 actualBetAmount;
-        if (token == address(0)) {
-            actualBetAmount = msg.value;
-            require(
-                betAmount == 0 || betAmount == msg.value,
-                "Bet amount must match msg.value for native token"
-            );
-        } else {
-            actualBetAmount = betAmount;
-            require(msg.value == 0, "Cannot send ETH when betting with tokens");
-            IERC20(token).safeTransferFrom(msg.sender, address(this), actualBetAmount);
-        }
-
-        if (rollResults[msg.sender] == type(uint256).max) revert RollInProgress();
-        if (actualBetAmount < minBetAmount || actualBetAmount > maxBetAmount) revert InvalidBetAmount();
-        if (targetNumber < minBetValue || targetNumber > maxBetValue) revert InvalidTargetNumber();
-
+        return _roll(targetNumber, targetNumber, comparisonType, token, betAmount, referrer);
+    }
 
-        uint256 payout = calculatePayout(actualBetAmount, targetNumber, comparisonType);
+    /**
+     * @notice Initiates a dice roll on an inclusive range of numbers and requests randomness from Chainlink VRF
+     * @dev Both ends of the range must be between minBetValue and maxBetValue. Non-range bet types require lowNumber == highNumber
+     * @param lowNumber The low end of the range (inclusive)
+     * @param highNumber The high end of the range (inclusive)
+     * @param comparisonType The type of comparison for the bet: BETWEEN or OUTSIDE
+     * @param token The address of the token to bet with (use address(0) for ETH)
+     * @param betAmount The amount of tokens to bet (ignored for native token, use msg.value instead)
+     * @param referrer The address of the referrer (use address(0) for no referrer)
+     * @return requestId The ID of the Chainlink VRF request associated with this dice roll
+     */
+    function rollRange(
+        uint256 lowNumber,
+        uint256 highNumber,
+        ComparisonType comparisonType,
+        address token,
+        uint256 betAmount,
+        address referrer
+    ) public payable returns (uint256) {
+        return _roll(lowNumber, highNumber, comparisonType, token, betAmount, referrer);
+    }
 
-        if (token == address(0)) {
-            if (address(this).balance <= payout) revert InsufficientContractBalance();
-        } else {
-            if (IERC20(token).balanceOf(address(this)) <= payout) revert InsufficientContractBalance();
-        }
+    /**
+     * @notice Validates and places a bet, then requests randomness from Chainlink VRF
+     * @param lowNumber The target number, or the low end of the range for range bets
+     * @param highNumber The high end of the range for range bets (equals lowNumber for other bet types)
+     * @param comparisonType The type of comparison for the bet
+     * @param token The address of the token to bet with (use address(0) for ETH)
+     * @param betAmount The amount of tokens to bet (ignored for native token, use msg.value instead)
+     * @param referrer The address of the referrer (use address(0) for no referrer)
+     * @return requestId The ID of the Chainlink VRF request associated with this dice roll
+     */
+    function _roll(
+        uint256 lowNumber,
+        uint256 highNumber,
+        ComparisonType comparisonType,
+        address token,
+        uint256 betAmount,
+        address referrer
+    ) internal returns (uint256) {
+        uint256 actualBetAmount = _acceptBet(token, betAmount);
+        _requireValidTargetNumbers(lowNumber, highNumber, comparisonType);
 
-        rollResults[msg.sender] = type(uint256).max;
+        uint256 payout = calculateRangePayout(actualBetAmount, lowNumber, highNumber, comparisonType, token);
 
         Bet memory bet = Bet({
             amount: actualBetAmount,
-            targetNumber: targetNumber,
+            targetNumber: lowNumber,
             comparisonType: comparisonType,
             settled: false,
             won: false,
             payout: payout,
-            token: token
+            token: token,
+            createdAt: block.timestamp,
+            upperNumber: highNumber,
+            highResolution: highResolution,
+            refunded: false,
+            result: 0
         });
 
-        bets[msg.sender] = bet;
-
-        VRFV2PlusClient.RandomWordsRequest memory request = VRFV2PlusClient.RandomWordsRequest({
-            keyHash: keyHash,
-            subId: subscriptionId,
-            requestConfirmations: requestConfirmations,
-            callbackGasLimit: callbackGasLimit,
-            numWords: 1,
-            extraArgs: VRFV2PlusClient._argsToBytes(
-                VRFV2PlusClient.ExtraArgsV1({nativePayment: false})
-            )
-        });
-
-        uint256 requestId = s_vrfCoordinator.requestRandomWords(request);
+        uint256 requestId = _placeBet(token, payout, referrer);
 
-        requestIdToSender[requestId] = msg.sender;
         requestIdToBet[requestId] = bet;
 
-        emit DiceRollRequested(requestId, msg.sender, actualBetAmount, targetNumber, comparisonType, token);
-
-        if (referrer != address(0)) addressBook.referralProgram().setReferral(msg.sender, referrer);
+        emit DiceRollRequested(
+            requestId,
+            msg.sender,
+            actualBetAmount,
+            lowNumber,
+            highNumber,
+            comparisonType,
+            token,
+            highResolution
+        );
 
         return requestId;
     }
 
+    /**
+     * @notice Reverts if the target number or range is not allowed for the bet type
+     * @param lowNumber The target number, or the low end of the range for range bets
+     * @param highNumber The high end of the range for range bets (equals lowNumber for other bet types)
+     * @param comparisonType The type of comparison for the bet
+     */
+    function _requireValidTargetNumbers(
+        uint256 lowNumber,
+        uint256 highNumber,
+        ComparisonType comparisonType
+    ) internal view {
+        uint256 scale = highResolution ? 100 : 1;
+        if (lowNumber < minBetValue * scale || highNumber > maxBetValue * scale || lowNumber > highNumber) {
+            revert InvalidTargetNumber();
+        }
+        if (
+            lowNumber != highNumber &&
+            comparisonType != ComparisonType.BETWEEN &&
+            comparisonType != ComparisonType.OUTSIDE
+        ) revert InvalidTargetNumber();
+    }
+
     /**
      * @notice Calculate the potential payout for a bet
-     * @dev Calculates payout based on the odds of winning and dynamic house edge
+     * @dev Calculates payout based on the odds of winning and the house edge of the bet token
      * @param betAmount The amount of the bet
      * @param targetNumber The number to compare the roll result against (between minBetValue and maxBetValue)
-     * @param comparisonType The type of comparison (GREATER_THAN, LESS_THAN)
+     * @param comparisonType The type of comparison (GREATER_THAN, LESS_THAN, EXACT)
+     * @param token The address of the token used for the bet (address(0) for ETH)
      * @return The potential payout amount
      */
     function calculatePayout(
         uint256 betAmount,
         uint256 targetNumber,
-        ComparisonType comparisonType
+        ComparisonType comparisonType,
+        address token
     ) public view returns (uint256) {
+        return calculateRangePayout(betAmount, targetNumber, targetNumber, comparisonType, token);
+    }
+
+    /**
+     * @notice Calculate the potential payout for a bet on a range of numbers
+     * @dev Calculates payout based on the share of winning results in the current resolution mode and the basis point house edge of the bet token
+     * @param betAmount The amount of the bet
+     * @param lowNumber The target number, or the low end of the range for range bets
+     * @param highNumber The high end of the range for range bets (equals lowNumber for other bet types)
+     * @param comparisonType The type of comparison (GREATER_THAN, LESS_THAN, BETWEEN, OUTSIDE, EXACT)
+     * @param token The address of the token used for the bet (address(0) for ETH)
+     * @return The potential payout amount
+     */
+    function calculateRangePayout(
+        uint256 betAmount,
+        uint256 lowNumber,
+        uint256 highNumber,
+        ComparisonType comparisonType,
+        address token
+    ) public view returns (uint256) {
+        (uint256 minResult, uint256 maxResult) = _resultRange(highResolution);
+        if (lowNumber < minResult || lowNumber > highNumber || highNumber > maxResult) revert InvalidTargetNumber();
+
+        uint256 outcomes = maxResult - minResult + 1;
         uint256 probability;
 
         if (comparisonType == ComparisonType.GREATER_THAN) {
-            probability = 100 - targetNumber;
+            probability = maxResult - lowNumber;
+        } else if (comparisonType == ComparisonType.LESS_THAN) {
+            probability = lowNumber - minResult;
+        } else if (comparisonType == ComparisonType.BETWEEN) {
+            probability = highNumber - lowNumber + 1;
+        } else if (comparisonType == ComparisonType.OUTSIDE) {
+            probability = outcomes - (highNumber - lowNumber + 1);
         } else {
-            probability = targetNumber - 1;
+            probability = 1;
         }
 
         if (probability == 0) revert InvalidTargetNumber();
 
-        return (betAmount * (100 - houseEdge)) / probability;
+        return (betAmount * (DIVIDER - getHouseEdge(token)) * outcomes) / (probability * DIVIDER);
     }
 
     /**
-     * @notice Callback function used by Chainlink VRF to deliver random words
-     * @dev Processes the random words, calculates the dice roll result, and settles the bet
-     * @param requestId The ID of the request
-     * @param randomWords The random words generated by Chainlink VRF
+     * @notice Returns the range of possible roll results
+     * @param isHighResolution Whether high resolution rolls are used
+     * @return minResult The lowest possible result
+     * @return maxResult The highest possible result
      */
-    function fulfillRandomWords(
-        uint256 requestId,
-        uint256[] calldata randomWords
-    ) internal override {
-        address roller = requestIdToSender[requestId];
+    function _resultRange(bool isHighResolution) internal pure returns (uint256 minResult, uint256 maxResult) {
+        return isHighResolution ? (0, 9999) : (1, 100);
+    }
 
+    /**
+     * @notice Checks whether a roll result wins a bet
+     * @param result The result of the dice roll (1-100, or 0-9999 in high resolution mode)
+     * @param lowNumber The target number, or the low end of the range for range bets
+     * @param highNumber The high end of the range for range bets (equals lowNumber for other bet types)
+     * @param comparisonType The type of comparison of the bet
+     * @return True if the bet is won, false otherwise
+     */
+    function _isWinningResult(
+        uint256 result,
+        uint256 lowNumber,
+        uint256 highNumber,
+        ComparisonType comparisonType
+    ) internal pure returns (bool) {
+        if (comparisonType == ComparisonType.GREATER_THAN) return result > lowNumber;
+        if (comparisonType == ComparisonType.LESS_THAN) return result < lowNumber;
+        if (comparisonType == ComparisonType.BETWEEN) return result >= lowNumber && result <= highNumber;
+        if (comparisonType == ComparisonType.OUTSIDE) return result < lowNumber || result > highNumber;
+        return result == lowNumber;
+    }
+
+    /**
+     * @notice Calculates the dice roll result of a fulfilled request and settles the bet
+     * @param requestId The Chainlink VRF request ID of the bet
+     * @param roller The address of the player who made the roll
+     * @param randomWord The random word generated by Chainlink VRF
+     * @return amount The amount of tokens wagered
+     * @return token The address of the token used for the bet (address(0) for ETH)
+     */
+    function _settleBet(
+        uint256 requestId,
+        address roller,
+        uint256 randomWord
+    ) internal override returns (uint256 amount, address token) {
         Bet storage bet = requestIdToBet[requestId];
 
-        uint256 result = (randomWords[0] % 100) + 1;
+        (uint256 minResult, uint256 maxResult) = _resultRange(bet.highResolution);
+        uint256 result = (randomWord % (maxResult - minResult + 1)) + minResult;
 
         rollResults[roller] = result;
 
-        bool won = false;
+        bool won = _isWinningResult(result, bet.targetNumber, bet.upperNumber, bet.comparisonType);
 
-        if (bet.comparisonType == ComparisonType.GREATER_THAN) {
-            won = result > bet.targetNumber;
-        } else {
-            won = result < bet.targetNumber;
-        }
+        _releaseLiability(bet.token, bet.payout);
 
         bet.settled = true;
         bet.won = won;
+        bet.result = result;
 
-        bets[roller] = bet;
-
-        if (won) {
-            if (bet.token == address(0)) {
-                payable(roller).sendValue(bet.payout);
-            } else {
-                IERC20(bet.token).safeTransfer(roller, bet.payout);
-            }
-        }
+        if (won) _payOut(roller, bet.token, bet.payout);
 
         emit DiceRollFulfilled(requestId, roller, result, won, won ? bet.payout : 0, bet.token);
         emit BetSettled(
             roller,
             bet.amount,
             bet.targetNumber,
+            bet.upperNumber,
             bet.comparisonType,
             result,
             won,
             won ? bet.payout : 0,
-            bet.token
+            bet.token,
+            bet.highResolution
         );
 
-        addressBook.referralProgram().addReward(
-            roller,
-            bet.amount,
-            bet.token
-        );
+        return (bet.amount, bet.token);
+    }
+
+    /**
+     * @notice Returns the stake of a pending bet to the player in the original token
+     * @dev Clears the legacy roll in progress flag, a late fulfillment of the request is ignored
+     * @param requestId The Chainlink VRF request ID of the bet
+     */
+    function _refundBet(uint256 requestId) internal override {
+        address player = requestIdToSender[requestId];
+        Bet storage bet = requestIdToBet[requestId];
+
+        if (player == address(0) || bet.settled || refundTimeout == 0) revert RefundNotAvailable();
+        if (block.timestamp < _refundableAt(bet.createdAt)) revert RefundNotAvailable();
+
+        delete requestIdToSender[requestId];
+        _releaseLiability(bet.token, bet.payout);
+        bet.settled = true;
+        bet.refunded = true;
+        if (rollResults[player] == type(uint256).max) rollResults[player] = 0;
+
+        _payOut(player, bet.token, bet.amount);
+
+        emit BetRefunded(requestId, player, bet.amount, bet.token);
     }
 
     /**
      * @notice Get the latest dice roll result for the caller
-     * @dev Returns the latest roll result or 0 if no roll has been made
-     * @return The dice roll result (1-100) or 0 if no roll has been made
+     * @dev Returns the result of the caller's most recently settled roll or 0 if no roll has been settled. In high resolution mode 0 is also a valid result,
+     * use getCurrentBet to check whether the bet has been settled
+     * @return The dice roll result (1-100, or 0-9999 in high resolution mode) or 0 if no roll has been made
      */
     function getLatestRollResult() external view returns (uint256) {
         uint256 result = rollResults[msg.sender];
@@ -427,22 +519,24 @@ contract Dice is VRFConsumerBaseV2Plus, UUPSUpgradeable, IGame {
 
     /**
      * @notice Check if a roll is in progress for the caller
-     * @dev Returns true if a roll is in progress, false otherwise
+     * @dev Returns true if any bet of the caller is awaiting fulfillment or refund, false otherwise
      * @return True if a roll is in progress, false otherwise
      */
     function isRollInProgress() external view returns (bool) {
-        return rollResults[msg.sender] == type(uint256).max;
+        return getPendingBetCount(msg.sender) > 0 || rollResults[msg.sender] == type(uint256).max;
     }
 
     /**
      * @notice Get the current bet details for the caller
-     * @dev Returns the current bet details for the caller
+     * @dev Returns the details of the latest bet placed by the caller
      * @return amount The bet amount
      * @return targetNumber The target number
      * @return comparisonType The comparison type
      * @return settled Whether the bet has been settled
      * @return won Whether the bet was won
      * @return payout The potential payout
+     * @return upperNumber The high end of the range for range bets (equals targetNumber for other bet types)
+     * @return isHighResolution Whether the bet uses high resolution rolls
      */
     function getCurrentBet()
     external
@@ -453,41 +547,57 @@ contract Dice is VRFConsumerBaseV2Plus, UUPSUpgradeable, IGame {
         ComparisonType comparisonType,
         bool settled,
         bool won,
-        uint256 payout
+        uint256 payout,
+        uint256 upperNumber,
+        bool isHighResolution
     )
     {
-        Bet memory bet = bets[msg.sender];
-        return (bet.amount, bet.targetNumber, bet.comparisonType, bet.settled, bet.won, bet.payout);
+        uint256 requestId = latestRequestIds[msg.sender];
+        Bet memory bet = requestId != 0 ? requestIdToBet[requestId] : bets[msg.sender];
+        return (
+            bet.amount,
+            bet.targetNumber,
+            bet.comparisonType,
+            bet.settled,
+            bet.won,
+            bet.payout,
+            bet.upperNumber,
+            bet.highResolution
+        );
     }
 
     /**
-     * @notice Get the contract balance
-     * @dev Returns the current balance of the contract
-     * @return The contract balance
+     * @notice Get a bet from the bet history
+     * @dev Reverts with BetNotFound if the bet ID does not exist
+     * @param betId The ID of the bet
+     * @return The bet record, including the roll result once settled
      */
-    function getContractBalance() external view returns (uint256) {
-        return address(this).balance;
+    function getBet(uint256 betId) public view returns (BetRecord memory) {
+        BetEntry memory entry = _getBetEntry(betId);
+        return BetRecord({
+            betId: betId,
+            requestId: entry.requestId,
+            player: entry.player,
+            bet: requestIdToBet[entry.requestId]
+        });
     }
 
     /**
-     * @notice Withdraw funds (native or ERC20) from the contract to treasury (administrators only)
-     * @dev Allows the administrators to withdraw funds from the contract to treasury
-     * @param _token The address of the token to withdraw (use address(0) for ETH)
-     * @param _amount The amount to withdraw
+     * @notice Get a page of the bets of a player, in the order they were placed
+     * @param player The address of the player
+     * @param offset The index of the first bet to return
+     * @param limit The maximum number of bets to return
+     * @return records The bet records (empty if offset is past the last bet)
      */
-    function withdrawToTreasury(address _token, uint256 _amount) external {
-        addressBook.accessRoles().requireAdministrator(msg.sender);
-        require(_amount > 0, "_amount is zero!");
-
-        if (_token != address(0)) addressBook.tokensManager().requireTokenSupport(_token);
-
-        if (_token == address(0)) {
-            if (address(this).balance <= _amount) revert InsufficientContractBalance();
-            Address.sendValue(payable(addressBook.treasury()), _amount);
-        } else {
-            IERC20 token = IERC20(_token);
-            if (token.balanceOf(address(this)) <= _amount) revert InsufficientContractBalance();
-            token.safeTransfer(addressBook.treasury(), _amount);
+    function getPlayerBets(
+        address player,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (BetRecord[] memory records) {
+        uint256[] memory betIds = getPlayerBetIds(player, offset, limit);
+        records = new BetRecord[](betIds.length);
+        for (uint256 i = 0; i < betIds.length; i++) {
+            records[i] = getBet(betIds[i]);
         }
     }
 
@@ -497,7 +607,7 @@ contract Dice is VRFConsumerBaseV2Plus, UUPSUpgradeable, IGame {
      * @param newMinBetValue The new minimum target number value
      */
     function setMinBetValue(uint8 newMinBetValue) external {
-        addressBook.accessRoles().requireOwnersMultisig(msg.sender);
+        _requireOwnersMultisig();
         if (newMinBetValue == 0) revert InvalidMinBetValue();
         if (newMinBetValue >= maxBetValue) revert MinGreaterThanMax();
         minBetValue = newMinBetValue;
@@ -509,74 +619,20 @@ contract Dice is VRFConsumerBaseV2Plus, UUPSUpgradeable, IGame {
      * @param newMaxBetValue The new maximum target number value
      */
     function setMaxBetValue(uint8 newMaxBetValue) external {
-        addressBook.accessRoles().requireOwnersMultisig(msg.sender);
+        _requireOwnersMultisig();
         if (newMaxBetValue >= 100) revert InvalidMaxBetValue();
         if (newMaxBetValue <= minBetValue) revert MinGreaterThanMax();
         maxBetValue = newMaxBetValue;
     }
 
     /**
-     * @notice Sets the minimum bet amount (owners multisig only)
-     * @dev Allows the owners multisig to update the minimum bet amount
-     * @param newMinBetAmount The new minimum bet amount
+     * @notice Enables or disables high resolution rolls for new bets (owners multisig only)
+     * @dev In high resolution mode results are 0-9999 and target numbers are in hundredths (e.g., 4250 for 42.50).
+     * Pending bets are settled in the mode they were placed in
+     * @param enabled Whether high resolution rolls should be used
      */
-    function setMinBetAmount(uint256 newMinBetAmount) external {
-        addressBook.accessRoles().requireOwnersMultisig(msg.sender);
-        if (newMinBetAmount == 0) revert InvalidMinBetAmount();
-        if (newMinBetAmount >= maxBetAmount) revert MinGreaterThanMax();
-        minBetAmount = newMinBetAmount;
-    }
-
-    /**
-     * @notice Sets the maximum bet amount (owners multisig only)
-     * @dev Allows the owners multisig to update the maximum bet amount
-     * @param newMaxBetAmount The new maximum bet amount
-     */
-    function setMaxBetAmount(uint256 newMaxBetAmount) external {
-        addressBook.accessRoles().requireOwnersMultisig(msg.sender);
-        if (newMaxBetAmount <= minBetAmount) revert MinGreaterThanMax();
-        maxBetAmount = newMaxBetAmount;
-    }
-
-    /**
-     * @notice Sets the house edge percentage (owners multisig only)
-     * @dev Allows the owners multisig to update the house edge percentage
-     * @param newHouseEdge The new house edge percentage
-     */
-    function setHouseEdge(uint8 newHouseEdge) external {
-        addressBook.accessRoles().requireOwnersMultisig(msg.sender);
-        if (newHouseEdge > 50) revert InvalidHouseEdge();
-        houseEdge = newHouseEdge;
-    }
-
-    /**
-     * @notice Sets the gas limit for Chainlink callback function
-     * @dev Allows the owners multisig to update the gas limit
-     * @param newGasLimit The new gas limit
-     */
-    function setCallbackGasLimit(uint32 newGasLimit) external {
-        addressBook.accessRoles().requireOwnersMultisig(msg.sender);
-        require(newGasLimit > 50000, "Gas limit too low");
-        callbackGasLimit = newGasLimit;
-    }
-
-    /**
-     * @notice Updates the VRF Coordinator and/or subscription ID (owners multisig only)
-     * @dev Allows the owners multisig to update the VRF Coordinator address and subscription ID in one call
-     * @param newCoordinator The address of the new VRF Coordinator (set to address(0) to leave unchanged)
-     * @param newSubscriptionId The new subscription ID (set to 0 to leave unchanged)
-     */
-    function updateVRFSettings(address newCoordinator, uint256 newSubscriptionId) external {
-        addressBook.accessRoles().requireOwnersMultisig(msg.sender);
-
-        if (newCoordinator != address(0)) {
-            s_vrfCoordinator = IVRFCoordinatorV2Plus(newCoordinator);
-            emit CoordinatorSet(newCoordinator);
-        }
-
-        if (newSubscriptionId > 0) {
-            subscriptionId = newSubscriptionId;
-            emit SubscriptionIdSet(newSubscriptionId);
-        }
+    function setHighResolution(bool enabled) external {
+        _requireOwnersMultisig();
+        highResolution = enabled;
     }
 }
@@ -1,52 +1,29 @@
 // SPDX-License-Identifier: MIT
 pragma solidity 0.8.28;
 
-import {IVRFCoordinatorV2Plus} from "@chainlink/contracts/src/v0.8/vrf/dev/interfaces/IVRFCoordinatorV2Plus.sol";
-import {VRFConsumerBaseV2Plus} from "@chainlink/contracts/src/v0.8/vrf/dev/VRFConsumerBaseV2Plus.sol";
-import {VRFV2PlusClient} from "@chainlink/contracts/src/v0.8/vrf/dev/libraries/VRFV2PlusClient.sol";
-import {UUPSUpgradeable} from "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
-import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
-import {IGame} from "../_interfaces/games/IGame.sol";
-import {IAddressBook} from "../_interfaces/access/IAddressBook.sol";
-import {ITokensManager} from "../_interfaces/tokens/ITokensManager.sol";
-import {AddressBook} from "../access/AddressBook.sol";
-import {Address} from "@openzeppelin/contracts/utils/Address.sol";
-import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
-import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {BaseVRFGame, BaseVRFGameConfig, BaseVRFGameLimits} from "./BaseVRFGame.sol";
+import {RandomCells} from "../libraries/RandomCells.sol";
 
 /**
- * @title Grid Contract
- * @notice A contract that provides a grid roll function using Chainlink VRF v2.5 for randomness
- * @dev Returns a random winning cells(between 1 and 25) and allows betting
- * @dev Implements UUPS upgradeable pattern
+ * @title Grid Board Storage
+ * @notice Storage of the board settings of the Grid game
+ * @dev Packed into the slot of the AddressBook reference of the deployed proxies
  */
-contract Grid is VRFConsumerBaseV2Plus, UUPSUpgradeable, IGame {
-    using SafeERC20 for IERC20;
-    using Address for address payable;
-
-    /// @notice Chainlink VRF subscription ID
-    uint256 private subscriptionId;
-    /// @notice Chainlink VRF key hash for the gas lane
-    bytes32 private keyHash;
-    /// @notice Gas limit for the Chainlink VRF callback
-    uint32 private callbackGasLimit;
-    /// @notice Number of confirmations required for Chainlink VRF
-    uint16 private requestConfirmations;
-    /// @notice Reference to the address book contract
-    IAddressBook private addressBook;
-    /// @notice Total quantity of cells in the game
+abstract contract GridBoardStorage is BaseVRFGameConfig {
+    /// @notice Total quantity of cells on the board (up to MAX_TOTAL_CELLS_QUANTITY)
     uint8 public totalCellsQuantity;
     /// @notice Winning cells quantity in the game
     uint8 public winCellsQuantity;
-    /// @notice Cells quantity allowedallowed in the game
+    /// @notice Maximum cells quantity a player can select in a single bet
     uint8 public targetCellsQuantity;
-    /// @notice Minimum bet amount allowed in the game (in wei)
-    uint256 public minBetAmount;
-    /// @notice Maximum bet amount allowed in the game (in wei)
-    uint256 public maxBetAmount;
-    /// @notice House edge percentage (e.g., 10 for 10%)
-    uint8 public houseEdge;
+}
 
+/**
+ * @title Grid Bet Storage
+ * @notice Storage of the Grid bets and roll results
+ * @dev Declared between the shared bet limits and the shared bet accounting, as in the deployed proxies
+ */
+abstract contract GridBetStorage is BaseVRFGameLimits {
     /**
      * @notice Struct representing a bet in the grid game
      * @dev Stores all information about a player's bet
@@ -64,16 +41,56 @@ contract Grid is VRFConsumerBaseV2Plus, UUPSUpgradeable, IGame {
         uint256 pot;
         /// @notice Address of the token used for the bet (address(0) for ETH)
         address token;
+        /// @notice Timestamp of the block in which the bet was placed
+        uint256 createdAt;
+        /// @notice Winning cells mask once the bet is settled
+        uint32 result;
+        /// @notice Whether the stake was refunded because the VRF request was not fulfilled in time
+        bool refunded;
+        /// @notice Amount paid out to the player once the bet is settled (0 if lost)
+        uint256 payout;
+        /// @notice Total cells quantity of the board the bet was placed on (0 for bets placed before it was recorded)
+        uint8 totalCells;
     }
 
-    /// @notice Mapping from Chainlink VRF request ID to the address of the player who made the request
-    mapping(uint256 => address) private requestIdToSender;
-    /// @notice Mapping from player address to their latest roll result (type(uint32).max indicates roll in progress)
-    mapping(address => uint32) private rollResults;
-    /// @notice Mapping from player address to their current bet
-    mapping(address => Bet) private bets;
+    /// @notice Mapping from player address to their most recently settled roll result (type(uint32).max indicates a roll
+    /// placed before concurrent bets were introduced is in progress)
+    mapping(address => uint32) internal rollResults;
+    /// @notice Mapping from player address to their current bet, only kept for bets placed before bets were keyed by request ID
+    mapping(address => Bet) internal bets;
     /// @notice Mapping from Chainlink VRF request ID to the associated bet
-    mapping(uint256 => Bet) private requestIdToBet;
+    mapping(uint256 => Bet) internal requestIdToBet;
+}
+
+/**
+ * @title Grid Contract
+ * @notice A contract that provides a grid roll function using Chainlink VRF v2.5 for randomness
+ * @dev Returns a random winning cells(between 1 and 25) and allows betting
+ * @dev Implements UUPS upgradeable pattern
+ */
+contract Grid is GridBoardStorage, GridBetStorage, BaseVRFGame {
+    /// @notice Maximum quantity of cells on the board (limited by the uint32 cell masks)
+    uint8 public constant MAX_TOTAL_CELLS_QUANTITY = 32;
+
+    /// @notice Share of the pot paid out per match count (in basis points, indexed by the number of matches)
+    uint16[] private payoutTable;
+    /// @notice Minimum cells quantity a player can select in a single bet (0 is treated as 1)
+    uint8 public minTargetCellsQuantity;
+
+    /**
+     * @notice Struct representing a bet in the bet history
+     */
+    struct BetRecord {
+        /// @notice ID of the bet
+        uint256 betId;
+        /// @notice Chainlink VRF request ID of the bet
+        uint256 requestId;
+        /// @notice Address of the player who made the bet
+        address player;
+        /// @notice The bet, including its result and payout once settled
+        Bet bet;
+    }
+
 
     /**
      * @notice Event emitted when a grid roll is requested
@@ -129,33 +146,22 @@ contract Grid is VRFConsumerBaseV2Plus, UUPSUpgradeable, IGame {
         address token
     );
 
-    /// @notice Error thrown when trying to set a houseEdge is outside the valid range
-    error InvalidHouseEdge();
-    /// @notice Error thrown when a min bet value is 0
-    error InvalidMinBetAmount();
-    /// @notice Error thrown when a min value greater than max value
-    error MinGreaterThanMax();
-    /// @notice Error thrown when a player tries to roll while a previous roll is still in progress
-    error RollInProgress();
-    /// @notice Error thrown when a bet amount is outside the allowed range
-    error InvalidBetAmount();
     /// @notice Error thrown when a win cells quantity is outside the allowed range
     error InvalidWinCellsQuantity();
     /// @notice Error thrown when a cells quantity is outside the allowed range
     error InvalidTargetCellsQuantity();
-    /// @notice Error thrown when the contract has insufficient balance to pay out a potential win
-    error InsufficientContractBalance();
-
-    /// @notice Event emitted when the subscription ID is updated
-    event SubscriptionIdSet(uint256 subscriptionId);
+    /// @notice Error thrown when a total cells quantity is outside the allowed range
+    error InvalidTotalCellsQuantity();
+    /// @notice Error thrown when a selected cell is outside the board
+    error CellOutOfBoard();
+    /// @notice Error thrown when a payout table does not cover every possible match count or a share exceeds 100%
+    error InvalidPayoutTable();
 
     /**
      * @notice Constructor that disables initializers
      * @param _vrfCoordinator The address of the VRF Coordinator
      */
-    constructor(address _vrfCoordinator) VRFConsumerBaseV2Plus(_vrfCoordinator) {
-        _disableInitializers();
-    }
+    constructor(address _vrfCoordinator) BaseVRFGame(_vrfCoordinator) {}
 
     /**
      * @notice Initializes the Grid contract with Chainlink VRF parameters
@@ -163,9 +169,10 @@ contract Grid is VRFConsumerBaseV2Plus, UUPSUpgradeable, IGame {
      * @param _subscriptionId The ID of the VRF subscription
      * @param _keyHash The gas lane key hash
      * @param _addressBook The address of the AddressBook contract
-     * @param _minBetAmount The minimum bet amount allowed in the game (in wei)
-     * @param _maxBetAmount The maximum bet amount allowed in the game (in wei)
-     * @param _houseEdge The house edge percentage (e.g., 10 for 10%)
+     * @param _minBetAmount The minimum bet amount allowed in the game (in USD with 18 decimals)
+     * @param _maxBetAmount The maximum bet amount allowed in the game (in USD with 18 decimals)
+     * @param _houseEdge The house edge (in basis points, e.g., 1000 for 10%)
+     * @dev Uses version 2 so that initializeV2 cannot be called on freshly deployed proxies
      */
     function initialize(
         address _vrfCoordinator,
@@ -174,64 +181,125 @@ contract Grid is VRFConsumerBaseV2Plus, UUPSUpgradeable, IGame {
         address _addressBook,
         uint256 _minBetAmount,
         uint256 _maxBetAmount,
-        uint8 _houseEdge
-    ) external initializer {
-        require(_vrfCoordinator != address(0), "_vrfCoordinator is zero!");
-        require(_addressBook != address(0), "_addressBook is zero!");
-        if (_houseEdge > 50) revert InvalidHouseEdge();
-        if (_minBetAmount == 0) revert InvalidMinBetAmount();
-        if (_minBetAmount >= _maxBetAmount) revert MinGreaterThanMax();
-
-        s_vrfCoordinator = IVRFCoordinatorV2Plus(_vrfCoordinator);
-        subscriptionId = _subscriptionId;
-        keyHash = _keyHash;
-        callbackGasLimit = 300000;
-        requestConfirmations = 3;
-        addressBook = IAddressBook(_addressBook);
+        uint16 _houseEdge
+    ) external reinitializer(2) {
+        __BaseVRFGame_init(
+            _vrfCoordinator,
+            _subscriptionId,
+            _keyHash,
+            _addressBook,
+            _minBetAmount,
+            _maxBetAmount,
+            _houseEdge
+        );
+
         totalCellsQuantity = 25;
         winCellsQuantity = 5;
         targetCellsQuantity = 9;
-        minBetAmount = _minBetAmount;
-        maxBetAmount = _maxBetAmount;
-        houseEdge = _houseEdge;
-        __UUPSUpgradeable_init();
+        minTargetCellsQuantity = 1;
+        payoutTable = _defaultPayoutTable();
+    }
+
+
+    function _popcount32(uint32 x) internal pure returns (uint8 count) {
+        count = 0;
+        while (x != 0) {
+            count += uint8(x & 1);
+            x >>= 1;
+        }
     }
 
     /**
-     * @notice Authorizes an upgrade to a new implementation
-     * @dev Only the owners multisig can upgrade the contract
-     * @param newImplementation Address of the new implementation (unused parameter required by UUPS)
+     * @notice Calculate the pot for a bet
+     * @dev The pot is sized so that the expected payout, weighted by the hypergeometric odds of each match count
+     * and the payout table shares, equals the bet amount minus the house edge of the bet token
+     * @param betAmount The amount of the bet
+     * @param cellsQuantity The number of cells selected by the player
+     * @param token The address of the token used for the bet (address(0) for ETH)
+     * @return pot The pot amount (the payout for the highest share of the payout table)
      */
-    function _authorizeUpgrade(address newImplementation) internal view override {
-        addressBook.accessRoles().requireOwnersMultisig(msg.sender);
+    function calculatePot(uint256 betAmount, uint8 cellsQuantity, address token) public view returns (uint256 pot) {
+        uint256 weightedShares = _weightedShares(getPayoutTable(), cellsQuantity);
+        if (weightedShares == 0) revert InvalidPayoutTable();
+
+        pot = betAmount * (DIVIDER - getHouseEdge(token)) * _binomial(totalCellsQuantity, cellsQuantity) / weightedShares;
     }
 
     /**
-     * @notice Receive function to allow the contract to receive ETH
+     * @notice Quote a bet for the frontend
+     * @dev Applies the house edge of the bet token, as roll does
+     * @param cellMask A uint32 bitmask representing the cells the player selected
+     * @param amount The amount of the bet
+     * @param token The address of the token used for the bet (address(0) for ETH)
+     * @return pot The pot amount of the bet
+     * @return payouts The payout per match count (indexed by the number of matches)
      */
-    receive() external payable {}
+    function quote(
+        uint32 cellMask,
+        uint256 amount,
+        address token
+    ) external view returns (uint256 pot, uint256[] memory payouts) {
+        uint8 cellsQuantity = _requireValidCellMask(cellMask);
+
+        pot = calculatePot(amount, cellsQuantity, token);
+
+        uint16[] memory table = getPayoutTable();
+        uint8 maxMatches = cellsQuantity < winCellsQuantity ? cellsQuantity : winCellsQuantity;
+
+        payouts = new uint256[](maxMatches + 1);
+        for (uint256 i = 0; i <= maxMatches; i++) {
+            payouts[i] = pot * table[i] / DIVIDER;
+        }
+    }
 
     /**
-     * @notice Fallback function to allow the contract to receive ETH
+     * @notice Sums the payout table shares weighted by the number of draws resulting in each match count
+     * @dev The number of draws with m matches is C(winCells, m) * C(totalCells - winCells, cellsQuantity - m)
+     * @param table The share of the pot paid out per match count (in basis points)
+     * @param cellsQuantity The number of cells selected by the player
+     * @return weightedShares The sum of shares multiplied by the number of draws
      */
-    fallback() external payable {}
+    function _weightedShares(uint16[] memory table, uint8 cellsQuantity) internal view returns (uint256 weightedShares) {
+        uint8 total = totalCellsQuantity;
+        uint8 win = winCellsQuantity;
 
-    function _popcount32(uint32 x) internal pure returns (uint8 count) {
-        count = 0;
-        while (x != 0) {
-            count += uint8(x & 1);
-            x >>= 1;
+        for (uint8 m = 0; m <= cellsQuantity && m <= win && m < table.length; m++) {
+            weightedShares += table[m] * _binomial(win, m) * _binomial(total - win, cellsQuantity - m);
         }
     }
 
-    function calculatePot(uint256 betAmount) public view returns (uint256 pot) {
-        pot = betAmount * 2 * (100 - houseEdge) / 100;
+    /**
+     * @notice Calculates the binomial coefficient C(n, k)
+     * @param n The size of the set
+     * @param k The size of the subset
+     * @return result The number of k-element subsets of an n-element set (0 if k > n)
+     */
+    function _binomial(uint256 n, uint256 k) internal pure returns (uint256 result) {
+        if (k > n) return 0;
+        result = 1;
+        for (uint256 i = 1; i <= k; i++) {
+            result = result * (n - k + i) / i;
+        }
+    }
+
+    /**
+     * @notice Reverts if a selected cell is outside the board or the number of selected cells is outside the allowed range
+     * @param cellMask A uint32 bitmask representing the cells the player selected
+     * @return cellsQuantity The number of cells selected by the player
+     */
+    function _requireValidCellMask(uint32 cellMask) internal view returns (uint8 cellsQuantity) {
+        if (cellMask >> totalCellsQuantity != 0) revert CellOutOfBoard();
+
+        cellsQuantity = _popcount32(cellMask);
+        uint8 minCells = minTargetCellsQuantity == 0 ? 1 : minTargetCellsQuantity;
+        if (cellsQuantity < minCells || cellsQuantity > targetCellsQuantity) revert InvalidTargetCellsQuantity();
     }
 
     /**
      * @notice Initiates a Grid roll with either a native token (ETH) or ERC20 token bet and requests randomness from Chainlink VRF
      * @dev Validates bet parameters, stores the bet, and sends a VRF request
      * @param cellMask A uint32 bitmask representing the cells the user selected. Each bit set to 1 corresponds to a selected cell (0-24 for a 5x5 grid).
+     * Between minTargetCellsQuantity and targetCellsQuantity cells can be selected
      * @param token The address of the token to bet with (use address(0) for ETH)
      * @param betAmount The amount of tokens to bet (ignored for native token, use msg.value instead)
      * @param referrer The address of the referrer (use address(0) for no referrer)
@@ -243,39 +311,10 @@ contract Grid is VRFConsumerBaseV2Plus, UUPSUpgradeable, IGame {
         uint256 betAmount,
         address referrer
     ) public payable returns (uint256) {
-        require(
-            addressBook.gameManager().isGameExist(address(this)),
-            "Game doesn't exist in GameManager"
-        );
-        addressBook.pauseManager().requireNotPaused();
-        addressBook.tokensManager().requireTokenSupport(token);
-
-        uint256 actualBetAmount;
-        if (token == address(0)) {
-            actualBetAmount = msg.value;
-            require(
-                betAmount == 0 || betAmount == msg.value,
-                "Bet amount must match msg.value for native token"
-            );
-        } else {
-            actualBetAmount = betAmount;
-            require(msg.value == 0, "Cannot send ETH when betting with tokens");
-            IERC20(token).safeTransferFrom(msg.sender, address(this), actualBetAmount);
-        }
-
-        if (rollResults[msg.sender] == type(uint32).max) revert RollInProgress();
-        if (actualBetAmount < minBetAmount || actualBetAmount > maxBetAmount) revert InvalidBetAmount();
-        if (_popcount32(cellMask) != targetCellsQuantity) revert InvalidTargetCellsQuantity();
+        uint256 actualBetAmount = _acceptBet(token, betAmount);
+        uint8 cellsQuantity = _requireValidCellMask(cellMask);
 
-        uint256 pot = calculatePot(actualBetAmount);
-
-        if (token == address(0)) {
-            if (address(this).balance < pot) revert InsufficientContractBalance();
-        } else {
-            if (IERC20(token).balanceOf(address(this)) < pot) revert InsufficientContractBalance();
-        }
-
-        rollResults[msg.sender] = type(uint32).max;
+        uint256 pot = calculatePot(actualBetAmount, cellsQuantity, token);
 
         Bet memory bet = Bet({
             amount: actualBetAmount,
@@ -283,105 +322,118 @@ contract Grid is VRFConsumerBaseV2Plus, UUPSUpgradeable, IGame {
             settled: false,
             won: false,
             pot: pot,
-            token: token
-        });
-
-        bets[msg.sender] = bet;
-
-        VRFV2PlusClient.RandomWordsRequest memory request = VRFV2PlusClient.RandomWordsRequest({
-            keyHash: keyHash,
-            subId: subscriptionId,
-            requestConfirmations: requestConfirmations,
-            callbackGasLimit: callbackGasLimit,
-            numWords: 1,
-            extraArgs: VRFV2PlusClient._argsToBytes(
-                VRFV2PlusClient.ExtraArgsV1({nativePayment: false})
-            )
+            token: token,
+            createdAt: block.timestamp,
+            result: 0,
+            refunded: false,
+            payout: 0,
+            totalCells: totalCellsQuantity
         });
 
-        uint256 requestId = s_vrfCoordinator.requestRandomWords(request);
+        uint256 requestId = _placeBet(token, pot, referrer);
 
-        requestIdToSender[requestId] = msg.sender;
         requestIdToBet[requestId] = bet;
 
         emit GridRollRequested(requestId, msg.sender, actualBetAmount, cellMask, token);
 
-        if (referrer != address(0)) addressBook.referralProgram().setReferral(msg.sender, referrer);
-
         return requestId;
     }
 
-
     function _deriveWinningCellsFromRandom(uint256 rw) public view returns (uint32 mask) {
-        uint8 total = totalCellsQuantity;
+        return _deriveWinningCells(rw, totalCellsQuantity);
+    }
+
+    /**
+     * @notice Derives the winning cells of a board from a random word
+     * @param rw The random word
+     * @param total The total cells quantity of the board
+     * @return mask The winning cells mask
+     */
+    function _deriveWinningCells(uint256 rw, uint8 total) internal view returns (uint32 mask) {
         uint8 pick = winCellsQuantity;
+        if (total > MAX_TOTAL_CELLS_QUANTITY || pick >= total) revert InvalidTotalCellsQuantity();
 
-        uint8[] memory arr = new uint8[](total);
-        for (uint8 i = 0; i < total; i++) {
-            arr[i] = i;
-        }
+        return RandomCells.deriveMask(rw, total, pick);
+    }
 
-        uint256 rnd = rw;
-        uint8 remaining = total;
-        mask = 0;
 
-        for (uint8 j = 0; j < pick; j++) {
-            uint256 idx = rnd % remaining;
-            uint8 val = arr[idx];
-            mask |= uint32(1) << val;
+    function calculatePayout(Bet memory bet, uint32 winningMask) internal view returns (uint256 payout) {
+        uint16[] memory table = getPayoutTable();
+        uint256 matches = _popcount32(bet.cells & winningMask);
 
-            arr[idx] = arr[remaining - 1];
-            remaining--;
+        // Bets placed before the cells quantities were lowered can match more cells than the table covers
+        if (matches >= table.length) matches = table.length - 1;
 
-            rnd = uint256(keccak256(abi.encode(rnd, j)));
-        }
+        payout = bet.pot * table[matches] / DIVIDER;
     }
 
+    /**
+     * @notice Get the payout table of the game
+     * @dev Proxies deployed before the payout table was introduced use the default table
+     * @return The share of the pot paid out per match count (in basis points, indexed by the number of matches)
+     */
+    function getPayoutTable() public view returns (uint16[] memory) {
+        if (payoutTable.length == 0) return _defaultPayoutTable();
+        return payoutTable;
+    }
 
-    function calculatePayout(Bet memory bet, uint32 winningMask) internal pure returns (uint256 payout) {
-        uint8 matches = _popcount32(bet.cells & winningMask);
-        uint8 sharePercent;
+    /**
+     * @notice Returns the default payout table (20% of the pot per match, up to 5 matches)
+     * @return table The share of the pot paid out per match count (in basis points)
+     */
+    function _defaultPayoutTable() internal pure returns (uint16[] memory table) {
+        table = new uint16[](6);
+        for (uint256 i = 1; i < table.length; i++) {
+            table[i] = uint16(i * 2000);
+        }
+    }
 
-        if (matches == 0) sharePercent = 0;
-        else if (matches == 1) sharePercent = 20;
-        else if (matches == 2) sharePercent = 40;
-        else if (matches == 3) sharePercent = 60;
-        else if (matches == 4) sharePercent = 80;
-        else if (matches == 5) sharePercent = 100;
+    /**
+     * @notice Reverts if a payout table does not cover every possible match count or pays more than the pot
+     * @param table The share of the pot paid out per match count (in basis points)
+     * @param winCells The winning cells quantity
+     * @param targetCells The target cells quantity
+     */
+    function _requireValidPayoutTable(uint16[] memory table, uint8 winCells, uint8 targetCells) internal pure {
+        uint8 maxMatches = winCells < targetCells ? winCells : targetCells;
+        if (table.length <= maxMatches) revert InvalidPayoutTable();
 
-        payout = bet.pot * sharePercent / 100;
+        for (uint256 i = 0; i < table.length; i++) {
+            if (table[i] > DIVIDER) revert InvalidPayoutTable();
+        }
     }
 
+
     /**
-     * @notice Callback function used by Chainlink VRF to deliver random words
-     * @dev Processes the random words, calculates the grid roll result, and settles the bet
-     * @param requestId The ID of the request
-     * @param randomWords The random words generated by Chainlink VRF
+     * @notice Derives the winning cells of a fulfilled request and settles the bet
+     * @param requestId The Chainlink VRF request ID of the bet
+     * @param roller The address of the player who made the roll
+     * @param randomWord The random word generated by Chainlink VRF
+     * @return amount The amount of tokens wagered
+     * @return token The address of the token used for the bet (address(0) for ETH)
      */
-    function fulfillRandomWords(
+    function _settleBet(
         uint256 requestId,
-        uint256[] calldata randomWords
-    ) internal override {
-        address roller = requestIdToSender[requestId];
+        address roller,
+        uint256 randomWord
+    ) internal override returns (uint256 amount, address token) {
         Bet storage bet = requestIdToBet[requestId];
 
-        uint32 winningMask = _deriveWinningCellsFromRandom(randomWords[0]);
+        // Bets are settled on the board they were placed on, the pot was sized for it
+        uint8 total = bet.totalCells == 0 ? totalCellsQuantity : bet.totalCells;
+        uint32 winningMask = _deriveWinningCells(randomWord, total);
         rollResults[roller] = winningMask;
 
         uint256 payout = calculatePayout(bet, winningMask);
 
+        _releaseLiability(bet.token, bet.pot);
+
         bet.settled = true;
         bet.won = payout > 0;
+        bet.result = winningMask;
+        bet.payout = payout;
 
-        bets[roller] = bet;
-
-        if (bet.won) {
-            if (bet.token == address(0)) {
-                payable(roller).sendValue(payout);
-            } else {
-                IERC20(bet.token).safeTransfer(roller, payout);
-            }
-        }
+        if (bet.won) _payOut(roller, bet.token, payout);
 
         emit GridRollFulfilled(requestId, roller, winningMask, bet.won, payout, bet.token);
         emit BetSettled(
@@ -394,12 +446,35 @@ contract Grid is VRFConsumerBaseV2Plus, UUPSUpgradeable, IGame {
             bet.token
         );
 
-        addressBook.referralProgram().addReward(roller, bet.amount, bet.token);
+        return (bet.amount, bet.token);
+    }
+
+    /**
+     * @notice Returns the stake of a pending bet to the player in the original token
+     * @dev Clears the legacy roll in progress flag, a late fulfillment of the request is ignored
+     * @param requestId The Chainlink VRF request ID of the bet
+     */
+    function _refundBet(uint256 requestId) internal override {
+        address player = requestIdToSender[requestId];
+        Bet storage bet = requestIdToBet[requestId];
+
+        if (player == address(0) || bet.settled || refundTimeout == 0) revert RefundNotAvailable();
+        if (block.timestamp < _refundableAt(bet.createdAt)) revert RefundNotAvailable();
+
+        delete requestIdToSender[requestId];
+        _releaseLiability(bet.token, bet.pot);
+        bet.settled = true;
+        bet.refunded = true;
+        if (rollResults[player] == type(uint32).max) rollResults[player] = 0;
+
+        _payOut(player, bet.token, bet.amount);
+
+        emit BetRefunded(requestId, player, bet.amount, bet.token);
     }
 
     /**
      * @notice Get the latest grid roll result for the caller
-     * @dev Returns the latest roll result or 0 if no roll has been made
+     * @dev Returns the result of the caller's most recently settled roll or 0 if no roll has been settled
      * @return The grid roll result (cells mask)
      */
     function getLatestRollResult() external view returns (uint32) {
@@ -412,16 +487,16 @@ contract Grid is VRFConsumerBaseV2Plus, UUPSUpgradeable, IGame {
 
     /**
      * @notice Check if a roll is in progress for the caller
-     * @dev Returns true if a roll is in progress, false otherwise
+     * @dev Returns true if any bet of the caller is awaiting fulfillment or refund, false otherwise
      * @return True if a roll is in progress, false otherwise
      */
     function isRollInProgress() external view returns (bool) {
-        return rollResults[msg.sender] == type(uint32).max;
+        return getPendingBetCount(msg.sender) > 0 || rollResults[msg.sender] == type(uint32).max;
     }
 
     /**
      * @notice Get the current bet details for the caller
-     * @dev Returns the current bet details for the caller
+     * @dev Returns the details of the latest bet placed by the caller
      * @return amount The bet amount
      * @return cells The cells mask that user selected
      * @return settled Whether the bet has been settled
@@ -439,39 +514,63 @@ contract Grid is VRFConsumerBaseV2Plus, UUPSUpgradeable, IGame {
         uint256 pot
     )
     {
-        Bet memory bet = bets[msg.sender];
+        uint256 requestId = latestRequestIds[msg.sender];
+        Bet memory bet = requestId != 0 ? requestIdToBet[requestId] : bets[msg.sender];
         return (bet.amount, bet.cells, bet.settled, bet.won, bet.pot);
     }
 
     /**
-     * @notice Get the contract balance
-     * @dev Returns the current balance of the contract
-     * @return The contract balance
+     * @notice Get a bet from the bet history
+     * @dev Reverts with BetNotFound if the bet ID does not exist
+     * @param betId The ID of the bet
+     * @return The bet record, including the winning cells and the payout once settled
      */
-    function getContractBalance() external view returns (uint256) {
-        return address(this).balance;
+    function getBet(uint256 betId) public view returns (BetRecord memory) {
+        BetEntry memory entry = _getBetEntry(betId);
+        return BetRecord({
+            betId: betId,
+            requestId: entry.requestId,
+            player: entry.player,
+            bet: requestIdToBet[entry.requestId]
+        });
+    }
+
+    /**
+     * @notice Get a page of the bets of a player, in the order they were placed
+     * @param player The address of the player
+     * @param offset The index of the first bet to return
+     * @param limit The maximum number of bets to return
+     * @return records The bet records (empty if offset is past the last bet)
+     */
+    function getPlayerBets(
+        address player,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (BetRecord[] memory records) {
+        uint256[] memory betIds = getPlayerBetIds(player, offset, limit);
+        records = new BetRecord[](betIds.length);
+        for (uint256 i = 0; i < betIds.length; i++) {
+            records[i] = getBet(betIds[i]);
+        }
     }
 
     /**
-     * @notice Withdraw funds (native or ERC20) from the contract to treasury (administrators only)
-     * @dev Allows the administrators to withdraw funds from the contract to treasury
-     * @param _token The address of the token to withdraw (use address(0) for ETH)
-     * @param _amount The amount to withdraw
+     * @notice Sets the total cells quantity of the board (owners multisig only)
+     * @dev The board must stay larger than the winning and target cells quantities. Pending bets are settled on the
+     * board they were placed on
+     * @param newTotalCellsQuantity The new total cells quantity (up to MAX_TOTAL_CELLS_QUANTITY)
      */
-    function withdrawToTreasury(address _token, uint256 _amount) external {
-        addressBook.accessRoles().requireAdministrator(msg.sender);
-        require(_amount > 0, "_amount is zero!");
-
-        if (_token != address(0)) addressBook.tokensManager().requireTokenSupport(_token);
-
-        if (_token == address(0)) {
-            if (address(this).balance <= _amount) revert InsufficientContractBalance();
-            Address.sendValue(payable(addressBook.treasury()), _amount);
-        } else {
-            IERC20 token = IERC20(_token);
-            if (token.balanceOf(address(this)) <= _amount) revert InsufficientContractBalance();
-            token.safeTransfer(addressBook.treasury(), _amount);
+    function setTotalCellsQuantity(uint8 newTotalCellsQuantity) external {
+        _requireOwnersMultisig();
+        if (newTotalCellsQuantity == 0 || newTotalCellsQuantity > MAX_TOTAL_CELLS_QUANTITY) {
+            revert InvalidTotalCellsQuantity();
         }
+        if (winCellsQuantity >= newTotalCellsQuantity || targetCellsQuantity >= newTotalCellsQuantity) {
+            revert MinGreaterThanMax();
+        }
+        _requireValidPayoutTable(getPayoutTable(), winCellsQuantity, targetCellsQuantity);
+
+        totalCellsQuantity = newTotalCellsQuantity;
     }
 
     /**
@@ -480,90 +579,53 @@ contract Grid is VRFConsumerBaseV2Plus, UUPSUpgradeable, IGame {
      * @param newWinCellsQuantity The new winning cells quantity
      */
     function setWinCellsQuantity(uint8 newWinCellsQuantity) external {
-        addressBook.accessRoles().requireOwnersMultisig(msg.sender);
+        _requireOwnersMultisig();
 
         if (newWinCellsQuantity == 0) revert InvalidWinCellsQuantity();
         if (newWinCellsQuantity >= totalCellsQuantity) revert MinGreaterThanMax();
+        _requireValidPayoutTable(getPayoutTable(), newWinCellsQuantity, targetCellsQuantity);
 
         winCellsQuantity = newWinCellsQuantity;
     }
 
     /**
      * @notice Sets the target cells quantity (owners multisig only)
-     * @dev Allows the owners multisig to update the number of cells a player can select in a single transaction
+     * @dev Allows the owners multisig to update the maximum number of cells a player can select in a single bet
      * @param newTargetCellsQuantity The new target cells quantity
      */
     function setTargetCellsQuantity(uint8 newTargetCellsQuantity) external {
-        addressBook.accessRoles().requireOwnersMultisig(msg.sender);
+        _requireOwnersMultisig();
         if (newTargetCellsQuantity == 0) revert InvalidTargetCellsQuantity();
         if (newTargetCellsQuantity >= totalCellsQuantity) revert MinGreaterThanMax();
+        if (newTargetCellsQuantity < minTargetCellsQuantity) revert MinGreaterThanMax();
+        _requireValidPayoutTable(getPayoutTable(), winCellsQuantity, newTargetCellsQuantity);
 
         targetCellsQuantity = newTargetCellsQuantity;
     }
 
-
     /**
-     * @notice Sets the minimum bet amount (owners multisig only)
-     * @dev Allows the owners multisig to update the minimum bet amount
-     * @param newMinBetAmount The new minimum bet amount
+     * @notice Sets the minimum target cells quantity (owners multisig only)
+     * @dev Allows the owners multisig to update the minimum number of cells a player can select in a single bet
+     * @param newMinTargetCellsQuantity The new minimum target cells quantity
      */
-    function setMinBetAmount(uint256 newMinBetAmount) external {
-        addressBook.accessRoles().requireOwnersMultisig(msg.sender);
-        if (newMinBetAmount == 0) revert InvalidMinBetAmount();
-        if (newMinBetAmount >= maxBetAmount) revert MinGreaterThanMax();
-        minBetAmount = newMinBetAmount;
-    }
+    function setMinTargetCellsQuantity(uint8 newMinTargetCellsQuantity) external {
+        _requireOwnersMultisig();
+        if (newMinTargetCellsQuantity == 0) revert InvalidTargetCellsQuantity();
+        if (newMinTargetCellsQuantity > targetCellsQuantity) revert MinGreaterThanMax();
 
-    /**
-     * @notice Sets the maximum bet amount (owners multisig only)
-     * @dev Allows the owners multisig to update the maximum bet amount
-     * @param newMaxBetAmount The new maximum bet amount
-     */
-    function setMaxBetAmount(uint256 newMaxBetAmount) external {
-        addressBook.accessRoles().requireOwnersMultisig(msg.sender);
-        if (newMaxBetAmount <= minBetAmount) revert MinGreaterThanMax();
-        maxBetAmount = newMaxBetAmount;
+        minTargetCellsQuantity = newMinTargetCellsQuantity;
     }
 
     /**
-     * @notice Sets the house edge percentage (owners multisig only)
-     * @dev Allows the owners multisig to update the house edge percentage
-     * @param newHouseEdge The new house edge percentage
+     * @notice Sets the payout table (owners multisig only)
+     * @dev The table must have an entry for every match count up to min(winCellsQuantity, targetCellsQuantity)
+     * and no share can exceed the pot
+     * @param newPayoutTable The share of the pot paid out per match count (in basis points, indexed by the number of matches)
      */
-    function setHouseEdge(uint8 newHouseEdge) external {
-        addressBook.accessRoles().requireOwnersMultisig(msg.sender);
-        if (newHouseEdge > 50) revert InvalidHouseEdge();
-        houseEdge = newHouseEdge;
-    }
+    function setPayoutTable(uint16[] calldata newPayoutTable) external {
+        _requireOwnersMultisig();
+        _requireValidPayoutTable(newPayoutTable, winCellsQuantity, targetCellsQuantity);
 
-    /**
-     * @notice Sets the gas limit for Chainlink callback function
-     * @dev Allows the owners multisig to update the gas limit
-     * @param newGasLimit The new gas limit
-     */
-    function setCallbackGasLimit(uint32 newGasLimit) external {
-        addressBook.accessRoles().requireOwnersMultisig(msg.sender);
-        require(newGasLimit > 50000, "Gas limit too low");
-        callbackGasLimit = newGasLimit;
-    }
-
-    /**
-     * @notice Updates the VRF Coordinator and/or subscription ID (owners multisig only)
-     * @dev Allows the owners multisig to update the VRF Coordinator address and subscription ID in one call
-     * @param newCoordinator The address of the new VRF Coordinator (set to address(0) to leave unchanged)
-     * @param newSubscriptionId The new subscription ID (set to 0 to leave unchanged)
-     */
-    function updateVRFSettings(address newCoordinator, uint256 newSubscriptionId) external {
-        addressBook.accessRoles().requireOwnersMultisig(msg.sender);
-
-        if (newCoordinator != address(0)) {
-            s_vrfCoordinator = IVRFCoordinatorV2Plus(newCoordinator);
-            emit CoordinatorSet(newCoordinator);
-        }
-
-        if (newSubscriptionId > 0) {
-            subscriptionId = newSubscriptionId;
-            emit SubscriptionIdSet(newSubscriptionId);
-        }
+        payoutTable = newPayoutTable;
     }
 }
@@ -0,0 +1,754 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import {BaseVRFGame} from "./BaseVRFGame.sol";
+import {IReferralProgram} from "../_interfaces/vaults/IReferralProgram.sol";
+
+/**
+ * @title Lottery Contract
+ * @notice A contract that provides scheduled lottery rounds using Chainlink VRF v2.5 for randomness
+ * @dev Tickets are sold for a fixed USD price in any supported token until the round ends,
+ * @dev a single VRF request after the close picks one winning ticket per prize tier
+ * @dev The prize pool of every token is split by the tier table, the house cut on ticket sales stays in the game
+ * @dev until it is withdrawn to the treasury
+ * @dev Prizes of tiers without a winner and prizes unclaimed within the claim period roll over to the next round
+ * @dev Implements UUPS upgradeable pattern
+ */
+contract Lottery is BaseVRFGame {
+    /// @notice Maximum quantity of prize tiers in a round
+    uint256 public constant MAX_PRIZE_TIERS = 10;
+
+    /**
+     * @notice Enum representing the lifecycle of a lottery round
+     */
+    enum RoundStatus {
+        /// @notice The round has not been started
+        NONE,
+        /// @notice Tickets are on sale until the end time of the round
+        OPEN,
+        /// @notice The round is closed and waits for the Chainlink VRF draw
+        DRAWING,
+        /// @notice The winners of the round are drawn
+        DRAWN
+    }
+
+    /**
+     * @notice Struct representing a lottery round
+     */
+    struct Round {
+        /// @notice Timestamp of the block in which the round was started
+        uint256 startTime;
+        /// @notice Timestamp after which no more tickets are sold
+        uint256 endTime;
+        /// @notice Quantity of tickets sold in the round
+        uint256 ticketCount;
+        /// @notice Current status of the round
+        RoundStatus status;
+        /// @notice Latest Chainlink VRF request ID of the draw
+        uint256 requestId;
+        /// @notice Timestamp of the block in which the draw was requested
+        uint256 closedAt;
+        /// @notice Timestamp of the block in which the winners were drawn
+        uint256 drawnAt;
+    }
+
+    /**
+     * @notice Struct representing a consecutive range of tickets bought in a single purchase
+     * @dev The range starts at the end of the previous range of the round
+     */
+    struct TicketRange {
+        /// @notice Address of the player holding the tickets
+        address player;
+        /// @notice Number of the ticket following the last ticket of the range
+        uint256 end;
+    }
+
+    /// @notice Mapping from Chainlink VRF request ID to the round being drawn
+    mapping(uint256 => uint256) private requestIdToRound;
+    /// @notice Price of a single ticket (in USD with 18 decimals)
+    uint256 public ticketPrice;
+    /// @notice Duration of the ticket sale of new rounds (in seconds)
+    uint256 public roundDuration;
+    /// @notice Time the winners of a round have to claim their prizes (in seconds)
+    uint256 public claimPeriod;
+    /// @notice ID of the round currently selling tickets
+    uint256 public currentRoundId;
+    /// @notice Shares of the prize pool for the tiers of new rounds (in basis points, adding up to 10000)
+    uint16[] private prizeTiers;
+    /// @notice Mapping from round ID to the round
+    mapping(uint256 => Round) private rounds;
+    /// @notice Mapping from round ID to the prize tiers of the round, fixed when the round is closed
+    mapping(uint256 => uint16[]) private roundPrizeTiers;
+    /// @notice Mapping from round ID to the tokens with a prize pool in the round
+    mapping(uint256 => address[]) private roundTokens;
+    /// @notice Mapping from round ID and token address to the prize pool (net of the house cut once drawn)
+    mapping(uint256 => mapping(address => uint256)) private roundPools;
+    /// @notice Mapping from round ID and token address to the ticket sales of the round
+    mapping(uint256 => mapping(address => uint256)) private roundSales;
+    /// @notice Mapping from round ID to the ticket ranges bought in the round
+    mapping(uint256 => TicketRange[]) private ticketRanges;
+    /// @notice Mapping from round ID and player address to the quantity of tickets held by the player
+    mapping(uint256 => mapping(address => uint256)) public playerTickets;
+    /// @notice Mapping from round ID and prize tier to the winner of the tier
+    mapping(uint256 => mapping(uint256 => address)) private winners;
+    /// @notice Mapping from round ID and prize tier to whether the prize was claimed or rolled over
+    mapping(uint256 => mapping(uint256 => bool)) private prizeSettled;
+
+    /**
+     * @notice Event emitted when a round is started
+     * @param roundId The ID of the round
+     * @param endTime Timestamp after which no more tickets are sold
+     */
+    event RoundStarted(uint256 indexed roundId, uint256 endTime);
+
+    /**
+     * @notice Event emitted when tickets are bought
+     * @param roundId The ID of the round
+     * @param player The address of the player buying the tickets
+     * @param ticketCount The quantity of tickets bought
+     * @param cost The amount of tokens paid for the tickets
+     * @param token The address of the token used for the purchase (address(0) for ETH)
+     */
+    event TicketsPurchased(
+        uint256 indexed roundId,
+        address indexed player,
+        uint256 ticketCount,
+        uint256 cost,
+        address token
+    );
+
+    /**
+     * @notice Event emitted when the draw of a round is requested from Chainlink VRF
+     * @param roundId The ID of the round
+     * @param requestId The Chainlink VRF request ID
+     * @param ticketCount The quantity of tickets sold in the round
+     */
+    event RoundClosed(uint256 indexed roundId, uint256 indexed requestId, uint256 ticketCount);
+
+    /**
+     * @notice Event emitted when the winners of a round are drawn
+     * @param roundId The ID of the round
+     * @param winningTickets The winning ticket of every prize tier with a winner
+     * @param roundWinners The holder of every winning ticket
+     */
+    event RoundDrawn(uint256 indexed roundId, uint256[] winningTickets, address[] roundWinners);
+
+    /**
+     * @notice Event emitted when the house cut on the ticket sales of a round is taken from its prize pool
+     * @param roundId The ID of the round
+     * @param amount The amount of tokens taken, withdrawable with withdrawToTreasury
+     * @param token The address of the token (address(0) for ETH)
+     */
+    event HouseCutAccrued(uint256 indexed roundId, uint256 amount, address token);
+
+    /**
+     * @notice Event emitted when a prize is claimed
+     * @param roundId The ID of the round
+     * @param tier The prize tier
+     * @param player The address of the winner
+     */
+    event PrizeClaimed(uint256 indexed roundId, uint256 indexed tier, address indexed player);
+
+    /**
+     * @notice Event emitted when a part of a prize pool is moved to a later round
+     * @param fromRoundId The ID of the round the prizes were not won or claimed in
+     * @param toRoundId The ID of the round receiving the prizes
+     * @param amount The amount of tokens moved
+     * @param token The address of the token (address(0) for ETH)
+     */
+    event PrizeRolledOver(uint256 indexed fromRoundId, uint256 indexed toRoundId, uint256 amount, address token);
+
+    /// @notice Error thrown when a ticket price is 0
+    error InvalidTicketPrice();
+    /// @notice Error thrown when a quantity of tickets is 0
+    error InvalidTicketCount();
+    /// @notice Error thrown when a round duration is outside the valid range
+    error InvalidRoundDuration();
+    /// @notice Error thrown when a claim period is outside the valid range
+    error InvalidClaimPeriod();
+    /// @notice Error thrown when a prize tier table is empty, too long, has a zero tier or does not add up to 100%
+    error InvalidPrizeTiers();
+    /// @notice Error thrown when buying tickets after the end time of the current round
+    error RoundEnded();
+    /// @notice Error thrown when closing the current round before its end time
+    error RoundNotEnded();
+    /// @notice Error thrown when a draw cannot be requested again (not pending or draw timeout not reached)
+    error DrawNotAvailable();
+    /// @notice Error thrown when a prize cannot be claimed (not drawn, not the winner or already settled)
+    error PrizeNotAvailable();
+    /// @notice Error thrown when claiming a prize after the claim period
+    error ClaimPeriodEnded();
+    /// @notice Error thrown when no unclaimed prizes of a round can be rolled over
+    error RollOverNotAvailable();
+
+    /**
+     * @notice Constructor that disables initializers
+     * @param _vrfCoordinator The address of the VRF Coordinator
+     */
+    constructor(address _vrfCoordinator) BaseVRFGame(_vrfCoordinator) {}
+
+    /**
+     * @notice Initializes the Lottery contract with Chainlink VRF parameters and starts the first round
+     * @dev The prize pool is split 50% / 30% / 20% between three tiers until the tier table is changed
+     * @param _vrfCoordinator The address of the VRF Coordinator
+     * @param _subscriptionId The ID of the VRF subscription
+     * @param _keyHash The gas lane key hash
+     * @param _addressBook The address of the AddressBook contract
+     * @param _minBetAmount The minimum cost of a single ticket purchase (in USD with 18 decimals)
+     * @param _maxBetAmount The maximum cost of a single ticket purchase (in USD with 18 decimals)
+     * @param _houseEdge The house cut on ticket sales (in basis points, e.g., 1000 for 10%)
+     * @param _ticketPrice The price of a single ticket (in USD with 18 decimals)
+     * @param _roundDuration The duration of the ticket sale of a round (in seconds)
+     */
+    function initialize(
+        address _vrfCoordinator,
+        uint256 _subscriptionId,
+        bytes32 _keyHash,
+        address _addressBook,
+        uint256 _minBetAmount,
+        uint256 _maxBetAmount,
+        uint16 _houseEdge,
+        uint256 _ticketPrice,
+        uint256 _roundDuration
+    ) external initializer {
+        if (_ticketPrice == 0) revert InvalidTicketPrice();
+        if (_roundDuration < 5 minutes) revert InvalidRoundDuration();
+
+        __BaseVRFGame_init(
+            _vrfCoordinator,
+            _subscriptionId,
+            _keyHash,
+            _addressBook,
+            _minBetAmount,
+            _maxBetAmount,
+            _houseEdge
+        );
+        // Drawing every prize tier needs more gas than settling a single bet
+        callbackGasLimit = 500000;
+        ticketPrice = _ticketPrice;
+        roundDuration = _roundDuration;
+        claimPeriod = 7 days;
+        prizeTiers.push(5000);
+        prizeTiers.push(3000);
+        prizeTiers.push(2000);
+
+        _startRound(1);
+    }
+
+    /**
+     * @notice Not used, Lottery was deployed after the house edge and bet limit migration
+     * @dev Always reverts, the bet limits of Lottery are stored in USD and must not be converted again
+     */
+    function initializeV2() external pure override {
+        revert MigrationNotSupported();
+    }
+
+    /**
+     * @notice Buys tickets of the current round with either a native token (ETH) or ERC20 token
+     * @dev The whole cost goes to the prize pool of the token, the house cut is taken when the round is drawn
+     * @param token The address of the token to pay with (use address(0) for ETH)
+     * @param ticketCount The quantity of tickets to buy
+     * @param referrer The address of the referrer (use address(0) for no referrer)
+     * @return roundId The ID of the round the tickets were bought in
+     */
+    function buyTickets(
+        address token,
+        uint256 ticketCount,
+        address referrer
+    ) external payable returns (uint256 roundId) {
+        if (ticketCount == 0) revert InvalidTicketCount();
+
+        uint256 cost = _acceptBet(token, getTicketPrice(token) * ticketCount);
+
+        roundId = currentRoundId;
+        Round storage round = rounds[roundId];
+
+        round.ticketCount += ticketCount;
+        ticketRanges[roundId].push(TicketRange({player: msg.sender, end: round.ticketCount}));
+        playerTickets[roundId][msg.sender] += ticketCount;
+
+        roundSales[roundId][token] += cost;
+        liabilities[token] += cost;
+        _addToPool(roundId, token, cost);
+
+        emit TicketsPurchased(roundId, msg.sender, ticketCount, cost, token);
+
+        IReferralProgram referralProgram = addressBook.referralProgram();
+        if (referrer != address(0)) referralProgram.setReferral(msg.sender, referrer);
+        try referralProgram.addReward(msg.sender, cost, token) {} catch {
+            emit WagerNotReported(address(referralProgram), msg.sender, cost, token);
+        }
+    }
+
+    /**
+     * @notice Closes the current round once its end time has passed and starts the next one
+     * @dev Requests the draw from Chainlink VRF, a round without tickets rolls its prize pool over instead
+     * @return requestId The ID of the Chainlink VRF request (0 if no draw was needed)
+     */
+    function closeRound() external returns (uint256 requestId) {
+        addressBook.pauseManager().requireNotPaused();
+
+        uint256 roundId = currentRoundId;
+        Round storage round = rounds[roundId];
+        if (block.timestamp < round.endTime) revert RoundNotEnded();
+
+        _startRound(roundId + 1);
+
+        if (round.ticketCount == 0) {
+            round.status = RoundStatus.DRAWN;
+            round.drawnAt = block.timestamp;
+
+            address[] memory tokens = roundTokens[roundId];
+            for (uint256 i; i < tokens.length; ++i) {
+                uint256 pool = roundPools[roundId][tokens[i]];
+                roundPools[roundId][tokens[i]] = 0;
+                _addToPool(roundId + 1, tokens[i], pool);
+                emit PrizeRolledOver(roundId, roundId + 1, pool, tokens[i]);
+            }
+
+            emit RoundDrawn(roundId, new uint256[](0), new address[](0));
+            return 0;
+        }
+
+        roundPrizeTiers[roundId] = prizeTiers;
+        round.status = RoundStatus.DRAWING;
+
+        requestId = _requestDraw(roundId);
+    }
+
+    /**
+     * @notice Requests the draw of a round again if its VRF request has not been fulfilled in time (administrators only)
+     * @dev Can be called once refundTimeout has passed since the draw was requested, a late fulfillment of the
+     * previous request is ignored
+     * @param roundId The ID of the round
+     * @return requestId The ID of the new Chainlink VRF request
+     */
+    function retryDraw(uint256 roundId) external returns (uint256 requestId) {
+        addressBook.accessRoles().requireAdministrator(msg.sender);
+
+        Round storage round = rounds[roundId];
+        if (round.status != RoundStatus.DRAWING) revert DrawNotAvailable();
+        if (block.timestamp < round.closedAt + refundTimeout) revert DrawNotAvailable();
+
+        delete requestIdToRound[round.requestId];
+        requestId = _requestDraw(roundId);
+    }
+
+    /**
+     * @notice Requests the random word for the draw of a round
+     * @param roundId The ID of the round
+     * @return requestId The ID of the Chainlink VRF request
+     */
+    function _requestDraw(uint256 roundId) internal returns (uint256 requestId) {
+        Round storage round = rounds[roundId];
+
+        requestId = _requestRandomWords();
+        requestIdToRound[requestId] = roundId;
+        round.requestId = requestId;
+        round.closedAt = block.timestamp;
+
+        emit RoundClosed(roundId, requestId, round.ticketCount);
+    }
+
+    /**
+     * @notice Draws the winners of the round of a fulfilled request and splits its prize pools
+     * @dev Replaces the bet settlement of the base contract, the draw is never deferred
+     * @param requestId The ID of the request
+     * @param randomWord The random word delivered for the draw
+     */
+    function _fulfill(uint256 requestId, uint256 randomWord) internal override {
+        uint256 roundId = requestIdToRound[requestId];
+
+        // The request was replaced by a retried draw
+        if (roundId == 0) return;
+
+        delete requestIdToRound[requestId];
+
+        Round storage round = rounds[roundId];
+        uint16[] memory tiers = roundPrizeTiers[roundId];
+        uint256 winnersCount = tiers.length < round.ticketCount ? tiers.length : round.ticketCount;
+
+        uint256[] memory winningTickets = deriveWinningTicketsFromRandom(
+            randomWord,
+            round.ticketCount,
+            winnersCount
+        );
+        address[] memory roundWinners = new address[](winnersCount);
+        uint256 wonShare;
+
+        for (uint256 i; i < winnersCount; ++i) {
+            roundWinners[i] = _ticketHolder(roundId, winningTickets[i]);
+            winners[roundId][i] = roundWinners[i];
+            wonShare += tiers[i];
+        }
+
+        round.status = RoundStatus.DRAWN;
+        round.drawnAt = block.timestamp;
+
+        _settlePools(roundId, tiers, winnersCount, roundWinners[0], randomWord);
+
+        emit RoundDrawn(roundId, winningTickets, roundWinners);
+    }
+
+    /**
+     * @notice Not used, the rounds are drawn by _fulfill instead of settling bets
+     * @dev Lottery requests are never registered as bets, so this is unreachable
+     */
+    function _settleBet(uint256, address, uint256) internal pure override returns (uint256, address) {
+        revert BetNotFound();
+    }
+
+    /**
+     * @notice Not used, ticket purchases are not refundable
+     * @dev A draw that is not fulfilled in time is requested again with retryDraw
+     */
+    function _refundBet(uint256) internal pure override {
+        revert RefundNotAvailable();
+    }
+
+    /**
+     * @notice Checks that the current round still sells tickets
+     */
+    function _validateBet(address, address, uint256) internal view override {
+        if (block.timestamp >= rounds[currentRoundId].endTime) revert RoundEnded();
+    }
+
+    /**
+     * @notice Splits the prize pools of a drawn round
+     * @dev Releases the house cut on ticket sales for withdrawToTreasury, every tier with a winner keeps its exact share
+     * @dev and the rest of the pool including the rounding dust rolls over to the current round
+     * @dev The ticket sales are reported to the jackpot pool as a wager of the first tier winner, the contribution
+     * is paid from the house cut
+     * @param roundId The ID of the round
+     * @param tiers The prize tiers of the round
+     * @param winnersCount The quantity of tiers with a winner
+     * @param jackpotPlayer The winner of the first tier, who gets the jackpot chance of the round
+     * @param randomWord The random word the round was drawn with
+     */
+    function _settlePools(
+        uint256 roundId,
+        uint16[] memory tiers,
+        uint256 winnersCount,
+        address jackpotPlayer,
+        uint256 randomWord
+    ) internal {
+        address[] memory tokens = roundTokens[roundId];
+
+        for (uint256 i; i < tokens.length; ++i) {
+            address token = tokens[i];
+            uint256 sales = roundSales[roundId][token];
+            uint256 houseCut = (sales * getHouseEdge(token)) / DIVIDER;
+            uint256 prizePool = roundPools[roundId][token] - houseCut;
+            roundPools[roundId][token] = prizePool;
+
+            uint256 prizes;
+            for (uint256 j; j < winnersCount; ++j) {
+                prizes += (prizePool * tiers[j]) / DIVIDER;
+            }
+
+            if (prizePool > prizes) {
+                _addToPool(currentRoundId, token, prizePool - prizes);
+                emit PrizeRolledOver(roundId, currentRoundId, prizePool - prizes, token);
+            }
+
+            if (houseCut > 0) {
+                liabilities[token] -= houseCut;
+                emit HouseCutAccrued(roundId, houseCut, token);
+            }
+
+            if (sales > 0) _contributeToJackpot(jackpotPlayer, sales, token, randomWord);
+        }
+    }
+
+    /**
+     * @notice Derives distinct winning tickets from a random word
+     * @dev Uses Floyd's sampling, the random word is rehashed between picks
+     * @param randomWord The random word
+     * @param ticketCount The quantity of tickets sold
+     * @param winnersCount The quantity of tickets to pick (up to ticketCount)
+     * @return winningTickets The picked ticket numbers, in the order of the prize tiers
+     */
+    function deriveWinningTicketsFromRandom(
+        uint256 randomWord,
+        uint256 ticketCount,
+        uint256 winnersCount
+    ) public pure returns (uint256[] memory winningTickets) {
+        require(winnersCount <= ticketCount, "winnersCount exceeds ticketCount");
+
+        winningTickets = new uint256[](winnersCount);
+        uint256 rnd = randomWord;
+        uint256 picked;
+
+        for (uint256 j = ticketCount - winnersCount; j < ticketCount; ++j) {
+            uint256 ticket = rnd % (j + 1);
+
+            for (uint256 k; k < picked; ++k) {
+                if (winningTickets[k] == ticket) {
+                    ticket = j;
+                    break;
+                }
+            }
+
+            winningTickets[picked++] = ticket;
+            rnd = uint256(keccak256(abi.encode(rnd, j)));
+        }
+    }
+
+    /**
+     * @notice Finds the holder of a ticket with a binary search over the ticket ranges of a round
+     * @param roundId The ID of the round
+     * @param ticket The ticket number
+     * @return The address of the player holding the ticket
+     */
+    function _ticketHolder(uint256 roundId, uint256 ticket) internal view returns (address) {
+        TicketRange[] storage ranges = ticketRanges[roundId];
+        uint256 low;
+        uint256 high = ranges.length - 1;
+
+        while (low < high) {
+            uint256 mid = (low + high) / 2;
+            if (ranges[mid].end > ticket) {
+                high = mid;
+            } else {
+                low = mid + 1;
+            }
+        }
+
+        return ranges[low].player;
+    }
+
+    /**
+     * @notice Claims a prize of a drawn round in every token of its prize pool
+     * @dev Must be called by the winner of the tier within the claim period
+     * @param roundId The ID of the round
+     * @param tier The prize tier
+     */
+    function claimPrize(uint256 roundId, uint256 tier) external {
+        addressBook.pauseManager().requireNotPaused();
+
+        Round storage round = rounds[roundId];
+        if (round.status != RoundStatus.DRAWN) revert PrizeNotAvailable();
+        if (winners[roundId][tier] != msg.sender || prizeSettled[roundId][tier]) revert PrizeNotAvailable();
+        if (block.timestamp > round.drawnAt + claimPeriod) revert ClaimPeriodEnded();
+
+        prizeSettled[roundId][tier] = true;
+
+        address[] memory tokens = roundTokens[roundId];
+        for (uint256 i; i < tokens.length; ++i) {
+            uint256 prize = getPrize(roundId, tier, tokens[i]);
+            if (prize == 0) continue;
+
+            liabilities[tokens[i]] -= prize;
+            _transferOut(msg.sender, tokens[i], prize);
+        }
+
+        emit PrizeClaimed(roundId, tier, msg.sender);
+    }
+
+    /**
+     * @notice Rolls the prizes of a round not claimed within the claim period over to the current round
+     * @dev Can be called by anyone once the claim period has passed
+     * @param roundId The ID of the drawn round
+     */
+    function rollOverUnclaimed(uint256 roundId) external {
+        Round storage round = rounds[roundId];
+        if (round.status != RoundStatus.DRAWN) revert RollOverNotAvailable();
+        if (block.timestamp <= round.drawnAt + claimPeriod) revert RollOverNotAvailable();
+
+        uint256 tierCount = roundPrizeTiers[roundId].length;
+        bool[] memory unclaimed = new bool[](tierCount);
+        bool anyUnclaimed;
+
+        for (uint256 i; i < tierCount; ++i) {
+            if (winners[roundId][i] == address(0) || prizeSettled[roundId][i]) continue;
+            prizeSettled[roundId][i] = true;
+            unclaimed[i] = true;
+            anyUnclaimed = true;
+        }
+
+        if (!anyUnclaimed) revert RollOverNotAvailable();
+
+        uint256 toRoundId = currentRoundId;
+        address[] memory tokens = roundTokens[roundId];
+
+        for (uint256 i; i < tokens.length; ++i) {
+            uint256 amount;
+            for (uint256 tier; tier < tierCount; ++tier) {
+                if (unclaimed[tier]) amount += getPrize(roundId, tier, tokens[i]);
+            }
+            if (amount == 0) continue;
+
+            _addToPool(toRoundId, tokens[i], amount);
+            emit PrizeRolledOver(roundId, toRoundId, amount, tokens[i]);
+        }
+    }
+
+    /**
+     * @notice Starts a new round selling tickets for roundDuration
+     * @param roundId The ID of the new round
+     */
+    function _startRound(uint256 roundId) internal {
+        uint256 endTime = block.timestamp + roundDuration;
+
+        rounds[roundId] = Round({
+            startTime: block.timestamp,
+            endTime: endTime,
+            ticketCount: 0,
+            status: RoundStatus.OPEN,
+            requestId: 0,
+            closedAt: 0,
+            drawnAt: 0
+        });
+        currentRoundId = roundId;
+
+        emit RoundStarted(roundId, endTime);
+    }
+
+    /**
+     * @notice Adds an amount to the prize pool of a round, registering the token with the round if needed
+     * @param roundId The ID of the round
+     * @param token The address of the token (address(0) for ETH)
+     * @param amount The amount of tokens to add
+     */
+    function _addToPool(uint256 roundId, address token, uint256 amount) internal {
+        if (amount == 0) return;
+        if (roundPools[roundId][token] == 0) roundTokens[roundId].push(token);
+        roundPools[roundId][token] += amount;
+    }
+
+    /**
+     * @notice Get the price of a single ticket in a token
+     * @dev Converts the USD denominated ticket price with the TokensManager price
+     * @param token The address of the token (address(0) for ETH)
+     * @return The ticket price in the token
+     */
+    function getTicketPrice(address token) public view returns (uint256) {
+        return addressBook.tokensManager().usdAmountToToken(ticketPrice, token);
+    }
+
+    /**
+     * @notice Get a lottery round
+     * @param roundId The ID of the round
+     * @return The round
+     */
+    function getRound(uint256 roundId) external view returns (Round memory) {
+        return rounds[roundId];
+    }
+
+    /**
+     * @notice Get the prize pools of a round
+     * @dev Before the draw the pools include the house cut on ticket sales, afterwards they are net of it
+     * @param roundId The ID of the round
+     * @return tokens The tokens with a prize pool in the round
+     * @return pools The prize pool of every token
+     */
+    function getRoundPools(
+        uint256 roundId
+    ) external view returns (address[] memory tokens, uint256[] memory pools) {
+        tokens = roundTokens[roundId];
+        pools = new uint256[](tokens.length);
+        for (uint256 i; i < tokens.length; ++i) {
+            pools[i] = roundPools[roundId][tokens[i]];
+        }
+    }
+
+    /**
+     * @notice Get the winners of a drawn round
+     * @param roundId The ID of the round
+     * @return roundWinners The winner of every prize tier (address(0) for a tier without a winner)
+     * @return settled Whether the prize of every tier was claimed or rolled over
+     */
+    function getWinners(
+        uint256 roundId
+    ) external view returns (address[] memory roundWinners, bool[] memory settled) {
+        uint256 tierCount = roundPrizeTiers[roundId].length;
+        roundWinners = new address[](tierCount);
+        settled = new bool[](tierCount);
+        for (uint256 i; i < tierCount; ++i) {
+            roundWinners[i] = winners[roundId][i];
+            settled[i] = prizeSettled[roundId][i];
+        }
+    }
+
+    /**
+     * @notice Get the prize of a tier of a drawn round in a token
+     * @param roundId The ID of the round
+     * @param tier The prize tier
+     * @param token The address of the token (address(0) for ETH)
+     * @return The prize amount (0 if the tier has no winner)
+     */
+    function getPrize(uint256 roundId, uint256 tier, address token) public view returns (uint256) {
+        if (rounds[roundId].status != RoundStatus.DRAWN || winners[roundId][tier] == address(0)) return 0;
+        return (roundPools[roundId][token] * roundPrizeTiers[roundId][tier]) / DIVIDER;
+    }
+
+    /**
+     * @notice Get the prize tiers of new rounds
+     * @return The share of the prize pool of every tier (in basis points)
+     */
+    function getPrizeTiers() external view returns (uint16[] memory) {
+        return prizeTiers;
+    }
+
+    /**
+     * @notice Get the prize tiers of a closed round
+     * @param roundId The ID of the round
+     * @return The share of the prize pool of every tier (in basis points)
+     */
+    function getRoundPrizeTiers(uint256 roundId) external view returns (uint16[] memory) {
+        return roundPrizeTiers[roundId];
+    }
+
+    /**
+     * @notice Sets the price of a single ticket (owners multisig only)
+     * @dev Allows the owners multisig to update the ticket price, tickets already bought keep their price
+     * @param newTicketPrice The new ticket price (in USD with 18 decimals)
+     */
+    function setTicketPrice(uint256 newTicketPrice) external {
+        _requireOwnersMultisig();
+        if (newTicketPrice == 0) revert InvalidTicketPrice();
+        ticketPrice = newTicketPrice;
+    }
+
+    /**
+     * @notice Sets the duration of the ticket sale (owners multisig only)
+     * @dev Allows the owners multisig to update the round duration, applies from the next round
+     * @param newRoundDuration The new round duration (in seconds)
+     */
+    function setRoundDuration(uint256 newRoundDuration) external {
+        _requireOwnersMultisig();
+        if (newRoundDuration < 5 minutes) revert InvalidRoundDuration();
+        roundDuration = newRoundDuration;
+    }
+
+    /**
+     * @notice Sets the time the winners of a round have to claim their prizes (owners multisig only)
+     * @dev Allows the owners multisig to update the claim period, applies to every drawn round
+     * @param newClaimPeriod The new claim period (in seconds)
+     */
+    function setClaimPeriod(uint256 newClaimPeriod) external {
+        _requireOwnersMultisig();
+        if (newClaimPeriod < 1 days) revert InvalidClaimPeriod();
+        claimPeriod = newClaimPeriod;
+    }
+
+    /**
+     * @notice Sets the prize tiers (owners multisig only)
+     * @dev Allows the owners multisig to update the tier table, applies to rounds closed afterwards
+     * @param newPrizeTiers The share of the prize pool of every tier (in basis points, adding up to 10000)
+     */
+    function setPrizeTiers(uint16[] calldata newPrizeTiers) external {
+        _requireOwnersMultisig();
+        if (newPrizeTiers.length == 0 || newPrizeTiers.length > MAX_PRIZE_TIERS) revert InvalidPrizeTiers();
+
+        uint256 total;
+        for (uint256 i; i < newPrizeTiers.length; ++i) {
+            if (newPrizeTiers[i] == 0) revert InvalidPrizeTiers();
+            total += newPrizeTiers[i];
+        }
+        if (total != DIVIDER) revert InvalidPrizeTiers();
+
+        prizeTiers = newPrizeTiers;
+    }
+
+}
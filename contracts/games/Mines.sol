@@ -0,0 +1,611 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import {BaseVRFGame} from "./BaseVRFGame.sol";
+import {RandomCells} from "../libraries/RandomCells.sol";
+
+/**
+ * @title Mines Contract
+ * @notice A contract that provides a Mines game using Chainlink VRF v2.5 for randomness
+ * @dev A single Chainlink VRF word fixes the hidden board when the game starts, the mines are placed with the same
+ *      Fisher-Yates derivation as the Grid winning cells. The player then reveals cells one transaction at a time
+ *      and can cash out at the current multiplier until a mine is hit
+ * @dev The mine mask is only hidden from the views while the game is in progress, it can still be read from storage
+ * @dev Payouts are capped at maxMultiplier times the stake, which bounds the liability reserved for a game
+ * @dev Implements UUPS upgradeable pattern
+ */
+contract Mines is BaseVRFGame {
+    /// @notice Quantity of cells on the board
+    uint8 public constant TOTAL_CELLS = 25;
+
+    /**
+     * @notice Enum representing the lifecycle of a game session
+     */
+    enum SessionStatus {
+        /// @notice The player has never started a game
+        NONE,
+        /// @notice The stake is placed and the board is waiting for Chainlink VRF
+        PENDING,
+        /// @notice Safe cells are revealed and the player can reveal more cells or cash out
+        ACTIVE,
+        /// @notice The player cashed out (or the abandoned game was closed at the current multiplier)
+        CASHED_OUT,
+        /// @notice The player revealed a mine
+        LOST,
+        /// @notice The board was never delivered and the stake was refunded
+        REFUNDED
+    }
+
+    /**
+     * @notice Struct representing a game session
+     * @dev A player has at most one unfinished session, sessions are stored by bet ID
+     */
+    struct Session {
+        /// @notice Amount of tokens bet
+        uint256 amount;
+        /// @notice Quantity of mines on the board
+        uint8 minesCount;
+        /// @notice Quantity of safe cells revealed so far
+        uint8 revealedCount;
+        /// @notice Current status of the session
+        SessionStatus status;
+        /// @notice Bitmask of the revealed cells, including a revealed mine (bit i set for cell i)
+        uint32 revealedMask;
+        /// @notice Bitmask of the mines (bit i set for cell i), set once the random word is delivered
+        uint32 mineMask;
+        /// @notice House edge applied to the session (in basis points)
+        uint16 houseEdgeBps;
+        /// @notice Address of the token used for the bet (address(0) for ETH)
+        address token;
+        /// @notice Payout of a fully cleared board capped at maxMultiplier, reserved until the session ends
+        uint256 maxPayout;
+        /// @notice Amount paid out to the player (valid once the session ends)
+        uint256 payout;
+        /// @notice Chainlink VRF request ID of the board
+        uint256 requestId;
+        /// @notice Timestamp of the block in which the game was started
+        uint256 createdAt;
+        /// @notice Timestamp of the latest revealed cell
+        uint256 lastActionAt;
+    }
+
+    /**
+     * @notice Struct representing a game session in the bet history
+     */
+    struct BetRecord {
+        /// @notice ID of the bet
+        uint256 betId;
+        /// @notice Chainlink VRF request ID of the board
+        uint256 requestId;
+        /// @notice Address of the player who made the bet
+        address player;
+        /// @notice The game session
+        Session session;
+    }
+
+    /// @notice Mapping from bet ID to the game session
+    mapping(uint256 => Session) private betIdToSession;
+    /// @notice Idle time after which an active game can be closed as abandoned (in seconds)
+    uint256 public sessionTimeout;
+    /// @notice Maximum multiplier of the stake a game can pay out (in basis points, 10000 = 1x)
+    uint256 public maxMultiplier;
+
+    /**
+     * @notice Event emitted when a game is started
+     * @param requestId The Chainlink VRF request ID of the board
+     * @param player The address of the player starting the game
+     * @param betAmount The amount of tokens bet
+     * @param minesCount The quantity of mines on the board
+     * @param token The address of the token used for the bet (address(0) for ETH)
+     */
+    event MinesGameStarted(
+        uint256 indexed requestId,
+        address indexed player,
+        uint256 betAmount,
+        uint8 minesCount,
+        address token
+    );
+
+    /**
+     * @notice Event emitted when the random word fixing the board is delivered and cells can be revealed
+     * @param requestId The Chainlink VRF request ID of the board
+     * @param player The address of the player of the game
+     */
+    event MinesBoardReady(uint256 indexed requestId, address indexed player);
+
+    /**
+     * @notice Event emitted when the maximum multiplier is updated
+     * @param maxMultiplier The new maximum multiplier (in basis points)
+     */
+    event MaxMultiplierSet(uint256 maxMultiplier);
+
+    /**
+     * @notice Event emitted when a cell is revealed
+     * @param player The address of the player of the game
+     * @param cell The revealed cell
+     * @param safe Whether the cell is free of mines
+     * @param revealedCount The quantity of safe cells revealed so far
+     * @param currentPayout The amount a cash out would pay now (0 if a mine was hit)
+     */
+    event CellRevealed(
+        address indexed player,
+        uint8 cell,
+        bool safe,
+        uint8 revealedCount,
+        uint256 currentPayout
+    );
+
+    /**
+     * @notice Event emitted when a game is cashed out
+     * @param player The address of the player of the game
+     * @param revealedCount The quantity of safe cells revealed
+     * @param payout The amount paid out to the player
+     * @param token The address of the token used for the bet (address(0) for ETH)
+     */
+    event MinesCashedOut(address indexed player, uint8 revealedCount, uint256 payout, address token);
+
+    /**
+     * @notice Event emitted when a bet is settled
+     * @param player The address of the player who made the bet
+     * @param amount The amount of tokens bet
+     * @param minesCount The quantity of mines on the board
+     * @param revealedCount The quantity of safe cells revealed
+     * @param won Whether the player cashed out
+     * @param payout The amount paid out to the player (0 if lost)
+     * @param token The address of the token used for the bet (address(0) for ETH)
+     */
+    event BetSettled(
+        address indexed player,
+        uint256 amount,
+        uint8 minesCount,
+        uint8 revealedCount,
+        bool won,
+        uint256 payout,
+        address token
+    );
+
+    /// @notice Error thrown when a player tries to start a game while the previous one is unfinished
+    error GameInProgress();
+    /// @notice Error thrown when a player has no game whose board is ready
+    error NoActiveGame();
+    /// @notice Error thrown when a mines count is outside 1..TOTAL_CELLS - 1
+    error InvalidMinesCount();
+    /// @notice Error thrown when a revealed count is above the quantity of safe cells
+    error InvalidRevealedCount();
+    /// @notice Error thrown when a cell is outside the board
+    error InvalidCell();
+    /// @notice Error thrown when a cell is revealed twice
+    error CellAlreadyRevealed();
+    /// @notice Error thrown when closing a game that has not been idle for sessionTimeout
+    error SessionNotAbandoned();
+    /// @notice Error thrown when a session timeout is outside the valid range
+    error InvalidSessionTimeout();
+    /// @notice Error thrown when a maximum multiplier does not exceed 1x
+    error InvalidMaxMultiplier();
+
+    /**
+     * @notice Constructor that disables initializers
+     * @param _vrfCoordinator The address of the VRF Coordinator
+     */
+    constructor(address _vrfCoordinator) BaseVRFGame(_vrfCoordinator) {}
+
+    /**
+     * @notice Initializes the Mines contract with Chainlink VRF parameters
+     * @param _vrfCoordinator The address of the VRF Coordinator
+     * @param _subscriptionId The ID of the VRF subscription
+     * @param _keyHash The gas lane key hash
+     * @param _addressBook The address of the AddressBook contract
+     * @param _minBetAmount The minimum bet amount allowed in the game (in USD with 18 decimals)
+     * @param _maxBetAmount The maximum bet amount allowed in the game (in USD with 18 decimals)
+     * @param _houseEdge The house edge (in basis points, e.g., 100 for 1%)
+     */
+    function initialize(
+        address _vrfCoordinator,
+        uint256 _subscriptionId,
+        bytes32 _keyHash,
+        address _addressBook,
+        uint256 _minBetAmount,
+        uint256 _maxBetAmount,
+        uint16 _houseEdge
+    ) external initializer {
+        __BaseVRFGame_init(
+            _vrfCoordinator,
+            _subscriptionId,
+            _keyHash,
+            _addressBook,
+            _minBetAmount,
+            _maxBetAmount,
+            _houseEdge
+        );
+        sessionTimeout = 1 days;
+        maxMultiplier = 1000 * DIVIDER;
+    }
+
+    /**
+     * @notice Not used, Mines was deployed after the house edge and bet limit migration
+     * @dev Always reverts, the bet limits of Mines are stored in USD and must not be converted again
+     */
+    function initializeV2() external pure override {
+        revert MigrationNotSupported();
+    }
+
+    /**
+     * @notice Starts a game with either a native token (ETH) or ERC20 token bet and requests its board
+     * @dev Validates bet parameters, reserves the payout of a fully cleared board and sends a VRF request
+     * @param minesCount The quantity of mines on the board (1-24)
+     * @param token The address of the token to bet with (use address(0) for ETH)
+     * @param betAmount The amount of tokens to bet (ignored for native token, use msg.value instead)
+     * @param referrer The address of the referrer (use address(0) for no referrer)
+     * @return requestId The ID of the Chainlink VRF request associated with this game
+     */
+    function startGame(
+        uint8 minesCount,
+        address token,
+        uint256 betAmount,
+        address referrer
+    ) public payable returns (uint256) {
+        uint256 actualBetAmount = _acceptBet(token, betAmount);
+
+        if (minesCount == 0 || minesCount >= TOTAL_CELLS) revert InvalidMinesCount();
+
+        uint16 edge = getHouseEdge(token);
+        uint256 maxPayout = _capPayout(
+            _calculatePayout(actualBetAmount, minesCount, TOTAL_CELLS - minesCount, edge),
+            actualBetAmount
+        );
+
+        uint256 requestId = _placeBet(token, maxPayout, referrer);
+
+        betIdToSession[getBetIdByRequestId(requestId)] = Session({
+            amount: actualBetAmount,
+            minesCount: minesCount,
+            revealedCount: 0,
+            status: SessionStatus.PENDING,
+            revealedMask: 0,
+            mineMask: 0,
+            houseEdgeBps: edge,
+            token: token,
+            maxPayout: maxPayout,
+            payout: 0,
+            requestId: requestId,
+            createdAt: block.timestamp,
+            lastActionAt: block.timestamp
+        });
+
+        emit MinesGameStarted(requestId, msg.sender, actualBetAmount, minesCount, token);
+
+        return requestId;
+    }
+
+    /**
+     * @notice Checks that the player has no unfinished game
+     * @param player The address of the player starting the game
+     */
+    function _validateBet(address player, address, uint256) internal view override {
+        if (_isGameInProgress(player)) revert GameInProgress();
+    }
+
+    /**
+     * @notice Calculate the cash out amount after revealing safe cells
+     * @dev The fair multiplier is the inverse of the chance to reveal that many safe cells, reduced by the house edge
+     *      and capped at maxMultiplier
+     * @param betAmount The amount of the bet
+     * @param minesCount The quantity of mines on the board (1-24)
+     * @param revealedCount The quantity of safe cells revealed
+     * @param token The address of the token used for the bet (address(0) for ETH)
+     * @return The cash out amount
+     */
+    function calculatePayout(
+        uint256 betAmount,
+        uint8 minesCount,
+        uint8 revealedCount,
+        address token
+    ) public view returns (uint256) {
+        if (minesCount == 0 || minesCount >= TOTAL_CELLS) revert InvalidMinesCount();
+        if (revealedCount > TOTAL_CELLS - minesCount) revert InvalidRevealedCount();
+        return _capPayout(_calculatePayout(betAmount, minesCount, revealedCount, getHouseEdge(token)), betAmount);
+    }
+
+    /**
+     * @notice Caps a payout at maxMultiplier times the stake
+     * @param payout The uncapped payout
+     * @param betAmount The amount of the bet
+     * @return The capped payout
+     */
+    function _capPayout(uint256 payout, uint256 betAmount) internal view returns (uint256) {
+        uint256 cap = (betAmount * maxMultiplier) / DIVIDER;
+        return payout > cap ? cap : payout;
+    }
+
+    /**
+     * @notice Calculate the cash out amount after revealing safe cells
+     * @dev The chance to reveal k safe cells is C(TOTAL_CELLS - mines, k) / C(TOTAL_CELLS, k)
+     * @param betAmount The amount of the bet
+     * @param minesCount The quantity of mines on the board
+     * @param revealedCount The quantity of safe cells revealed
+     * @param edge The house edge to apply (in basis points)
+     * @return The cash out amount
+     */
+    function _calculatePayout(
+        uint256 betAmount,
+        uint8 minesCount,
+        uint8 revealedCount,
+        uint16 edge
+    ) internal pure returns (uint256) {
+        uint256 numerator = 1;
+        uint256 denominator = 1;
+
+        for (uint256 i; i < revealedCount; ++i) {
+            numerator *= TOTAL_CELLS - i;
+            denominator *= TOTAL_CELLS - minesCount - i;
+        }
+
+        return (betAmount * (DIVIDER - edge) * numerator) / (denominator * DIVIDER);
+    }
+
+    /**
+     * @notice Fixes the hidden board of a game with the random word delivered by Chainlink VRF
+     * @dev The mines are picked with the Fisher-Yates derivation shared with the Grid winning cells
+     * @param requestId The Chainlink VRF request ID of the board
+     * @param player The address of the player of the game
+     * @param randomWord The random word generated by Chainlink VRF
+     * @return amount The amount of tokens wagered
+     * @return token The address of the token used for the bet (address(0) for ETH)
+     */
+    function _settleBet(
+        uint256 requestId,
+        address player,
+        uint256 randomWord
+    ) internal override returns (uint256 amount, address token) {
+        Session storage session = betIdToSession[getBetIdByRequestId(requestId)];
+
+        session.mineMask = RandomCells.deriveMask(randomWord, TOTAL_CELLS, session.minesCount);
+        session.status = SessionStatus.ACTIVE;
+        session.lastActionAt = block.timestamp;
+
+        emit MinesBoardReady(requestId, player);
+
+        return (session.amount, session.token);
+    }
+
+    /**
+     * @notice Reveals a cell of the caller's active game
+     * @dev A mine ends the game, revealing the last safe cell cashes out
+     * @param cell The cell to reveal (0-24)
+     */
+    function revealCell(uint8 cell) external {
+        addressBook.pauseManager().requireNotPaused();
+        Session storage session = _currentSession(msg.sender);
+
+        if (session.status != SessionStatus.ACTIVE) revert NoActiveGame();
+        if (cell >= TOTAL_CELLS) revert InvalidCell();
+
+        uint32 cellBit = uint32(1) << cell;
+        if (session.revealedMask & cellBit != 0) revert CellAlreadyRevealed();
+
+        session.revealedMask |= cellBit;
+        session.lastActionAt = block.timestamp;
+
+        if (session.mineMask & cellBit != 0) {
+            emit CellRevealed(msg.sender, cell, false, session.revealedCount, 0);
+            _endGame(session, msg.sender, SessionStatus.LOST, 0);
+            return;
+        }
+
+        uint256 currentPayout = _sessionPayout(session, ++session.revealedCount);
+        emit CellRevealed(msg.sender, cell, true, session.revealedCount, currentPayout);
+
+        if (session.revealedCount == TOTAL_CELLS - session.minesCount) {
+            _endGame(session, msg.sender, SessionStatus.CASHED_OUT, currentPayout);
+        }
+    }
+
+    /**
+     * @notice Calculate the cash out amount of a game, capped at the payout reserved for it
+     * @param session The session of the game
+     * @param revealedCount The quantity of safe cells revealed
+     * @return The cash out amount
+     */
+    function _sessionPayout(Session storage session, uint8 revealedCount) internal view returns (uint256) {
+        uint256 payout = _calculatePayout(session.amount, session.minesCount, revealedCount, session.houseEdgeBps);
+        return payout > session.maxPayout ? session.maxPayout : payout;
+    }
+
+    /**
+     * @notice Cashes out the caller's active game at the current multiplier
+     * @dev Not available before the board is delivered
+     */
+    function cashOut() external {
+        addressBook.pauseManager().requireNotPaused();
+        Session storage session = _currentSession(msg.sender);
+
+        if (session.status != SessionStatus.ACTIVE) revert NoActiveGame();
+
+        _endGame(session, msg.sender, SessionStatus.CASHED_OUT, _sessionPayout(session, session.revealedCount));
+    }
+
+    /**
+     * @notice Closes active games that have been idle for sessionTimeout (administrators only)
+     * @dev Games are cashed out at the current multiplier
+     * @param players The addresses of the players of the abandoned games
+     */
+    function closeAbandonedSessions(address[] calldata players) external {
+        addressBook.accessRoles().requireAdministrator(msg.sender);
+
+        for (uint256 i; i < players.length; ++i) {
+            Session storage session = _currentSession(players[i]);
+
+            if (session.status != SessionStatus.ACTIVE) revert NoActiveGame();
+            if (block.timestamp < session.lastActionAt + sessionTimeout) revert SessionNotAbandoned();
+
+            _endGame(session, players[i], SessionStatus.CASHED_OUT, _sessionPayout(session, session.revealedCount));
+        }
+    }
+
+    /**
+     * @notice Ends a game, pays out the player and releases the reserved liability
+     * @param session The session of the game
+     * @param player The address of the player of the game
+     * @param status The final status of the game: CASHED_OUT or LOST
+     * @param payout The amount to pay out to the player
+     */
+    function _endGame(Session storage session, address player, SessionStatus status, uint256 payout) internal {
+        _releaseLiability(session.token, session.maxPayout);
+
+        session.status = status;
+        session.payout = payout;
+
+        if (payout > 0) _payOut(player, session.token, payout);
+
+        bool won = status == SessionStatus.CASHED_OUT;
+        if (won) emit MinesCashedOut(player, session.revealedCount, payout, session.token);
+        emit BetSettled(
+            player,
+            session.amount,
+            session.minesCount,
+            session.revealedCount,
+            won,
+            payout,
+            session.token
+        );
+    }
+
+    /**
+     * @notice Refunds a game whose board was not delivered in time
+     * @dev A late fulfillment of the request is ignored
+     * @param requestId The Chainlink VRF request ID of the board
+     */
+    function _refundBet(uint256 requestId) internal override {
+        address player = requestIdToSender[requestId];
+        Session storage session = betIdToSession[getBetIdByRequestId(requestId)];
+
+        if (player == address(0) || session.status != SessionStatus.PENDING || refundTimeout == 0) {
+            revert RefundNotAvailable();
+        }
+        if (block.timestamp < session.createdAt + refundTimeout) revert RefundNotAvailable();
+
+        delete requestIdToSender[requestId];
+        _releaseLiability(session.token, session.maxPayout);
+        session.status = SessionStatus.REFUNDED;
+
+        _payOut(player, session.token, session.amount);
+
+        emit BetRefunded(requestId, player, session.amount, session.token);
+    }
+
+    /**
+     * @notice Check if a game is in progress for the caller
+     * @dev A game is in progress while its board is pending or it is active
+     * @return True if a game is in progress, false otherwise
+     */
+    function isGameInProgress() external view returns (bool) {
+        return _isGameInProgress(msg.sender);
+    }
+
+    /**
+     * @notice Check if a game is in progress for a player
+     * @param player The address of the player
+     * @return True if the latest session of the player is pending or active
+     */
+    function _isGameInProgress(address player) internal view returns (bool) {
+        SessionStatus status = _currentSession(player).status;
+        return status == SessionStatus.PENDING || status == SessionStatus.ACTIVE;
+    }
+
+    /**
+     * @notice Returns the latest game session of a player
+     * @param player The address of the player
+     * @return The session of the latest game started by the player
+     */
+    function _currentSession(address player) internal view returns (Session storage) {
+        return betIdToSession[getBetIdByRequestId(latestRequestIds[player])];
+    }
+
+    /**
+     * @notice Get the latest game session of a player
+     * @dev The mine mask is hidden while the game is in progress
+     * @param player The address of the player
+     * @return The session of the player
+     */
+    function getSession(address player) external view returns (Session memory) {
+        return _hideMines(_currentSession(player));
+    }
+
+    /**
+     * @notice Copies a session to memory without the mine mask while the game is in progress
+     * @param stored The stored session
+     * @return session The session to return from views
+     */
+    function _hideMines(Session storage stored) internal view returns (Session memory session) {
+        session = stored;
+        if (session.status == SessionStatus.PENDING || session.status == SessionStatus.ACTIVE) session.mineMask = 0;
+    }
+
+    /**
+     * @notice Get the amount the caller's active game would pay out on cash out now
+     * @return The cash out amount (0 without an active game)
+     */
+    function getCurrentPayout() external view returns (uint256) {
+        Session storage session = _currentSession(msg.sender);
+        if (session.status != SessionStatus.ACTIVE) return 0;
+        return _sessionPayout(session, session.revealedCount);
+    }
+
+    /**
+     * @notice Get a game session from the bet history
+     * @dev Reverts with BetNotFound if the bet ID does not exist
+     * @param betId The ID of the bet
+     * @return The bet record
+     */
+    function getBet(uint256 betId) public view returns (BetRecord memory) {
+        BetEntry memory entry = _getBetEntry(betId);
+        return BetRecord({
+            betId: betId,
+            requestId: entry.requestId,
+            player: entry.player,
+            session: _hideMines(betIdToSession[betId])
+        });
+    }
+
+    /**
+     * @notice Get a page of the game sessions of a player, in the order they were started
+     * @param player The address of the player
+     * @param offset The index of the first bet to return
+     * @param limit The maximum number of bets to return
+     * @return records The bet records (empty if offset is past the last bet)
+     */
+    function getPlayerBets(
+        address player,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (BetRecord[] memory records) {
+        uint256[] memory betIds = getPlayerBetIds(player, offset, limit);
+        records = new BetRecord[](betIds.length);
+        for (uint256 i = 0; i < betIds.length; i++) {
+            records[i] = getBet(betIds[i]);
+        }
+    }
+
+    /**
+     * @notice Sets the idle time after which an active game is considered abandoned (owners multisig only)
+     * @dev Allows the owners multisig to update the session timeout
+     * @param newSessionTimeout The new session timeout (in seconds)
+     */
+    function setSessionTimeout(uint256 newSessionTimeout) external {
+        _requireOwnersMultisig();
+        if (newSessionTimeout < 5 minutes) revert InvalidSessionTimeout();
+        sessionTimeout = newSessionTimeout;
+    }
+
+    /**
+     * @notice Sets the maximum multiplier of the stake a game can pay out (owners multisig only)
+     * @dev Applies to games started afterwards, the payout reserved for a game is fixed when it starts
+     * @param newMaxMultiplier The new maximum multiplier (in basis points, 10000 = 1x)
+     */
+    function setMaxMultiplier(uint256 newMaxMultiplier) external {
+        _requireOwnersMultisig();
+        if (newMaxMultiplier <= DIVIDER) revert InvalidMaxMultiplier();
+        maxMultiplier = newMaxMultiplier;
+        emit MaxMultiplierSet(newMaxMultiplier);
+    }
+}
@@ -0,0 +1,485 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import {BaseVRFGame} from "./BaseVRFGame.sol";
+
+/**
+ * @title Plinko Contract
+ * @notice A contract that provides a Plinko game using Chainlink VRF v2.5 for randomness
+ * @dev The ball bounces left or right on every row, the bucket it lands in selects the payout multiplier
+ * @dev The house edge is built into the multiplier tables, their expected return is checked against houseEdge
+ * @dev Implements UUPS upgradeable pattern
+ */
+contract Plinko is BaseVRFGame {
+    /// @notice Minimum row count of the board
+    uint8 public constant MIN_ROWS = 8;
+    /// @notice Maximum row count of the board
+    uint8 public constant MAX_ROWS = 16;
+
+    /**
+     * @notice Enum representing the risk levels of the board
+     * @dev Higher risk tables pay more on the edge buckets and less in the middle
+     */
+    enum RiskLevel {
+        LOW,
+        MEDIUM,
+        HIGH
+    }
+
+    /**
+     * @notice Struct representing a bet in the Plinko game
+     * @dev Stores all information about a player's bet
+     */
+    struct Bet {
+        /// @notice Amount of tokens bet
+        uint256 amount;
+        /// @notice Row count of the board
+        uint8 rows;
+        /// @notice Risk level of the multiplier table
+        RiskLevel risk;
+        /// @notice Bucket the ball landed in, counted from the left (valid once the bet is settled)
+        uint8 bucket;
+        /// @notice Whether the bet has been settled
+        bool settled;
+        /// @notice Whether the bet paid out anything
+        bool won;
+        /// @notice Amount paid out to the player (valid once the bet is settled)
+        uint256 payout;
+        /// @notice Highest possible payout of the bet, reserved until settlement
+        uint256 maxPayout;
+        /// @notice Address of the token used for the bet (address(0) for ETH)
+        address token;
+        /// @notice Timestamp of the block in which the bet was placed
+        uint256 createdAt;
+    }
+
+    /**
+     * @notice Struct representing a bet in the bet history
+     */
+    struct BetRecord {
+        /// @notice ID of the bet
+        uint256 betId;
+        /// @notice Chainlink VRF request ID of the bet
+        uint256 requestId;
+        /// @notice Address of the player who made the bet
+        address player;
+        /// @notice The bet, including its bucket once settled
+        Bet bet;
+    }
+
+    /// @notice Mapping from Chainlink VRF request ID to the associated bet
+    mapping(uint256 => Bet) private requestIdToBet;
+    /// @notice Mapping from row count and risk level to the multiplier of every bucket (in basis points)
+    mapping(uint8 => mapping(RiskLevel => uint32[])) private multiplierTables;
+
+    /**
+     * @notice Event emitted when a drop is requested
+     * @param requestId The Chainlink VRF request ID
+     * @param player The address of the player making the drop
+     * @param betAmount The amount of tokens bet
+     * @param rows The row count of the board
+     * @param risk The risk level of the multiplier table
+     * @param token The address of the token used for the bet (address(0) for ETH)
+     */
+    event PlinkoDropRequested(
+        uint256 indexed requestId,
+        address indexed player,
+        uint256 betAmount,
+        uint8 rows,
+        RiskLevel risk,
+        address token
+    );
+
+    /**
+     * @notice Event emitted when a drop is fulfilled by Chainlink VRF
+     * @param requestId The Chainlink VRF request ID
+     * @param player The address of the player who made the drop
+     * @param bucket The bucket the ball landed in, counted from the left
+     * @param multiplier The multiplier of the bucket (in basis points)
+     * @param payout The amount paid out to the player
+     * @param token The address of the token used for the bet (address(0) for ETH)
+     */
+    event PlinkoDropFulfilled(
+        uint256 indexed requestId,
+        address indexed player,
+        uint8 bucket,
+        uint32 multiplier,
+        uint256 payout,
+        address token
+    );
+
+    /**
+     * @notice Event emitted when a bet is settled
+     * @param player The address of the player who made the bet
+     * @param amount The amount of tokens bet
+     * @param rows The row count of the board
+     * @param risk The risk level of the multiplier table
+     * @param bucket The bucket the ball landed in, counted from the left
+     * @param won Whether the bet paid out anything
+     * @param payout The amount paid out to the player
+     * @param token The address of the token used for the bet (address(0) for ETH)
+     */
+    event BetSettled(
+        address indexed player,
+        uint256 amount,
+        uint8 rows,
+        RiskLevel risk,
+        uint8 bucket,
+        bool won,
+        uint256 payout,
+        address token
+    );
+
+    /**
+     * @notice Event emitted when a multiplier table is set
+     * @param rows The row count of the board
+     * @param risk The risk level
+     * @param multipliers The multiplier of every bucket from left to right (in basis points)
+     */
+    event MultipliersSet(uint8 rows, RiskLevel risk, uint32[] multipliers);
+
+    /// @notice Error thrown when a row count is outside MIN_ROWS..MAX_ROWS
+    error InvalidRows();
+    /// @notice Error thrown when a multiplier table does not have an entry for every bucket
+    error InvalidMultipliers();
+    /// @notice Error thrown when no multiplier table is set for the row count and risk level
+    error MultipliersNotSet();
+    /// @notice Error thrown when the expected return of a multiplier table exceeds 100% minus the house edge
+    error ReturnToPlayerTooHigh();
+    /// @notice Error thrown when a per-token house edge is set, as the multiplier tables are shared by all tokens
+    error TokenHouseEdgeNotSupported();
+
+    /**
+     * @notice Constructor that disables initializers
+     * @param _vrfCoordinator The address of the VRF Coordinator
+     */
+    constructor(address _vrfCoordinator) BaseVRFGame(_vrfCoordinator) {}
+
+    /**
+     * @notice Initializes the Plinko contract with Chainlink VRF parameters
+     * @dev Multiplier tables are set by the owners multisig after deployment with setMultipliers
+     * @param _vrfCoordinator The address of the VRF Coordinator
+     * @param _subscriptionId The ID of the VRF subscription
+     * @param _keyHash The gas lane key hash
+     * @param _addressBook The address of the AddressBook contract
+     * @param _minBetAmount The minimum bet amount allowed in the game (in USD with 18 decimals)
+     * @param _maxBetAmount The maximum bet amount allowed in the game (in USD with 18 decimals)
+     * @param _houseEdge The minimum house edge of every multiplier table (in basis points, e.g., 100 for 1%)
+     */
+    function initialize(
+        address _vrfCoordinator,
+        uint256 _subscriptionId,
+        bytes32 _keyHash,
+        address _addressBook,
+        uint256 _minBetAmount,
+        uint256 _maxBetAmount,
+        uint16 _houseEdge
+    ) external initializer {
+        __BaseVRFGame_init(
+            _vrfCoordinator,
+            _subscriptionId,
+            _keyHash,
+            _addressBook,
+            _minBetAmount,
+            _maxBetAmount,
+            _houseEdge
+        );
+    }
+
+    /**
+     * @notice Not used, Plinko was deployed after the house edge and bet limit migration
+     * @dev Always reverts, the bet limits of Plinko are stored in USD and must not be converted again
+     */
+    function initializeV2() external pure override {
+        revert MigrationNotSupported();
+    }
+
+    /**
+     * @notice Drops a ball with either a native token (ETH) or ERC20 token bet and requests randomness from Chainlink VRF
+     * @dev Validates bet parameters, reserves the highest multiplier of the table and sends a VRF request
+     * @param rows The row count of the board (8-16)
+     * @param risk The risk level of the multiplier table
+     * @param token The address of the token to bet with (use address(0) for ETH)
+     * @param betAmount The amount of tokens to bet (ignored for native token, use msg.value instead)
+     * @param referrer The address of the referrer (use address(0) for no referrer)
+     * @return requestId The ID of the Chainlink VRF request associated with this drop
+     */
+    function drop(
+        uint8 rows,
+        RiskLevel risk,
+        address token,
+        uint256 betAmount,
+        address referrer
+    ) public payable returns (uint256) {
+        uint256 actualBetAmount = _acceptBet(token, betAmount);
+
+        uint256 maxPayout = calculateMaxPayout(actualBetAmount, rows, risk);
+
+        Bet memory bet = Bet({
+            amount: actualBetAmount,
+            rows: rows,
+            risk: risk,
+            bucket: 0,
+            settled: false,
+            won: false,
+            payout: 0,
+            maxPayout: maxPayout,
+            token: token,
+            createdAt: block.timestamp
+        });
+
+        uint256 requestId = _placeBet(token, maxPayout, referrer);
+
+        requestIdToBet[requestId] = bet;
+
+        emit PlinkoDropRequested(requestId, msg.sender, actualBetAmount, rows, risk, token);
+
+        return requestId;
+    }
+
+    /**
+     * @notice Calculate the highest possible payout of a bet
+     * @dev Reverts with MultipliersNotSet if the table of the row count and risk level is not configured
+     * @param betAmount The amount of the bet
+     * @param rows The row count of the board (8-16)
+     * @param risk The risk level of the multiplier table
+     * @return The payout of the bucket with the highest multiplier
+     */
+    function calculateMaxPayout(uint256 betAmount, uint8 rows, RiskLevel risk) public view returns (uint256) {
+        uint32[] memory table = getMultipliers(rows, risk);
+
+        uint32 maxMultiplier;
+        for (uint256 i; i < table.length; ++i) {
+            if (table[i] > maxMultiplier) maxMultiplier = table[i];
+        }
+
+        return (betAmount * maxMultiplier) / DIVIDER;
+    }
+
+    /**
+     * @notice Get the multiplier table of a row count and risk level
+     * @dev Reverts with MultipliersNotSet if the table is not configured
+     * @param rows The row count of the board (8-16)
+     * @param risk The risk level
+     * @return The multiplier of every bucket from left to right (in basis points)
+     */
+    function getMultipliers(uint8 rows, RiskLevel risk) public view returns (uint32[] memory) {
+        _requireValidRows(rows);
+        uint32[] memory table = multiplierTables[rows][risk];
+        if (table.length == 0) revert MultipliersNotSet();
+        return table;
+    }
+
+    /**
+     * @notice Derives the bucket the ball lands in from a random word
+     * @dev Bit i of the word is the bounce on row i (1 is right), the bucket is the count of right bounces
+     * @param rw The random word
+     * @param rows The row count of the board (8-16)
+     * @return bucket The bucket the ball lands in, counted from the left (0 to rows)
+     */
+    function deriveBucketFromRandom(uint256 rw, uint8 rows) public pure returns (uint8 bucket) {
+        _requireValidRows(rows);
+        for (uint8 i; i < rows; ++i) {
+            if ((rw >> i) & 1 == 1) ++bucket;
+        }
+    }
+
+    /**
+     * @notice Checks that a row count is within MIN_ROWS..MAX_ROWS
+     * @param rows The row count of the board
+     */
+    function _requireValidRows(uint8 rows) internal pure {
+        if (rows < MIN_ROWS || rows > MAX_ROWS) revert InvalidRows();
+    }
+
+    /**
+     * @notice Checks the expected return of a multiplier table against the house edge
+     * @dev Bucket k is reached by C(rows, k) of the 2^rows bounce paths
+     * @param multipliers The multiplier of every bucket from left to right (in basis points)
+     * @param rows The row count of the board
+     * @param edge The house edge the table must keep (in basis points)
+     */
+    function _requireValidReturnToPlayer(uint32[] memory multipliers, uint8 rows, uint16 edge) internal pure {
+        uint256 paths = 1;
+        uint256 weightedMultipliers;
+
+        for (uint256 k; k <= rows; ++k) {
+            weightedMultipliers += paths * multipliers[k];
+            paths = (paths * (rows - k)) / (k + 1);
+        }
+
+        if (weightedMultipliers > (DIVIDER - edge) << rows) revert ReturnToPlayerTooHigh();
+    }
+
+    /**
+     * @notice Determines the bucket for a fulfilled request and settles the bet
+     * @param requestId The Chainlink VRF request ID of the bet
+     * @param player The address of the player who made the drop
+     * @param randomWord The random word generated by Chainlink VRF
+     * @return amount The amount of tokens wagered
+     * @return token The address of the token used for the bet (address(0) for ETH)
+     */
+    function _settleBet(
+        uint256 requestId,
+        address player,
+        uint256 randomWord
+    ) internal override returns (uint256 amount, address token) {
+        Bet storage bet = requestIdToBet[requestId];
+
+        uint8 bucket = deriveBucketFromRandom(randomWord, bet.rows);
+        uint32 multiplier = multiplierTables[bet.rows][bet.risk][bucket];
+        uint256 payout = (bet.amount * multiplier) / DIVIDER;
+        // The table may have been changed since the bet was placed, the reserved payout stays the ceiling
+        if (payout > bet.maxPayout) payout = bet.maxPayout;
+        bool won = payout > 0;
+
+        _releaseLiability(bet.token, bet.maxPayout);
+
+        bet.bucket = bucket;
+        bet.settled = true;
+        bet.won = won;
+        bet.payout = payout;
+
+        if (won) _payOut(player, bet.token, payout);
+
+        emit PlinkoDropFulfilled(requestId, player, bucket, multiplier, payout, bet.token);
+        emit BetSettled(player, bet.amount, bet.rows, bet.risk, bucket, won, payout, bet.token);
+
+        return (bet.amount, bet.token);
+    }
+
+    /**
+     * @notice Returns the stake of a pending bet to the player in the original token
+     * @dev Settles the bet without a result, a late fulfillment of the request is ignored
+     * @param requestId The Chainlink VRF request ID of the bet
+     */
+    function _refundBet(uint256 requestId) internal override {
+        address player = requestIdToSender[requestId];
+        Bet storage bet = requestIdToBet[requestId];
+
+        if (player == address(0) || bet.settled || refundTimeout == 0) revert RefundNotAvailable();
+        if (block.timestamp < bet.createdAt + refundTimeout) revert RefundNotAvailable();
+
+        delete requestIdToSender[requestId];
+        _releaseLiability(bet.token, bet.maxPayout);
+        bet.settled = true;
+
+        _payOut(player, bet.token, bet.amount);
+
+        emit BetRefunded(requestId, player, bet.amount, bet.token);
+    }
+
+    /**
+     * @notice Check if a drop is in progress for the caller
+     * @dev Returns true if any drop of the caller is awaiting fulfillment or refund, false otherwise
+     * @return True if a drop is in progress, false otherwise
+     */
+    function isDropInProgress() external view returns (bool) {
+        return getPendingBetCount(msg.sender) > 0;
+    }
+
+    /**
+     * @notice Get the current bet details for the caller
+     * @dev Returns the details of the latest bet placed by the caller
+     * @return amount The bet amount
+     * @return rows The row count of the board
+     * @return risk The risk level of the multiplier table
+     * @return bucket The bucket the ball landed in (valid once settled)
+     * @return settled Whether the bet has been settled
+     * @return payout The amount paid out (valid once settled)
+     */
+    function getCurrentBet()
+    external
+    view
+    returns (
+        uint256 amount,
+        uint8 rows,
+        RiskLevel risk,
+        uint8 bucket,
+        bool settled,
+        uint256 payout
+    )
+    {
+        Bet memory bet = requestIdToBet[latestRequestIds[msg.sender]];
+        return (bet.amount, bet.rows, bet.risk, bet.bucket, bet.settled, bet.payout);
+    }
+
+    /**
+     * @notice Get a bet from the bet history
+     * @dev Reverts with BetNotFound if the bet ID does not exist
+     * @param betId The ID of the bet
+     * @return The bet record, including the bucket once settled
+     */
+    function getBet(uint256 betId) public view returns (BetRecord memory) {
+        BetEntry memory entry = _getBetEntry(betId);
+        return BetRecord({
+            betId: betId,
+            requestId: entry.requestId,
+            player: entry.player,
+            bet: requestIdToBet[entry.requestId]
+        });
+    }
+
+    /**
+     * @notice Get a page of the bets of a player, in the order they were placed
+     * @param player The address of the player
+     * @param offset The index of the first bet to return
+     * @param limit The maximum number of bets to return
+     * @return records The bet records (empty if offset is past the last bet)
+     */
+    function getPlayerBets(
+        address player,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (BetRecord[] memory records) {
+        uint256[] memory betIds = getPlayerBetIds(player, offset, limit);
+        records = new BetRecord[](betIds.length);
+        for (uint256 i = 0; i < betIds.length; i++) {
+            records[i] = getBet(betIds[i]);
+        }
+    }
+
+    /**
+     * @notice Sets the house edge (owners multisig only)
+     * @dev Every configured multiplier table must still return at most 100% minus the new house edge
+     * @param newHouseEdge The new house edge (in basis points, up to 5000)
+     */
+    function setHouseEdge(uint16 newHouseEdge) public override {
+        super.setHouseEdge(newHouseEdge);
+
+        for (uint8 rows = MIN_ROWS; rows <= MAX_ROWS; ++rows) {
+            for (uint8 risk; risk <= uint8(RiskLevel.HIGH); ++risk) {
+                uint32[] memory table = multiplierTables[rows][RiskLevel(risk)];
+                if (table.length != 0) _requireValidReturnToPlayer(table, rows, newHouseEdge);
+            }
+        }
+    }
+
+    /**
+     * @notice Per-token house edges are not supported
+     * @dev The multiplier tables are shared by all tokens and carry the house edge, so this always reverts
+     */
+    function setTokenHouseEdge(address, uint16) public pure override {
+        revert TokenHouseEdgeNotSupported();
+    }
+
+    /**
+     * @notice Sets the multiplier table of a row count and risk level (owners multisig only)
+     * @dev The expected return of the table must not exceed 100% minus the house edge
+     * @dev Pending drops are settled with the table in place when their randomness is delivered,
+     * capped at the payout reserved when they were placed
+     * @param rows The row count of the board (8-16)
+     * @param risk The risk level
+     * @param multipliers The multiplier of every bucket from left to right (in basis points, rows + 1 entries)
+     */
+    function setMultipliers(uint8 rows, RiskLevel risk, uint32[] calldata multipliers) external {
+        _requireOwnersMultisig();
+        _requireValidRows(rows);
+        if (multipliers.length != uint256(rows) + 1) revert InvalidMultipliers();
+        _requireValidReturnToPlayer(multipliers, rows, houseEdgeBps);
+
+        multiplierTables[rows][risk] = multipliers;
+
+        emit MultipliersSet(rows, risk, multipliers);
+    }
+}
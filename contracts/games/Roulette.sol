@@ -0,0 +1,538 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import {BaseVRFGame} from "./BaseVRFGame.sol";
+
+/**
+ * @title Roulette Contract
+ * @notice A contract that provides a European roulette game using Chainlink VRF v2.5 for randomness
+ * @dev A single spin holds several positions with their own stakes, all settled from one random word
+ * @dev Positions pay the classic European table (35:1 for a straight up) reduced by the house edge
+ * @dev Implements UUPS upgradeable pattern
+ */
+contract Roulette is BaseVRFGame {
+    /// @notice Number of pockets on the wheel (0 to 36)
+    uint8 public constant POCKETS = 37;
+    /// @notice Maximum number of positions in a single spin
+    uint8 public constant MAX_POSITIONS = 16;
+
+    /// @notice Bitmask of the red numbers (bit n set for number n)
+    uint64 private constant RED_NUMBERS = 0x154aad52aa;
+    /// @notice Bitmask of the black numbers (bit n set for number n)
+    uint64 private constant BLACK_NUMBERS = 0xab552ad54;
+    /// @notice Bitmask of the odd numbers (bit n set for number n)
+    uint64 private constant ODD_NUMBERS = 0xaaaaaaaaa;
+    /// @notice Bitmask of the even numbers, zero excluded (bit n set for number n)
+    uint64 private constant EVEN_NUMBERS = 0x1555555554;
+    /// @notice Bitmask of the first column (bit n set for number n)
+    uint64 private constant FIRST_COLUMN = 0x492492492;
+
+    /**
+     * @notice Enum representing the types of roulette positions
+     */
+    enum BetType {
+        /// @notice A single number (0-36), pays 35:1
+        STRAIGHT,
+        /// @notice Two adjacent numbers on the layout, pays 17:1
+        SPLIT,
+        /// @notice A row of three numbers, pays 11:1
+        STREET,
+        /// @notice A block of four numbers, pays 8:1
+        CORNER,
+        /// @notice All red numbers, pays 1:1
+        RED,
+        /// @notice All black numbers, pays 1:1
+        BLACK,
+        /// @notice All odd numbers, pays 1:1
+        ODD,
+        /// @notice All even numbers (zero excluded), pays 1:1
+        EVEN,
+        /// @notice 1-12, 13-24 or 25-36, pays 2:1
+        DOZEN,
+        /// @notice One of the three columns of the layout, pays 2:1
+        COLUMN
+    }
+
+    /**
+     * @notice Struct representing a single position of a spin
+     * @dev The meaning of number depends on the bet type:
+     *      STRAIGHT - the number (0-36);
+     *      SPLIT - the first of the two numbers, secondNumber is the other one;
+     *      STREET - the first number of the row (1, 4, ..., 34);
+     *      CORNER - the lowest number of the block (e.g. 1 for 1, 2, 4, 5);
+     *      DOZEN and COLUMN - the dozen or column index (1-3);
+     *      RED, BLACK, ODD and EVEN - unused
+     */
+    struct Position {
+        /// @notice Amount of tokens staked on the position
+        uint256 amount;
+        /// @notice Type of the position
+        BetType betType;
+        /// @notice Number or index selecting the covered numbers
+        uint8 number;
+        /// @notice Second number of a split (unused for other bet types)
+        uint8 secondNumber;
+    }
+
+    /**
+     * @notice Struct representing a spin in the roulette game
+     * @dev The positions of the spin are stored separately by request ID
+     */
+    struct Bet {
+        /// @notice Total amount of tokens staked on all positions
+        uint256 amount;
+        /// @notice Pocket the ball landed in (valid once the bet is settled)
+        uint8 result;
+        /// @notice Whether the bet has been settled
+        bool settled;
+        /// @notice Whether any position won
+        bool won;
+        /// @notice Amount paid out to the player (valid once the bet is settled)
+        uint256 payout;
+        /// @notice Worst-case combined payout of all positions, reserved until settlement
+        uint256 maxPayout;
+        /// @notice House edge applied to the spin (in basis points)
+        uint16 houseEdgeBps;
+        /// @notice Address of the token used for the bet (address(0) for ETH)
+        address token;
+        /// @notice Timestamp of the block in which the bet was placed
+        uint256 createdAt;
+    }
+
+    /**
+     * @notice Struct representing a spin in the bet history
+     */
+    struct BetRecord {
+        /// @notice ID of the bet
+        uint256 betId;
+        /// @notice Chainlink VRF request ID of the bet
+        uint256 requestId;
+        /// @notice Address of the player who made the bet
+        address player;
+        /// @notice The spin, including its result once settled
+        Bet bet;
+        /// @notice The positions of the spin
+        Position[] positions;
+    }
+
+    /// @notice Mapping from Chainlink VRF request ID to the associated bet
+    mapping(uint256 => Bet) private requestIdToBet;
+    /// @notice Mapping from Chainlink VRF request ID to the positions of the spin
+    mapping(uint256 => Position[]) private requestIdToPositions;
+
+    /**
+     * @notice Event emitted when a spin is requested
+     * @param requestId The Chainlink VRF request ID
+     * @param player The address of the player making the spin
+     * @param betAmount The total amount of tokens staked on all positions
+     * @param positions The positions of the spin
+     * @param token The address of the token used for the bet (address(0) for ETH)
+     */
+    event RouletteSpinRequested(
+        uint256 indexed requestId,
+        address indexed player,
+        uint256 betAmount,
+        Position[] positions,
+        address token
+    );
+
+    /**
+     * @notice Event emitted when a spin is fulfilled by Chainlink VRF
+     * @param requestId The Chainlink VRF request ID
+     * @param player The address of the player who made the spin
+     * @param result The pocket the ball landed in
+     * @param won Whether any position won
+     * @param payout The amount paid out to the player (0 if lost)
+     * @param token The address of the token used for the bet (address(0) for ETH)
+     */
+    event RouletteSpinFulfilled(
+        uint256 indexed requestId,
+        address indexed player,
+        uint8 result,
+        bool won,
+        uint256 payout,
+        address token
+    );
+
+    /**
+     * @notice Event emitted when a bet is settled
+     * @param player The address of the player who made the bet
+     * @param amount The total amount of tokens staked on all positions
+     * @param result The pocket the ball landed in
+     * @param won Whether any position won
+     * @param payout The amount paid out to the player (0 if lost)
+     * @param token The address of the token used for the bet (address(0) for ETH)
+     */
+    event BetSettled(
+        address indexed player,
+        uint256 amount,
+        uint8 result,
+        bool won,
+        uint256 payout,
+        address token
+    );
+
+    /// @notice Error thrown when a spin has no positions or more than MAX_POSITIONS
+    error InvalidPositionsCount();
+    /// @notice Error thrown when a position has no stake or does not describe valid numbers on the layout
+    error InvalidPosition();
+
+    /**
+     * @notice Constructor that disables initializers
+     * @param _vrfCoordinator The address of the VRF Coordinator
+     */
+    constructor(address _vrfCoordinator) BaseVRFGame(_vrfCoordinator) {}
+
+    /**
+     * @notice Initializes the Roulette contract with Chainlink VRF parameters
+     * @param _vrfCoordinator The address of the VRF Coordinator
+     * @param _subscriptionId The ID of the VRF subscription
+     * @param _keyHash The gas lane key hash
+     * @param _addressBook The address of the AddressBook contract
+     * @param _minBetAmount The minimum total stake of a spin (in USD with 18 decimals)
+     * @param _maxBetAmount The maximum total stake of a spin (in USD with 18 decimals)
+     * @param _houseEdge The house edge taken from the classic payouts (in basis points, e.g., 500 for 5%)
+     */
+    function initialize(
+        address _vrfCoordinator,
+        uint256 _subscriptionId,
+        bytes32 _keyHash,
+        address _addressBook,
+        uint256 _minBetAmount,
+        uint256 _maxBetAmount,
+        uint16 _houseEdge
+    ) external initializer {
+        __BaseVRFGame_init(
+            _vrfCoordinator,
+            _subscriptionId,
+            _keyHash,
+            _addressBook,
+            _minBetAmount,
+            _maxBetAmount,
+            _houseEdge
+        );
+        // Settling up to MAX_POSITIONS positions needs more gas than the single outcome games
+        callbackGasLimit = 500000;
+    }
+
+    /**
+     * @notice Not used, Roulette was deployed after the house edge and bet limit migration
+     * @dev Always reverts, the bet limits of Roulette are stored in USD and must not be converted again
+     */
+    function initializeV2() external pure override {
+        revert MigrationNotSupported();
+    }
+
+    /**
+     * @notice Spins the wheel with either a native token (ETH) or ERC20 token bet and requests randomness from Chainlink VRF
+     * @dev Validates the positions, reserves their worst-case combined payout and sends a VRF request
+     * @param positions The positions to bet on, each with its own stake
+     * @param token The address of the token to bet with (use address(0) for ETH)
+     * @param referrer The address of the referrer (use address(0) for no referrer)
+     * @return requestId The ID of the Chainlink VRF request associated with this spin
+     */
+    function spin(
+        Position[] calldata positions,
+        address token,
+        address referrer
+    ) public payable returns (uint256) {
+        if (positions.length == 0 || positions.length > MAX_POSITIONS) revert InvalidPositionsCount();
+
+        uint256 totalAmount;
+        for (uint256 i; i < positions.length; ++i) {
+            totalAmount += positions[i].amount;
+        }
+
+        _acceptBet(token, totalAmount);
+
+        uint16 edge = getHouseEdge(token);
+        uint256 maxPayout = _calculateMaxPayout(positions, edge);
+
+        Bet memory bet = Bet({
+            amount: totalAmount,
+            result: 0,
+            settled: false,
+            won: false,
+            payout: 0,
+            maxPayout: maxPayout,
+            houseEdgeBps: edge,
+            token: token,
+            createdAt: block.timestamp
+        });
+
+        uint256 requestId = _placeBet(token, maxPayout, referrer);
+
+        requestIdToBet[requestId] = bet;
+
+        Position[] storage storedPositions = requestIdToPositions[requestId];
+        for (uint256 i; i < positions.length; ++i) {
+            storedPositions.push(positions[i]);
+        }
+
+        emit RouletteSpinRequested(requestId, msg.sender, totalAmount, positions, token);
+
+        return requestId;
+    }
+
+    /**
+     * @notice Calculate the payout of a single winning position
+     * @dev The classic payout of 36 / covered numbers (stake included) reduced by the house edge of the bet token
+     * @param position The position to calculate the payout for
+     * @param token The address of the token used for the bet (address(0) for ETH)
+     * @return The payout amount if the position wins
+     */
+    function calculatePayout(Position calldata position, address token) external view returns (uint256) {
+        (, uint8 count) = _coveredNumbers(position);
+        return _positionPayout(position.amount, count, getHouseEdge(token));
+    }
+
+    /**
+     * @notice Calculate the worst-case combined payout of a spin
+     * @dev The highest total payout over all pockets, reserved as liability while the spin is pending
+     * @param positions The positions of the spin
+     * @param token The address of the token used for the bet (address(0) for ETH)
+     * @return The maximum amount the spin can pay out
+     */
+    function calculateMaxPayout(Position[] calldata positions, address token) external view returns (uint256) {
+        return _calculateMaxPayout(positions, getHouseEdge(token));
+    }
+
+    /**
+     * @notice Calculate the worst-case combined payout of a spin
+     * @param positions The positions of the spin
+     * @param edge The house edge to apply (in basis points)
+     * @return maxPayout The maximum amount the spin can pay out
+     */
+    function _calculateMaxPayout(
+        Position[] calldata positions,
+        uint16 edge
+    ) internal pure returns (uint256 maxPayout) {
+        uint64[] memory masks = new uint64[](positions.length);
+        uint256[] memory payouts = new uint256[](positions.length);
+
+        for (uint256 i; i < positions.length; ++i) {
+            if (positions[i].amount == 0) revert InvalidPosition();
+            uint8 count;
+            (masks[i], count) = _coveredNumbers(positions[i]);
+            payouts[i] = _positionPayout(positions[i].amount, count, edge);
+        }
+
+        for (uint8 number; number < POCKETS; ++number) {
+            uint256 total;
+            for (uint256 i; i < masks.length; ++i) {
+                if (masks[i] & (uint64(1) << number) != 0) total += payouts[i];
+            }
+            if (total > maxPayout) maxPayout = total;
+        }
+    }
+
+    /**
+     * @notice Calculate the payout of a winning position
+     * @param amount The stake of the position
+     * @param count The quantity of numbers covered by the position
+     * @param edge The house edge to apply (in basis points)
+     * @return The payout amount if the position wins
+     */
+    function _positionPayout(uint256 amount, uint8 count, uint16 edge) internal pure returns (uint256) {
+        return (amount * 36 * (DIVIDER - edge)) / (uint256(count) * DIVIDER);
+    }
+
+    /**
+     * @notice Resolves the numbers covered by a position
+     * @dev Reverts with InvalidPosition if the position does not describe valid numbers on the layout
+     * @param position The position to resolve
+     * @return mask Bitmask of the covered numbers (bit n set for number n)
+     * @return count The quantity of covered numbers
+     */
+    function _coveredNumbers(Position memory position) internal pure returns (uint64 mask, uint8 count) {
+        uint8 number = position.number;
+        BetType betType = position.betType;
+
+        if (betType == BetType.STRAIGHT) {
+            if (number > 36) revert InvalidPosition();
+            return (uint64(1) << number, 1);
+        }
+        if (betType == BetType.SPLIT) {
+            (uint8 low, uint8 high) = number < position.secondNumber
+                ? (number, position.secondNumber)
+                : (position.secondNumber, number);
+            bool isValid = high <= 36 &&
+                (
+                    (low == 0 && high <= 3) || // zero with 1, 2 or 3
+                    (low != 0 && high == low + 1 && low % 3 != 0) || // same row
+                    (low != 0 && high == low + 3) // same column
+                );
+            if (!isValid || low == high) revert InvalidPosition();
+            return ((uint64(1) << low) | (uint64(1) << high), 2);
+        }
+        if (betType == BetType.STREET) {
+            if (number == 0 || number > 34 || number % 3 != 1) revert InvalidPosition();
+            return (uint64(7) << number, 3);
+        }
+        if (betType == BetType.CORNER) {
+            if (number == 0 || number > 32 || number % 3 == 0) revert InvalidPosition();
+            return (uint64(0x1b) << number, 4);
+        }
+        if (betType == BetType.RED) return (RED_NUMBERS, 18);
+        if (betType == BetType.BLACK) return (BLACK_NUMBERS, 18);
+        if (betType == BetType.ODD) return (ODD_NUMBERS, 18);
+        if (betType == BetType.EVEN) return (EVEN_NUMBERS, 18);
+
+        if (number == 0 || number > 3) revert InvalidPosition();
+        if (betType == BetType.DOZEN) return (uint64(0xfff) << (12 * (number - 1) + 1), 12);
+        return (FIRST_COLUMN << (number - 1), 12);
+    }
+
+    /**
+     * @notice Determines the winning pocket for a fulfilled request and settles all positions of the spin
+     * @param requestId The Chainlink VRF request ID of the bet
+     * @param player The address of the player who made the spin
+     * @param randomWord The random word generated by Chainlink VRF
+     * @return amount The total amount of tokens staked on all positions
+     * @return token The address of the token used for the bet (address(0) for ETH)
+     */
+    function _settleBet(
+        uint256 requestId,
+        address player,
+        uint256 randomWord
+    ) internal override returns (uint256 amount, address token) {
+        Bet storage bet = requestIdToBet[requestId];
+
+        uint8 result = uint8(randomWord % POCKETS);
+        uint256 payout = _settlePositions(requestIdToPositions[requestId], result, bet.houseEdgeBps);
+        bool won = payout > 0;
+
+        _releaseLiability(bet.token, bet.maxPayout);
+
+        bet.result = result;
+        bet.settled = true;
+        bet.won = won;
+        bet.payout = payout;
+
+        if (won) _payOut(player, bet.token, payout);
+
+        emit RouletteSpinFulfilled(requestId, player, result, won, payout, bet.token);
+        emit BetSettled(player, bet.amount, result, won, payout, bet.token);
+
+        return (bet.amount, bet.token);
+    }
+
+    /**
+     * @notice Sums the payouts of the positions covering the winning pocket
+     * @param positions The positions of the spin
+     * @param result The pocket the ball landed in
+     * @param edge The house edge applied to the spin (in basis points)
+     * @return payout The combined payout of the winning positions
+     */
+    function _settlePositions(
+        Position[] storage positions,
+        uint8 result,
+        uint16 edge
+    ) internal view returns (uint256 payout) {
+        for (uint256 i; i < positions.length; ++i) {
+            Position memory position = positions[i];
+            (uint64 mask, uint8 count) = _coveredNumbers(position);
+            if (mask & (uint64(1) << result) != 0) payout += _positionPayout(position.amount, count, edge);
+        }
+    }
+
+    /**
+     * @notice Returns the total stake of a pending bet to the player in the original token
+     * @dev Settles the bet without a result, a late fulfillment of the request is ignored
+     * @param requestId The Chainlink VRF request ID of the bet
+     */
+    function _refundBet(uint256 requestId) internal override {
+        address player = requestIdToSender[requestId];
+        Bet storage bet = requestIdToBet[requestId];
+
+        if (player == address(0) || bet.settled || refundTimeout == 0) revert RefundNotAvailable();
+        if (block.timestamp < bet.createdAt + refundTimeout) revert RefundNotAvailable();
+
+        delete requestIdToSender[requestId];
+        _releaseLiability(bet.token, bet.maxPayout);
+        bet.settled = true;
+
+        _payOut(player, bet.token, bet.amount);
+
+        emit BetRefunded(requestId, player, bet.amount, bet.token);
+    }
+
+    /**
+     * @notice Check if a spin is in progress for the caller
+     * @dev Returns true if any spin of the caller is awaiting fulfillment or refund, false otherwise
+     * @return True if a spin is in progress, false otherwise
+     */
+    function isSpinInProgress() external view returns (bool) {
+        return getPendingBetCount(msg.sender) > 0;
+    }
+
+    /**
+     * @notice Get the current bet details for the caller
+     * @dev The positions of the bet are returned by getCurrentPositions
+     * @return amount The total amount staked on all positions
+     * @return result The pocket the ball landed in (valid once settled)
+     * @return settled Whether the bet has been settled
+     * @return won Whether any position won
+     * @return payout The amount paid out (valid once settled)
+     * @return maxPayout The worst-case combined payout of all positions
+     */
+    function getCurrentBet()
+    external
+    view
+    returns (
+        uint256 amount,
+        uint8 result,
+        bool settled,
+        bool won,
+        uint256 payout,
+        uint256 maxPayout
+    )
+    {
+        Bet memory bet = requestIdToBet[latestRequestIds[msg.sender]];
+        return (bet.amount, bet.result, bet.settled, bet.won, bet.payout, bet.maxPayout);
+    }
+
+    /**
+     * @notice Get the positions of the current bet for the caller
+     * @return The positions of the latest spin of the caller
+     */
+    function getCurrentPositions() external view returns (Position[] memory) {
+        return requestIdToPositions[latestRequestIds[msg.sender]];
+    }
+
+    /**
+     * @notice Get a spin from the bet history
+     * @dev Reverts with BetNotFound if the bet ID does not exist
+     * @param betId The ID of the bet
+     * @return The bet record, including the spin result once settled
+     */
+    function getBet(uint256 betId) public view returns (BetRecord memory) {
+        BetEntry memory entry = _getBetEntry(betId);
+        return BetRecord({
+            betId: betId,
+            requestId: entry.requestId,
+            player: entry.player,
+            bet: requestIdToBet[entry.requestId],
+            positions: requestIdToPositions[entry.requestId]
+        });
+    }
+
+    /**
+     * @notice Get a page of the spins of a player, in the order they were placed
+     * @param player The address of the player
+     * @param offset The index of the first bet to return
+     * @param limit The maximum number of bets to return
+     * @return records The bet records (empty if offset is past the last bet)
+     */
+    function getPlayerBets(
+        address player,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (BetRecord[] memory records) {
+        uint256[] memory betIds = getPlayerBetIds(player, offset, limit);
+        records = new BetRecord[](betIds.length);
+        for (uint256 i = 0; i < betIds.length; i++) {
+            records[i] = getBet(betIds[i]);
+        }
+    }
+}
@@ -0,0 +1,38 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+/**
+ * @title RandomCells Library
+ * @notice Derives a set of distinct board cells from a Chainlink VRF random word
+ * @dev Shared by the board games so the same random word always selects the same cells
+ */
+library RandomCells {
+    /**
+     * @notice Picks distinct cells of a board with a partial Fisher-Yates shuffle
+     * @dev Every pick takes the random word modulo the remaining cells, the word is rehashed between picks
+     * @param rw The random word
+     * @param total The quantity of cells on the board (up to 32)
+     * @param pick The quantity of cells to pick (up to total)
+     * @return mask Bitmask of the picked cells (bit i set for cell i)
+     */
+    function deriveMask(uint256 rw, uint8 total, uint8 pick) internal pure returns (uint32 mask) {
+        uint8[] memory arr = new uint8[](total);
+        for (uint8 i = 0; i < total; i++) {
+            arr[i] = i;
+        }
+
+        uint256 rnd = rw;
+        uint8 remaining = total;
+
+        for (uint8 j = 0; j < pick; j++) {
+            uint256 idx = rnd % remaining;
+            uint8 val = arr[idx];
+            mask |= uint32(1) << val;
+
+            arr[idx] = arr[remaining - 1];
+            remaining--;
+
+            rnd = uint256(keccak256(abi.encode(rnd, j)));
+        }
+    }
+}
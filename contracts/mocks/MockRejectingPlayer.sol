@@ -0,0 +1,38 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+/**
+ * @title MockRejectingPlayer
+ * @notice A mock player contract that rejects incoming ETH until told to accept it
+ * @dev Used to test that games cannot be blocked by recipients that revert on payouts
+ */
+contract MockRejectingPlayer {
+    // Whether incoming ETH is accepted
+    bool public acceptsPayments;
+
+    /**
+     * @notice Forwards a call with ETH to a game, acting as the player
+     * @param game The address of the game
+     * @param data The calldata of the call
+     */
+    function play(address game, bytes calldata data) external payable {
+        (bool success, bytes memory result) = game.call{value: msg.value}(data);
+        if (!success) {
+            assembly {
+                revert(add(result, 32), mload(result))
+            }
+        }
+    }
+
+    /**
+     * @notice Sets whether incoming ETH is accepted
+     * @param accepts Whether to accept ETH
+     */
+    function setAcceptsPayments(bool accepts) external {
+        acceptsPayments = accepts;
+    }
+
+    receive() external payable {
+        require(acceptsPayments, "Payments rejected");
+    }
+}
@@ -0,0 +1,605 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import {IVRFCoordinatorV2Plus} from "@chainlink/contracts/src/v0.8/vrf/dev/interfaces/IVRFCoordinatorV2Plus.sol";
+import {VRFConsumerBaseV2Plus} from "@chainlink/contracts/src/v0.8/vrf/dev/VRFConsumerBaseV2Plus.sol";
+import {VRFV2PlusClient} from "@chainlink/contracts/src/v0.8/vrf/dev/libraries/VRFV2PlusClient.sol";
+import {UUPSUpgradeable} from "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+
+import {IAddressBook} from "../_interfaces/access/IAddressBook.sol";
+import {IRandomnessConsumer} from "../_interfaces/randomness/IRandomnessConsumer.sol";
+import {IRandomnessProvider} from "../_interfaces/randomness/IRandomnessProvider.sol";
+
+/**
+ * @title ChainlinkRandomnessProvider
+ * @notice Randomness provider that forwards the requests of the games to Chainlink VRF v2.5
+ * @dev The words delivered by the VRF Coordinator are passed on to the requesting game, so the callback gas limit
+ *      has to cover the settlement of the game on top of the forwarding
+ * @dev In batching mode the requests made within batchWindow of each other share a single VRF request. The word of
+ *      the batch is expanded with keccak256 into the words of every request, the callback delivers the first
+ *      settlementChunkSize requests and the rest are delivered in chunks of the same size with deliverBatch
+ * @dev Every batched request is delivered with deliveryGasLimit gas and a reverting game does not block the rest of
+ *      the batch. The outcome of a failed delivery is already public, so the request stays fulfilled and can only be
+ *      settled with retryDelivery. A batch whose VRF callback failed can be requested again with rerequestBatch
+ */
+contract ChainlinkRandomnessProvider is IRandomnessProvider, VRFConsumerBaseV2Plus, UUPSUpgradeable {
+    /// @notice Gas kept back on top of a delivery to record its failure and continue the batch
+    uint256 internal constant DELIVERY_GAS_RESERVE = 50000;
+
+    /**
+     * @notice Struct representing a batch of requests sharing a single VRF request
+     */
+    struct Batch {
+        /// @notice Timestamp of the first request of the batch
+        uint64 openedAt;
+        /// @notice Whether the random word of the batch has been requested from Chainlink VRF
+        bool requested;
+        /// @notice Whether the random word of the batch has been delivered by Chainlink VRF
+        bool fulfilled;
+        /// @notice Chainlink VRF request ID of the batch
+        uint256 vrfRequestId;
+        /// @notice Random word of the batch the words of the requests are expanded from
+        uint256 randomWord;
+        /// @notice Number of requests of the batch whose words have been delivered, in the order they were made
+        uint256 deliveredCount;
+        /// @notice IDs of the requests of the batch
+        uint256[] requestIds;
+    }
+
+    /// @notice Reference to the address book contract that provides access to other contracts
+    IAddressBook public addressBook;
+
+    /// @notice Chainlink VRF subscription ID
+    uint256 public subscriptionId;
+
+    /// @notice Chainlink VRF key hash for the gas lane
+    bytes32 public keyHash;
+
+    /// @notice Gas limit for the Chainlink VRF callback, including the settlement of the game
+    uint32 public callbackGasLimit;
+
+    /// @notice Number of confirmations required for Chainlink VRF
+    uint16 public requestConfirmations;
+
+    /// @notice Whether requests are paid for in native tokens instead of LINK
+    bool public nativePayment;
+
+    /// @notice Mapping from request ID to the game awaiting the random words
+    mapping(uint256 => address) public requestConsumers;
+
+    /// @notice Time during which new requests join the open batch (in seconds, 0 disables batching)
+    uint256 public batchWindow;
+
+    /// @notice Maximum number of requests delivered by the VRF callback or a single deliverBatch call
+    uint256 public settlementChunkSize;
+
+    /// @notice Total number of batches opened
+    uint256 public batchCount;
+
+    /// @notice ID of the batch new requests join (0 if no batch is open)
+    uint256 public openBatchId;
+
+    /// @notice Mapping from batch ID to the batch
+    mapping(uint256 => Batch) internal batches;
+
+    /// @notice Mapping from request ID to the ID of its batch (0 for requests made outside of batching mode)
+    mapping(uint256 => uint256) public requestBatches;
+
+    /// @notice Mapping from request ID to the number of random words requested, for batched requests
+    mapping(uint256 => uint32) internal requestNumWords;
+
+    /// @notice Mapping from Chainlink VRF request ID to the ID of the batch awaiting the random word
+    mapping(uint256 => uint256) internal vrfRequestBatches;
+
+    /// @notice Gas forwarded to the game with every delivery of a batched request
+    uint32 public deliveryGasLimit;
+
+    /// @notice Mapping from request ID to whether the delivery of its words to the game reverted
+    mapping(uint256 => bool) public failedDeliveries;
+
+    /**
+     * @notice Emitted when a game requests random words
+     * @param requestId The Chainlink VRF request ID
+     * @param consumer The address of the requesting game
+     * @param player The address of the player the words are requested for
+     * @param numWords The number of random words requested
+     */
+    event RandomnessRequested(
+        uint256 indexed requestId,
+        address indexed consumer,
+        address indexed player,
+        uint32 numWords
+    );
+
+    /**
+     * @notice Emitted when random words are passed on to the requesting game
+     * @param requestId The Chainlink VRF request ID
+     * @param consumer The address of the requesting game
+     */
+    event RandomnessFulfilled(uint256 indexed requestId, address indexed consumer);
+
+    /**
+     * @notice Emitted when a request joins a batch
+     * @param batchId The ID of the batch
+     * @param requestId The ID of the request
+     */
+    event BatchJoined(uint256 indexed batchId, uint256 indexed requestId);
+
+    /**
+     * @notice Emitted when the random word of a batch is requested from Chainlink VRF
+     * @param batchId The ID of the batch
+     * @param vrfRequestId The Chainlink VRF request ID of the batch
+     * @param size The number of requests in the batch
+     */
+    event BatchRequested(uint256 indexed batchId, uint256 indexed vrfRequestId, uint256 size);
+
+    /**
+     * @notice Emitted when the random word of a batch is delivered by Chainlink VRF
+     * @param batchId The ID of the batch
+     */
+    event BatchFulfilled(uint256 indexed batchId);
+
+    /**
+     * @notice Emitted when a chunk of the requests of a batch is delivered
+     * @param batchId The ID of the batch
+     * @param deliveredCount The number of requests of the batch delivered so far
+     */
+    event BatchDelivered(uint256 indexed batchId, uint256 deliveredCount);
+
+    /**
+     * @notice Emitted when the random word of a batch whose VRF callback failed is requested again
+     * @param batchId The ID of the batch
+     * @param vrfRequestId The new Chainlink VRF request ID of the batch
+     */
+    event BatchRerequested(uint256 indexed batchId, uint256 indexed vrfRequestId);
+
+    /**
+     * @notice Emitted when the delivery of the words of a batched request to the game reverts
+     * @param requestId The ID of the request
+     * @param consumer The address of the requesting game
+     */
+    event DeliveryFailed(uint256 indexed requestId, address indexed consumer);
+
+    /// @notice Emitted when the subscription ID is updated
+    event SubscriptionIdSet(uint256 subscriptionId);
+    /// @notice Emitted when the key hash is updated
+    event KeyHashSet(bytes32 keyHash);
+    /// @notice Emitted when the callback gas limit is updated
+    event CallbackGasLimitSet(uint32 callbackGasLimit);
+    /// @notice Emitted when the number of request confirmations is updated
+    event RequestConfirmationsSet(uint16 requestConfirmations);
+    /// @notice Emitted when the VRF billing token is switched between LINK and native tokens
+    event NativePaymentSet(bool nativePayment);
+    /// @notice Emitted when the batch window is updated
+    event BatchWindowSet(uint256 batchWindow);
+    /// @notice Emitted when the settlement chunk size is updated
+    event SettlementChunkSizeSet(uint256 settlementChunkSize);
+    /// @notice Emitted when the delivery gas limit is updated
+    event DeliveryGasLimitSet(uint32 deliveryGasLimit);
+
+    /**
+     * @notice Constructor that disables initializers
+     * @param _vrfCoordinator The address of the VRF Coordinator
+     */
+    constructor(address _vrfCoordinator) VRFConsumerBaseV2Plus(_vrfCoordinator) {
+        _disableInitializers();
+    }
+
+    /**
+     * @notice Initializes the contract with the VRF settings and the address book reference
+     * @dev Can only be called once due to the initializer modifier
+     * @param _vrfCoordinator The address of the VRF Coordinator
+     * @param _subscriptionId The Chainlink VRF subscription ID
+     * @param _keyHash The Chainlink VRF key hash for the gas lane
+     * @param _addressBook Address of the address book contract
+     */
+    function initialize(
+        address _vrfCoordinator,
+        uint256 _subscriptionId,
+        bytes32 _keyHash,
+        address _addressBook
+    ) external initializer {
+        require(_vrfCoordinator != address(0), "_vrfCoordinator is zero!");
+        require(_keyHash != bytes32(0), "_keyHash is zero!");
+        require(_addressBook != address(0), "_addressBook is zero!");
+
+        s_vrfCoordinator = IVRFCoordinatorV2Plus(_vrfCoordinator);
+        subscriptionId = _subscriptionId;
+        keyHash = _keyHash;
+        callbackGasLimit = 500000;
+        requestConfirmations = 3;
+        settlementChunkSize = 3;
+        deliveryGasLimit = 300000;
+        addressBook = IAddressBook(_addressBook);
+
+        __UUPSUpgradeable_init();
+    }
+
+    /**
+     * @notice Requests random words from Chainlink VRF on behalf of a game
+     * @dev Can only be called by registered games. In batching mode the request joins the open batch, the batch
+     *      whose window has passed is requested from Chainlink VRF first
+     * @param player The address of the player the words are requested for
+     * @param numWords The number of random words to request
+     * @return requestId The Chainlink VRF request ID, or the ID of the request within its batch in batching mode
+     */
+    function requestRandomness(address player, uint32 numWords) external override returns (uint256 requestId) {
+        require(addressBook.gameManager().isGameExist(msg.sender), "only game!");
+
+        if (batchWindow == 0) {
+            requestId = _requestRandomWords(numWords);
+        } else {
+            requestId = _joinBatch(numWords);
+        }
+        requestConsumers[requestId] = msg.sender;
+
+        emit RandomnessRequested(requestId, msg.sender, player, numWords);
+    }
+
+    /**
+     * @notice Requests the random word of the open batch once its window has passed
+     * @dev Can be called by anyone, e.g. a keeper, when no new request closes the batch
+     */
+    function requestBatch() external {
+        uint256 batchId = openBatchId;
+        require(batchId != 0, "No open batch");
+        require(block.timestamp >= batches[batchId].openedAt + batchWindow, "Batch window not passed");
+        _requestBatch(batchId);
+    }
+
+    /**
+     * @notice Delivers the next chunk of the requests of a fulfilled batch
+     * @dev Can be called by anyone, e.g. a keeper, until every request of the batch is delivered
+     * @param batchId The ID of the batch
+     */
+    function deliverBatch(uint256 batchId) external {
+        Batch storage batch = batches[batchId];
+        require(batch.fulfilled, "Batch not fulfilled");
+        require(batch.deliveredCount < batch.requestIds.length, "Batch already delivered");
+        require(gasleft() >= _minDeliveryGas(), "Insufficient gas");
+        _deliverBatch(batchId);
+    }
+
+    /**
+     * @notice Delivers the words of a batched request again after its delivery to the game reverted
+     * @dev Can be called by anyone, the words are the same as in the failed delivery. Reverts if the game reverts
+     *      again, so the request stays retryable
+     * @param requestId The ID of the request
+     */
+    function retryDelivery(uint256 requestId) external {
+        require(failedDeliveries[requestId], "Delivery not failed");
+        require(gasleft() >= _minDeliveryGas(), "Insufficient gas");
+
+        delete failedDeliveries[requestId];
+
+        require(_deliver(requestId, batches[requestBatches[requestId]].randomWord), "Delivery failed");
+    }
+
+    /**
+     * @notice Requests the random word of a batch again when its VRF callback failed, e.g. by running out of gas
+     * @dev Only administrators can request a batch again, the word of the previous VRF request is ignored
+     * @param batchId The ID of the batch
+     */
+    function rerequestBatch(uint256 batchId) external {
+        addressBook.accessRoles().requireAdministrator(msg.sender);
+
+        Batch storage batch = batches[batchId];
+        require(batch.requested, "Batch not requested");
+        require(!batch.fulfilled, "Batch already fulfilled");
+
+        delete vrfRequestBatches[batch.vrfRequestId];
+
+        uint256 vrfRequestId = _requestRandomWords(1);
+        batch.vrfRequestId = vrfRequestId;
+        vrfRequestBatches[vrfRequestId] = batchId;
+
+        emit BatchRerequested(batchId, vrfRequestId);
+    }
+
+    /**
+     * @notice Returns whether the random words of a request are determined
+     * @dev Batched requests are determined as soon as the word of their batch is delivered by Chainlink VRF,
+     *      before their own words are delivered to the game, even if their delivery to the game reverted
+     * @param requestId The ID of the request
+     * @return True if the random words of the request are determined
+     */
+    function isFulfilled(uint256 requestId) external view override returns (bool) {
+        uint256 batchId = requestBatches[requestId];
+        if (batchId != 0) return batches[batchId].fulfilled;
+        return false;
+    }
+
+    /**
+     * @notice Returns a batch
+     * @param batchId The ID of the batch
+     * @return The Batch struct
+     */
+    function getBatch(uint256 batchId) external view returns (Batch memory) {
+        return batches[batchId];
+    }
+
+    /**
+     * @notice Derives the random words of a batched request from the random word of its batch
+     * @param randomWord The random word of the batch
+     * @param requestId The ID of the request
+     * @param numWords The number of random words to derive
+     * @return randomWords The random words
+     */
+    function expandRandomWord(
+        uint256 randomWord,
+        uint256 requestId,
+        uint32 numWords
+    ) public pure returns (uint256[] memory randomWords) {
+        randomWords = new uint256[](numWords);
+        for (uint256 i; i < numWords; ++i) {
+            randomWords[i] = uint256(keccak256(abi.encode(randomWord, requestId, i)));
+        }
+    }
+
+    /**
+     * @notice Sends a request for random words to the VRF Coordinator
+     * @param numWords The number of random words to request
+     * @return The Chainlink VRF request ID
+     */
+    function _requestRandomWords(uint32 numWords) internal returns (uint256) {
+        return s_vrfCoordinator.requestRandomWords(
+            VRFV2PlusClient.RandomWordsRequest({
+                keyHash: keyHash,
+                subId: subscriptionId,
+                requestConfirmations: requestConfirmations,
+                callbackGasLimit: callbackGasLimit,
+                numWords: numWords,
+                extraArgs: VRFV2PlusClient._argsToBytes(VRFV2PlusClient.ExtraArgsV1({nativePayment: nativePayment}))
+            })
+        );
+    }
+
+    /**
+     * @notice Adds a request to the open batch, opening a new batch if the window of the open one has passed
+     * @param numWords The number of random words requested
+     * @return requestId The ID of the request within its batch
+     */
+    function _joinBatch(uint32 numWords) internal returns (uint256 requestId) {
+        require(numWords > 0, "numWords is zero!");
+
+        uint256 batchId = openBatchId;
+        if (batchId != 0 && block.timestamp >= batches[batchId].openedAt + batchWindow) {
+            _requestBatch(batchId);
+            batchId = 0;
+        }
+        if (batchId == 0) {
+            batchId = ++batchCount;
+            batches[batchId].openedAt = uint64(block.timestamp);
+            openBatchId = batchId;
+        }
+
+        Batch storage batch = batches[batchId];
+        // Hashed so the IDs do not collide with the Chainlink VRF request IDs
+        requestId = uint256(keccak256(abi.encode(address(this), batchId, batch.requestIds.length)));
+        batch.requestIds.push(requestId);
+        requestBatches[requestId] = batchId;
+        requestNumWords[requestId] = numWords;
+
+        emit BatchJoined(batchId, requestId);
+    }
+
+    /**
+     * @notice Requests the random word of a batch from Chainlink VRF and closes the batch
+     * @param batchId The ID of the batch
+     */
+    function _requestBatch(uint256 batchId) internal {
+        Batch storage batch = batches[batchId];
+        uint256 vrfRequestId = _requestRandomWords(1);
+
+        batch.requested = true;
+        batch.vrfRequestId = vrfRequestId;
+        vrfRequestBatches[vrfRequestId] = batchId;
+        openBatchId = 0;
+
+        emit BatchRequested(batchId, vrfRequestId, batch.requestIds.length);
+    }
+
+    /**
+     * @notice Delivers the expanded words of up to settlementChunkSize requests of a fulfilled batch
+     * @dev Stops early once the remaining gas does not cover another delivery, the rest of the batch is delivered
+     *      with deliverBatch
+     * @param batchId The ID of the batch
+     */
+    function _deliverBatch(uint256 batchId) internal {
+        Batch storage batch = batches[batchId];
+        uint256 end = batch.deliveredCount + settlementChunkSize;
+        if (end > batch.requestIds.length) end = batch.requestIds.length;
+
+        uint256 minDeliveryGas = _minDeliveryGas();
+        for (uint256 i = batch.deliveredCount; i < end && gasleft() >= minDeliveryGas; ++i) {
+            batch.deliveredCount = i + 1;
+            _deliver(batch.requestIds[i], batch.randomWord);
+        }
+
+        emit BatchDelivered(batchId, batch.deliveredCount);
+    }
+
+    /**
+     * @notice Delivers the expanded words of a batched request to its game with deliveryGasLimit gas
+     * @dev A reverting game is recorded in failedDeliveries instead of reverting the delivery of the batch
+     * @param requestId The ID of the request
+     * @param randomWord The random word of the batch
+     * @return delivered Whether the game accepted the words
+     */
+    function _deliver(uint256 requestId, uint256 randomWord) internal returns (bool delivered) {
+        address consumer = requestConsumers[requestId];
+        delete requestConsumers[requestId];
+
+        try
+            IRandomnessConsumer(consumer).fulfillRandomness{gas: deliveryGasLimit}(
+                requestId,
+                expandRandomWord(randomWord, requestId, requestNumWords[requestId])
+            )
+        {
+            emit RandomnessFulfilled(requestId, consumer);
+            return true;
+        } catch {
+            requestConsumers[requestId] = consumer;
+            failedDeliveries[requestId] = true;
+            emit DeliveryFailed(requestId, consumer);
+            return false;
+        }
+    }
+
+    /**
+     * @notice Returns the gas needed to forward deliveryGasLimit to a game and record a failed delivery
+     * @dev Only 63/64 of the remaining gas can be forwarded to a call
+     * @return The minimum remaining gas for a delivery
+     */
+    function _minDeliveryGas() internal view returns (uint256) {
+        return uint256(deliveryGasLimit) + deliveryGasLimit / 63 + DELIVERY_GAS_RESERVE;
+    }
+
+    /**
+     * @notice Callback function used by Chainlink VRF to deliver random words
+     * @dev Passes the words on to the game that requested them, or delivers the first chunk of a batch
+     * @param requestId The ID of the request
+     * @param randomWords The random words generated by Chainlink VRF
+     */
+    function fulfillRandomWords(uint256 requestId, uint256[] calldata randomWords) internal override {
+        uint256 batchId = vrfRequestBatches[requestId];
+        if (batchId != 0) {
+            delete vrfRequestBatches[requestId];
+
+            Batch storage batch = batches[batchId];
+            batch.fulfilled = true;
+            batch.randomWord = randomWords[0];
+
+            emit BatchFulfilled(batchId);
+
+            _deliverBatch(batchId);
+            return;
+        }
+
+        address consumer = requestConsumers[requestId];
+        if (consumer == address(0)) return;
+
+        delete requestConsumers[requestId];
+
+        emit RandomnessFulfilled(requestId, consumer);
+
+        IRandomnessConsumer(consumer).fulfillRandomness(requestId, randomWords);
+    }
+
+    /**
+     * @notice Updates the VRF Coordinator and/or subscription ID
+     * @dev Only the owners multisig can update the VRF settings
+     * @param newCoordinator The address of the new VRF Coordinator (set to address(0) to leave unchanged)
+     * @param newSubscriptionId The new subscription ID (set to 0 to leave unchanged)
+     */
+    function updateVRFSettings(address newCoordinator, uint256 newSubscriptionId) external {
+        addressBook.accessRoles().requireOwnersMultisig(msg.sender);
+
+        if (newCoordinator != address(0)) {
+            s_vrfCoordinator = IVRFCoordinatorV2Plus(newCoordinator);
+            emit CoordinatorSet(newCoordinator);
+        }
+
+        if (newSubscriptionId > 0) {
+            subscriptionId = newSubscriptionId;
+            emit SubscriptionIdSet(newSubscriptionId);
+        }
+    }
+
+    /**
+     * @notice Updates the Chainlink VRF key hash
+     * @dev Only the owners multisig can switch to another gas lane
+     * @param newKeyHash The new key hash
+     */
+    function setKeyHash(bytes32 newKeyHash) external {
+        addressBook.accessRoles().requireOwnersMultisig(msg.sender);
+        require(newKeyHash != bytes32(0), "newKeyHash is zero!");
+        keyHash = newKeyHash;
+        emit KeyHashSet(newKeyHash);
+    }
+
+    /**
+     * @notice Updates the gas limit for the Chainlink VRF callback
+     * @dev Only the owners multisig can update the gas limit
+     * @param newGasLimit The new gas limit
+     */
+    function setCallbackGasLimit(uint32 newGasLimit) external {
+        addressBook.accessRoles().requireOwnersMultisig(msg.sender);
+        require(newGasLimit > 50000, "Gas limit too low");
+        callbackGasLimit = newGasLimit;
+        emit CallbackGasLimitSet(newGasLimit);
+    }
+
+    /**
+     * @notice Updates the number of confirmations required for Chainlink VRF
+     * @dev Only the owners multisig can update the confirmations, within the 3 to 200 range accepted by Chainlink
+     * @param newRequestConfirmations The new number of request confirmations
+     */
+    function setRequestConfirmations(uint16 newRequestConfirmations) external {
+        addressBook.accessRoles().requireOwnersMultisig(msg.sender);
+        require(
+            newRequestConfirmations >= 3 && newRequestConfirmations <= 200,
+            "Invalid request confirmations"
+        );
+        requestConfirmations = newRequestConfirmations;
+        emit RequestConfirmationsSet(newRequestConfirmations);
+    }
+
+    /**
+     * @notice Updates whether Chainlink VRF requests are paid for in native tokens
+     * @dev Only the owners multisig can switch the billing of the subscription between LINK and native tokens
+     * @param newNativePayment Whether to pay in native tokens
+     */
+    function setNativePayment(bool newNativePayment) external {
+        addressBook.accessRoles().requireOwnersMultisig(msg.sender);
+        nativePayment = newNativePayment;
+        emit NativePaymentSet(newNativePayment);
+    }
+
+    /**
+     * @notice Updates the time during which new requests join the open batch
+     * @dev Only the owners multisig can update the batch window, 0 disables batching. A batch left open when
+     *      batching is disabled can still be requested with requestBatch
+     * @param newBatchWindow The new batch window (in seconds, up to 1 hour)
+     */
+    function setBatchWindow(uint256 newBatchWindow) external {
+        addressBook.accessRoles().requireOwnersMultisig(msg.sender);
+        require(newBatchWindow <= 1 hours, "Batch window too long");
+        batchWindow = newBatchWindow;
+        emit BatchWindowSet(newBatchWindow);
+    }
+
+    /**
+     * @notice Updates the maximum number of requests delivered at once
+     * @dev Only the owners multisig can update the chunk size, the callback gas limit has to cover the settlement of
+     *      a whole chunk
+     * @param newSettlementChunkSize The new settlement chunk size
+     */
+    function setSettlementChunkSize(uint256 newSettlementChunkSize) external {
+        addressBook.accessRoles().requireOwnersMultisig(msg.sender);
+        require(newSettlementChunkSize > 0, "newSettlementChunkSize is zero!");
+        settlementChunkSize = newSettlementChunkSize;
+        emit SettlementChunkSizeSet(newSettlementChunkSize);
+    }
+
+    /**
+     * @notice Updates the gas forwarded to the game with every delivery of a batched request
+     * @dev Only the owners multisig can update the delivery gas limit, it has to cover the settlement of a bet
+     * @param newDeliveryGasLimit The new delivery gas limit
+     */
+    function setDeliveryGasLimit(uint32 newDeliveryGasLimit) external {
+        addressBook.accessRoles().requireOwnersMultisig(msg.sender);
+        require(newDeliveryGasLimit > 50000, "Gas limit too low");
+        deliveryGasLimit = newDeliveryGasLimit;
+        emit DeliveryGasLimitSet(newDeliveryGasLimit);
+    }
+
+    /**
+     * @notice Authorization function for contract upgrades
+     * @dev Only the owners multisig can upgrade the contract
+     * @param newImplementation Address of the new implementation (unused parameter required by UUPS)
+     */
+    function _authorizeUpgrade(address newImplementation) internal view override {
+        addressBook.accessRoles().requireOwnersMultisig(msg.sender);
+    }
+}
@@ -0,0 +1,329 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import {UUPSUpgradeable} from "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import {Address} from "@openzeppelin/contracts/utils/Address.sol";
+
+import {IAddressBook} from "../_interfaces/access/IAddressBook.sol";
+import {IRandomnessConsumer} from "../_interfaces/randomness/IRandomnessConsumer.sol";
+import {IRandomnessProvider} from "../_interfaces/randomness/IRandomnessProvider.sol";
+
+/**
+ * @title CommitRevealRandomnessProvider
+ * @notice Randomness provider combining seeds committed by the operator in advance with the hash of the request block
+ * @dev The administrators commit the hashes of secret seeds, every request is assigned the next committed hash and
+ *      the random words are derived from the revealed seed, the player seed and the hash of the block the request
+ *      was made in. The block hash is unknown when the seed is committed, so the operator cannot pick seeds for
+ *      outcomes, and the seed is secret, so the player cannot predict the outcome
+ * @dev The operator learns the outcome before revealing and could withhold the reveals of bets the house loses.
+ *      Every request therefore locks a bond funded by the operator, which is paid to the player if the seed is not
+ *      revealed within REVEAL_WINDOW blocks, on top of the refund of the bet by the game. Withholding only saves
+ *      the operator money while the bond is smaller than the payout of the bet
+ */
+contract CommitRevealRandomnessProvider is IRandomnessProvider, UUPSUpgradeable {
+    /// @notice Number of blocks after the request block in which the seed can be revealed (the block hash lookback)
+    uint256 public constant REVEAL_WINDOW = 256;
+
+    /**
+     * @notice Struct representing a request for random words
+     */
+    struct Request {
+        /// @notice Address of the game awaiting the random words
+        address consumer;
+        /// @notice Number of random words requested
+        uint32 numWords;
+        /// @notice Whether the seed has been revealed and the words delivered
+        bool fulfilled;
+        /// @notice Committed hash of the operator seed assigned to the request
+        bytes32 seedHash;
+        /// @notice Seed of the player the words are requested for, unique per request
+        bytes32 playerSeed;
+        /// @notice Address of the player the words are requested for
+        address player;
+        /// @notice Number of the block the request was made in
+        uint64 blockNumber;
+        /// @notice Whether the bond of a withheld reveal has been paid to the player
+        bool forfeited;
+        /// @notice Bond locked for the request, paid to the player if the seed is not revealed in time
+        uint256 bond;
+    }
+
+    /// @notice Reference to the address book contract that provides access to other contracts
+    IAddressBook public addressBook;
+
+    /// @notice Committed hashes of the operator seeds, assigned to the requests in order
+    bytes32[] public seedHashes;
+
+    /// @notice Index of the committed seed hash assigned to the next request
+    uint256 public nextSeedHashIndex;
+
+    /// @notice Total number of requests made
+    uint256 public requestCount;
+
+    /// @notice Mapping from request ID to the request
+    mapping(uint256 => Request) public requests;
+
+    /// @notice Mapping from player address to the seed chosen by the player
+    mapping(address => bytes32) public playerSeeds;
+
+    /// @notice Bond locked for every new request (in wei)
+    uint256 public bondPerRequest;
+
+    /// @notice Total bond locked for requests whose seed is not revealed yet
+    uint256 public lockedBond;
+
+    /**
+     * @notice Emitted when the administrators commit new seed hashes
+     * @param firstIndex The index of the first committed seed hash
+     * @param count The number of seed hashes committed
+     */
+    event SeedHashesCommitted(uint256 firstIndex, uint256 count);
+
+    /**
+     * @notice Emitted when a player chooses a new seed
+     * @param player The address of the player
+     * @param seed The new seed of the player
+     */
+    event PlayerSeedSet(address indexed player, bytes32 seed);
+
+    /**
+     * @notice Emitted when a game requests random words
+     * @param requestId The ID of the request
+     * @param consumer The address of the requesting game
+     * @param player The address of the player the words are requested for
+     * @param seedHash The committed hash of the operator seed assigned to the request
+     * @param playerSeed The seed of the player for the request
+     */
+    event RandomnessRequested(
+        uint256 indexed requestId,
+        address indexed consumer,
+        address indexed player,
+        bytes32 seedHash,
+        bytes32 playerSeed
+    );
+
+    /**
+     * @notice Emitted when the operator seed of a request is revealed and the words are delivered
+     * @param requestId The ID of the request
+     * @param seed The revealed operator seed
+     */
+    event RandomnessRevealed(uint256 indexed requestId, bytes32 seed);
+
+    /**
+     * @notice Emitted when the bond of a request whose seed was not revealed in time is paid to the player
+     * @param requestId The ID of the request
+     * @param player The address of the player
+     * @param bond The amount of native tokens paid to the player
+     */
+    event BondForfeited(uint256 indexed requestId, address indexed player, uint256 bond);
+
+    /**
+     * @notice Emitted when the operator bond is funded
+     * @param sender The address funding the bond
+     * @param amount The amount of native tokens added
+     */
+    event BondFunded(address indexed sender, uint256 amount);
+
+    /**
+     * @notice Constructor that disables initializers
+     * @dev Prevents the implementation contract from being initialized
+     */
+    constructor() {
+        _disableInitializers();
+    }
+
+    /**
+     * @notice Initializes the contract with the address book reference
+     * @dev Can only be called once due to the initializer modifier
+     * @param _addressBook Address of the address book contract
+     */
+    function initialize(address _addressBook) external initializer {
+        require(_addressBook != address(0), "_addressBook is zero!");
+        addressBook = IAddressBook(_addressBook);
+        __UUPSUpgradeable_init();
+    }
+
+    /**
+     * @notice Commits the hashes of secret operator seeds to be assigned to future requests
+     * @dev Only administrators can commit seed hashes, each hash is keccak256(abi.encode(seed))
+     * @param hashes The seed hashes to commit
+     */
+    function commitSeedHashes(bytes32[] calldata hashes) external {
+        addressBook.accessRoles().requireAdministrator(msg.sender);
+        require(hashes.length > 0, "hashes is empty!");
+
+        uint256 firstIndex = seedHashes.length;
+        for (uint256 i; i < hashes.length; ++i) {
+            require(hashes[i] != bytes32(0), "seed hash is zero!");
+            seedHashes.push(hashes[i]);
+        }
+
+        emit SeedHashesCommitted(firstIndex, hashes.length);
+    }
+
+    /**
+     * @notice Sets the seed of the caller mixed into the random words of their future requests
+     * @param seed The new seed
+     */
+    function setPlayerSeed(bytes32 seed) external {
+        playerSeeds[msg.sender] = seed;
+        emit PlayerSeedSet(msg.sender, seed);
+    }
+
+    /**
+     * @notice Assigns the next committed seed hash to a request of a game
+     * @dev Can only be called by registered games
+     * @param player The address of the player the words are requested for
+     * @param numWords The number of random words to request
+     * @return requestId The ID of the request
+     */
+    function requestRandomness(address player, uint32 numWords) external override returns (uint256 requestId) {
+        require(addressBook.gameManager().isGameExist(msg.sender), "only game!");
+        require(numWords > 0, "numWords is zero!");
+        require(nextSeedHashIndex < seedHashes.length, "No seed hash available");
+
+        uint256 bond = bondPerRequest;
+        require(lockedBond + bond <= address(this).balance, "Insufficient bond");
+        lockedBond += bond;
+
+        bytes32 seedHash = seedHashes[nextSeedHashIndex++];
+        // Hashed so the IDs do not collide with the Chainlink VRF request IDs of the games
+        requestId = uint256(keccak256(abi.encode(address(this), ++requestCount)));
+        bytes32 playerSeed = keccak256(abi.encode(playerSeeds[player], player, requestId));
+
+        requests[requestId] = Request({
+            consumer: msg.sender,
+            numWords: numWords,
+            fulfilled: false,
+            seedHash: seedHash,
+            playerSeed: playerSeed,
+            player: player,
+            blockNumber: uint64(block.number),
+            forfeited: false,
+            bond: bond
+        });
+
+        emit RandomnessRequested(requestId, msg.sender, player, seedHash, playerSeed);
+    }
+
+    /**
+     * @notice Reveals the operator seed of a request and delivers the random words to the requesting game
+     * @dev Anyone knowing the seed can reveal it, from the block after the request until REVEAL_WINDOW blocks later.
+     *      The bond of the request is unlocked
+     * @param requestId The ID of the request
+     * @param seed The operator seed matching the seed hash assigned to the request
+     */
+    function reveal(uint256 requestId, bytes32 seed) external {
+        Request storage request = requests[requestId];
+        require(request.consumer != address(0), "Unknown request");
+        require(!request.fulfilled && !request.forfeited, "Already revealed");
+        require(keccak256(abi.encode(seed)) == request.seedHash, "Invalid seed");
+        require(block.number > request.blockNumber, "Request block not mined");
+        require(block.number <= request.blockNumber + REVEAL_WINDOW, "Reveal window expired");
+
+        request.fulfilled = true;
+        lockedBond -= request.bond;
+
+        emit RandomnessRevealed(requestId, seed);
+
+        IRandomnessConsumer(request.consumer).fulfillRandomness(
+            requestId,
+            deriveRandomWords(seed, request.playerSeed, blockhash(request.blockNumber), request.numWords)
+        );
+    }
+
+    /**
+     * @notice Pays the bond of a request whose seed was not revealed within REVEAL_WINDOW blocks to the player
+     * @dev Anyone can trigger the payment, the request can no longer be revealed and the game refunds the bet
+     * @param requestId The ID of the request
+     */
+    function claimForfeitedBond(uint256 requestId) external {
+        Request storage request = requests[requestId];
+        require(request.consumer != address(0), "Unknown request");
+        require(!request.fulfilled && !request.forfeited, "Already revealed");
+        require(block.number > request.blockNumber + REVEAL_WINDOW, "Reveal window not expired");
+
+        request.forfeited = true;
+        lockedBond -= request.bond;
+
+        if (request.bond > 0) Address.sendValue(payable(request.player), request.bond);
+
+        emit BondForfeited(requestId, request.player, request.bond);
+    }
+
+    /**
+     * @notice Derives the random words of a request from the operator seed, the player seed and the request block hash
+     * @param seed The revealed operator seed
+     * @param playerSeed The seed of the player for the request
+     * @param blockHash The hash of the block the request was made in
+     * @param numWords The number of random words to derive
+     * @return randomWords The random words
+     */
+    function deriveRandomWords(
+        bytes32 seed,
+        bytes32 playerSeed,
+        bytes32 blockHash,
+        uint32 numWords
+    ) public pure returns (uint256[] memory randomWords) {
+        randomWords = new uint256[](numWords);
+        for (uint256 i; i < numWords; ++i) {
+            randomWords[i] = uint256(keccak256(abi.encode(seed, playerSeed, blockHash, i)));
+        }
+    }
+
+    /**
+     * @notice Adds native tokens to the operator bond
+     */
+    function fundBond() external payable {
+        require(msg.value > 0, "msg.value is zero!");
+        emit BondFunded(msg.sender, msg.value);
+    }
+
+    /**
+     * @notice Withdraws bond not locked for pending requests to the treasury
+     * @dev Only administrators can withdraw the bond
+     * @param amount The amount of native tokens to withdraw
+     */
+    function withdrawBond(uint256 amount) external {
+        addressBook.accessRoles().requireAdministrator(msg.sender);
+        require(amount > 0, "_amount is zero!");
+        require(amount + lockedBond <= address(this).balance, "Insufficient unlocked bond");
+        Address.sendValue(payable(addressBook.treasury()), amount);
+    }
+
+    /**
+     * @notice Sets the bond locked for every new request
+     * @dev Only the owners multisig can update the bond, it should cover the largest payout a bet can win
+     * @param bond The new bond per request (in wei)
+     */
+    function setBondPerRequest(uint256 bond) external {
+        addressBook.accessRoles().requireOwnersMultisig(msg.sender);
+        bondPerRequest = bond;
+    }
+
+    /**
+     * @notice Returns whether the seed of a request has been revealed
+     * @param requestId The ID of the request
+     * @return True if the random words of the request are determined
+     */
+    function isFulfilled(uint256 requestId) external view override returns (bool) {
+        return requests[requestId].fulfilled;
+    }
+
+    /**
+     * @notice Returns the number of committed seed hashes not yet assigned to a request
+     * @return The number of available seed hashes
+     */
+    function getAvailableSeedHashes() external view returns (uint256) {
+        return seedHashes.length - nextSeedHashIndex;
+    }
+
+    /**
+     * @notice Authorization function for contract upgrades
+     * @dev Only the owners multisig can upgrade the contract
+     * @param newImplementation Address of the new implementation (unused parameter required by UUPS)
+     */
+    function _authorizeUpgrade(address newImplementation) internal view override {
+        addressBook.accessRoles().requireOwnersMultisig(msg.sender);
+    }
+}
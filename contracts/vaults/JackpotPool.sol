@@ -0,0 +1,331 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import {UUPSUpgradeable} from "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {ReentrancyGuardUpgradeable} from "@openzeppelin/contracts-upgradeable/utils/ReentrancyGuardUpgradeable.sol";
+import {Address} from "@openzeppelin/contracts/utils/Address.sol";
+
+import {IJackpotPool} from "../_interfaces/vaults/IJackpotPool.sol";
+import {IAddressBook} from "../_interfaces/access/IAddressBook.sol";
+
+/**
+ * @title JackpotPool
+ * @notice Contract that holds a progressive jackpot funded by a share of every wager of the games
+ * @dev Games report settled wagers through the AddressBook and send the contribution along,
+ *      the jackpot of the wager token is won when the VRF word of the bet hits the trigger odds
+ * @dev Won jackpots are credited to the winner and withdrawn with claimWinnings, so a winner that rejects
+ *      the transfer cannot revert the settlement of the game
+ */
+contract JackpotPool is
+ReentrancyGuardUpgradeable,
+UUPSUpgradeable,
+IJackpotPool
+{
+    using SafeERC20 for IERC20;
+
+    /// @notice Constant used as a divisor for percentage calculations (100% = 10000)
+    uint256 public constant DIVIDER = 10000;
+
+    /// @notice Maximum share of a wager that can be skimmed to the jackpot (in basis points)
+    uint256 public constant MAX_CONTRIBUTION_PERCENT = 1000;
+
+    /// @notice Reference to the address book contract that provides access to other contracts
+    IAddressBook public addressBook;
+
+    /// @notice The share of every wager skimmed to the jackpot (in basis points, e.g., 50 = 0.5%)
+    uint256 public contributionPercent;
+
+    /// @notice The jackpot is won by one in every triggerOdds wagers on average
+    uint256 public triggerOdds;
+
+    /// @notice Mapping of token addresses to the current jackpot size
+    mapping(address => uint256) public jackpots;
+
+    /// @notice Mapping of token addresses to the total amount contributed by the games
+    mapping(address => uint256) public totalContributions;
+
+    /// @notice Mapping of token addresses to the total amount paid out to winners
+    mapping(address => uint256) public totalPayouts;
+
+    /// @notice Mapping of player addresses to token addresses to the won jackpots waiting to be claimed
+    mapping(address => mapping(address => uint256)) private _winnings;
+
+    /// @notice Mapping of token addresses to the total won jackpots waiting to be claimed
+    mapping(address => uint256) public unclaimedWinnings;
+
+    /**
+     * @notice Emitted when a game contributes a share of a wager to the jackpot
+     * @param game The address of the game reporting the wager
+     * @param player The address of the player who made the wager
+     * @param token The address of the token (address(0) for ETH)
+     * @param amount The amount of tokens added to the jackpot
+     * @param jackpot The jackpot size after the contribution
+     */
+    event JackpotContributed(
+        address indexed game,
+        address indexed player,
+        address indexed token,
+        uint256 amount,
+        uint256 jackpot
+    );
+
+    /**
+     * @notice Emitted when a player wins the jackpot
+     * @param game The address of the game the winning wager was made in
+     * @param player The address of the winner
+     * @param token The address of the token (address(0) for ETH)
+     * @param amount The amount of tokens credited to the winner
+     */
+    event JackpotWon(address indexed game, address indexed player, address indexed token, uint256 amount);
+
+    /**
+     * @notice Emitted when a winner claims their won jackpots
+     * @param player The address of the winner
+     * @param token The address of the token (address(0) for ETH)
+     * @param amount The amount of tokens claimed
+     */
+    event WinningsClaimed(address indexed player, address indexed token, uint256 amount);
+
+    /**
+     * @notice Emitted when the jackpot is topped up outside of the games
+     * @param sender The address funding the jackpot
+     * @param token The address of the token (address(0) for ETH)
+     * @param amount The amount of tokens added to the jackpot
+     * @param jackpot The jackpot size after the top up
+     */
+    event JackpotFunded(address indexed sender, address indexed token, uint256 amount, uint256 jackpot);
+
+    /**
+     * @notice Constructor that disables initializers
+     * @dev Prevents the implementation contract from being initialized
+     */
+    constructor() {
+        _disableInitializers();
+    }
+
+    /**
+     * @notice Receive function to accept native token (ETH)
+     * @dev Allows the contract to receive ETH directly, use fundJackpot to add to the jackpot
+     */
+    receive() external payable {}
+
+    /**
+     * @notice Initializes the contract with the address book reference and the jackpot parameters
+     * @dev Can only be called once due to the initializer modifier
+     * @param _addressBook Address of the address book contract
+     * @param initialContributionPercent The initial share of every wager skimmed to the jackpot (in basis points)
+     * @param initialTriggerOdds The initial odds of a wager winning the jackpot (one in initialTriggerOdds)
+     */
+    function initialize(
+        address _addressBook,
+        uint256 initialContributionPercent,
+        uint256 initialTriggerOdds
+    ) external initializer {
+        require(_addressBook != address(0), "_addressBook is zero!");
+        require(
+            initialContributionPercent <= MAX_CONTRIBUTION_PERCENT,
+            "initialContributionPercent is too high"
+        );
+        require(initialTriggerOdds > 0, "initialTriggerOdds is zero!");
+
+        addressBook = IAddressBook(_addressBook);
+        contributionPercent = initialContributionPercent;
+        triggerOdds = initialTriggerOdds;
+
+        __ReentrancyGuard_init();
+        __UUPSUpgradeable_init();
+    }
+
+    /**
+     * @notice Returns the share of a wager the game has to contribute
+     * @param tokenAmount The amount of tokens wagered
+     * @return The amount of tokens to contribute
+     */
+    function calculateContribution(uint256 tokenAmount) public view override returns (uint256) {
+        return (tokenAmount * contributionPercent) / DIVIDER;
+    }
+
+    /**
+     * @notice Checks whether a VRF word triggers the jackpot
+     * @dev The word is rehashed so the trigger does not correlate with the game result derived from the same word
+     * @param randomWord The VRF word of the wager
+     * @return True if the wager wins the jackpot
+     */
+    function isJackpotTriggered(uint256 randomWord) public view returns (bool) {
+        return uint256(keccak256(abi.encode(randomWord, "JACKPOT"))) % triggerOdds == 0;
+    }
+
+    /**
+     * @notice Adds the contribution of a settled wager to the jackpot and credits the jackpot to the player if it is won
+     * @dev Can only be called by registered games
+     * @dev Native contributions are sent along as msg.value, ERC20 contributions are pulled from the game
+     *      which has to approve calculateContribution(tokenAmount) beforehand
+     * @param player The address of the player who made the wager
+     * @param tokenAmount The amount of tokens wagered
+     * @param tokenAddress The address of the token used for the wager (address(0) for ETH)
+     * @param randomWord The VRF word the wager was settled with
+     * @return payout The amount of tokens credited to the player (0 if the jackpot was not won)
+     */
+    function contribute(
+        address player,
+        uint256 tokenAmount,
+        address tokenAddress,
+        uint256 randomWord
+    ) external payable override nonReentrant returns (uint256 payout) {
+        require(addressBook.gameManager().isGameExist(msg.sender), "only game!");
+
+        uint256 contribution = calculateContribution(tokenAmount);
+
+        if (tokenAddress == address(0)) {
+            require(msg.value == contribution, "msg.value must match the contribution");
+        } else {
+            require(msg.value == 0, "Cannot send ETH with token contributions");
+            if (contribution > 0) IERC20(tokenAddress).safeTransferFrom(msg.sender, address(this), contribution);
+        }
+
+        uint256 jackpot = jackpots[tokenAddress] + contribution;
+        totalContributions[tokenAddress] += contribution;
+
+        if (contribution > 0) emit JackpotContributed(msg.sender, player, tokenAddress, contribution, jackpot);
+
+        if (jackpot == 0 || !isJackpotTriggered(randomWord)) {
+            jackpots[tokenAddress] = jackpot;
+            return 0;
+        }
+
+        payout = jackpot;
+        jackpots[tokenAddress] = 0;
+        totalPayouts[tokenAddress] += payout;
+        _winnings[player][tokenAddress] += payout;
+        unclaimedWinnings[tokenAddress] += payout;
+
+        emit JackpotWon(msg.sender, player, tokenAddress, payout);
+    }
+
+    /**
+     * @notice Withdraws the won jackpots of the caller
+     * @dev Uses nonReentrant modifier to prevent reentrancy attacks
+     * @param token The address of the token to claim (address(0) for ETH)
+     */
+    function claimWinnings(address token) external nonReentrant {
+        uint256 amount = _winnings[msg.sender][token];
+        require(amount > 0, "JackpotPool: nothing to claim");
+
+        _winnings[msg.sender][token] = 0;
+        unclaimedWinnings[token] -= amount;
+
+        if (token == address(0)) {
+            Address.sendValue(payable(msg.sender), amount);
+        } else {
+            IERC20(token).safeTransfer(msg.sender, amount);
+        }
+
+        emit WinningsClaimed(msg.sender, token, amount);
+    }
+
+    /**
+     * @notice Returns the won jackpots of a player waiting to be claimed
+     * @param player The address of the player
+     * @param token The address of the token (address(0) for ETH)
+     * @return The amount of tokens the player can claim
+     */
+    function getClaimableWinnings(address player, address token) external view returns (uint256) {
+        return _winnings[player][token];
+    }
+
+    /**
+     * @notice Tops up the jackpot of a token, e.g. to seed a new jackpot after a win
+     * @param token The address of the token (address(0) for ETH)
+     * @param amount The amount of tokens to add (ignored for native token, use msg.value instead)
+     */
+    function fundJackpot(address token, uint256 amount) external payable nonReentrant {
+        addressBook.tokensManager().requireTokenSupport(token);
+
+        if (token == address(0)) {
+            amount = msg.value;
+        } else {
+            require(msg.value == 0, "Cannot send ETH when funding with tokens");
+            IERC20(token).safeTransferFrom(msg.sender, address(this), amount);
+        }
+        require(amount > 0, "_amount is zero!");
+
+        jackpots[token] += amount;
+
+        emit JackpotFunded(msg.sender, token, amount, jackpots[token]);
+    }
+
+    /**
+     * @notice Returns the jackpot accounting of a token
+     * @param token The address of the token (address(0) for ETH)
+     * @return jackpot The current jackpot size
+     * @return contributions The total amount contributed by the games
+     * @return payouts The total amount paid out to winners
+     */
+    function getJackpotInfo(
+        address token
+    ) external view returns (uint256 jackpot, uint256 contributions, uint256 payouts) {
+        return (jackpots[token], totalContributions[token], totalPayouts[token]);
+    }
+
+    /**
+     * @notice Updates the share of every wager skimmed to the jackpot
+     * @dev Only the owners multisig can update the contribution percentage
+     * @param percent The new contribution percentage (in basis points, up to MAX_CONTRIBUTION_PERCENT)
+     */
+    function setContributionPercent(uint256 percent) external {
+        addressBook.accessRoles().requireOwnersMultisig(msg.sender);
+        require(percent <= MAX_CONTRIBUTION_PERCENT, "JackpotPool: percent is too high");
+        contributionPercent = percent;
+    }
+
+    /**
+     * @notice Updates the odds of a wager winning the jackpot
+     * @dev Only the owners multisig can update the trigger odds
+     * @param odds The new trigger odds (one in odds wagers wins, cannot be zero)
+     */
+    function setTriggerOdds(uint256 odds) external {
+        addressBook.accessRoles().requireOwnersMultisig(msg.sender);
+        require(odds > 0, "JackpotPool: odds is zero");
+        triggerOdds = odds;
+    }
+
+    /**
+     * @notice Withdraw funds (native or ERC20) not part of a jackpot from the contract to treasury
+     * @dev Only administrators can withdraw funds
+     * @dev The jackpots and the won jackpots waiting to be claimed cannot be withdrawn
+     * @param _token The address of the token to withdraw (use address(0) for ETH)
+     * @param _amount The amount to withdraw (must be greater than zero)
+     */
+    function withdrawToTreasury(address _token, uint256 _amount) external {
+        addressBook.accessRoles().requireAdministrator(msg.sender);
+        require(_amount > 0, "_amount is zero!");
+
+        if (_token != address(0)) addressBook.tokensManager().requireTokenSupport(_token);
+
+        if (_token == address(0)) {
+            require(
+                _amount + jackpots[_token] + unclaimedWinnings[_token] <= address(this).balance,
+                "Insufficient contract balance"
+            );
+            Address.sendValue(payable(addressBook.treasury()), _amount);
+        } else {
+            IERC20 token = IERC20(_token);
+            require(
+                _amount + jackpots[_token] + unclaimedWinnings[_token] <= token.balanceOf(address(this)),
+                "Insufficient token balance"
+            );
+            token.safeTransfer(addressBook.treasury(), _amount);
+        }
+    }
+
+    /**
+     * @notice Authorization function for contract upgrades
+     * @dev Only the owners multisig can upgrade the contract
+     * @param newImplementation Address of the new implementation (unused parameter required by UUPS)
+     */
+    function _authorizeUpgrade(address newImplementation) internal view override {
+        addressBook.accessRoles().requireOwnersMultisig(msg.sender);
+    }
+}
@@ -8,8 +8,67 @@ const config: HardhatUserConfig = {
     compilers: [
       {
         version: '0.8.28',
+        settings: {
+          optimizer: {
+            enabled: true,
+            runs: 200,
+          },
+        },
       },
     ],
+    // Compiled through the IR pipeline to stay below the 24KB contract size limit
+    overrides: {
+      'contracts/games/Dice.sol': {
+        version: '0.8.28',
+        settings: {
+          viaIR: true,
+          optimizer: {
+            enabled: true,
+            runs: 200,
+          },
+        },
+      },
+      'contracts/games/Grid.sol': {
+        version: '0.8.28',
+        settings: {
+          viaIR: true,
+          optimizer: {
+            enabled: true,
+            runs: 200,
+          },
+        },
+      },
+      'contracts/games/Lottery.sol': {
+        version: '0.8.28',
+        settings: {
+          viaIR: true,
+          optimizer: {
+            enabled: true,
+            runs: 200,
+          },
+        },
+      },
+      'contracts/games/Mines.sol': {
+        version: '0.8.28',
+        settings: {
+          viaIR: true,
+          optimizer: {
+            enabled: true,
+            runs: 200,
+          },
+        },
+      },
+      'contracts/games/Roulette.sol': {
+        version: '0.8.28',
+        settings: {
+          viaIR: true,
+          optimizer: {
+            enabled: true,
+            runs: 200,
+          },
+        },
+      },
+    },
   },
   networks: {
     hardhat: {
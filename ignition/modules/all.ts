@@ -8,6 +8,9 @@ import TreasuryModule from './vaults/Treasury';
 import GameManagerModule from './games/GameManager';
 import DiceModule from './games/Dice';
 import ReferralProgram from './vaults/ReferralProgram';
+import JackpotPool from './vaults/JackpotPool';
+import ChainlinkRandomnessProvider from './randomness/ChainlinkRandomnessProvider';
+import CommitRevealRandomnessProvider from './randomness/CommitRevealRandomnessProvider';
 
 const AllModule = buildModule('AllModule', m => {
   const accessRoles = m.useModule(AccessRolesModule);
@@ -16,6 +19,9 @@ const AllModule = buildModule('AllModule', m => {
   const pauseManager = m.useModule(PauseManagerModule);
   const treasury = m.useModule(TreasuryModule);
   const referralProgram = m.useModule(ReferralProgram);
+  const jackpotPool = m.useModule(JackpotPool);
+  const chainlinkRandomnessProvider = m.useModule(ChainlinkRandomnessProvider);
+  const commitRevealRandomnessProvider = m.useModule(CommitRevealRandomnessProvider);
   const tokensManager = m.useModule(TokensManagerModule);
   const gameManager = m.useModule(GameManagerModule);
   const dice = m.useModule(DiceModule);
@@ -35,6 +41,12 @@ const AllModule = buildModule('AllModule', m => {
     TreasuryImpl: treasury.treasuryImpl,
     ReferralProgramProxy: referralProgram.referralProgramProxy,
     ReferralProgramImpl: referralProgram.referralProgramImpl,
+    JackpotPoolProxy: jackpotPool.jackpotPoolProxy,
+    JackpotPoolImpl: jackpotPool.jackpotPoolImpl,
+    ChainlinkRandomnessProviderProxy: chainlinkRandomnessProvider.chainlinkRandomnessProviderProxy,
+    ChainlinkRandomnessProviderImpl: chainlinkRandomnessProvider.chainlinkRandomnessProviderImpl,
+    CommitRevealRandomnessProviderProxy: commitRevealRandomnessProvider.commitRevealRandomnessProviderProxy,
+    CommitRevealRandomnessProviderImpl: commitRevealRandomnessProvider.commitRevealRandomnessProviderImpl,
     gameManagerProxy: gameManager.gameManagerProxy,
     gameManagerImpl: gameManager.gameManagerImpl,
     diceProxy: dice.diceProxy,
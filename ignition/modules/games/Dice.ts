@@ -45,9 +45,9 @@ export default buildModule('DiceModule', m => {
     addressBookProxy,
     10,
     90,
-    parseEther('0.001'),
-    parseEther('1'),
-    10,
+    parseEther('1'), // $1
+    parseEther('1000'), // $1000
+    1000, // 10%
   ]);
   const proxy = m.contract('ERC1967Proxy', [impl, initData]);
 
@@ -43,9 +43,9 @@ export default buildModule('GridModule', m => {
     config[networkName].subscriptionId,
     config[networkName].keyHashes,
     addressBookProxy,
-    parseEther('0.0001'),
-    parseEther('0.05'),
-    10,
+    parseEther('0.5'), // $0.5
+    parseEther('200'), // $200
+    1000, // 10%
   ]);
   const proxy = m.contract('ERC1967Proxy', [impl, initData]);
 
@@ -0,0 +1,11 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules';
+import addressBookModule from '../access/AddressBook';
+
+// The provider is switched on by the owners multisig through AddressBook.setRandomnessProvider
+export default buildModule('CommitRevealRandomnessProviderModule', m => {
+  const { addressBookProxy } = m.useModule(addressBookModule);
+  const impl = m.contract('CommitRevealRandomnessProvider');
+  const initData = m.encodeFunctionCall(impl, 'initialize', [addressBookProxy]);
+  const proxy = m.contract('ERC1967Proxy', [impl, initData]);
+  return { commitRevealRandomnessProviderProxy: proxy, commitRevealRandomnessProviderImpl: impl };
+});
@@ -0,0 +1,18 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules';
+import addressBookModule from '../access/AddressBook';
+
+export default buildModule('JackpotPoolModule', m => {
+  const { addressBookProxy } = m.useModule(addressBookModule);
+  const impl = m.contract('JackpotPool');
+  const initialContributionPercent = 50; // 0.5% (50 / 10000)
+  const initialTriggerOdds = 1000000; // one in a million wagers
+  const initData = m.encodeFunctionCall(impl, 'initialize', [
+    addressBookProxy,
+    initialContributionPercent,
+    initialTriggerOdds,
+  ]);
+  const proxy = m.contract('ERC1967Proxy', [impl, initData]);
+  const addressBook = m.contractAt('AddressBook', addressBookProxy);
+  m.call(addressBook, 'initialSetJackpotPool', [proxy]);
+  return { jackpotPoolProxy: proxy, jackpotPoolImpl: impl };
+});
@@ -129,9 +129,9 @@ describe('Dice Contract Economy Test', function () {
         addressBook.address,
         10,
         90,
-        parseEther('0.001'),
-        parseEther('1'),
-        10,
+        parseEther('0.5'), // $0.5
+        parseEther('500'), // $500
+        1000, // 10%
       ],
     });
     const DiceProxy = await hre.viem.deployContract('ERC1967Proxy', [
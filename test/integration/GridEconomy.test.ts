@@ -129,9 +129,9 @@ describe('Grid Contract Economy Test', function() {
         1n,
         '0x8af398995b04c28e9a51adb9721ef74c74f93e6a478f39e7e0777be13527e7ef',
         addressBook.address,
-        parseEther('0.001'),
-        parseEther('1'),
-        10,
+        parseEther('0.5'), // $0.5
+        parseEther('500'), // $500
+        1000, // 10%
       ],
     });
     const GridProxy = await hre.viem.deployContract('ERC1967Proxy', [
@@ -205,7 +205,7 @@ describe('Grid Contract Economy Test', function() {
       const targetCells: number[] = [];
 
       while (targetCells.length < 9) {
-        const randomNumber = Math.floor(Math.random() * 25) + 1;
+        const randomNumber = Math.floor(Math.random() * 25);
 
         if (!targetCells.includes(randomNumber)) targetCells.push(randomNumber);
       }
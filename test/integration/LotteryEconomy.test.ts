@@ -0,0 +1,295 @@
+/**
+ * Lottery Contract Economy Test
+ *
+ * This file implements the economy stability test for the Lottery contract.
+ * It runs 50 rounds in which several players buy random quantities of tickets,
+ * claims the drawn prizes, tracks the house cut and contract balance,
+ * and writes the results to a CSV file (lottery_economy_results.csv).
+ *
+ * The test verifies that the contract only keeps the accrued house cut and
+ * the prizes that rolled over to the current round.
+ *
+ * For basic payout calculation tests, see Lottery.test.ts
+ */
+
+import { expect } from 'chai';
+import hre from 'hardhat';
+import { encodeFunctionData, getAddress, parseEther, zeroAddress } from 'viem';
+import { loadFixture, setBalance, impersonateAccount, time } from '@nomicfoundation/hardhat-toolbox-viem/network-helpers';
+import fs from 'fs';
+import path from 'path';
+
+describe('Lottery Contract Economy Test', function () {
+  const ROUND_DURATION = 24n * 60n * 60n;
+
+  async function deployLotteryFixture() {
+    const [deployer, user, player2, player3, , , , administrator, owner1, owner2] =
+      await hre.viem.getWalletClients();
+    const owners = [owner1, owner2];
+
+    const ownersMultisigImpl = await hre.viem.deployContract('MultisigWallet');
+    const ownersMultisigImplInitData = encodeFunctionData({
+      abi: ownersMultisigImpl.abi,
+      functionName: 'initialize',
+      args: [BigInt(owners.length), owners.map(owner => owner.account.address)],
+    });
+    const ownersMultisigProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      ownersMultisigImpl.address,
+      ownersMultisigImplInitData,
+    ]);
+    const ownersMultisig = await hre.viem.getContractAt(
+      'MultisigWallet',
+      ownersMultisigProxy.address,
+    );
+
+    const accessRolesImpl = await hre.viem.deployContract('AccessRoles');
+    const accessRolesInitData = encodeFunctionData({
+      abi: accessRolesImpl.abi,
+      functionName: 'initialize',
+      args: [ownersMultisig.address, []],
+    });
+    const accessRolesProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      accessRolesImpl.address,
+      accessRolesInitData,
+    ]);
+    const accessRoles = await hre.viem.getContractAt('AccessRoles', accessRolesProxy.address);
+
+    // Deploy AddressBook
+    const addressBookImpl = await hre.viem.deployContract('AddressBook');
+    const addressBookInitData = encodeFunctionData({
+      abi: addressBookImpl.abi,
+      functionName: 'initialize',
+      args: [accessRoles.address],
+    });
+    const addressBookProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      addressBookImpl.address,
+      addressBookInitData,
+    ]);
+    const addressBook = await hre.viem.getContractAt('AddressBook', addressBookProxy.address);
+
+    // Deploy GameManager
+    const gameManagerImpl = await hre.viem.deployContract('GameManager');
+    const gameManagerInitData = encodeFunctionData({
+      abi: gameManagerImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address],
+    });
+    const gameManagerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      gameManagerImpl.address,
+      gameManagerInitData,
+    ]);
+    const gameManager = await hre.viem.getContractAt('GameManager', gameManagerProxy.address);
+
+    // Set GameManager in AddressBook
+    await addressBook.write.initialSetGameManager([gameManager.address], {
+      account: deployer.account.address,
+    });
+
+    // Deploy Pricers for native token
+    const nativePricerImpl = await hre.viem.deployContract('Pricer');
+    const nativePricerInitData = encodeFunctionData({
+      abi: nativePricerImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address, 50000000000n, 'ETH/USD Pricer'], // $500 with 8 decimals
+    });
+    const nativePricerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      nativePricerImpl.address,
+      nativePricerInitData,
+    ]);
+    const nativePricer = await hre.viem.getContractAt('Pricer', nativePricerProxy.address);
+
+    // Deploy TokensManager
+    const tokensManagerImpl = await hre.viem.deployContract('TokensManager');
+    const tokensManagerInitData = encodeFunctionData({
+      abi: tokensManagerImpl.abi,
+      functionName: 'initialize',
+      args: [
+        addressBook.address,
+        [zeroAddress],
+        [nativePricer.address],
+      ],
+    });
+    const tokensManagerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      tokensManagerImpl.address,
+      tokensManagerInitData,
+    ]);
+    const tokensManager = await hre.viem.getContractAt('TokensManager', tokensManagerProxy.address);
+
+    await addressBook.write.initialSetTokensManager([tokensManager.address], {
+      account: deployer.account.address,
+    });
+
+    const MockVRFCoordinator = await hre.viem.deployContract('MockVRFCoordinator', []);
+
+    const LotteryImpl = await hre.viem.deployContract('Lottery', [MockVRFCoordinator.address]);
+    const lotteryInitData = encodeFunctionData({
+      abi: LotteryImpl.abi,
+      functionName: 'initialize',
+      args: [
+        MockVRFCoordinator.address,
+        1n,
+        '0x8af398995b04c28e9a51adb9721ef74c74f93e6a478f39e7e0777be13527e7ef',
+        addressBook.address,
+        parseEther('0.5'), // $0.5
+        parseEther('500'), // $500
+        1000, // 10%
+        parseEther('1'), // $1 per ticket
+        ROUND_DURATION,
+      ],
+    });
+    const LotteryProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      LotteryImpl.address,
+      lotteryInitData,
+    ]);
+    const Lottery = await hre.viem.getContractAt('Lottery', LotteryProxy.address);
+
+    await impersonateAccount(ownersMultisig.address);
+    await setBalance(ownersMultisig.address, parseEther('100'));
+
+    await gameManager.write.addGame([Lottery.address], {
+      account: ownersMultisig.address,
+    });
+
+    const pauseManagerImpl = await hre.viem.deployContract('PauseManager');
+    const pauseManagerInitData = encodeFunctionData({
+      abi: pauseManagerImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address],
+    });
+    const pauseManagerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      pauseManagerImpl.address,
+      pauseManagerInitData,
+    ]);
+    const pauseManager = await hre.viem.getContractAt('PauseManager', pauseManagerProxy.address);
+
+    // Deploy Treasury
+    const treasuryImpl = await hre.viem.deployContract('Treasury');
+    const treasuryInitData = encodeFunctionData({
+      abi: treasuryImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address],
+    });
+    const treasuryProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      treasuryImpl.address,
+      treasuryInitData,
+    ]);
+    const treasury = await hre.viem.getContractAt('Treasury', treasuryProxy.address);
+
+    // Deploy ReferralProgram
+    const referralProgramImpl = await hre.viem.deployContract('ReferralProgram');
+    const initialReferralPercent = 500n; // 5% (500/10000)
+    const referralProgramInitData = encodeFunctionData({
+      abi: referralProgramImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address, initialReferralPercent],
+    });
+    const referralProgramProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      referralProgramImpl.address,
+      referralProgramInitData,
+    ]);
+    const referralProgram = await hre.viem.getContractAt(
+      'ReferralProgram',
+      referralProgramProxy.address,
+    );
+
+    await addressBook.write.initialSetPauseManager([pauseManager.address], {
+      account: deployer.account.address,
+    });
+    await addressBook.write.initialSetTreasury([treasury.address], {
+      account: deployer.account.address,
+    });
+    await addressBook.write.initialSetReferralProgram([referralProgram.address], {
+      account: deployer.account.address,
+    });
+
+    return { Lottery, MockVRFCoordinator, players: [user, player2, player3] };
+  }
+
+  it('Should run 50 rounds and track economy', async function () {
+    const { Lottery, MockVRFCoordinator, players } = await loadFixture(deployLotteryFixture);
+    const publicClient = await hre.viem.getPublicClient();
+
+    const ticketPrice = await Lottery.read.getTicketPrice([zeroAddress]);
+    let totalSales = 0n;
+    let totalPrizes = 0n;
+
+    const results = [];
+
+    for (let roundId = 1n; roundId <= 50n; roundId++) {
+      let roundSales = 0n;
+
+      for (const player of players) {
+        const ticketCount = BigInt(Math.floor(Math.random() * 20));
+        if (ticketCount === 0n) continue;
+
+        await Lottery.write.buyTickets([zeroAddress, ticketCount, zeroAddress], {
+          account: player.account.address,
+          value: ticketPrice * ticketCount,
+        });
+        roundSales += ticketPrice * ticketCount;
+      }
+
+      await time.increase(ROUND_DURATION);
+      await Lottery.write.closeRound();
+
+      const { ticketCount, status } = await Lottery.read.getRound([roundId]);
+      if (status !== 3) {
+        const randomResult = BigInt(Math.floor(Math.random() * 2 ** 48));
+        await MockVRFCoordinator.write.fulfillRandomWords([Lottery.address, [randomResult]]);
+      }
+
+      let roundPrizes = 0n;
+      const [roundWinners] = await Lottery.read.getWinners([roundId]);
+
+      for (let tier = 0; tier < roundWinners.length; tier++) {
+        if (roundWinners[tier] === zeroAddress) continue;
+
+        const prize = await Lottery.read.getPrize([roundId, BigInt(tier), zeroAddress]);
+        await Lottery.write.claimPrize([roundId, BigInt(tier)], { account: roundWinners[tier] });
+        roundPrizes += prize;
+      }
+
+      totalSales += roundSales;
+      totalPrizes += roundPrizes;
+
+      const [, pools] = await Lottery.read.getRoundPools([roundId + 1n]);
+      const contractBalance = await publicClient.getBalance({ address: Lottery.address });
+
+      results.push({
+        roundId,
+        ticketCount,
+        sales: Number(roundSales) / 10 ** 18,
+        prizes: Number(roundPrizes) / 10 ** 18,
+        rolledOver: Number(pools[0] ?? 0n) / 10 ** 18,
+        houseCut: Number(contractBalance - (await Lottery.read.liabilities([zeroAddress]))) / 10 ** 18,
+        contractBalance: Number(contractBalance) / 10 ** 18,
+      });
+    }
+
+    const resultsTable = [
+      'Round #,Tickets,Sales,Prizes,Rolled Over,House Cut,Contract Balance',
+      ...results.map(
+        r =>
+          `${r.roundId},${r.ticketCount},${r.sales},${r.prizes},${r.rolledOver},${r.houseCut.toFixed(6)},${r.contractBalance.toFixed(6)}`,
+      ),
+    ].join('\n');
+
+    const timestamp = new Date().toISOString().replace(/:/g, '-');
+    const filename = `lottery_economy_results_${timestamp}.csv`;
+    fs.writeFileSync(path.join(__dirname, `../${filename}`), resultsTable);
+    console.log(`Results written to ${filename}`);
+
+    const contractBalance = await publicClient.getBalance({ address: Lottery.address });
+    const houseCut = contractBalance - (await Lottery.read.liabilities([zeroAddress]));
+
+    console.log('Economy test completed.');
+    console.log(`Total ticket sales: ${Number(totalSales) / 10 ** 18} ETH`);
+    console.log(`Total prizes paid: ${Number(totalPrizes) / 10 ** 18} ETH`);
+    console.log(`House cut: ${Number(houseCut) / 10 ** 18} ETH`);
+
+    // Every wei of the ticket sales is either paid out, kept as the house cut or rolled over
+    expect(totalPrizes + contractBalance).to.equal(totalSales);
+    const accrued = await Lottery.getEvents.HouseCutAccrued({}, { fromBlock: 0n });
+    expect(houseCut).to.equal(accrued.reduce((sum, event) => sum + event.args.amount!, 0n));
+  });
+});
@@ -153,9 +153,9 @@ describe('PauseManager Integration Test', function () {
         addressBook.address,
         10,
         90,
-        parseEther('0.001'),
-        parseEther('1'),
-        10,
+        parseEther('0.5'), // $0.5
+        parseEther('500'), // $500
+        1000, // 10%
       ],
     });
     const Dice1Proxy = await hre.viem.deployContract('ERC1967Proxy', [
@@ -177,9 +177,9 @@ describe('PauseManager Integration Test', function () {
         addressBook.address,
         10,
         90,
-        parseEther('0.001'),
-        parseEther('1'),
-        10,
+        parseEther('0.5'), // $0.5
+        parseEther('500'), // $500
+        1000, // 10%
       ],
     });
     const Dice2Proxy = await hre.viem.deployContract('ERC1967Proxy', [
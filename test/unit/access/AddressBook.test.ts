@@ -152,6 +152,44 @@ describe('AddressBook Contract', function () {
     });
   });
 
+  describe('RandomnessProvider functionality', function () {
+    it('Should allow owners multisig to switch the randomness provider', async function () {
+      const { addressBook, ownersMultisig } = await loadFixture(deployAddressBookFixture);
+      const randomnessProvider = '0x1234567890123456789012345678901234567890';
+
+      await impersonateAccount(ownersMultisig.address);
+      await setBalance(ownersMultisig.address, parseEther('1'));
+
+      expect(await addressBook.read.randomnessProvider()).to.equal(zeroAddress);
+
+      await addressBook.write.setRandomnessProvider([randomnessProvider], {
+        account: ownersMultisig.address,
+      });
+      expect(getAddress(await addressBook.read.randomnessProvider())).to.equal(getAddress(randomnessProvider));
+
+      await addressBook.write.setRandomnessProvider([zeroAddress], {
+        account: ownersMultisig.address,
+      });
+      expect(await addressBook.read.randomnessProvider()).to.equal(zeroAddress);
+    });
+
+    it('Should revert if non-owner tries to set the randomness provider', async function () {
+      const { addressBook, gameManager, deployer, administrator } = await loadFixture(deployAddressBookFixture);
+
+      await expect(
+        addressBook.write.setRandomnessProvider([gameManager.address], {
+          account: deployer.account.address,
+        }),
+      ).to.be.rejectedWith('only owners multisig!');
+
+      await expect(
+        addressBook.write.setRandomnessProvider([gameManager.address], {
+          account: administrator.account.address,
+        }),
+      ).to.be.rejectedWith('only owners multisig!');
+    });
+  });
+
   describe('Upgrade functionality', function () {
     it('Should allow owners to upgrade the contract', async function () {
       const { addressBook, ownersMultisig, publicClient } =
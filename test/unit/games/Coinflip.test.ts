@@ -0,0 +1,659 @@
+import { expect } from 'chai';
+import hre from 'hardhat';
+import { encodeFunctionData, getAddress, parseEther, zeroAddress } from 'viem';
+import {
+  impersonateAccount,
+  loadFixture,
+  setBalance,
+  time,
+} from '@nomicfoundation/hardhat-toolbox-viem/network-helpers';
+
+describe('Coinflip Contract', function () {
+  async function deployCoinflipFixture() {
+    const [deployer, user, , , , , , administrator, owner1, owner2] =
+      await hre.viem.getWalletClients();
+    const publicClient = await hre.viem.getPublicClient();
+    const owners = [owner1, owner2];
+
+    const ownersMultisigImpl = await hre.viem.deployContract('MultisigWallet');
+    const ownersMultisigImplInitData = encodeFunctionData({
+      abi: ownersMultisigImpl.abi,
+      functionName: 'initialize',
+      args: [BigInt(owners.length), owners.map(owner => owner.account.address)],
+    });
+    const ownersMultisigProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      ownersMultisigImpl.address,
+      ownersMultisigImplInitData,
+    ]);
+    const ownersMultisig = await hre.viem.getContractAt(
+      'MultisigWallet',
+      ownersMultisigProxy.address,
+    );
+
+    await impersonateAccount(ownersMultisig.address);
+    await setBalance(ownersMultisig.address, parseEther('100'));
+
+    const accessRolesImpl = await hre.viem.deployContract('AccessRoles');
+    const accessRolesInitData = encodeFunctionData({
+      abi: accessRolesImpl.abi,
+      functionName: 'initialize',
+      args: [ownersMultisig.address, [administrator.account.address]],
+    });
+    const accessRolesProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      accessRolesImpl.address,
+      accessRolesInitData,
+    ]);
+    const accessRoles = await hre.viem.getContractAt('AccessRoles', accessRolesProxy.address);
+
+    const addressBookImpl = await hre.viem.deployContract('AddressBook');
+    const addressBookInitData = encodeFunctionData({
+      abi: addressBookImpl.abi,
+      functionName: 'initialize',
+      args: [accessRoles.address],
+    });
+    const addressBookProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      addressBookImpl.address,
+      addressBookInitData,
+    ]);
+    const addressBook = await hre.viem.getContractAt('AddressBook', addressBookProxy.address);
+
+    const gameManagerImpl = await hre.viem.deployContract('GameManager');
+    const gameManagerInitData = encodeFunctionData({
+      abi: gameManagerImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address],
+    });
+    const gameManagerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      gameManagerImpl.address,
+      gameManagerInitData,
+    ]);
+    const gameManager = await hre.viem.getContractAt('GameManager', gameManagerProxy.address);
+
+    await addressBook.write.initialSetGameManager([gameManager.address], {
+      account: deployer.account.address,
+    });
+
+    // Deploy MockERC20 token
+    const mockToken = await hre.viem.deployContract('MockERC20', ['Mock Token', 'MTK', 18]);
+    await mockToken.write.mint([user.account.address, parseEther('1000')]);
+
+    // Deploy Pricers for native token and ERC20 token
+    const nativePricerImpl = await hre.viem.deployContract('Pricer');
+    const nativePricerInitData = encodeFunctionData({
+      abi: nativePricerImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address, 50000000000n, 'ETH/USD Pricer'], // $500 with 8 decimals
+    });
+    const nativePricerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      nativePricerImpl.address,
+      nativePricerInitData,
+    ]);
+    const nativePricer = await hre.viem.getContractAt('Pricer', nativePricerProxy.address);
+
+    const tokenPricerImpl = await hre.viem.deployContract('Pricer');
+    const tokenPricerInitData = encodeFunctionData({
+      abi: tokenPricerImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address, 100000000n, 'MTK/USD Pricer'], // $1 with 8 decimals
+    });
+    const tokenPricerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      tokenPricerImpl.address,
+      tokenPricerInitData,
+    ]);
+    const tokenPricer = await hre.viem.getContractAt('Pricer', tokenPricerProxy.address);
+
+    // Deploy TokensManager
+    const tokensManagerImpl = await hre.viem.deployContract('TokensManager');
+    const tokensManagerInitData = encodeFunctionData({
+      abi: tokensManagerImpl.abi,
+      functionName: 'initialize',
+      args: [
+        addressBook.address,
+        [zeroAddress, mockToken.address],
+        [nativePricer.address, tokenPricer.address],
+      ],
+    });
+    const tokensManagerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      tokensManagerImpl.address,
+      tokensManagerInitData,
+    ]);
+    const tokensManager = await hre.viem.getContractAt('TokensManager', tokensManagerProxy.address);
+
+    await addressBook.write.initialSetTokensManager([tokensManager.address], {
+      account: deployer.account.address,
+    });
+
+    const MockVRFCoordinator = await hre.viem.deployContract('MockVRFCoordinator', []);
+    const CoinflipImpl = await hre.viem.deployContract('Coinflip', [MockVRFCoordinator.address]);
+    const coinflipInitData = encodeFunctionData({
+      abi: CoinflipImpl.abi,
+      functionName: 'initialize',
+      args: [
+        MockVRFCoordinator.address,
+        1n,
+        '0x8af398995b04c28e9a51adb9721ef74c74f93e6a478f39e7e0777be13527e7ef',
+        addressBook.address,
+        parseEther('0.0005'), // $0.0005
+        parseEther('500'), // $500
+        500, // 5%
+      ],
+    });
+    const CoinflipProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      CoinflipImpl.address,
+      coinflipInitData,
+    ]);
+    const Coinflip = await hre.viem.getContractAt('Coinflip', CoinflipProxy.address);
+    await setBalance(Coinflip.address, parseEther('100'));
+
+    // Mint some tokens to the Coinflip contract for payouts
+    await mockToken.write.mint([Coinflip.address, parseEther('100')]);
+
+    await gameManager.write.addGame([Coinflip.address], {
+      account: ownersMultisig.address,
+    });
+
+    const pauseManagerImpl = await hre.viem.deployContract('PauseManager');
+    const pauseManagerInitData = encodeFunctionData({
+      abi: pauseManagerImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address],
+    });
+    const pauseManagerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      pauseManagerImpl.address,
+      pauseManagerInitData,
+    ]);
+    const pauseManager = await hre.viem.getContractAt('PauseManager', pauseManagerProxy.address);
+
+    await addressBook.write.initialSetPauseManager([pauseManager.address], {
+      account: deployer.account.address,
+    });
+
+    // Deploy Treasury
+    const treasuryImpl = await hre.viem.deployContract('Treasury');
+    const treasuryInitData = encodeFunctionData({
+      abi: treasuryImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address],
+    });
+    const treasuryProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      treasuryImpl.address,
+      treasuryInitData,
+    ]);
+    const treasury = await hre.viem.getContractAt('Treasury', treasuryProxy.address);
+
+    // Deploy ReferralProgram
+    const referralProgramImpl = await hre.viem.deployContract('ReferralProgram');
+    const initialReferralPercent = 500n; // 5% (500/10000)
+    const referralProgramInitData = encodeFunctionData({
+      abi: referralProgramImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address, initialReferralPercent],
+    });
+    const referralProgramProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      referralProgramImpl.address,
+      referralProgramInitData,
+    ]);
+    const referralProgram = await hre.viem.getContractAt(
+      'ReferralProgram',
+      referralProgramProxy.address,
+    );
+
+    await addressBook.write.initialSetTreasury([treasury.address], {
+      account: deployer.account.address,
+    });
+    await addressBook.write.initialSetReferralProgram([referralProgram.address], {
+      account: deployer.account.address,
+    });
+
+    for (const owner of [owner1, owner2]) {
+      const isSigner = await ownersMultisig.read.signers([owner.account.address]);
+      expect(isSigner).to.be.true;
+
+      await setBalance(owner.account.address, parseEther('100'));
+    }
+
+    return {
+      publicClient,
+      Coinflip,
+      MockVRFCoordinator,
+      accessRoles,
+      addressBook,
+      gameManager,
+      ownersMultisig,
+      administrator,
+      user,
+      owner1,
+      owner2,
+      deployer,
+      treasury,
+      mockToken,
+      tokensManager,
+      zeroAddress, // NATIVE_TOKEN
+    };
+  }
+
+  describe('Deployment', function () {
+    it('Should deploy successfully', async function () {
+      const { Coinflip } = await loadFixture(deployCoinflipFixture);
+      expect(Coinflip.address).to.not.equal(0);
+    });
+
+    it('Should be registered in GameManager', async function () {
+      const { Coinflip, gameManager } = await loadFixture(deployCoinflipFixture);
+
+      const isRegistered = await gameManager.read.isGameExist([Coinflip.address]);
+      expect(isRegistered).to.be.true;
+    });
+
+    it('Should expose the IGame interface', async function () {
+      const { Coinflip } = await loadFixture(deployCoinflipFixture);
+
+      expect(await Coinflip.read.minBetAmount()).to.equal(parseEther('0.0005'));
+      expect(await Coinflip.read.maxBetAmount()).to.equal(parseEther('500'));
+      expect(await Coinflip.read.houseEdge()).to.equal(5);
+      expect(await Coinflip.read.houseEdgeBps()).to.equal(500);
+    });
+
+    it('Should not allow running the house edge migration', async function () {
+      const { Coinflip, ownersMultisig } = await loadFixture(deployCoinflipFixture);
+
+      await expect(
+        Coinflip.read.initializeV2({
+          account: ownersMultisig.address,
+        }),
+      ).to.be.rejectedWith('MigrationNotSupported');
+    });
+  });
+
+  describe('Flip Function', function () {
+    it('Should emit CoinflipRequested event when flip is called with native token', async function () {
+      const { Coinflip, user, zeroAddress } = await loadFixture(deployCoinflipFixture);
+      const betAmount = 1000000000000000n;
+
+      const txHash = await Coinflip.write.flip([1, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: betAmount,
+      });
+      const publicClient = await hre.viem.getPublicClient();
+      const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
+      const events = await Coinflip.getEvents.CoinflipRequested(
+        {
+          player: user.account.address,
+        },
+        {
+          blockHash: receipt.blockHash,
+        },
+      );
+
+      expect(events.length).to.equal(1);
+      expect(getAddress(events[0].args.player!)).to.equal(getAddress(user.account.address));
+      expect(events[0].args.betAmount).to.equal(betAmount);
+      expect(events[0].args.side).to.equal(1);
+      expect(events[0].args.token).to.equal(zeroAddress);
+    });
+
+    it('Should emit CoinflipRequested event when flip is called with ERC20 token', async function () {
+      const { Coinflip, user, mockToken } = await loadFixture(deployCoinflipFixture);
+      const betAmount = parseEther('1');
+
+      await mockToken.write.approve([Coinflip.address, betAmount], {
+        account: user.account.address,
+      });
+
+      await Coinflip.write.flip([0, mockToken.address, betAmount, zeroAddress], {
+        account: user.account.address,
+      });
+
+      const events = await Coinflip.getEvents.CoinflipRequested();
+      expect(events.length).to.equal(1);
+      expect(events[0].args.token).to.equal(getAddress(mockToken.address));
+      expect(await mockToken.read.balanceOf([Coinflip.address])).to.equal(parseEther('101'));
+    });
+
+    it('Should revert if a flip is already in progress', async function () {
+      const { Coinflip, user, zeroAddress } = await loadFixture(deployCoinflipFixture);
+
+      await Coinflip.write.flip([0, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: 1000000000000000n,
+      });
+
+      expect(await Coinflip.read.isFlipInProgress({ account: user.account.address })).to.be.true;
+
+      await expect(
+        Coinflip.write.flip([0, zeroAddress, 0n, zeroAddress], {
+          account: user.account.address,
+          value: 1000000000000000n,
+        }),
+      ).to.be.rejectedWith('RollInProgress');
+    });
+
+    it('Should revert if the bet amount is outside the limits', async function () {
+      const { Coinflip, user, zeroAddress } = await loadFixture(deployCoinflipFixture);
+
+      // $0.0005 at $500 per ETH
+      await expect(
+        Coinflip.write.flip([0, zeroAddress, 0n, zeroAddress], {
+          account: user.account.address,
+          value: 999999999n,
+        }),
+      ).to.be.rejectedWith('InvalidBetAmount');
+
+      // $500 at $500 per ETH
+      await expect(
+        Coinflip.write.flip([0, zeroAddress, 0n, zeroAddress], {
+          account: user.account.address,
+          value: parseEther('1') + 1n,
+        }),
+      ).to.be.rejectedWith('InvalidBetAmount');
+    });
+
+    it('Should revert if the game is not registered in GameManager', async function () {
+      const { Coinflip, gameManager, ownersMultisig, user, zeroAddress } =
+        await loadFixture(deployCoinflipFixture);
+
+      await gameManager.write.removeGame([Coinflip.address], {
+        account: ownersMultisig.address,
+      });
+
+      await expect(
+        Coinflip.write.flip([0, zeroAddress, 0n, zeroAddress], {
+          account: user.account.address,
+          value: 1000000000000000n,
+        }),
+      ).to.be.rejectedWith("Game doesn't exist in GameManager");
+    });
+  });
+
+  describe('Payout Calculation', function () {
+    it('Should pay out 2x minus the house edge', async function () {
+      const { Coinflip, zeroAddress } = await loadFixture(deployCoinflipFixture);
+      const betAmount = parseEther('1');
+
+      const payout = await Coinflip.read.calculatePayout([betAmount, zeroAddress]);
+      expect(payout).to.equal((betAmount * 2n * 9500n) / 10000n);
+    });
+
+    it('Should use token house edge override in payout calculation', async function () {
+      const { Coinflip, ownersMultisig, mockToken, zeroAddress } =
+        await loadFixture(deployCoinflipFixture);
+      const betAmount = parseEther('1');
+
+      await Coinflip.write.setTokenHouseEdge([mockToken.address, 150], {
+        account: ownersMultisig.address,
+      });
+
+      expect(await Coinflip.read.calculatePayout([betAmount, mockToken.address])).to.equal(
+        (betAmount * 2n * 9850n) / 10000n,
+      );
+      expect(await Coinflip.read.calculatePayout([betAmount, zeroAddress])).to.equal(
+        (betAmount * 2n * 9500n) / 10000n,
+      );
+    });
+  });
+
+  describe('Settlement', function () {
+    it('Should pay out a winning native token bet', async function () {
+      const { Coinflip, MockVRFCoordinator, publicClient, user, zeroAddress } =
+        await loadFixture(deployCoinflipFixture);
+      const betAmount = parseEther('0.1');
+
+      await Coinflip.write.flip([0, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: betAmount,
+      });
+
+      const balanceBefore = await publicClient.getBalance({ address: user.account.address });
+
+      // Even random words land on heads
+      await MockVRFCoordinator.write.fulfillRandomWords([Coinflip.address, [42n]]);
+
+      const payout = (betAmount * 2n * 9500n) / 10000n;
+      const balanceAfter = await publicClient.getBalance({ address: user.account.address });
+      expect(balanceAfter - balanceBefore).to.equal(payout);
+
+      const events = await Coinflip.getEvents.BetSettled();
+      expect(events[0].args.side).to.equal(0);
+      expect(events[0].args.result).to.equal(0);
+      expect(events[0].args.won).to.be.true;
+      expect(events[0].args.payout).to.equal(payout);
+
+      const bet = await Coinflip.read.getCurrentBet({ account: user.account.address });
+      expect(bet[3]).to.be.true;
+      expect(bet[4]).to.be.true;
+      expect(await Coinflip.read.isFlipInProgress({ account: user.account.address })).to.be.false;
+    });
+
+    it('Should keep the stake of a losing ERC20 token bet', async function () {
+      const { Coinflip, MockVRFCoordinator, user, mockToken } =
+        await loadFixture(deployCoinflipFixture);
+      const betAmount = parseEther('1');
+
+      await mockToken.write.approve([Coinflip.address, betAmount], {
+        account: user.account.address,
+      });
+      await Coinflip.write.flip([0, mockToken.address, betAmount, zeroAddress], {
+        account: user.account.address,
+      });
+
+      // Odd random words land on tails
+      await MockVRFCoordinator.write.fulfillRandomWords([Coinflip.address, [43n]]);
+
+      const events = await Coinflip.getEvents.CoinflipFulfilled();
+      expect(events[0].args.result).to.equal(1);
+      expect(events[0].args.won).to.be.false;
+      expect(events[0].args.payout).to.equal(0n);
+
+      expect(await mockToken.read.balanceOf([Coinflip.address])).to.equal(parseEther('101'));
+      expect(await mockToken.read.balanceOf([user.account.address])).to.equal(parseEther('999'));
+    });
+
+    it('Should settle a tails bet as won on odd random words', async function () {
+      const { Coinflip, MockVRFCoordinator, user, zeroAddress } =
+        await loadFixture(deployCoinflipFixture);
+
+      await Coinflip.write.flip([1, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: parseEther('0.1'),
+      });
+
+      await MockVRFCoordinator.write.fulfillRandomWords([Coinflip.address, [43n]]);
+
+      const events = await Coinflip.getEvents.BetSettled();
+      expect(events[0].args.result).to.equal(1);
+      expect(events[0].args.won).to.be.true;
+    });
+  });
+
+  describe('Pause Integration', function () {
+    it('Should revert when PauseManager is paused', async function () {
+      const { Coinflip, user, administrator, addressBook, zeroAddress } =
+        await loadFixture(deployCoinflipFixture);
+
+      const pauseManagerAddress = await addressBook.read.pauseManager();
+      const pauseManager = await hre.viem.getContractAt('PauseManager', pauseManagerAddress);
+
+      await pauseManager.write.pauseContract([Coinflip.address], {
+        account: administrator.account,
+      });
+
+      await expect(
+        Coinflip.write.flip([0, zeroAddress, 0n, zeroAddress], {
+          account: user.account.address,
+          value: 1000000000000000n,
+        }),
+      ).to.be.rejectedWith('paused!');
+    });
+  });
+
+  describe('Refunds', function () {
+    it('Should refund a bet after the refund timeout', async function () {
+      const { Coinflip, user, zeroAddress } = await loadFixture(deployCoinflipFixture);
+      const betAmount = parseEther('0.1');
+
+      await Coinflip.write.flip([0, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: betAmount,
+      });
+
+      await expect(
+        Coinflip.write.refundBet({
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('RefundNotAvailable');
+
+      await time.increase(3600);
+
+      await Coinflip.write.refundBet({
+        account: user.account.address,
+      });
+
+      const events = await Coinflip.getEvents.BetRefunded();
+      expect(events[0].args.amount).to.equal(betAmount);
+      expect(await Coinflip.read.isFlipInProgress({ account: user.account.address })).to.be.false;
+      expect((await Coinflip.read.getBet([1n])).bet.refunded).to.be.true;
+
+      const [liability] = await Coinflip.read.getExposure([zeroAddress]);
+      expect(liability).to.equal(0n);
+    });
+
+    it('Should ignore a late fulfillment of a refunded bet', async function () {
+      const { Coinflip, MockVRFCoordinator, administrator, user, zeroAddress } =
+        await loadFixture(deployCoinflipFixture);
+
+      await Coinflip.write.flip([0, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: parseEther('0.1'),
+      });
+
+      await time.increase(3600);
+
+      await Coinflip.write.cancelStaleRequests([[1n]], {
+        account: administrator.account.address,
+      });
+
+      await MockVRFCoordinator.write.fulfillRandomWords([Coinflip.address, [42n]]);
+
+      const events = await Coinflip.getEvents.BetSettled();
+      expect(events.length).to.equal(0);
+    });
+  });
+
+  describe('Exposure', function () {
+    it('Should track liability of pending bets and release it on fulfillment', async function () {
+      const { Coinflip, MockVRFCoordinator, user, zeroAddress } =
+        await loadFixture(deployCoinflipFixture);
+      const betAmount = parseEther('0.1');
+
+      await Coinflip.write.flip([0, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: betAmount,
+      });
+
+      const [liability] = await Coinflip.read.getExposure([zeroAddress]);
+      expect(liability).to.equal(await Coinflip.read.calculatePayout([betAmount, zeroAddress]));
+
+      await MockVRFCoordinator.write.fulfillRandomWords([Coinflip.address, [43n]]);
+
+      const [releasedLiability] = await Coinflip.read.getExposure([zeroAddress]);
+      expect(releasedLiability).to.equal(0n);
+    });
+
+    it('Should revert if the bet exceeds the allowed exposure', async function () {
+      const { Coinflip, ownersMultisig, user, zeroAddress } = await loadFixture(deployCoinflipFixture);
+
+      await Coinflip.write.setMaxExposureRatio([1n], {
+        account: ownersMultisig.address,
+      });
+
+      await expect(
+        Coinflip.write.flip([0, zeroAddress, 0n, zeroAddress], {
+          account: user.account.address,
+          value: parseEther('0.1'),
+        }),
+      ).to.be.rejectedWith('ExposureLimitExceeded');
+    });
+  });
+
+  describe('Configuration Functions', function () {
+    it('Should allow owners multisig to update the game settings', async function () {
+      const { Coinflip, ownersMultisig } = await loadFixture(deployCoinflipFixture);
+
+      await Coinflip.write.setMinBetAmount([parseEther('1')], {
+        account: ownersMultisig.address,
+      });
+      await Coinflip.write.setMaxBetAmount([parseEther('100')], {
+        account: ownersMultisig.address,
+      });
+      await Coinflip.write.setHouseEdge([250], {
+        account: ownersMultisig.address,
+      });
+
+      expect(await Coinflip.read.minBetAmount()).to.equal(parseEther('1'));
+      expect(await Coinflip.read.maxBetAmount()).to.equal(parseEther('100'));
+      expect(await Coinflip.read.houseEdgeBps()).to.equal(250);
+      expect(await Coinflip.read.houseEdge()).to.equal(2);
+    });
+
+    it('Should prevent setting invalid values', async function () {
+      const { Coinflip, ownersMultisig } = await loadFixture(deployCoinflipFixture);
+
+      await expect(
+        Coinflip.write.setHouseEdge([5001], {
+          account: ownersMultisig.address,
+        }),
+      ).to.be.rejectedWith('InvalidHouseEdge');
+
+      await expect(
+        Coinflip.write.setMinBetAmount([parseEther('500')], {
+          account: ownersMultisig.address,
+        }),
+      ).to.be.rejectedWith('MinGreaterThanMax');
+
+      await expect(
+        Coinflip.write.setRefundTimeout([60n], {
+          account: ownersMultisig.address,
+        }),
+      ).to.be.rejectedWith('InvalidRefundTimeout');
+    });
+
+    it('Should prevent non-owners from changing configuration', async function () {
+      const { Coinflip, user } = await loadFixture(deployCoinflipFixture);
+
+      await expect(
+        Coinflip.write.setHouseEdge([250], {
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('only owners multisig!');
+
+      await expect(
+        Coinflip.write.setCallbackGasLimit([100000], {
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('only owners multisig!');
+    });
+  });
+
+  describe('Withdraw to Treasury', function () {
+    it('Should allow administrators to withdraw native tokens to treasury', async function () {
+      const { Coinflip, administrator, publicClient, treasury, zeroAddress } =
+        await loadFixture(deployCoinflipFixture);
+
+      await Coinflip.write.withdrawToTreasury([zeroAddress, parseEther('1')], {
+        account: administrator.account.address,
+      });
+
+      expect(await publicClient.getBalance({ address: treasury.address })).to.equal(parseEther('1'));
+    });
+
+    it('Should revert if non-administrator tries to withdraw', async function () {
+      const { Coinflip, user, zeroAddress } = await loadFixture(deployCoinflipFixture);
+
+      await expect(
+        Coinflip.write.withdrawToTreasury([zeroAddress, parseEther('1')], {
+          account: user.account.address,
+        }),
+      ).to.be.rejected;
+    });
+  });
+});
@@ -0,0 +1,515 @@
+import { expect } from 'chai';
+import hre from 'hardhat';
+import { encodeFunctionData, getAddress, keccak256, parseEther, toHex, zeroAddress } from 'viem';
+import {
+  impersonateAccount,
+  loadFixture,
+  setBalance,
+  time,
+} from '@nomicfoundation/hardhat-toolbox-viem/network-helpers';
+import { deriveCrashPointFromRandomViem } from '../../../utils/utils';
+
+describe('Crash Contract', function () {
+  const RANGE = 1n << 52n;
+
+  async function deployCrashFixture() {
+    const [deployer, user, , , , , , administrator, owner1, owner2] =
+      await hre.viem.getWalletClients();
+    const publicClient = await hre.viem.getPublicClient();
+    const owners = [owner1, owner2];
+
+    const ownersMultisigImpl = await hre.viem.deployContract('MultisigWallet');
+    const ownersMultisigImplInitData = encodeFunctionData({
+      abi: ownersMultisigImpl.abi,
+      functionName: 'initialize',
+      args: [BigInt(owners.length), owners.map(owner => owner.account.address)],
+    });
+    const ownersMultisigProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      ownersMultisigImpl.address,
+      ownersMultisigImplInitData,
+    ]);
+    const ownersMultisig = await hre.viem.getContractAt(
+      'MultisigWallet',
+      ownersMultisigProxy.address,
+    );
+
+    await impersonateAccount(ownersMultisig.address);
+    await setBalance(ownersMultisig.address, parseEther('100'));
+
+    const accessRolesImpl = await hre.viem.deployContract('AccessRoles');
+    const accessRolesInitData = encodeFunctionData({
+      abi: accessRolesImpl.abi,
+      functionName: 'initialize',
+      args: [ownersMultisig.address, [administrator.account.address]],
+    });
+    const accessRolesProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      accessRolesImpl.address,
+      accessRolesInitData,
+    ]);
+    const accessRoles = await hre.viem.getContractAt('AccessRoles', accessRolesProxy.address);
+
+    const addressBookImpl = await hre.viem.deployContract('AddressBook');
+    const addressBookInitData = encodeFunctionData({
+      abi: addressBookImpl.abi,
+      functionName: 'initialize',
+      args: [accessRoles.address],
+    });
+    const addressBookProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      addressBookImpl.address,
+      addressBookInitData,
+    ]);
+    const addressBook = await hre.viem.getContractAt('AddressBook', addressBookProxy.address);
+
+    const gameManagerImpl = await hre.viem.deployContract('GameManager');
+    const gameManagerInitData = encodeFunctionData({
+      abi: gameManagerImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address],
+    });
+    const gameManagerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      gameManagerImpl.address,
+      gameManagerInitData,
+    ]);
+    const gameManager = await hre.viem.getContractAt('GameManager', gameManagerProxy.address);
+
+    await addressBook.write.initialSetGameManager([gameManager.address], {
+      account: deployer.account.address,
+    });
+
+    // Deploy MockERC20 token
+    const mockToken = await hre.viem.deployContract('MockERC20', ['Mock Token', 'MTK', 18]);
+    await mockToken.write.mint([user.account.address, parseEther('1000')]);
+
+    // Deploy Pricers for native token and ERC20 token
+    const nativePricerImpl = await hre.viem.deployContract('Pricer');
+    const nativePricerInitData = encodeFunctionData({
+      abi: nativePricerImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address, 50000000000n, 'ETH/USD Pricer'], // $500 with 8 decimals
+    });
+    const nativePricerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      nativePricerImpl.address,
+      nativePricerInitData,
+    ]);
+    const nativePricer = await hre.viem.getContractAt('Pricer', nativePricerProxy.address);
+
+    const tokenPricerImpl = await hre.viem.deployContract('Pricer');
+    const tokenPricerInitData = encodeFunctionData({
+      abi: tokenPricerImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address, 100000000n, 'MTK/USD Pricer'], // $1 with 8 decimals
+    });
+    const tokenPricerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      tokenPricerImpl.address,
+      tokenPricerInitData,
+    ]);
+    const tokenPricer = await hre.viem.getContractAt('Pricer', tokenPricerProxy.address);
+
+    // Deploy TokensManager
+    const tokensManagerImpl = await hre.viem.deployContract('TokensManager');
+    const tokensManagerInitData = encodeFunctionData({
+      abi: tokensManagerImpl.abi,
+      functionName: 'initialize',
+      args: [
+        addressBook.address,
+        [zeroAddress, mockToken.address],
+        [nativePricer.address, tokenPricer.address],
+      ],
+    });
+    const tokensManagerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      tokensManagerImpl.address,
+      tokensManagerInitData,
+    ]);
+    const tokensManager = await hre.viem.getContractAt('TokensManager', tokensManagerProxy.address);
+
+    await addressBook.write.initialSetTokensManager([tokensManager.address], {
+      account: deployer.account.address,
+    });
+
+    const MockVRFCoordinator = await hre.viem.deployContract('MockVRFCoordinator', []);
+    const CrashImpl = await hre.viem.deployContract('Crash', [MockVRFCoordinator.address]);
+    const coinflipInitData = encodeFunctionData({
+      abi: CrashImpl.abi,
+      functionName: 'initialize',
+      args: [
+        MockVRFCoordinator.address,
+        1n,
+        '0x8af398995b04c28e9a51adb9721ef74c74f93e6a478f39e7e0777be13527e7ef',
+        addressBook.address,
+        parseEther('0.0005'), // $0.0005
+        parseEther('500'), // $500
+        100, // 1%
+      ],
+    });
+    const CrashProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      CrashImpl.address,
+      coinflipInitData,
+    ]);
+    const Crash = await hre.viem.getContractAt('Crash', CrashProxy.address);
+    await setBalance(Crash.address, parseEther('100'));
+
+    // Mint some tokens to the Crash contract for payouts
+    await mockToken.write.mint([Crash.address, parseEther('100')]);
+
+    await gameManager.write.addGame([Crash.address], {
+      account: ownersMultisig.address,
+    });
+
+    const pauseManagerImpl = await hre.viem.deployContract('PauseManager');
+    const pauseManagerInitData = encodeFunctionData({
+      abi: pauseManagerImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address],
+    });
+    const pauseManagerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      pauseManagerImpl.address,
+      pauseManagerInitData,
+    ]);
+    const pauseManager = await hre.viem.getContractAt('PauseManager', pauseManagerProxy.address);
+
+    await addressBook.write.initialSetPauseManager([pauseManager.address], {
+      account: deployer.account.address,
+    });
+
+    // Deploy Treasury
+    const treasuryImpl = await hre.viem.deployContract('Treasury');
+    const treasuryInitData = encodeFunctionData({
+      abi: treasuryImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address],
+    });
+    const treasuryProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      treasuryImpl.address,
+      treasuryInitData,
+    ]);
+    const treasury = await hre.viem.getContractAt('Treasury', treasuryProxy.address);
+
+    // Deploy ReferralProgram
+    const referralProgramImpl = await hre.viem.deployContract('ReferralProgram');
+    const initialReferralPercent = 500n; // 5% (500/10000)
+    const referralProgramInitData = encodeFunctionData({
+      abi: referralProgramImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address, initialReferralPercent],
+    });
+    const referralProgramProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      referralProgramImpl.address,
+      referralProgramInitData,
+    ]);
+    const referralProgram = await hre.viem.getContractAt(
+      'ReferralProgram',
+      referralProgramProxy.address,
+    );
+
+    await addressBook.write.initialSetTreasury([treasury.address], {
+      account: deployer.account.address,
+    });
+    await addressBook.write.initialSetReferralProgram([referralProgram.address], {
+      account: deployer.account.address,
+    });
+
+    for (const owner of [owner1, owner2]) {
+      const isSigner = await ownersMultisig.read.signers([owner.account.address]);
+      expect(isSigner).to.be.true;
+
+      await setBalance(owner.account.address, parseEther('100'));
+    }
+
+    return {
+      publicClient,
+      Crash,
+      MockVRFCoordinator,
+      accessRoles,
+      addressBook,
+      gameManager,
+      ownersMultisig,
+      administrator,
+      user,
+      owner1,
+      owner2,
+      deployer,
+      treasury,
+      mockToken,
+      tokensManager,
+      zeroAddress, // NATIVE_TOKEN
+    };
+  }
+
+  describe('Deployment', function () {
+    it('Should deploy successfully', async function () {
+      const { Crash } = await loadFixture(deployCrashFixture);
+      expect(Crash.address).to.not.equal(0);
+    });
+
+    it('Should be registered in GameManager', async function () {
+      const { Crash, gameManager } = await loadFixture(deployCrashFixture);
+
+      const isRegistered = await gameManager.read.isGameExist([Crash.address]);
+      expect(isRegistered).to.be.true;
+      expect(await Crash.read.houseEdge()).to.equal(1);
+    });
+  });
+
+  describe('Crash Point', function () {
+    it('Should derive the crash point from the lowest 52 bits of the random word', async function () {
+      const { Crash } = await loadFixture(deployCrashFixture);
+
+      // The round crashes instantly at (1 - edge)x
+      expect(await Crash.read.deriveCrashPointFromRandom([0n, 100])).to.equal(9900n);
+      expect(await Crash.read.deriveCrashPointFromRandom([RANGE / 2n, 100])).to.equal(19800n);
+      expect(await Crash.read.deriveCrashPointFromRandom([(RANGE * 3n) / 4n, 100])).to.equal(39600n);
+      // Bits above the lowest 52 are ignored
+      expect(await Crash.read.deriveCrashPointFromRandom([RANGE + RANGE / 2n, 100])).to.equal(19800n);
+    });
+
+    it('Should match the TS reference implementation', async function () {
+      const { Crash } = await loadFixture(deployCrashFixture);
+
+      for (let i = 0; i < 20; i++) {
+        const rw = BigInt(keccak256(toHex(i)));
+        const houseEdge = i * 50;
+
+        const crashPoint = await Crash.read.deriveCrashPointFromRandom([rw, houseEdge]);
+        expect(crashPoint).to.equal(deriveCrashPointFromRandomViem(rw, houseEdge));
+      }
+    });
+
+    it('Should reach a multiplier with a chance of (1 - edge) / multiplier', function () {
+      const samples = 20000;
+      let reached2x = 0;
+      let reached10x = 0;
+
+      for (let i = 0; i < samples; i++) {
+        const crashPoint = deriveCrashPointFromRandomViem(BigInt(keccak256(toHex(i))), 100);
+        if (crashPoint >= 20000n) reached2x++;
+        if (crashPoint >= 100000n) reached10x++;
+      }
+
+      expect(reached2x / samples).to.be.closeTo(0.495, 0.015);
+      expect(reached10x / samples).to.be.closeTo(0.099, 0.008);
+    });
+  });
+
+  describe('Payout Calculation', function () {
+    it('Should pay the full target multiplier', async function () {
+      const { Crash } = await loadFixture(deployCrashFixture);
+
+      expect(await Crash.read.calculatePayout([parseEther('1'), 20000n])).to.equal(parseEther('2'));
+      expect(await Crash.read.calculatePayout([parseEther('1'), 10100n])).to.equal(parseEther('1.01'));
+    });
+
+    it('Should reject target multipliers outside 1.01x..1000x', async function () {
+      const { Crash } = await loadFixture(deployCrashFixture);
+
+      await expect(Crash.read.calculatePayout([parseEther('1'), 10099n])).to.be.rejectedWith(
+        'InvalidTargetMultiplier',
+      );
+      await expect(Crash.read.calculatePayout([parseEther('1'), 10000001n])).to.be.rejectedWith(
+        'InvalidTargetMultiplier',
+      );
+    });
+  });
+
+  describe('Place Bet', function () {
+    it('Should emit CrashBetPlaced event when a bet is placed with native token', async function () {
+      const { Crash, user, zeroAddress } = await loadFixture(deployCrashFixture);
+      const betAmount = parseEther('0.01');
+
+      await Crash.write.placeBet([25000n, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: betAmount,
+      });
+
+      const events = await Crash.getEvents.CrashBetPlaced();
+      expect(events.length).to.equal(1);
+      expect(getAddress(events[0].args.player!)).to.equal(getAddress(user.account.address));
+      expect(events[0].args.betAmount).to.equal(betAmount);
+      expect(events[0].args.targetMultiplier).to.equal(25000n);
+
+      const [liability] = await Crash.read.getExposure([zeroAddress]);
+      expect(liability).to.equal(parseEther('0.025'));
+    });
+
+    it('Should revert if a bet is already in progress', async function () {
+      const { Crash, user, zeroAddress } = await loadFixture(deployCrashFixture);
+
+      await Crash.write.placeBet([20000n, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: parseEther('0.01'),
+      });
+
+      await expect(
+        Crash.write.placeBet([20000n, zeroAddress, 0n, zeroAddress], {
+          account: user.account.address,
+          value: parseEther('0.01'),
+        }),
+      ).to.be.rejectedWith('RollInProgress');
+    });
+
+    it('Should revert for an invalid target multiplier', async function () {
+      const { Crash, user, zeroAddress } = await loadFixture(deployCrashFixture);
+
+      await expect(
+        Crash.write.placeBet([10000n, zeroAddress, 0n, zeroAddress], {
+          account: user.account.address,
+          value: parseEther('0.01'),
+        }),
+      ).to.be.rejectedWith('InvalidTargetMultiplier');
+    });
+
+    it('Should revert if a high target exceeds the allowed exposure', async function () {
+      const { Crash, user, zeroAddress } = await loadFixture(deployCrashFixture);
+
+      // 1000x of 0.1 ETH is more than half of the 100 ETH bankroll
+      await expect(
+        Crash.write.placeBet([10000000n, zeroAddress, 0n, zeroAddress], {
+          account: user.account.address,
+          value: parseEther('0.1'),
+        }),
+      ).to.be.rejectedWith('ExposureLimitExceeded');
+    });
+  });
+
+  describe('Max Payout', function () {
+    it('Should not cap payouts by default', async function () {
+      const { Crash, zeroAddress } = await loadFixture(deployCrashFixture);
+
+      expect(await Crash.read.getMaxPayout([zeroAddress])).to.equal(0n);
+    });
+
+    it('Should reject bets paying out more than the token max payout', async function () {
+      const { Crash, ownersMultisig, user, mockToken, zeroAddress } = await loadFixture(deployCrashFixture);
+
+      // $100 at $500 per ETH
+      await Crash.write.setTokenMaxPayout([zeroAddress, parseEther('100')], {
+        account: ownersMultisig.address,
+      });
+      expect(await Crash.read.getMaxPayout([zeroAddress])).to.equal(parseEther('0.2'));
+      expect(await Crash.read.getMaxPayout([mockToken.address])).to.equal(0n);
+
+      await expect(
+        Crash.write.placeBet([10000000n, zeroAddress, 0n, zeroAddress], {
+          account: user.account.address,
+          value: parseEther('0.001'),
+        }),
+      ).to.be.rejectedWith('PayoutLimitExceeded');
+
+      // 200x of 0.001 ETH is exactly the cap
+      await Crash.write.placeBet([2000000n, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: parseEther('0.001'),
+      });
+    });
+
+    it('Should fall back to the global max payout', async function () {
+      const { Crash, ownersMultisig, user, mockToken } = await loadFixture(deployCrashFixture);
+
+      await Crash.write.setMaxPayout([parseEther('10')], {
+        account: ownersMultisig.address,
+      });
+      expect(await Crash.read.getMaxPayout([mockToken.address])).to.equal(parseEther('10'));
+
+      await mockToken.write.approve([Crash.address, parseEther('1')], {
+        account: user.account.address,
+      });
+
+      await expect(
+        Crash.write.placeBet([200000n, mockToken.address, parseEther('1'), zeroAddress], {
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('PayoutLimitExceeded');
+    });
+
+    it('Should prevent non-owners from setting the max payout', async function () {
+      const { Crash, user, zeroAddress } = await loadFixture(deployCrashFixture);
+
+      await expect(
+        Crash.write.setMaxPayout([parseEther('10')], {
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('only owners multisig!');
+
+      await expect(
+        Crash.write.setTokenMaxPayout([zeroAddress, parseEther('10')], {
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('only owners multisig!');
+    });
+  });
+
+  describe('Settlement', function () {
+    it('Should pay out when the crash point reaches the target', async function () {
+      const { Crash, MockVRFCoordinator, publicClient, user, zeroAddress } =
+        await loadFixture(deployCrashFixture);
+      const betAmount = parseEther('0.1');
+
+      await Crash.write.placeBet([20000n, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: betAmount,
+      });
+
+      const balanceBefore = await publicClient.getBalance({ address: user.account.address });
+
+      await MockVRFCoordinator.write.fulfillRandomWords([Crash.address, [(RANGE * 3n) / 4n]]);
+
+      const balanceAfter = await publicClient.getBalance({ address: user.account.address });
+      expect(balanceAfter - balanceBefore).to.equal(parseEther('0.2'));
+
+      const events = await Crash.getEvents.BetSettled();
+      expect(events[0].args.crashPoint).to.equal(39600n);
+      expect(events[0].args.won).to.be.true;
+      expect(events[0].args.payout).to.equal(parseEther('0.2'));
+
+      const [liability] = await Crash.read.getExposure([zeroAddress]);
+      expect(liability).to.equal(0n);
+    });
+
+    it('Should lose when the round crashes below the target', async function () {
+      const { Crash, MockVRFCoordinator, user, mockToken } = await loadFixture(deployCrashFixture);
+      const betAmount = parseEther('1');
+
+      await mockToken.write.approve([Crash.address, betAmount], {
+        account: user.account.address,
+      });
+      await Crash.write.placeBet([20000n, mockToken.address, betAmount, zeroAddress], {
+        account: user.account.address,
+      });
+
+      await MockVRFCoordinator.write.fulfillRandomWords([Crash.address, [RANGE / 2n]]);
+
+      const events = await Crash.getEvents.CrashBetFulfilled();
+      expect(events[0].args.crashPoint).to.equal(19800n);
+      expect(events[0].args.won).to.be.false;
+      expect(events[0].args.payout).to.equal(0n);
+
+      expect(await mockToken.read.balanceOf([user.account.address])).to.equal(parseEther('999'));
+
+      const bet = await Crash.read.getCurrentBet({ account: user.account.address });
+      expect(bet[2]).to.equal(19800n);
+      expect(bet[3]).to.be.true;
+      expect(bet[4]).to.be.false;
+    });
+  });
+
+  describe('Refunds', function () {
+    it('Should refund a bet after the refund timeout', async function () {
+      const { Crash, user, zeroAddress } = await loadFixture(deployCrashFixture);
+      const betAmount = parseEther('0.01');
+
+      await Crash.write.placeBet([20000n, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: betAmount,
+      });
+
+      await time.increase(3600);
+
+      await Crash.write.refundBet({
+        account: user.account.address,
+      });
+
+      const events = await Crash.getEvents.BetRefunded();
+      expect(events[0].args.amount).to.equal(betAmount);
+      expect(await Crash.read.isBetInProgress({ account: user.account.address })).to.be.false;
+    });
+  });
+});
@@ -1,10 +1,22 @@
 import { expect } from 'chai';
 import hre from 'hardhat';
-import { encodeFunctionData, getAddress, parseEther, zeroAddress } from 'viem';
+import {
+  encodeAbiParameters,
+  encodeFunctionData,
+  getAddress,
+  keccak256,
+  maxUint256,
+  parseEther,
+  toHex,
+  zeroAddress,
+} from 'viem';
 import {
   impersonateAccount,
   loadFixture,
   setBalance,
+  setCode,
+  setStorageAt,
+  time,
 } from '@nomicfoundation/hardhat-toolbox-viem/network-helpers';
 
 describe('Dice Contract', function () {
@@ -134,9 +146,9 @@ describe('Dice Contract', function () {
         addressBook.address,
         10,
         90,
-        parseEther('0.001'),
-        parseEther('1'),
-        10,
+        parseEther('0.0005'), // $0.0005
+        parseEther('500'), // $500
+        1000, // 10%
       ],
     });
     const DiceProxy = await hre.viem.deployContract('ERC1967Proxy', [
@@ -323,9 +335,9 @@ describe('Dice Contract', function () {
           addressBook.address,
           10,
           90,
-          parseEther('0.001'),
-          parseEther('1'),
-          10,
+          parseEther('0.0005'), // $0.0005
+          parseEther('500'), // $500
+          1000, // 10%
         ],
       });
       const UnregisteredDiceProxy = await hre.viem.deployContract('ERC1967Proxy', [
@@ -386,7 +398,7 @@ describe('Dice Contract', function () {
       const targetNumber = 50n;
       const comparisonType = 0;
 
-      const payout = await Dice.read.calculatePayout([betAmount, targetNumber, comparisonType], {
+      const payout = await Dice.read.calculatePayout([betAmount, targetNumber, comparisonType, zeroAddress], {
         account: user.account.address,
       });
 
@@ -403,7 +415,7 @@ describe('Dice Contract', function () {
       const targetNumber = 50n;
       const comparisonType = 1; // LESS_THAN
 
-      const payout = await Dice.read.calculatePayout([betAmount, targetNumber, comparisonType], {
+      const payout = await Dice.read.calculatePayout([betAmount, targetNumber, comparisonType, zeroAddress], {
         account: user.account.address,
       });
 
@@ -419,13 +431,13 @@ describe('Dice Contract', function () {
       const betAmount = 1000000000000000n;
 
       await expect(
-        Dice.read.calculatePayout([betAmount, 100n, 0], {
+        Dice.read.calculatePayout([betAmount, 100n, 0, zeroAddress], {
           account: user.account.address,
         }),
       ).to.be.rejectedWith('InvalidTargetNumber');
 
       await expect(
-        Dice.read.calculatePayout([betAmount, 1n, 1], {
+        Dice.read.calculatePayout([betAmount, 1n, 1, zeroAddress], {
           account: user.account.address,
         }),
       ).to.be.rejectedWith('InvalidTargetNumber');
@@ -469,7 +481,7 @@ describe('Dice Contract', function () {
       expect(bet[4]).to.be.false;
 
       const calculatedPayout = await Dice.read.calculatePayout(
-        [betAmount, targetNumber, comparisonType],
+        [betAmount, targetNumber, comparisonType, zeroAddress],
         {
           account: user.account.address,
         },
@@ -503,7 +515,7 @@ describe('Dice Contract', function () {
       expect(bet[4]).to.be.false;
 
       const calculatedPayout = await Dice.read.calculatePayout(
-        [betAmount, targetNumber, comparisonType],
+        [betAmount, targetNumber, comparisonType, mockToken.address],
         {
           account: user.account.address,
         },
@@ -984,9 +996,8 @@ describe('Dice Contract', function () {
         account: ownersMultisig.address,
       });
 
-      // We can't directly check the s_vrfCoordinator as it's a private variable
-      // But we can verify the transaction succeeded
-      // This is similar to how other configuration tests are structured
+      const config = await Dice.read.getVRFConfig();
+      expect(getAddress(config.coordinator)).to.equal(getAddress(newCoordinator));
     });
 
     it('Should allow owners multisig to update subscription ID', async function () {
@@ -997,9 +1008,7 @@ describe('Dice Contract', function () {
         account: ownersMultisig.address,
       });
 
-      // We can't directly check the subscriptionId as it's a private variable
-      // But we can verify the transaction succeeded
-      // This is similar to how other configuration tests are structured
+      expect((await Dice.read.getVRFConfig()).subscriptionId).to.equal(newSubscriptionId);
     });
 
     it('Should allow owners multisig to update both VRF Coordinator and subscription ID', async function () {
@@ -1011,8 +1020,9 @@ describe('Dice Contract', function () {
         account: ownersMultisig.address,
       });
 
-      // We can't directly check the private variables
-      // But we can verify the transaction succeeded
+      const config = await Dice.read.getVRFConfig();
+      expect(getAddress(config.coordinator)).to.equal(getAddress(newCoordinator));
+      expect(config.subscriptionId).to.equal(newSubscriptionId);
     });
 
     it('Should prevent non-owners from updating VRF settings', async function () {
@@ -1154,23 +1164,74 @@ describe('Dice Contract', function () {
 
     it('Should allow owners multisig to set house edge', async function () {
       const { Dice, ownersMultisig } = await loadFixture(deployDiceFixture);
-      const initialHouseEdge = await Dice.read.houseEdge();
-      const newHouseEdge = initialHouseEdge + 5;
+      const initialHouseEdge = await Dice.read.houseEdgeBps();
+      const newHouseEdge = initialHouseEdge + 500;
 
       await Dice.write.setHouseEdge([newHouseEdge], {
         account: ownersMultisig.address,
       });
 
-      const updatedHouseEdge = await Dice.read.houseEdge();
+      const updatedHouseEdge = await Dice.read.houseEdgeBps();
 
       expect(updatedHouseEdge).to.equal(newHouseEdge);
+      expect(await Dice.read.houseEdge()).to.equal(15);
+    });
+
+    it('Should support fractional house edge in basis points', async function () {
+      const { Dice, ownersMultisig } = await loadFixture(deployDiceFixture);
+
+      await Dice.write.setHouseEdge([150], {
+        account: ownersMultisig.address,
+      });
+
+      expect(await Dice.read.houseEdgeBps()).to.equal(150);
+      expect(await Dice.read.getHouseEdge([zeroAddress])).to.equal(150);
+      // The whole percent value exposed through IGame is rounded down
+      expect(await Dice.read.houseEdge()).to.equal(1);
+
+      const payout = await Dice.read.calculatePayout([parseEther('1'), 50n, 0, zeroAddress]);
+      expect(payout).to.equal((parseEther('1') * 9850n) / 5000n);
+    });
+
+    it('Should not allow running the house edge migration on new proxies', async function () {
+      const { Dice, ownersMultisig } = await loadFixture(deployDiceFixture);
+
+      await expect(
+        Dice.write.initializeV2({
+          account: ownersMultisig.address,
+        }),
+      ).to.be.rejectedWith('InvalidInitialization');
+    });
+
+    it('Should migrate the bet limits of proxies deployed before USD limits to USD', async function () {
+      const { Dice, ownersMultisig } = await loadFixture(deployDiceFixture);
+
+      // Roll the proxy back to the first initializer version with the bet limits stored in wei
+      await setStorageAt(Dice.address, '0xf0c57e16840df040f15088dc2f81fe391c3923bec73e23a9662efc9c229c6a00', 1n);
+      await Dice.write.setMinBetAmount([parseEther('0.001')], {
+        account: ownersMultisig.address,
+      });
+      await Dice.write.setMaxBetAmount([parseEther('1')], {
+        account: ownersMultisig.address,
+      });
+
+      await Dice.write.initializeV2({
+        account: ownersMultisig.address,
+      });
+
+      // Converted at the $500 native token price
+      expect(await Dice.read.minBetAmount()).to.equal(parseEther('0.5'));
+      expect(await Dice.read.maxBetAmount()).to.equal(parseEther('500'));
+      expect(await Dice.read.houseEdgeBps()).to.equal(1000);
+      expect(await Dice.read.refundTimeout()).to.equal(3600n);
+      expect(await Dice.read.maxExposureRatio()).to.equal(5000n);
     });
 
     it('Should prevent setting invalid house edge', async function () {
       const { Dice, ownersMultisig } = await loadFixture(deployDiceFixture);
 
       await expect(
-        Dice.write.setHouseEdge([51], {
+        Dice.write.setHouseEdge([5001], {
           account: ownersMultisig.address,
         }),
       ).to.be.rejectedWith('InvalidHouseEdge');
@@ -1204,7 +1265,7 @@ describe('Dice Contract', function () {
       ).to.be.rejected;
 
       await expect(
-        Dice.write.setHouseEdge([15], {
+        Dice.write.setHouseEdge([1500], {
           account: user.account.address,
         }),
       ).to.be.rejected;
@@ -1224,9 +1285,7 @@ describe('Dice Contract', function () {
         account: ownersMultisig.address,
       });
 
-      // We can't directly check the callbackGasLimit as it's a private variable
-      // But we can verify the transaction succeeded
-      // This is similar to how other configuration tests are structured
+      expect((await Dice.read.getVRFConfig()).callbackGasLimit).to.equal(newGasLimit);
     });
 
     it('Should prevent setting invalid callback gas limit', async function () {
@@ -1244,6 +1303,69 @@ describe('Dice Contract', function () {
         }),
       ).to.be.rejectedWith('Gas limit too low');
     });
+
+    it('Should return the VRF config', async function () {
+      const { Dice, MockVRFCoordinator } = await loadFixture(deployDiceFixture);
+
+      const config = await Dice.read.getVRFConfig();
+      expect(getAddress(config.coordinator)).to.equal(getAddress(MockVRFCoordinator.address));
+      expect(config.keyHash).to.equal('0x8af398995b04c28e9a51adb9721ef74c74f93e6a478f39e7e0777be13527e7ef');
+      expect(config.callbackGasLimit).to.equal(300000);
+      expect(config.requestConfirmations).to.equal(3);
+      expect(config.nativePayment).to.be.false;
+    });
+
+    it('Should allow owners multisig to update the key hash, confirmations and native payment', async function () {
+      const { Dice, ownersMultisig } = await loadFixture(deployDiceFixture);
+      const newKeyHash = '0x787d74caea10b2b357790d5b5247c2f63d1d91572a9846f780606e4d953677ae';
+
+      await Dice.write.setKeyHash([newKeyHash], {
+        account: ownersMultisig.address,
+      });
+      await Dice.write.setRequestConfirmations([10], {
+        account: ownersMultisig.address,
+      });
+      await Dice.write.setNativePayment([true], {
+        account: ownersMultisig.address,
+      });
+
+      const config = await Dice.read.getVRFConfig();
+      expect(config.keyHash).to.equal(newKeyHash);
+      expect(config.requestConfirmations).to.equal(10);
+      expect(config.nativePayment).to.be.true;
+
+      expect((await Dice.getEvents.KeyHashSet({ fromBlock: 0n }))[0].args.keyHash).to.equal(newKeyHash);
+      expect((await Dice.getEvents.RequestConfirmationsSet({ fromBlock: 0n }))[0].args.requestConfirmations).to.equal(10);
+      expect((await Dice.getEvents.NativePaymentSet())[0].args.nativePayment).to.be.true;
+    });
+
+    it('Should prevent setting an invalid key hash or number of confirmations', async function () {
+      const { Dice, ownersMultisig, user } = await loadFixture(deployDiceFixture);
+
+      await expect(
+        Dice.write.setKeyHash(['0x0000000000000000000000000000000000000000000000000000000000000000'], {
+          account: ownersMultisig.address,
+        }),
+      ).to.be.rejectedWith('InvalidKeyHash');
+
+      await expect(
+        Dice.write.setRequestConfirmations([2], {
+          account: ownersMultisig.address,
+        }),
+      ).to.be.rejectedWith('InvalidRequestConfirmations');
+
+      await expect(
+        Dice.write.setRequestConfirmations([201], {
+          account: ownersMultisig.address,
+        }),
+      ).to.be.rejectedWith('InvalidRequestConfirmations');
+
+      await expect(
+        Dice.write.setNativePayment([true], {
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('only owners multisig!');
+    });
   });
 
   describe('Withdraw to Treasury', function () {
@@ -1353,4 +1475,1242 @@ describe('Dice Contract', function () {
       ).to.be.rejectedWith('InsufficientContractBalance');
     });
   });
+
+  describe('Refunds', function () {
+    it('Should revert refund before the refund timeout', async function () {
+      const { Dice, user, zeroAddress } = await loadFixture(deployDiceFixture);
+
+      await Dice.write.roll([50n, 0, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: 1000000000000000n,
+      });
+
+      await expect(
+        Dice.write.refundBet({
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('RefundNotAvailable');
+    });
+
+    it('Should revert refund if no roll is in progress', async function () {
+      const { Dice, user } = await loadFixture(deployDiceFixture);
+
+      await expect(
+        Dice.write.refundBet({
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('RefundNotAvailable');
+    });
+
+    it('Should refund native token bet after the refund timeout', async function () {
+      const { Dice, user, zeroAddress } = await loadFixture(deployDiceFixture);
+      const betAmount = 1000000000000000n;
+
+      await Dice.write.roll([50n, 0, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: betAmount,
+      });
+
+      await time.increase(await Dice.read.refundTimeout());
+
+      const balanceBefore = await Dice.read.getContractBalance();
+      await Dice.write.refundBet({
+        account: user.account.address,
+      });
+      const balanceAfter = await Dice.read.getContractBalance();
+
+      expect(balanceBefore - balanceAfter).to.equal(betAmount);
+
+      const events = await Dice.getEvents.BetRefunded();
+      expect(events.length).to.equal(1);
+      expect(events[0].args.amount).to.equal(betAmount);
+      expect(events[0].args.token).to.equal(zeroAddress);
+
+      const rollInProgress = await Dice.read.isRollInProgress({
+        account: user.account.address,
+      });
+      expect(rollInProgress).to.be.false;
+
+      await Dice.write.roll([50n, 0, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: betAmount,
+      });
+    });
+
+    it('Should ignore a late fulfillment of a refunded bet', async function () {
+      const { Dice, MockVRFCoordinator, user, zeroAddress } = await loadFixture(deployDiceFixture);
+
+      await Dice.write.roll([50n, 0, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: 1000000000000000n,
+      });
+
+      await time.increase(await Dice.read.refundTimeout());
+      await Dice.write.refundBet({
+        account: user.account.address,
+      });
+
+      await MockVRFCoordinator.write.fulfillRandomWords([Dice.address, [74n]], {
+        account: user.account.address,
+      });
+
+      const result = await Dice.read.getLatestRollResult({
+        account: user.account.address,
+      });
+      expect(result).to.equal(0n);
+
+      const events = await Dice.getEvents.DiceRollFulfilled();
+      expect(events.length).to.equal(0);
+    });
+
+    it('Should run the refund timeout of bets placed before the migration from the migration', async function () {
+      const { Dice, ownersMultisig, publicClient, user, zeroAddress } = await loadFixture(deployDiceFixture);
+
+      await Dice.write.roll([50n, 0, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: 1000000000000000n,
+      });
+      const [requested] = await Dice.getEvents.DiceRollRequested();
+      const { timestamp } = await publicClient.getBlock();
+
+      // Clear the creation time of the bet, which bets placed before the migration do not have
+      let createdAtSlot: bigint | undefined;
+      for (let mappingSlot = 0n; createdAtSlot === undefined && mappingSlot < 32n; mappingSlot++) {
+        const betSlot = BigInt(
+          keccak256(
+            encodeAbiParameters(
+              [{ type: 'uint256' }, { type: 'uint256' }],
+              [requested.args.requestId!, mappingSlot],
+            ),
+          ),
+        );
+        const value = await publicClient.getStorageAt({ address: Dice.address, slot: toHex(betSlot + 5n) });
+        if (value !== undefined && BigInt(value) === timestamp) createdAtSlot = betSlot + 5n;
+      }
+      await setStorageAt(Dice.address, createdAtSlot!, 0n);
+
+      await time.increase(await Dice.read.refundTimeout());
+
+      // Roll the proxy back to the first initializer version and migrate it
+      await setStorageAt(Dice.address, '0xf0c57e16840df040f15088dc2f81fe391c3923bec73e23a9662efc9c229c6a00', 1n);
+      await Dice.write.initializeV2({
+        account: ownersMultisig.address,
+      });
+
+      await expect(
+        Dice.write.refundBet({
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('RefundNotAvailable');
+
+      await time.increase(await Dice.read.refundTimeout());
+      await Dice.write.refundBet({
+        account: user.account.address,
+      });
+
+      const events = await Dice.getEvents.BetRefunded();
+      expect(events.length).to.equal(1);
+    });
+
+    it('Should allow administrators to cancel stale ERC20 token requests', async function () {
+      const { Dice, user, administrator, mockToken } = await loadFixture(deployDiceFixture);
+      const betAmount = 1000000000000000n;
+
+      await mockToken.write.approve([Dice.address, betAmount], {
+        account: user.account.address,
+      });
+      await Dice.write.roll([50n, 0, mockToken.address, betAmount, zeroAddress], {
+        account: user.account.address,
+      });
+
+      const [requested] = await Dice.getEvents.DiceRollRequested();
+      const requestId = requested.args.requestId!;
+
+      await expect(
+        Dice.write.cancelStaleRequests([[requestId]], {
+          account: administrator.account.address,
+        }),
+      ).to.be.rejectedWith('RefundNotAvailable');
+
+      await time.increase(await Dice.read.refundTimeout());
+
+      const userBalanceBefore = await mockToken.read.balanceOf([user.account.address]);
+      await Dice.write.cancelStaleRequests([[requestId]], {
+        account: administrator.account.address,
+      });
+      const userBalanceAfter = await mockToken.read.balanceOf([user.account.address]);
+
+      expect(userBalanceAfter - userBalanceBefore).to.equal(betAmount);
+
+      const bet = await Dice.read.getCurrentBet({
+        account: user.account.address,
+      });
+      expect(bet[3]).to.be.true;
+      expect(bet[4]).to.be.false;
+
+      await expect(
+        Dice.write.cancelStaleRequests([[requestId]], {
+          account: administrator.account.address,
+        }),
+      ).to.be.rejectedWith('RefundNotAvailable');
+    });
+
+    it('Should prevent non-administrators from cancelling stale requests', async function () {
+      const { Dice, user } = await loadFixture(deployDiceFixture);
+
+      await expect(
+        Dice.write.cancelStaleRequests([[1n]], {
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('only administrator!');
+    });
+
+    it('Should allow owners multisig to set refund timeout', async function () {
+      const { Dice, ownersMultisig, user } = await loadFixture(deployDiceFixture);
+
+      await Dice.write.setRefundTimeout([7200n], {
+        account: ownersMultisig.address,
+      });
+      expect(await Dice.read.refundTimeout()).to.equal(7200n);
+
+      await expect(
+        Dice.write.setRefundTimeout([60n], {
+          account: ownersMultisig.address,
+        }),
+      ).to.be.rejectedWith('InvalidRefundTimeout');
+
+      await expect(
+        Dice.write.setRefundTimeout([7200n], {
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('only owners multisig!');
+    });
+  });
+
+  describe('Exposure', function () {
+    it('Should track liability of pending bets and release it on fulfillment', async function () {
+      const { Dice, MockVRFCoordinator, user, zeroAddress } = await loadFixture(deployDiceFixture);
+      const betAmount = 1000000000000000n;
+
+      await Dice.write.roll([50n, 0, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: betAmount,
+      });
+
+      const payout = await Dice.read.calculatePayout([betAmount, 50n, 0, zeroAddress]);
+      const [liability, maxLiability] = await Dice.read.getExposure([zeroAddress]);
+      const contractBalance = await Dice.read.getContractBalance();
+
+      expect(liability).to.equal(payout);
+      expect(maxLiability).to.equal((contractBalance * 5000n) / 10000n);
+
+      await MockVRFCoordinator.write.fulfillRandomWords([Dice.address, [74n]], {
+        account: user.account.address,
+      });
+
+      expect(await Dice.read.liabilities([zeroAddress])).to.equal(0n);
+    });
+
+    it('Should release liability when a bet is refunded', async function () {
+      const { Dice, user, mockToken } = await loadFixture(deployDiceFixture);
+      const betAmount = 1000000000000000n;
+
+      await mockToken.write.approve([Dice.address, betAmount], {
+        account: user.account.address,
+      });
+      await Dice.write.roll([50n, 0, mockToken.address, betAmount, zeroAddress], {
+        account: user.account.address,
+      });
+
+      expect(await Dice.read.liabilities([mockToken.address])).to.not.equal(0n);
+
+      await time.increase(await Dice.read.refundTimeout());
+      await Dice.write.refundBet({
+        account: user.account.address,
+      });
+
+      expect(await Dice.read.liabilities([mockToken.address])).to.equal(0n);
+    });
+
+    it('Should revert if the bet exceeds the allowed exposure', async function () {
+      const { Dice, ownersMultisig, user, zeroAddress } = await loadFixture(deployDiceFixture);
+
+      // 0.01% of 100 ETH bankroll
+      await Dice.write.setMaxExposureRatio([1n], {
+        account: ownersMultisig.address,
+      });
+
+      await expect(
+        Dice.write.roll([50n, 0, zeroAddress, 0n, zeroAddress], {
+          account: user.account.address,
+          value: parseEther('0.01'),
+        }),
+      ).to.be.rejectedWith('ExposureLimitExceeded');
+    });
+
+    it('Should not allow withdrawing funds reserved for pending payouts', async function () {
+      const { Dice, administrator, user, zeroAddress } = await loadFixture(deployDiceFixture);
+      const betAmount = parseEther('1');
+
+      await Dice.write.roll([50n, 0, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: betAmount,
+      });
+
+      const contractBalance = await Dice.read.getContractBalance();
+      const liability = await Dice.read.liabilities([zeroAddress]);
+
+      await expect(
+        Dice.write.withdrawToTreasury([zeroAddress, contractBalance - liability], {
+          account: administrator.account.address,
+        }),
+      ).to.be.rejectedWith('InsufficientContractBalance');
+
+      await Dice.write.withdrawToTreasury([zeroAddress, contractBalance - liability - 1n], {
+        account: administrator.account.address,
+      });
+    });
+
+    it('Should allow owners multisig to set max exposure ratio', async function () {
+      const { Dice, ownersMultisig, user } = await loadFixture(deployDiceFixture);
+
+      await Dice.write.setMaxExposureRatio([2500n], {
+        account: ownersMultisig.address,
+      });
+      expect(await Dice.read.maxExposureRatio()).to.equal(2500n);
+
+      await expect(
+        Dice.write.setMaxExposureRatio([0n], {
+          account: ownersMultisig.address,
+        }),
+      ).to.be.rejectedWith('InvalidMaxExposureRatio');
+
+      await expect(
+        Dice.write.setMaxExposureRatio([10001n], {
+          account: ownersMultisig.address,
+        }),
+      ).to.be.rejectedWith('InvalidMaxExposureRatio');
+
+      await expect(
+        Dice.write.setMaxExposureRatio([2500n], {
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('only owners multisig!');
+    });
+  });
+
+  describe('Bet Limits', function () {
+    it('Should convert USD bet limits to token amounts', async function () {
+      const { Dice, mockToken, zeroAddress } = await loadFixture(deployDiceFixture);
+
+      // ETH is priced at $500 and MTK at $1
+      const [nativeMin, nativeMax] = await Dice.read.getBetLimits([zeroAddress]);
+      expect(nativeMin).to.equal(parseEther('0.000001'));
+      expect(nativeMax).to.equal(parseEther('1'));
+
+      const [tokenMin, tokenMax] = await Dice.read.getBetLimits([mockToken.address]);
+      expect(tokenMin).to.equal(parseEther('0.0005'));
+      expect(tokenMax).to.equal(parseEther('500'));
+    });
+
+    it('Should revert if the bet amount is outside the token limits', async function () {
+      const { Dice, user, mockToken, zeroAddress } = await loadFixture(deployDiceFixture);
+
+      await expect(
+        Dice.write.roll([50n, 0, zeroAddress, 0n, zeroAddress], {
+          account: user.account.address,
+          value: parseEther('1.1'),
+        }),
+      ).to.be.rejectedWith('InvalidBetAmount');
+
+      await mockToken.write.approve([Dice.address, parseEther('0.0001')], {
+        account: user.account.address,
+      });
+
+      await expect(
+        Dice.write.roll([50n, 0, mockToken.address, parseEther('0.0001'), zeroAddress], {
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('InvalidBetAmount');
+    });
+  });
+
+  describe('Token Overrides', function () {
+    it('Should use token house edge override in payout calculation', async function () {
+      const { Dice, ownersMultisig, mockToken, zeroAddress } = await loadFixture(deployDiceFixture);
+      const betAmount = 1000000000000000n;
+
+      await Dice.write.setTokenHouseEdge([mockToken.address, 2000], {
+        account: ownersMultisig.address,
+      });
+
+      expect(await Dice.read.getHouseEdge([mockToken.address])).to.equal(2000);
+      expect(await Dice.read.getHouseEdge([zeroAddress])).to.equal(1000);
+
+      const tokenPayout = await Dice.read.calculatePayout([betAmount, 50n, 0, mockToken.address]);
+      expect(tokenPayout).to.equal((betAmount * 80n) / 50n);
+
+      const nativePayout = await Dice.read.calculatePayout([betAmount, 50n, 0, zeroAddress]);
+      expect(nativePayout).to.equal((betAmount * 90n) / 50n);
+
+      await Dice.write.setTokenHouseEdge([mockToken.address, 0], {
+        account: ownersMultisig.address,
+      });
+      expect(await Dice.read.getHouseEdge([mockToken.address])).to.equal(1000);
+    });
+
+    it('Should use token bet amount overrides with fallback to global values', async function () {
+      const { Dice, ownersMultisig, mockToken } = await loadFixture(deployDiceFixture);
+
+      await Dice.write.setTokenBetAmounts([mockToken.address, parseEther('1'), 0n], {
+        account: ownersMultisig.address,
+      });
+
+      const [minAmount, maxAmount] = await Dice.read.getBetLimits([mockToken.address]);
+      expect(minAmount).to.equal(parseEther('1'));
+      expect(maxAmount).to.equal(parseEther('500'));
+
+      await Dice.write.setTokenBetAmounts([mockToken.address, 0n, parseEther('10')], {
+        account: ownersMultisig.address,
+      });
+
+      const [newMinAmount, newMaxAmount] = await Dice.read.getBetLimits([mockToken.address]);
+      expect(newMinAmount).to.equal(parseEther('0.0005'));
+      expect(newMaxAmount).to.equal(parseEther('10'));
+    });
+
+    it('Should prevent setting invalid token overrides', async function () {
+      const { Dice, ownersMultisig, user, mockToken } = await loadFixture(deployDiceFixture);
+
+      await expect(
+        Dice.write.setTokenBetAmounts([mockToken.address, parseEther('600'), 0n], {
+          account: ownersMultisig.address,
+        }),
+      ).to.be.rejectedWith('MinGreaterThanMax');
+
+      await expect(
+        Dice.write.setTokenHouseEdge([mockToken.address, 5001], {
+          account: ownersMultisig.address,
+        }),
+      ).to.be.rejectedWith('InvalidHouseEdge');
+
+      await expect(
+        Dice.write.setTokenHouseEdge([user.account.address, 2000], {
+          account: ownersMultisig.address,
+        }),
+      ).to.be.rejectedWith('token not supported!');
+
+      await expect(
+        Dice.write.setTokenHouseEdge([mockToken.address, 2000], {
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('only owners multisig!');
+    });
+  });
+
+  describe('Bet Types', function () {
+    it('Should calculate payouts for range and exact bets', async function () {
+      const { Dice } = await loadFixture(deployDiceFixture);
+      const betAmount = parseEther('1');
+
+      // BETWEEN 41-60 wins on 20 results
+      expect(await Dice.read.calculateRangePayout([betAmount, 41n, 60n, 2, zeroAddress])).to.equal(
+        (betAmount * 90n) / 20n,
+      );
+      // OUTSIDE 41-60 wins on 80 results
+      expect(await Dice.read.calculateRangePayout([betAmount, 41n, 60n, 3, zeroAddress])).to.equal(
+        (betAmount * 90n) / 80n,
+      );
+      // EXACT wins on a single result
+      expect(await Dice.read.calculatePayout([betAmount, 42n, 4, zeroAddress])).to.equal(
+        betAmount * 90n,
+      );
+
+      await expect(
+        Dice.read.calculateRangePayout([betAmount, 60n, 41n, 2, zeroAddress]),
+      ).to.be.rejectedWith('InvalidTargetNumber');
+      await expect(
+        Dice.read.calculateRangePayout([betAmount, 1n, 100n, 3, zeroAddress]),
+      ).to.be.rejectedWith('InvalidTargetNumber');
+    });
+
+    it('Should settle BETWEEN bets inclusively', async function () {
+      const { Dice, MockVRFCoordinator, user } = await loadFixture(deployDiceFixture);
+      const betAmount = 1000000000000000n;
+
+      await Dice.write.rollRange([41n, 60n, 2, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: betAmount,
+      });
+
+      // 59 % 100 + 1 = 60, the high end of the range
+      await MockVRFCoordinator.write.fulfillRandomWords([Dice.address, [59n]], {
+        account: user.account.address,
+      });
+
+      const events = await Dice.getEvents.BetSettled();
+      expect(events[0].args.targetNumber).to.equal(41n);
+      expect(events[0].args.upperNumber).to.equal(60n);
+      expect(events[0].args.comparisonType).to.equal(2);
+      expect(events[0].args.result).to.equal(60n);
+      expect(events[0].args.won).to.be.true;
+      expect(events[0].args.payout).to.equal((betAmount * 90n) / 20n);
+
+      const bet = await Dice.read.getCurrentBet({
+        account: user.account.address,
+      });
+      expect(bet[1]).to.equal(41n);
+      expect(bet[6]).to.equal(60n);
+    });
+
+    it('Should settle OUTSIDE bets', async function () {
+      const { Dice, MockVRFCoordinator, user } = await loadFixture(deployDiceFixture);
+      const betAmount = 1000000000000000n;
+
+      await Dice.write.rollRange([41n, 60n, 3, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: betAmount,
+      });
+
+      // 40 % 100 + 1 = 41, inside the range
+      await MockVRFCoordinator.write.fulfillRandomWords([Dice.address, [40n]], {
+        account: user.account.address,
+      });
+
+      let events = await Dice.getEvents.BetSettled();
+      expect(events[0].args.won).to.be.false;
+
+      await Dice.write.rollRange([41n, 60n, 3, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: betAmount,
+      });
+
+      // 60 % 100 + 1 = 61, just above the range
+      await MockVRFCoordinator.write.fulfillRandomWords([Dice.address, [60n]], {
+        account: user.account.address,
+      });
+
+      events = await Dice.getEvents.BetSettled();
+      expect(events[0].args.won).to.be.true;
+      expect(events[0].args.payout).to.equal((betAmount * 90n) / 80n);
+    });
+
+    it('Should settle EXACT bets', async function () {
+      const { Dice, MockVRFCoordinator, user } = await loadFixture(deployDiceFixture);
+      const betAmount = 1000000000000000n;
+
+      const txHash = await Dice.write.roll([42n, 4, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: betAmount,
+      });
+      const publicClient = await hre.viem.getPublicClient();
+      const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
+      const requestEvents = await Dice.getEvents.DiceRollRequested(
+        {},
+        {
+          blockHash: receipt.blockHash,
+        },
+      );
+      expect(requestEvents[0].args.targetNumber).to.equal(42n);
+      expect(requestEvents[0].args.upperNumber).to.equal(42n);
+      expect(requestEvents[0].args.comparisonType).to.equal(4);
+
+      // 41 % 100 + 1 = 42
+      await MockVRFCoordinator.write.fulfillRandomWords([Dice.address, [41n]], {
+        account: user.account.address,
+      });
+
+      const events = await Dice.getEvents.BetSettled();
+      expect(events[0].args.won).to.be.true;
+      expect(events[0].args.payout).to.equal(betAmount * 90n);
+    });
+
+    it('Should reject invalid ranges', async function () {
+      const { Dice, user } = await loadFixture(deployDiceFixture);
+      const betAmount = 1000000000000000n;
+
+      // Low end above high end
+      await expect(
+        Dice.write.rollRange([60n, 41n, 2, zeroAddress, 0n, zeroAddress], {
+          account: user.account.address,
+          value: betAmount,
+        }),
+      ).to.be.rejectedWith('InvalidTargetNumber');
+
+      // High end above maxBetValue
+      await expect(
+        Dice.write.rollRange([41n, 95n, 2, zeroAddress, 0n, zeroAddress], {
+          account: user.account.address,
+          value: betAmount,
+        }),
+      ).to.be.rejectedWith('InvalidTargetNumber');
+
+      // Range given for a non-range bet type
+      await expect(
+        Dice.write.rollRange([41n, 60n, 4, zeroAddress, 0n, zeroAddress], {
+          account: user.account.address,
+          value: betAmount,
+        }),
+      ).to.be.rejectedWith('InvalidTargetNumber');
+    });
+  });
+
+  describe('High Resolution', function () {
+    it('Should allow owners multisig to toggle high resolution mode', async function () {
+      const { Dice, ownersMultisig, user } = await loadFixture(deployDiceFixture);
+
+      expect(await Dice.read.highResolution()).to.be.false;
+
+      await Dice.write.setHighResolution([true], {
+        account: ownersMultisig.address,
+      });
+      expect(await Dice.read.highResolution()).to.be.true;
+
+      await expect(
+        Dice.write.setHighResolution([false], {
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('only owners multisig!');
+    });
+
+    it('Should calculate payouts on the 0-9999 scale', async function () {
+      const { Dice, ownersMultisig } = await loadFixture(deployDiceFixture);
+      const betAmount = parseEther('1');
+
+      await Dice.write.setHighResolution([true], {
+        account: ownersMultisig.address,
+      });
+
+      // Results above 42.50 (4251-9999)
+      expect(await Dice.read.calculatePayout([betAmount, 4250n, 0, zeroAddress])).to.equal(
+        (betAmount * 9000n * 10000n) / (5749n * 10000n),
+      );
+      // Results below 42.50 (0-4249)
+      expect(await Dice.read.calculatePayout([betAmount, 4250n, 1, zeroAddress])).to.equal(
+        (betAmount * 9000n * 10000n) / (4250n * 10000n),
+      );
+      // Results between 25.00 and 74.99
+      expect(
+        await Dice.read.calculateRangePayout([betAmount, 2500n, 7499n, 2, zeroAddress]),
+      ).to.equal((betAmount * 9000n * 10000n) / (5000n * 10000n));
+
+      await expect(
+        Dice.read.calculatePayout([betAmount, 10000n, 4, zeroAddress]),
+      ).to.be.rejectedWith('InvalidTargetNumber');
+    });
+
+    it('Should settle high resolution bets with 0-9999 results', async function () {
+      const { Dice, MockVRFCoordinator, ownersMultisig, user } = await loadFixture(deployDiceFixture);
+      const betAmount = 1000000000000000n;
+
+      await Dice.write.setHighResolution([true], {
+        account: ownersMultisig.address,
+      });
+
+      await Dice.write.roll([4250n, 0, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: betAmount,
+      });
+
+      const requestEvents = await Dice.getEvents.DiceRollRequested();
+      expect(requestEvents[0].args.targetNumber).to.equal(4250n);
+      expect(requestEvents[0].args.highResolution).to.be.true;
+
+      await MockVRFCoordinator.write.fulfillRandomWords([Dice.address, [14251n]], {
+        account: user.account.address,
+      });
+
+      const events = await Dice.getEvents.BetSettled();
+      expect(events[0].args.result).to.equal(4251n);
+      expect(events[0].args.won).to.be.true;
+      expect(events[0].args.highResolution).to.be.true;
+      expect(events[0].args.payout).to.equal((betAmount * 9000n * 10000n) / (5749n * 10000n));
+
+      expect(await Dice.read.getLatestRollResult({ account: user.account.address })).to.equal(
+        4251n,
+      );
+    });
+
+    it('Should validate targets against scaled bet values', async function () {
+      const { Dice, ownersMultisig, user } = await loadFixture(deployDiceFixture);
+      const betAmount = 1000000000000000n;
+
+      await Dice.write.setHighResolution([true], {
+        account: ownersMultisig.address,
+      });
+
+      // minBetValue 10 -> 10.00
+      await expect(
+        Dice.write.roll([999n, 0, zeroAddress, 0n, zeroAddress], {
+          account: user.account.address,
+          value: betAmount,
+        }),
+      ).to.be.rejectedWith('InvalidTargetNumber');
+
+      // maxBetValue 90 -> 90.00
+      await expect(
+        Dice.write.roll([9001n, 0, zeroAddress, 0n, zeroAddress], {
+          account: user.account.address,
+          value: betAmount,
+        }),
+      ).to.be.rejectedWith('InvalidTargetNumber');
+
+      await Dice.write.roll([9000n, 1, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: betAmount,
+      });
+    });
+
+    it('Should settle pending bets in the mode they were placed in', async function () {
+      const { Dice, MockVRFCoordinator, ownersMultisig, user } = await loadFixture(deployDiceFixture);
+
+      await Dice.write.roll([50n, 0, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: 1000000000000000n,
+      });
+
+      await Dice.write.setHighResolution([true], {
+        account: ownersMultisig.address,
+      });
+
+      await MockVRFCoordinator.write.fulfillRandomWords([Dice.address, [123456789n]], {
+        account: user.account.address,
+      });
+
+      const events = await Dice.getEvents.BetSettled();
+      expect(events[0].args.result).to.equal((123456789n % 100n) + 1n);
+      expect(events[0].args.highResolution).to.be.false;
+    });
+  });
+
+  describe('Jackpot', function () {
+    async function deployDiceWithJackpotFixture() {
+      const fixture = await deployDiceFixture();
+      const { addressBook, deployer } = fixture;
+
+      const jackpotPoolImpl = await hre.viem.deployContract('JackpotPool');
+      const jackpotPoolInitData = encodeFunctionData({
+        abi: jackpotPoolImpl.abi,
+        functionName: 'initialize',
+        args: [addressBook.address, 100n, 1000000n], // 1% of every wager, won once in a million wagers
+      });
+      const jackpotPoolProxy = await hre.viem.deployContract('ERC1967Proxy', [
+        jackpotPoolImpl.address,
+        jackpotPoolInitData,
+      ]);
+      const jackpotPool = await hre.viem.getContractAt('JackpotPool', jackpotPoolProxy.address);
+
+      await addressBook.write.initialSetJackpotPool([jackpotPool.address], {
+        account: deployer.account.address,
+      });
+
+      return { ...fixture, jackpotPool };
+    }
+
+    it('Should contribute a share of every settled wager to the jackpot pool', async function () {
+      const { Dice, MockVRFCoordinator, jackpotPool, user, mockToken, zeroAddress } = await loadFixture(
+        deployDiceWithJackpotFixture,
+      );
+      const betAmount = parseEther('0.001');
+
+      await Dice.write.roll([50n, 0, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: betAmount,
+      });
+      await MockVRFCoordinator.write.fulfillRandomWords([Dice.address, [74n]]);
+
+      await mockToken.write.approve([Dice.address, betAmount], {
+        account: user.account.address,
+      });
+      await Dice.write.roll([50n, 0, mockToken.address, betAmount, zeroAddress], {
+        account: user.account.address,
+      });
+      await MockVRFCoordinator.write.fulfillRandomWords([Dice.address, [75n]]);
+
+      expect(await jackpotPool.read.jackpots([zeroAddress])).to.equal(betAmount / 100n);
+      expect(await jackpotPool.read.jackpots([mockToken.address])).to.equal(betAmount / 100n);
+      expect(await mockToken.read.balanceOf([jackpotPool.address])).to.equal(betAmount / 100n);
+
+      const events = await jackpotPool.getEvents.JackpotContributed();
+      expect(getAddress(events[0].args.game!)).to.equal(getAddress(Dice.address));
+      expect(getAddress(events[0].args.player!)).to.equal(getAddress(user.account.address));
+    });
+
+    it('Should pay the jackpot out when the VRF word triggers it', async function () {
+      const { Dice, MockVRFCoordinator, jackpotPool, ownersMultisig, user, zeroAddress } = await loadFixture(
+        deployDiceWithJackpotFixture,
+      );
+
+      await jackpotPool.write.fundJackpot([zeroAddress, 0n], {
+        account: user.account.address,
+        value: parseEther('1'),
+      });
+      await jackpotPool.write.setTriggerOdds([1n], { account: ownersMultisig.address });
+
+      await Dice.write.roll([50n, 0, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: parseEther('0.001'),
+      });
+      await MockVRFCoordinator.write.fulfillRandomWords([Dice.address, [74n]]);
+
+      const events = await jackpotPool.getEvents.JackpotWon();
+      expect(getAddress(events[0].args.player!)).to.equal(getAddress(user.account.address));
+      expect(events[0].args.amount).to.equal(parseEther('1.00001'));
+      expect(await jackpotPool.read.jackpots([zeroAddress])).to.equal(0n);
+      expect(await jackpotPool.read.getClaimableWinnings([user.account.address, zeroAddress])).to.equal(
+        parseEther('1.00001'),
+      );
+    });
+
+    it('Should settle bets when the wager cannot be reported after the game is removed', async function () {
+      const { Dice, MockVRFCoordinator, jackpotPool, gameManager, ownersMultisig, user, zeroAddress } =
+        await loadFixture(deployDiceWithJackpotFixture);
+
+      await Dice.write.roll([50n, 0, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: parseEther('0.001'),
+      });
+      await gameManager.write.removeGame([Dice.address], {
+        account: ownersMultisig.address,
+      });
+      await MockVRFCoordinator.write.fulfillRandomWords([Dice.address, [74n]]);
+
+      expect(await Dice.read.getPendingBetCount([user.account.address])).to.equal(0n);
+      expect(await jackpotPool.read.jackpots([zeroAddress])).to.equal(0n);
+
+      const events = await Dice.getEvents.WagerNotReported();
+      expect(events.length).to.equal(2);
+      expect(getAddress(events[1].args.receiver!)).to.equal(getAddress(jackpotPool.address));
+      expect(events[1].args.amount).to.equal(parseEther('0.001'));
+    });
+
+    it('Should settle bets when the jackpot pool cannot price the wager', async function () {
+      const { Dice, MockVRFCoordinator, jackpotPool, user, zeroAddress } = await loadFixture(
+        deployDiceWithJackpotFixture,
+      );
+
+      await Dice.write.roll([50n, 0, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: parseEther('0.001'),
+      });
+      // Replace the jackpot pool with code that reverts every call
+      await setCode(jackpotPool.address, '0x60006000fd');
+      await MockVRFCoordinator.write.fulfillRandomWords([Dice.address, [74n]]);
+
+      expect(await Dice.read.getPendingBetCount([user.account.address])).to.equal(0n);
+
+      const events = await Dice.getEvents.WagerNotReported();
+      expect(events.length).to.equal(1);
+      expect(getAddress(events[0].args.receiver!)).to.equal(getAddress(jackpotPool.address));
+    });
+  });
+
+  describe('Bet History', function () {
+    it('Should record every bet with a global bet ID and the roll result', async function () {
+      const { Dice, MockVRFCoordinator, user, zeroAddress } = await loadFixture(deployDiceFixture);
+      const betAmount = 1000000000000000n;
+
+      for (const randomWord of [74n, 24n, 99n]) {
+        await Dice.write.roll([50n, 0, zeroAddress, 0n, zeroAddress], {
+          account: user.account.address,
+          value: betAmount,
+        });
+        await MockVRFCoordinator.write.fulfillRandomWords([Dice.address, [randomWord]]);
+      }
+
+      expect(await Dice.read.getBetCount()).to.equal(3n);
+      expect(await Dice.read.getPlayerBetCount([user.account.address])).to.equal(3n);
+      expect(await Dice.read.getPlayerBetIds([user.account.address, 0n, 10n])).to.deep.equal([1n, 2n, 3n]);
+
+      const requestEvents = await Dice.getEvents.DiceRollRequested({}, { fromBlock: 0n });
+      expect(await Dice.read.getBetIdByRequestId([requestEvents[1].args.requestId!])).to.equal(2n);
+
+      const record = await Dice.read.getBet([2n]);
+      expect(record.betId).to.equal(2n);
+      expect(record.requestId).to.equal(requestEvents[1].args.requestId);
+      expect(getAddress(record.player)).to.equal(getAddress(user.account.address));
+      expect(record.bet.amount).to.equal(betAmount);
+      expect(record.bet.token).to.equal(zeroAddress);
+      expect(record.bet.settled).to.be.true;
+      expect(record.bet.won).to.be.false;
+      expect(record.bet.result).to.equal(25n);
+
+      const [winningRecord] = await Dice.read.getPlayerBets([user.account.address, 2n, 1n]);
+      expect(winningRecord.betId).to.equal(3n);
+      expect(winningRecord.bet.won).to.be.true;
+      expect(winningRecord.bet.result).to.equal(100n);
+      expect(winningRecord.bet.payout).to.equal(await Dice.read.calculatePayout([betAmount, 50n, 0, zeroAddress]));
+    });
+
+    it('Should paginate the bets of a player', async function () {
+      const { Dice, MockVRFCoordinator, user, deployer, zeroAddress } = await loadFixture(deployDiceFixture);
+
+      for (let i = 0; i < 5; i++) {
+        await Dice.write.roll([50n, 0, zeroAddress, 0n, zeroAddress], {
+          account: user.account.address,
+          value: 1000000000000000n,
+        });
+        await MockVRFCoordinator.write.fulfillRandomWords([Dice.address, [BigInt(i)]]);
+      }
+
+      const page = await Dice.read.getPlayerBets([user.account.address, 3n, 10n]);
+      expect(page.map((record) => record.betId)).to.deep.equal([4n, 5n]);
+
+      expect(await Dice.read.getPlayerBets([user.account.address, 5n, 10n])).to.deep.equal([]);
+      expect(await Dice.read.getPlayerBetIds([user.account.address, 1n, 0n])).to.deep.equal([]);
+      expect(await Dice.read.getPlayerBetIds([user.account.address, 3n, maxUint256])).to.deep.equal([4n, 5n]);
+      expect(await Dice.read.getPlayerBetCount([deployer.account.address])).to.equal(0n);
+    });
+
+    it('Should mark refunded bets in the bet history', async function () {
+      const { Dice, user, zeroAddress } = await loadFixture(deployDiceFixture);
+
+      await Dice.write.roll([50n, 0, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: 1000000000000000n,
+      });
+
+      expect((await Dice.read.getBet([1n])).bet.settled).to.be.false;
+
+      await time.increase(await Dice.read.refundTimeout());
+      await Dice.write.refundBet({
+        account: user.account.address,
+      });
+
+      const record = await Dice.read.getBet([1n]);
+      expect(record.bet.settled).to.be.true;
+      expect(record.bet.refunded).to.be.true;
+      expect(record.bet.won).to.be.false;
+    });
+
+    it('Should revert when getting a bet that does not exist', async function () {
+      const { Dice } = await loadFixture(deployDiceFixture);
+
+      await expect(Dice.read.getBet([0n])).to.be.rejectedWith('BetNotFound');
+      await expect(Dice.read.getBet([1n])).to.be.rejectedWith('BetNotFound');
+    });
+  });
+
+  describe('Concurrent Bets', function () {
+    it('Should only allow owners multisig to set the max pending bets', async function () {
+      const { Dice, user, ownersMultisig } = await loadFixture(deployDiceFixture);
+
+      await expect(
+        Dice.write.setMaxPendingBets([3n], {
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('only owners multisig!');
+
+      await expect(
+        Dice.write.setMaxPendingBets([0n], {
+          account: ownersMultisig.address,
+        }),
+      ).to.be.rejectedWith('InvalidMaxPendingBets');
+
+      expect(await Dice.read.getMaxPendingBets()).to.equal(1n);
+      await Dice.write.setMaxPendingBets([3n], {
+        account: ownersMultisig.address,
+      });
+      expect(await Dice.read.getMaxPendingBets()).to.equal(3n);
+    });
+
+    it('Should allow pending bets up to the configured cap', async function () {
+      const { Dice, user, ownersMultisig, zeroAddress } = await loadFixture(deployDiceFixture);
+
+      await Dice.write.setMaxPendingBets([3n], {
+        account: ownersMultisig.address,
+      });
+
+      for (let i = 0; i < 3; i++) {
+        await Dice.write.roll([50n, 0, zeroAddress, 0n, zeroAddress], {
+          account: user.account.address,
+          value: 1000000000000000n,
+        });
+      }
+
+      expect(await Dice.read.getPendingBetCount([user.account.address])).to.equal(3n);
+      expect(await Dice.read.isRollInProgress({ account: user.account.address })).to.be.true;
+
+      await expect(
+        Dice.write.roll([50n, 0, zeroAddress, 0n, zeroAddress], {
+          account: user.account.address,
+          value: 1000000000000000n,
+        }),
+      ).to.be.rejectedWith('RollInProgress');
+    });
+
+    it('Should track the latest bet while earlier bets are still pending', async function () {
+      const { Dice, MockVRFCoordinator, user, ownersMultisig, zeroAddress } = await loadFixture(deployDiceFixture);
+
+      await Dice.write.setMaxPendingBets([2n], {
+        account: ownersMultisig.address,
+      });
+
+      await Dice.write.roll([50n, 0, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: 1000000000000000n,
+      });
+      await Dice.write.roll([30n, 0, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: 2000000000000000n,
+      });
+
+      const currentBet = await Dice.read.getCurrentBet({ account: user.account.address });
+      expect(currentBet[0]).to.equal(2000000000000000n);
+      expect(currentBet[1]).to.equal(30n);
+
+      await MockVRFCoordinator.write.fulfillRandomWords([Dice.address, [99n]]);
+
+      expect(await Dice.read.getPendingBetCount([user.account.address])).to.equal(1n);
+      expect(await Dice.read.isRollInProgress({ account: user.account.address })).to.be.true;
+      expect(await Dice.read.getLatestRollResult({ account: user.account.address })).to.equal(100n);
+      expect((await Dice.read.getBet([1n])).bet.settled).to.be.false;
+      expect((await Dice.read.getBet([2n])).bet.won).to.be.true;
+    });
+
+    it('Should refund a specific pending bet by request ID', async function () {
+      const { Dice, user, deployer, ownersMultisig, zeroAddress } = await loadFixture(deployDiceFixture);
+      const betAmount = 1000000000000000n;
+
+      await Dice.write.setMaxPendingBets([2n], {
+        account: ownersMultisig.address,
+      });
+
+      for (let i = 0; i < 2; i++) {
+        await Dice.write.roll([50n, 0, zeroAddress, 0n, zeroAddress], {
+          account: user.account.address,
+          value: betAmount,
+        });
+      }
+
+      const requestEvents = await Dice.getEvents.DiceRollRequested({}, { fromBlock: 0n });
+      const firstRequestId = requestEvents[0].args.requestId!;
+
+      await time.increase(await Dice.read.refundTimeout());
+
+      await expect(
+        Dice.write.refundBet([firstRequestId], {
+          account: deployer.account.address,
+        }),
+      ).to.be.rejectedWith('RefundNotAvailable');
+
+      const balanceBefore = await Dice.read.getContractBalance();
+      await Dice.write.refundBet([firstRequestId], {
+        account: user.account.address,
+      });
+      expect(balanceBefore - (await Dice.read.getContractBalance())).to.equal(betAmount);
+
+      expect(await Dice.read.getPendingBetCount([user.account.address])).to.equal(1n);
+      expect((await Dice.read.getBet([1n])).bet.refunded).to.be.true;
+      expect((await Dice.read.getBet([2n])).bet.settled).to.be.false;
+
+      await expect(
+        Dice.write.refundBet([firstRequestId], {
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('RefundNotAvailable');
+    });
+  });
+
+  describe('Winnings Claims', function () {
+    async function deployRejectingPlayerFixture() {
+      const fixture = await deployDiceFixture();
+      const player = await hre.viem.deployContract('MockRejectingPlayer');
+      const rollData = encodeFunctionData({
+        abi: fixture.Dice.abi,
+        functionName: 'roll',
+        args: [50n, 0, zeroAddress, 0n, zeroAddress],
+      });
+      const claimData = encodeFunctionData({
+        abi: fixture.Dice.abi,
+        functionName: 'claimWinnings',
+        args: [zeroAddress],
+      });
+
+      return { ...fixture, player, rollData, claimData };
+    }
+
+    it('Should credit winnings that cannot be pushed to the player', async function () {
+      const { Dice, MockVRFCoordinator, player, rollData } = await loadFixture(deployRejectingPlayerFixture);
+      const betAmount = 1000000000000000n;
+
+      await player.write.play([Dice.address, rollData], { value: betAmount });
+      await MockVRFCoordinator.write.fulfillRandomWords([Dice.address, [99n]]);
+
+      const payout = await Dice.read.calculatePayout([betAmount, 50n, 0, zeroAddress]);
+      expect(await Dice.read.getClaimableWinnings([player.address, zeroAddress])).to.equal(payout);
+      expect(await Dice.read.getPendingBetCount([player.address])).to.equal(0n);
+      expect((await Dice.read.getBet([1n])).bet.won).to.be.true;
+
+      const events = await Dice.getEvents.WinningsCredited();
+      expect(events.length).to.equal(1);
+      expect(getAddress(events[0].args.player!)).to.equal(getAddress(player.address));
+      expect(events[0].args.amount).to.equal(payout);
+    });
+
+    it('Should let the player claim credited winnings', async function () {
+      const { Dice, MockVRFCoordinator, publicClient, player, rollData, claimData } =
+        await loadFixture(deployRejectingPlayerFixture);
+      const betAmount = 1000000000000000n;
+
+      await player.write.play([Dice.address, rollData], { value: betAmount });
+      await MockVRFCoordinator.write.fulfillRandomWords([Dice.address, [99n]]);
+      const payout = await Dice.read.getClaimableWinnings([player.address, zeroAddress]);
+
+      await expect(player.write.play([Dice.address, claimData])).to.be.rejected;
+
+      await player.write.setAcceptsPayments([true]);
+      await player.write.play([Dice.address, claimData]);
+
+      expect(await publicClient.getBalance({ address: player.address })).to.equal(payout);
+      expect(await Dice.read.getClaimableWinnings([player.address, zeroAddress])).to.equal(0n);
+
+      const events = await Dice.getEvents.WinningsClaimed();
+      expect(events.length).to.equal(1);
+      expect(events[0].args.amount).to.equal(payout);
+
+      await expect(player.write.play([Dice.address, claimData])).to.be.rejectedWith('NothingToClaim');
+    });
+
+    it('Should credit refunds that cannot be pushed when cancelling stale requests', async function () {
+      const { Dice, user, administrator, player, rollData } = await loadFixture(deployRejectingPlayerFixture);
+      const betAmount = 1000000000000000n;
+
+      await player.write.play([Dice.address, rollData], { value: betAmount });
+      await Dice.write.roll([50n, 0, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: betAmount,
+      });
+      const requestIds = [(await Dice.read.getBet([1n])).requestId, (await Dice.read.getBet([2n])).requestId];
+
+      await time.increase(await Dice.read.refundTimeout());
+      await Dice.write.cancelStaleRequests([requestIds], {
+        account: administrator.account.address,
+      });
+
+      expect((await Dice.read.getBet([1n])).bet.refunded).to.be.true;
+      expect((await Dice.read.getBet([2n])).bet.refunded).to.be.true;
+      expect(await Dice.read.getClaimableWinnings([player.address, zeroAddress])).to.equal(betAmount);
+      expect(await Dice.read.getClaimableWinnings([user.account.address, zeroAddress])).to.equal(0n);
+    });
+
+    it('Should not allow withdrawing unclaimed winnings to treasury', async function () {
+      const { Dice, MockVRFCoordinator, publicClient, administrator, player, rollData } =
+        await loadFixture(deployRejectingPlayerFixture);
+
+      await player.write.play([Dice.address, rollData], { value: 1000000000000000n });
+      await MockVRFCoordinator.write.fulfillRandomWords([Dice.address, [99n]]);
+
+      const balance = await publicClient.getBalance({ address: Dice.address });
+      const payout = await Dice.read.getClaimableWinnings([player.address, zeroAddress]);
+
+      await expect(
+        Dice.write.withdrawToTreasury([zeroAddress, balance - payout], {
+          account: administrator.account.address,
+        }),
+      ).to.be.rejectedWith('InsufficientContractBalance');
+
+      const [, maxLiability] = await Dice.read.getExposure([zeroAddress]);
+      expect(maxLiability).to.equal(((balance - payout) * (await Dice.read.maxExposureRatio())) / 10000n);
+    });
+  });
+
+  describe('Deferred Settlement', function () {
+    it('Should only allow owners multisig to defer settlement', async function () {
+      const { Dice, user, ownersMultisig } = await loadFixture(deployDiceFixture);
+
+      await expect(
+        Dice.write.setDeferredSettlement([true], {
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('only owners multisig!');
+
+      expect(await Dice.read.isSettlementDeferred()).to.be.false;
+      await Dice.write.setDeferredSettlement([true], {
+        account: ownersMultisig.address,
+      });
+      expect(await Dice.read.isSettlementDeferred()).to.be.true;
+    });
+
+    it('Should record the random word and let anyone settle the bet', async function () {
+      const { Dice, MockVRFCoordinator, publicClient, user, deployer, ownersMultisig, zeroAddress } =
+        await loadFixture(deployDiceFixture);
+      const betAmount = 1000000000000000n;
+
+      await Dice.write.setDeferredSettlement([true], {
+        account: ownersMultisig.address,
+      });
+      await Dice.write.roll([50n, 0, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: betAmount,
+      });
+      await MockVRFCoordinator.write.fulfillRandomWords([Dice.address, [99n]]);
+
+      const [recorded] = await Dice.getEvents.RandomnessRecorded();
+      const requestId = recorded.args.requestId!;
+      expect(getAddress(recorded.args.player!)).to.equal(getAddress(user.account.address));
+      expect(await Dice.read.isAwaitingSettlement([requestId])).to.be.true;
+      expect(await Dice.read.isRollInProgress({ account: user.account.address })).to.be.true;
+      expect((await Dice.read.getBet([1n])).bet.settled).to.be.false;
+
+      const playerBalanceBefore = await publicClient.getBalance({ address: user.account.address });
+      await Dice.write.settle([requestId], {
+        account: deployer.account.address,
+      });
+      const playerBalanceAfter = await publicClient.getBalance({ address: user.account.address });
+
+      const record = await Dice.read.getBet([1n]);
+      expect(record.bet.settled).to.be.true;
+      expect(record.bet.won).to.be.true;
+      expect(record.bet.result).to.equal(100n);
+      expect(playerBalanceAfter - playerBalanceBefore).to.equal(record.bet.payout);
+      expect(await Dice.read.isAwaitingSettlement([requestId])).to.be.false;
+      expect(await Dice.read.isRollInProgress({ account: user.account.address })).to.be.false;
+
+      await expect(Dice.write.settle([requestId])).to.be.rejectedWith('SettlementNotAvailable');
+    });
+
+    it('Should not refund a bet whose random word is recorded', async function () {
+      const { Dice, MockVRFCoordinator, user, ownersMultisig, zeroAddress } = await loadFixture(deployDiceFixture);
+
+      await Dice.write.setDeferredSettlement([true], {
+        account: ownersMultisig.address,
+      });
+      await Dice.write.roll([50n, 0, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: 1000000000000000n,
+      });
+      await MockVRFCoordinator.write.fulfillRandomWords([Dice.address, [24n]]);
+
+      await time.increase(await Dice.read.refundTimeout());
+      await expect(
+        Dice.write.refundBet({
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('RefundNotAvailable');
+    });
+
+    it('Should settle recorded bets after settlement is no longer deferred', async function () {
+      const { Dice, MockVRFCoordinator, user, ownersMultisig, zeroAddress } = await loadFixture(deployDiceFixture);
+
+      await Dice.write.setDeferredSettlement([true], {
+        account: ownersMultisig.address,
+      });
+      await Dice.write.roll([50n, 0, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: 1000000000000000n,
+      });
+      await MockVRFCoordinator.write.fulfillRandomWords([Dice.address, [24n]]);
+      await Dice.write.setDeferredSettlement([false], {
+        account: ownersMultisig.address,
+      });
+
+      const requestId = (await Dice.read.getBet([1n])).requestId;
+      await Dice.write.settle([requestId]);
+
+      const record = await Dice.read.getBet([1n]);
+      expect(record.bet.settled).to.be.true;
+      expect(record.bet.result).to.equal(25n);
+    });
+  });
 });
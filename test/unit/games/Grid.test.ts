@@ -1,18 +1,23 @@
 import { expect } from 'chai';
 import hre from 'hardhat';
 import {
+  encodeAbiParameters,
   encodeFunctionData,
   getAddress,
+  keccak256,
   parseEther,
+  toHex,
   zeroAddress,
 } from 'viem';
 import {
   impersonateAccount,
   loadFixture,
   setBalance,
+  setStorageAt,
+  time,
 } from '@nomicfoundation/hardhat-toolbox-viem/network-helpers';
 
-import {deriveWinningCellsFromRandomViem} from '../../../utils/utils';
+import {deriveWinningCellsFromRandomViem, packCellsToMask} from '../../../utils/utils';
 
 describe('Grid Contract', function () {
   async function deployGridFixture() {
@@ -139,9 +144,9 @@ describe('Grid Contract', function () {
         1n,
         '0x8af398995b04c28e9a51adb9721ef74c74f93e6a478f39e7e0777be13527e7ef',
         addressBook.address,
-        parseEther('0.001'),
-        parseEther('1'),
-        10,
+        parseEther('0.0005'), // $0.0005
+        parseEther('500'), // $500
+        1000, // 10%
       ],
     });
     const GridProxy = await hre.viem.deployContract('ERC1967Proxy', [
@@ -325,9 +330,9 @@ describe('Grid Contract', function () {
           1n,
           '0x8af398995b04c28e9a51adb9721ef74c74f93e6a478f39e7e0777be13527e7ef',
           addressBook.address,
-          parseEther('0.001'),
-          parseEther('1'),
-          10,
+          parseEther('0.0005'), // $0.0005
+          parseEther('500'), // $500
+          1000, // 10%
         ],
       });
       const UnregisteredGridProxy = await hre.viem.deployContract('ERC1967Proxy', [
@@ -384,11 +389,12 @@ describe('Grid Contract', function () {
       const { Grid, user } = await loadFixture(deployGridFixture);
       const betAmount = 1000000000000000n;
 
-      const pot = await Grid.read.calculatePot([betAmount], {
+      const pot = await Grid.read.calculatePot([betAmount, 9, zeroAddress], {
         account: user.account.address,
       });
-      const houseEdge = await Grid.read.houseEdge({});
-      const expectedPayout = (betAmount * 2n * BigInt(100 - houseEdge)) / 100n;
+      const houseEdge = await Grid.read.houseEdgeBps({});
+      // With 9 of 25 cells and 5 winning cells the expected share of the pot is 1.8 matches * 20% = 36%
+      const expectedPayout = (betAmount * BigInt(10000 - houseEdge)) / 3600n;
 
       expect(pot).to.equal(expectedPayout);
     });
@@ -427,7 +433,7 @@ describe('Grid Contract', function () {
       expect(bet[2]).to.be.false;
       expect(bet[3]).to.be.false;
       const calculatedPot = await Grid.read.calculatePot(
-        [betAmount],
+        [betAmount, 9, zeroAddress],
         {
           account: user.account.address,
         },
@@ -457,7 +463,7 @@ describe('Grid Contract', function () {
       expect(bet[2]).to.be.false;
       expect(bet[3]).to.be.false;
       const calculatedPot = await Grid.read.calculatePot(
-        [betAmount],
+        [betAmount, 9, mockToken.address],
         {
           account: user.account.address,
         },
@@ -489,7 +495,7 @@ describe('Grid Contract', function () {
       expect(bet[1]).to.equal(targetCells);
       expect(bet[3]).to.be.true;
       const calculatedPot = await Grid.read.calculatePot(
-        [betAmount],
+        [betAmount, 9, zeroAddress],
         {
           account: user.account.address,
         },
@@ -524,7 +530,7 @@ describe('Grid Contract', function () {
       expect(bet[1]).to.equal(targetCells);
       expect(bet[3]).to.be.true;
       const calculatedPot = await Grid.read.calculatePot(
-        [betAmount],
+        [betAmount, 9, mockToken.address],
         {
           account: user.account.address,
         },
@@ -942,9 +948,8 @@ describe('Grid Contract', function () {
         account: ownersMultisig.address,
       });
 
-      // We can't directly check the s_vrfCoordinator as it's a private variable
-      // But we can verify the transaction succeeded
-      // This is similar to how other configuration tests are structured
+      const config = await Grid.read.getVRFConfig();
+      expect(getAddress(config.coordinator)).to.equal(getAddress(newCoordinator));
     });
 
     it('Should allow owners multisig to update subscription ID', async function () {
@@ -955,9 +960,7 @@ describe('Grid Contract', function () {
         account: ownersMultisig.address,
       });
 
-      // We can't directly check the subscriptionId as it's a private variable
-      // But we can verify the transaction succeeded
-      // This is similar to how other configuration tests are structured
+      expect((await Grid.read.getVRFConfig()).subscriptionId).to.equal(newSubscriptionId);
     });
 
     it('Should allow owners multisig to update both VRF Coordinator and subscription ID', async function () {
@@ -969,8 +972,9 @@ describe('Grid Contract', function () {
         account: ownersMultisig.address,
       });
 
-      // We can't directly check the private variables
-      // But we can verify the transaction succeeded
+      const config = await Grid.read.getVRFConfig();
+      expect(getAddress(config.coordinator)).to.equal(getAddress(newCoordinator));
+      expect(config.subscriptionId).to.equal(newSubscriptionId);
     });
 
     it('Should prevent non-owners from updating VRF settings', async function () {
@@ -1054,23 +1058,50 @@ describe('Grid Contract', function () {
 
     it('Should allow owners multisig to set house edge', async function () {
       const { Grid, ownersMultisig } = await loadFixture(deployGridFixture);
-      const initialHouseEdge = await Grid.read.houseEdge();
-      const newHouseEdge = initialHouseEdge + 5;
+      const initialHouseEdge = await Grid.read.houseEdgeBps();
+      const newHouseEdge = initialHouseEdge + 500;
 
       await Grid.write.setHouseEdge([newHouseEdge], {
         account: ownersMultisig.address,
       });
 
-      const updatedHouseEdge = await Grid.read.houseEdge();
+      const updatedHouseEdge = await Grid.read.houseEdgeBps();
 
       expect(updatedHouseEdge).to.equal(newHouseEdge);
+      expect(await Grid.read.houseEdge()).to.equal(15);
+    });
+
+    it('Should support fractional house edge in basis points', async function () {
+      const { Grid, ownersMultisig } = await loadFixture(deployGridFixture);
+
+      await Grid.write.setHouseEdge([150], {
+        account: ownersMultisig.address,
+      });
+
+      expect(await Grid.read.houseEdgeBps()).to.equal(150);
+      expect(await Grid.read.getHouseEdge([zeroAddress])).to.equal(150);
+      // The whole percent value exposed through IGame is rounded down
+      expect(await Grid.read.houseEdge()).to.equal(1);
+
+      const pot = await Grid.read.calculatePot([parseEther('1'), 9, zeroAddress]);
+      expect(pot).to.equal((parseEther('1') * 9850n) / 3600n);
+    });
+
+    it('Should not allow running the house edge migration on new proxies', async function () {
+      const { Grid, ownersMultisig } = await loadFixture(deployGridFixture);
+
+      await expect(
+        Grid.write.initializeV2({
+          account: ownersMultisig.address,
+        }),
+      ).to.be.rejectedWith('InvalidInitialization');
     });
 
     it('Should prevent setting invalid house edge', async function () {
       const { Grid, ownersMultisig } = await loadFixture(deployGridFixture);
 
       await expect(
-        Grid.write.setHouseEdge([51], {
+        Grid.write.setHouseEdge([5001], {
           account: ownersMultisig.address,
         }),
       ).to.be.rejectedWith('InvalidHouseEdge');
@@ -1092,7 +1123,7 @@ describe('Grid Contract', function () {
       ).to.be.rejected;
 
       await expect(
-        Grid.write.setHouseEdge([15], {
+        Grid.write.setHouseEdge([1500], {
           account: user.account.address,
         }),
       ).to.be.rejected;
@@ -1112,9 +1143,7 @@ describe('Grid Contract', function () {
         account: ownersMultisig.address,
       });
 
-      // We can't directly check the callbackGasLimit as it's a private variable
-      // But we can verify the transaction succeeded
-      // This is similar to how other configuration tests are structured
+      expect((await Grid.read.getVRFConfig()).callbackGasLimit).to.equal(newGasLimit);
     });
 
     it('Should prevent setting invalid callback gas limit', async function () {
@@ -1133,6 +1162,69 @@ describe('Grid Contract', function () {
       ).to.be.rejectedWith('Gas limit too low');
     });
 
+    it('Should return the VRF config', async function () {
+      const { Grid, MockVRFCoordinator } = await loadFixture(deployGridFixture);
+
+      const config = await Grid.read.getVRFConfig();
+      expect(getAddress(config.coordinator)).to.equal(getAddress(MockVRFCoordinator.address));
+      expect(config.keyHash).to.equal('0x8af398995b04c28e9a51adb9721ef74c74f93e6a478f39e7e0777be13527e7ef');
+      expect(config.callbackGasLimit).to.equal(300000);
+      expect(config.requestConfirmations).to.equal(3);
+      expect(config.nativePayment).to.be.false;
+    });
+
+    it('Should allow owners multisig to update the key hash, confirmations and native payment', async function () {
+      const { Grid, ownersMultisig } = await loadFixture(deployGridFixture);
+      const newKeyHash = '0x787d74caea10b2b357790d5b5247c2f63d1d91572a9846f780606e4d953677ae';
+
+      await Grid.write.setKeyHash([newKeyHash], {
+        account: ownersMultisig.address,
+      });
+      await Grid.write.setRequestConfirmations([10], {
+        account: ownersMultisig.address,
+      });
+      await Grid.write.setNativePayment([true], {
+        account: ownersMultisig.address,
+      });
+
+      const config = await Grid.read.getVRFConfig();
+      expect(config.keyHash).to.equal(newKeyHash);
+      expect(config.requestConfirmations).to.equal(10);
+      expect(config.nativePayment).to.be.true;
+
+      expect((await Grid.getEvents.KeyHashSet({ fromBlock: 0n }))[0].args.keyHash).to.equal(newKeyHash);
+      expect((await Grid.getEvents.RequestConfirmationsSet({ fromBlock: 0n }))[0].args.requestConfirmations).to.equal(10);
+      expect((await Grid.getEvents.NativePaymentSet())[0].args.nativePayment).to.be.true;
+    });
+
+    it('Should prevent setting an invalid key hash or number of confirmations', async function () {
+      const { Grid, ownersMultisig, user } = await loadFixture(deployGridFixture);
+
+      await expect(
+        Grid.write.setKeyHash(['0x0000000000000000000000000000000000000000000000000000000000000000'], {
+          account: ownersMultisig.address,
+        }),
+      ).to.be.rejectedWith('InvalidKeyHash');
+
+      await expect(
+        Grid.write.setRequestConfirmations([2], {
+          account: ownersMultisig.address,
+        }),
+      ).to.be.rejectedWith('InvalidRequestConfirmations');
+
+      await expect(
+        Grid.write.setRequestConfirmations([201], {
+          account: ownersMultisig.address,
+        }),
+      ).to.be.rejectedWith('InvalidRequestConfirmations');
+
+      await expect(
+        Grid.write.setNativePayment([true], {
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('only owners multisig!');
+    });
+
     it('Should allow owners multisig to set win cells quantity', async function () {
       const { Grid, ownersMultisig } = await loadFixture(deployGridFixture);
 
@@ -1317,4 +1409,985 @@ describe('Grid Contract', function () {
       ).to.be.rejectedWith('InsufficientContractBalance');
     });
   });
+
+  describe('Refunds', function () {
+    it('Should revert refund before the refund timeout', async function () {
+      const { Grid, user, zeroAddress } = await loadFixture(deployGridFixture);
+
+      await Grid.write.roll([0b0000000000000000111111111, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: 1000000000000000n,
+      });
+
+      await expect(
+        Grid.write.refundBet({
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('RefundNotAvailable');
+    });
+
+    it('Should refund native token bet after the refund timeout', async function () {
+      const { Grid, MockVRFCoordinator, user, zeroAddress } = await loadFixture(deployGridFixture);
+      const betAmount = 1000000000000000n;
+
+      await Grid.write.roll([0b0000000000000000111111111, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: betAmount,
+      });
+
+      await time.increase(await Grid.read.refundTimeout());
+
+      const balanceBefore = await Grid.read.getContractBalance();
+      await Grid.write.refundBet({
+        account: user.account.address,
+      });
+      const balanceAfter = await Grid.read.getContractBalance();
+
+      expect(balanceBefore - balanceAfter).to.equal(betAmount);
+
+      const events = await Grid.getEvents.BetRefunded();
+      expect(events.length).to.equal(1);
+      expect(events[0].args.amount).to.equal(betAmount);
+
+      const rollInProgress = await Grid.read.isRollInProgress({
+        account: user.account.address,
+      });
+      expect(rollInProgress).to.be.false;
+
+      await MockVRFCoordinator.write.fulfillRandomWords([Grid.address, [123456789n]], {
+        account: user.account.address,
+      });
+
+      const fulfilledEvents = await Grid.getEvents.GridRollFulfilled();
+      expect(fulfilledEvents.length).to.equal(0);
+    });
+
+    it('Should run the refund timeout of bets placed before the migration from the migration', async function () {
+      const { Grid, ownersMultisig, publicClient, user, zeroAddress } = await loadFixture(deployGridFixture);
+
+      await Grid.write.roll([0b0000000000000000111111111, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: 1000000000000000n,
+      });
+      const [requested] = await Grid.getEvents.GridRollRequested();
+      const { timestamp } = await publicClient.getBlock();
+
+      // Clear the creation time of the bet, which bets placed before the migration do not have
+      let createdAtSlot: bigint | undefined;
+      for (let mappingSlot = 0n; createdAtSlot === undefined && mappingSlot < 32n; mappingSlot++) {
+        const betSlot = BigInt(
+          keccak256(
+            encodeAbiParameters(
+              [{ type: 'uint256' }, { type: 'uint256' }],
+              [requested.args.requestId!, mappingSlot],
+            ),
+          ),
+        );
+        const value = await publicClient.getStorageAt({ address: Grid.address, slot: toHex(betSlot + 4n) });
+        if (value !== undefined && BigInt(value) === timestamp) createdAtSlot = betSlot + 4n;
+      }
+      await setStorageAt(Grid.address, createdAtSlot!, 0n);
+
+      await time.increase(await Grid.read.refundTimeout());
+
+      // Roll the proxy back to the first initializer version and migrate it
+      await setStorageAt(Grid.address, '0xf0c57e16840df040f15088dc2f81fe391c3923bec73e23a9662efc9c229c6a00', 1n);
+      await Grid.write.initializeV2({
+        account: ownersMultisig.address,
+      });
+
+      await expect(
+        Grid.write.refundBet({
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('RefundNotAvailable');
+
+      await time.increase(await Grid.read.refundTimeout());
+      await Grid.write.refundBet({
+        account: user.account.address,
+      });
+
+      const events = await Grid.getEvents.BetRefunded();
+      expect(events.length).to.equal(1);
+    });
+
+    it('Should allow administrators to cancel stale ERC20 token requests', async function () {
+      const { Grid, user, administrator, mockToken } = await loadFixture(deployGridFixture);
+      const betAmount = 1000000000000000n;
+
+      await mockToken.write.approve([Grid.address, betAmount], {
+        account: user.account.address,
+      });
+      await Grid.write.roll([0b0000000000000000111111111, mockToken.address, betAmount, zeroAddress], {
+        account: user.account.address,
+      });
+
+      const [requested] = await Grid.getEvents.GridRollRequested();
+      const requestId = requested.args.requestId!;
+
+      await time.increase(await Grid.read.refundTimeout());
+
+      const userBalanceBefore = await mockToken.read.balanceOf([user.account.address]);
+      await Grid.write.cancelStaleRequests([[requestId]], {
+        account: administrator.account.address,
+      });
+      const userBalanceAfter = await mockToken.read.balanceOf([user.account.address]);
+
+      expect(userBalanceAfter - userBalanceBefore).to.equal(betAmount);
+
+      const bet = await Grid.read.getCurrentBet({
+        account: user.account.address,
+      });
+      expect(bet[2]).to.be.true;
+      expect(bet[3]).to.be.false;
+    });
+
+    it('Should prevent non-administrators from cancelling stale requests', async function () {
+      const { Grid, user } = await loadFixture(deployGridFixture);
+
+      await expect(
+        Grid.write.cancelStaleRequests([[1n]], {
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('only administrator!');
+    });
+
+    it('Should allow owners multisig to set refund timeout', async function () {
+      const { Grid, ownersMultisig } = await loadFixture(deployGridFixture);
+
+      await Grid.write.setRefundTimeout([7200n], {
+        account: ownersMultisig.address,
+      });
+      expect(await Grid.read.refundTimeout()).to.equal(7200n);
+
+      await expect(
+        Grid.write.setRefundTimeout([60n], {
+          account: ownersMultisig.address,
+        }),
+      ).to.be.rejectedWith('InvalidRefundTimeout');
+    });
+  });
+
+  describe('Exposure', function () {
+    it('Should track liability of pending bets and release it on fulfillment', async function () {
+      const { Grid, MockVRFCoordinator, user, zeroAddress } = await loadFixture(deployGridFixture);
+      const betAmount = 1000000000000000n;
+
+      await Grid.write.roll([0b0000000000000000111111111, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: betAmount,
+      });
+
+      const pot = await Grid.read.calculatePot([betAmount, 9, zeroAddress]);
+      const [liability] = await Grid.read.getExposure([zeroAddress]);
+      expect(liability).to.equal(pot);
+
+      await MockVRFCoordinator.write.fulfillRandomWords([Grid.address, [123456789n]], {
+        account: user.account.address,
+      });
+
+      expect(await Grid.read.liabilities([zeroAddress])).to.equal(0n);
+    });
+
+    it('Should revert if the bet exceeds the allowed exposure', async function () {
+      const { Grid, ownersMultisig, user, zeroAddress } = await loadFixture(deployGridFixture);
+
+      // 0.01% of 100 ETH bankroll
+      await Grid.write.setMaxExposureRatio([1n], {
+        account: ownersMultisig.address,
+      });
+
+      await expect(
+        Grid.write.roll([0b0000000000000000111111111, zeroAddress, 0n, zeroAddress], {
+          account: user.account.address,
+          value: parseEther('0.01'),
+        }),
+      ).to.be.rejectedWith('ExposureLimitExceeded');
+    });
+
+    it('Should prevent setting invalid max exposure ratio', async function () {
+      const { Grid, ownersMultisig } = await loadFixture(deployGridFixture);
+
+      await expect(
+        Grid.write.setMaxExposureRatio([0n], {
+          account: ownersMultisig.address,
+        }),
+      ).to.be.rejectedWith('InvalidMaxExposureRatio');
+
+      await expect(
+        Grid.write.setMaxExposureRatio([10001n], {
+          account: ownersMultisig.address,
+        }),
+      ).to.be.rejectedWith('InvalidMaxExposureRatio');
+    });
+  });
+
+  describe('Bet Limits', function () {
+    it('Should convert USD bet limits to token amounts', async function () {
+      const { Grid, mockToken, zeroAddress } = await loadFixture(deployGridFixture);
+
+      // ETH is priced at $500 and MTK at $1
+      const [nativeMin, nativeMax] = await Grid.read.getBetLimits([zeroAddress]);
+      expect(nativeMin).to.equal(parseEther('0.000001'));
+      expect(nativeMax).to.equal(parseEther('1'));
+
+      const [tokenMin, tokenMax] = await Grid.read.getBetLimits([mockToken.address]);
+      expect(tokenMin).to.equal(parseEther('0.0005'));
+      expect(tokenMax).to.equal(parseEther('500'));
+    });
+
+    it('Should revert if the bet amount is outside the token limits', async function () {
+      const { Grid, user, mockToken, zeroAddress } = await loadFixture(deployGridFixture);
+
+      await expect(
+        Grid.write.roll([0b0000000000000000111111111, zeroAddress, 0n, zeroAddress], {
+          account: user.account.address,
+          value: parseEther('1.1'),
+        }),
+      ).to.be.rejectedWith('InvalidBetAmount');
+
+      await mockToken.write.approve([Grid.address, parseEther('0.0001')], {
+        account: user.account.address,
+      });
+
+      await expect(
+        Grid.write.roll([0b0000000000000000111111111, mockToken.address, parseEther('0.0001'), zeroAddress], {
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('InvalidBetAmount');
+    });
+  });
+
+  describe('Token Overrides', function () {
+    it('Should use token house edge override in pot calculation', async function () {
+      const { Grid, ownersMultisig, mockToken, zeroAddress } = await loadFixture(deployGridFixture);
+      const betAmount = 1000000000000000n;
+
+      await Grid.write.setTokenHouseEdge([mockToken.address, 2000], {
+        account: ownersMultisig.address,
+      });
+
+      const tokenPot = await Grid.read.calculatePot([betAmount, 9, mockToken.address]);
+      expect(tokenPot).to.equal((betAmount * 8000n) / 3600n);
+
+      const nativePot = await Grid.read.calculatePot([betAmount, 9, zeroAddress]);
+      expect(nativePot).to.equal((betAmount * 9000n) / 3600n);
+
+      const [quotedPot] = await Grid.read.quote([0b111111111, betAmount, mockToken.address]);
+      expect(quotedPot).to.equal(tokenPot);
+    });
+
+    it('Should use token bet amount overrides with fallback to global values', async function () {
+      const { Grid, ownersMultisig, mockToken } = await loadFixture(deployGridFixture);
+
+      await Grid.write.setTokenBetAmounts([mockToken.address, parseEther('1'), parseEther('10')], {
+        account: ownersMultisig.address,
+      });
+
+      const [minAmount, maxAmount] = await Grid.read.getBetLimits([mockToken.address]);
+      expect(minAmount).to.equal(parseEther('1'));
+      expect(maxAmount).to.equal(parseEther('10'));
+
+      await expect(
+        Grid.write.setTokenBetAmounts([mockToken.address, parseEther('10'), parseEther('1')], {
+          account: ownersMultisig.address,
+        }),
+      ).to.be.rejectedWith('MinGreaterThanMax');
+    });
+  });
+
+  describe('Payout Table', function () {
+    it('Should expose the default payout table', async function () {
+      const { Grid } = await loadFixture(deployGridFixture);
+
+      const table = await Grid.read.getPayoutTable();
+      expect(table).to.deep.equal([0, 2000, 4000, 6000, 8000, 10000]);
+    });
+
+    it('Should allow owners multisig to set the payout table', async function () {
+      const { Grid, ownersMultisig } = await loadFixture(deployGridFixture);
+      const newTable = [0, 0, 1000, 3000, 6000, 10000];
+
+      await Grid.write.setPayoutTable([newTable], {
+        account: ownersMultisig.address,
+      });
+
+      expect(await Grid.read.getPayoutTable()).to.deep.equal(newTable);
+    });
+
+    it('Should pay out the table share for the number of matches', async function () {
+      const { Grid, MockVRFCoordinator, ownersMultisig, user, zeroAddress } =
+        await loadFixture(deployGridFixture);
+      const betAmount = 1000000000000000n;
+
+      await Grid.write.setPayoutTable([[0, 0, 1000, 3000, 6000, 10000]], {
+        account: ownersMultisig.address,
+      });
+
+      const randomWords = [123456789n];
+      const winningMask = deriveWinningCellsFromRandomViem(randomWords[0]);
+
+      // Select 3 winning cells and 6 losing cells
+      const cells: number[] = [];
+      for (let i = 0; i < 25 && cells.length < 3; i++) {
+        if (winningMask & (1 << i)) cells.push(i);
+      }
+      for (let i = 0; i < 25 && cells.length < 9; i++) {
+        if (!(winningMask & (1 << i))) cells.push(i);
+      }
+
+      await Grid.write.roll([packCellsToMask(cells), zeroAddress, betAmount, zeroAddress], {
+        account: user.account.address,
+        value: betAmount,
+      });
+
+      await MockVRFCoordinator.write.fulfillRandomWords([Grid.address, randomWords], {
+        account: user.account.address,
+      });
+
+      const pot = await Grid.read.calculatePot([betAmount, 9, zeroAddress]);
+      const events = await Grid.getEvents.BetSettled();
+      expect(events[0].args.won).to.be.true;
+      expect(events[0].args.payout).to.equal((pot * 3000n) / 10000n);
+    });
+
+    it('Should prevent setting a payout table that does not cover every match count', async function () {
+      const { Grid, ownersMultisig } = await loadFixture(deployGridFixture);
+
+      await expect(
+        Grid.write.setPayoutTable([[0, 2000, 4000, 6000, 8000]], {
+          account: ownersMultisig.address,
+        }),
+      ).to.be.rejectedWith('InvalidPayoutTable');
+
+      await expect(
+        Grid.write.setPayoutTable([[0, 2000, 4000, 6000, 8000, 10001]], {
+          account: ownersMultisig.address,
+        }),
+      ).to.be.rejectedWith('InvalidPayoutTable');
+    });
+
+    it('Should prevent raising cells quantities beyond the payout table', async function () {
+      const { Grid, ownersMultisig } = await loadFixture(deployGridFixture);
+
+      await expect(
+        Grid.write.setWinCellsQuantity([6], {
+          account: ownersMultisig.address,
+        }),
+      ).to.be.rejectedWith('InvalidPayoutTable');
+
+      await Grid.write.setPayoutTable([[0, 1000, 2000, 4000, 6000, 8000, 10000]], {
+        account: ownersMultisig.address,
+      });
+
+      await Grid.write.setWinCellsQuantity([6], {
+        account: ownersMultisig.address,
+      });
+      expect(await Grid.read.winCellsQuantity()).to.equal(6);
+    });
+
+    it('Should prevent non-owners from setting the payout table', async function () {
+      const { Grid, user } = await loadFixture(deployGridFixture);
+
+      await expect(
+        Grid.write.setPayoutTable([[0, 2000, 4000, 6000, 8000, 10000]], {
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('only owners multisig!');
+    });
+  });
+
+  describe('Cells Quantity', function () {
+    const binomial = (n: bigint, k: bigint) => {
+      if (k > n) return 0n;
+      let result = 1n;
+      for (let i = 1n; i <= k; i++) result = (result * (n - k + i)) / i;
+      return result;
+    };
+
+    it('Should allow selecting any cells quantity between the minimum and maximum', async function () {
+      const { Grid, user, zeroAddress } = await loadFixture(deployGridFixture);
+      const betAmount = 1000000000000000n;
+
+      await Grid.write.roll([packCellsToMask([0, 1, 2]), zeroAddress, betAmount, zeroAddress], {
+        account: user.account.address,
+        value: betAmount,
+      });
+
+      const bet = await Grid.read.getCurrentBet({
+        account: user.account.address,
+      });
+      // 3 cells: expected 0.6 matches * 20% = 12% of the pot
+      expect(bet[4]).to.equal((betAmount * 9000n) / 1200n);
+      expect(bet[4]).to.equal(await Grid.read.calculatePot([betAmount, 3, zeroAddress]));
+    });
+
+    it('Should revert if the cells quantity is outside the allowed range', async function () {
+      const { Grid, ownersMultisig, user, zeroAddress } = await loadFixture(deployGridFixture);
+      const betAmount = 1000000000000000n;
+
+      await expect(
+        Grid.write.roll([0, zeroAddress, betAmount, zeroAddress], {
+          account: user.account.address,
+          value: betAmount,
+        }),
+      ).to.be.rejectedWith('InvalidTargetCellsQuantity');
+
+      await expect(
+        Grid.write.roll([0b1111111111, zeroAddress, betAmount, zeroAddress], {
+          account: user.account.address,
+          value: betAmount,
+        }),
+      ).to.be.rejectedWith('InvalidTargetCellsQuantity');
+
+      await Grid.write.setMinTargetCellsQuantity([3], {
+        account: ownersMultisig.address,
+      });
+
+      await expect(
+        Grid.write.roll([0b11, zeroAddress, betAmount, zeroAddress], {
+          account: user.account.address,
+          value: betAmount,
+        }),
+      ).to.be.rejectedWith('InvalidTargetCellsQuantity');
+    });
+
+    it('Should quote the pot and payout per match count', async function () {
+      const { Grid } = await loadFixture(deployGridFixture);
+      const betAmount = 1000000000000000n;
+
+      const [pot, payouts] = await Grid.read.quote([0b111111111, betAmount, zeroAddress]);
+      expect(pot).to.equal((betAmount * 9000n) / 3600n);
+      expect(payouts).to.deep.equal([0n, 1, 2, 3, 4, 5].map(m => (pot * BigInt(m) * 2000n) / 10000n));
+
+      const [, singleCellPayouts] = await Grid.read.quote([0b1, betAmount, zeroAddress]);
+      expect(singleCellPayouts.length).to.equal(2);
+
+      await expect(Grid.read.quote([0b1111111111, betAmount, zeroAddress])).to.be.rejectedWith(
+        'InvalidTargetCellsQuantity',
+      );
+    });
+
+    it('Should keep the expected return at the house edge for every cells quantity', async function () {
+      const { Grid, ownersMultisig } = await loadFixture(deployGridFixture);
+      const betAmount = parseEther('1');
+
+      await Grid.write.setPayoutTable([[0, 0, 1000, 3000, 6000, 10000]], {
+        account: ownersMultisig.address,
+      });
+
+      for (let cellsQuantity = 2n; cellsQuantity <= 9n; cellsQuantity++) {
+        const [, payouts] = await Grid.read.quote([(1 << Number(cellsQuantity)) - 1, betAmount, zeroAddress]);
+
+        let expectedReturn = 0n;
+        payouts.forEach((payout, matches) => {
+          expectedReturn += payout * binomial(5n, BigInt(matches)) * binomial(20n, cellsQuantity - BigInt(matches));
+        });
+        expectedReturn /= binomial(25n, cellsQuantity);
+
+        const target = (betAmount * 9000n) / 10000n;
+        expect(target - expectedReturn < 10n && expectedReturn <= target).to.be.true;
+      }
+    });
+
+    it('Should allow owners multisig to set the minimum target cells quantity', async function () {
+      const { Grid, ownersMultisig, user } = await loadFixture(deployGridFixture);
+
+      await Grid.write.setMinTargetCellsQuantity([2], {
+        account: ownersMultisig.address,
+      });
+      expect(await Grid.read.minTargetCellsQuantity()).to.equal(2);
+
+      await expect(
+        Grid.write.setMinTargetCellsQuantity([0], {
+          account: ownersMultisig.address,
+        }),
+      ).to.be.rejectedWith('InvalidTargetCellsQuantity');
+
+      await expect(
+        Grid.write.setMinTargetCellsQuantity([10], {
+          account: ownersMultisig.address,
+        }),
+      ).to.be.rejectedWith('MinGreaterThanMax');
+
+      await expect(
+        Grid.write.setTargetCellsQuantity([1], {
+          account: ownersMultisig.address,
+        }),
+      ).to.be.rejectedWith('MinGreaterThanMax');
+
+      await expect(
+        Grid.write.setMinTargetCellsQuantity([2], {
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('only owners multisig!');
+    });
+  });
+
+  describe('Board Size', function () {
+    it('Should allow owners multisig to set the board size', async function () {
+      const { Grid, ownersMultisig } = await loadFixture(deployGridFixture);
+
+      await Grid.write.setTotalCellsQuantity([32], {
+        account: ownersMultisig.address,
+      });
+
+      expect(await Grid.read.totalCellsQuantity()).to.equal(32);
+    });
+
+    it('Should prevent setting an invalid board size', async function () {
+      const { Grid, ownersMultisig, user } = await loadFixture(deployGridFixture);
+
+      await expect(
+        Grid.write.setTotalCellsQuantity([33], {
+          account: ownersMultisig.address,
+        }),
+      ).to.be.rejectedWith('InvalidTotalCellsQuantity');
+
+      await expect(
+        Grid.write.setTotalCellsQuantity([0], {
+          account: ownersMultisig.address,
+        }),
+      ).to.be.rejectedWith('InvalidTotalCellsQuantity');
+
+      // The board must be larger than the 9 target cells
+      await expect(
+        Grid.write.setTotalCellsQuantity([9], {
+          account: ownersMultisig.address,
+        }),
+      ).to.be.rejectedWith('MinGreaterThanMax');
+
+      await expect(
+        Grid.write.setTotalCellsQuantity([30], {
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('only owners multisig!');
+    });
+
+    it('Should reject cells outside the board', async function () {
+      const { Grid, ownersMultisig, user, zeroAddress } = await loadFixture(deployGridFixture);
+      const betAmount = 1000000000000000n;
+
+      await expect(
+        Grid.write.roll([packCellsToMask([0, 1, 25]), zeroAddress, betAmount, zeroAddress], {
+          account: user.account.address,
+          value: betAmount,
+        }),
+      ).to.be.rejectedWith('CellOutOfBoard');
+
+      await Grid.write.setTotalCellsQuantity([32], {
+        account: ownersMultisig.address,
+      });
+
+      await Grid.write.roll([packCellsToMask([0, 1, 31]), zeroAddress, betAmount, zeroAddress], {
+        account: user.account.address,
+        value: betAmount,
+      });
+    });
+
+    it('Should settle pending bets on the board they were placed on', async function () {
+      const { Grid, MockVRFCoordinator, ownersMultisig, user, zeroAddress } = await loadFixture(deployGridFixture);
+      const betAmount = 1000000000000000n;
+      const randomWord = 123456789n;
+
+      await Grid.write.roll([packCellsToMask([0, 1, 2]), zeroAddress, betAmount, zeroAddress], {
+        account: user.account.address,
+        value: betAmount,
+      });
+      await Grid.write.setTotalCellsQuantity([32], {
+        account: ownersMultisig.address,
+      });
+      await MockVRFCoordinator.write.fulfillRandomWords([Grid.address, [randomWord]]);
+
+      const events = await Grid.getEvents.GridRollFulfilled();
+      expect(events[0].args.result).to.equal(deriveWinningCellsFromRandomViem(randomWord, 25, 5));
+      expect((await Grid.read.getBet([1n])).bet.totalCells).to.equal(25);
+    });
+
+    it('Should derive the same winning cells as the TS helper for any board size', async function () {
+      const { Grid, ownersMultisig } = await loadFixture(deployGridFixture);
+
+      for (const totalCellsQuantity of [12, 25, 32]) {
+        await Grid.write.setTotalCellsQuantity([totalCellsQuantity], {
+          account: ownersMultisig.address,
+        });
+
+        let lastCellDrawn = false;
+        for (let rw = 1n; rw <= 40n; rw++) {
+          const mask = await Grid.read._deriveWinningCellsFromRandom([rw]);
+          const expectedMask = deriveWinningCellsFromRandomViem(rw, totalCellsQuantity, 5);
+
+          expect(mask).to.equal(expectedMask);
+          expect(mask < 2 ** totalCellsQuantity).to.be.true;
+          if (mask & (1 << (totalCellsQuantity - 1))) lastCellDrawn = true;
+        }
+        expect(lastCellDrawn).to.be.true;
+      }
+    });
+  });
+
+  describe('Jackpot', function () {
+    async function deployGridWithJackpotFixture() {
+      const fixture = await deployGridFixture();
+      const { addressBook, deployer } = fixture;
+
+      const jackpotPoolImpl = await hre.viem.deployContract('JackpotPool');
+      const jackpotPoolInitData = encodeFunctionData({
+        abi: jackpotPoolImpl.abi,
+        functionName: 'initialize',
+        args: [addressBook.address, 100n, 1000000n], // 1% of every wager, won once in a million wagers
+      });
+      const jackpotPoolProxy = await hre.viem.deployContract('ERC1967Proxy', [
+        jackpotPoolImpl.address,
+        jackpotPoolInitData,
+      ]);
+      const jackpotPool = await hre.viem.getContractAt('JackpotPool', jackpotPoolProxy.address);
+
+      await addressBook.write.initialSetJackpotPool([jackpotPool.address], {
+        account: deployer.account.address,
+      });
+
+      return { ...fixture, jackpotPool };
+    }
+
+    it('Should contribute a share of every settled wager to the jackpot pool', async function () {
+      const { Grid, MockVRFCoordinator, jackpotPool, user, mockToken, zeroAddress } = await loadFixture(
+        deployGridWithJackpotFixture,
+      );
+      const betAmount = parseEther('0.001');
+
+      await Grid.write.roll([0b0000000000000000111111111, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: betAmount,
+      });
+      await MockVRFCoordinator.write.fulfillRandomWords([Grid.address, [74n]]);
+
+      await mockToken.write.approve([Grid.address, betAmount], {
+        account: user.account.address,
+      });
+      await Grid.write.roll([0b0000000000000000111111111, mockToken.address, betAmount, zeroAddress], {
+        account: user.account.address,
+      });
+      await MockVRFCoordinator.write.fulfillRandomWords([Grid.address, [75n]]);
+
+      expect(await jackpotPool.read.jackpots([zeroAddress])).to.equal(betAmount / 100n);
+      expect(await jackpotPool.read.jackpots([mockToken.address])).to.equal(betAmount / 100n);
+      expect(await mockToken.read.balanceOf([jackpotPool.address])).to.equal(betAmount / 100n);
+
+      const events = await jackpotPool.getEvents.JackpotContributed();
+      expect(getAddress(events[0].args.game!)).to.equal(getAddress(Grid.address));
+      expect(getAddress(events[0].args.player!)).to.equal(getAddress(user.account.address));
+    });
+
+    it('Should pay the jackpot out when the VRF word triggers it', async function () {
+      const { Grid, MockVRFCoordinator, jackpotPool, ownersMultisig, user, zeroAddress } = await loadFixture(
+        deployGridWithJackpotFixture,
+      );
+
+      await jackpotPool.write.fundJackpot([zeroAddress, 0n], {
+        account: user.account.address,
+        value: parseEther('1'),
+      });
+      await jackpotPool.write.setTriggerOdds([1n], { account: ownersMultisig.address });
+
+      await Grid.write.roll([0b0000000000000000111111111, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: parseEther('0.001'),
+      });
+      await MockVRFCoordinator.write.fulfillRandomWords([Grid.address, [74n]]);
+
+      const events = await jackpotPool.getEvents.JackpotWon();
+      expect(getAddress(events[0].args.player!)).to.equal(getAddress(user.account.address));
+      expect(events[0].args.amount).to.equal(parseEther('1.00001'));
+      expect(await jackpotPool.read.jackpots([zeroAddress])).to.equal(0n);
+    });
+  });
+
+  describe('Bet History', function () {
+    it('Should record every bet with a global bet ID, the winning cells and the payout', async function () {
+      const { Grid, MockVRFCoordinator, user, zeroAddress } = await loadFixture(deployGridFixture);
+      const betAmount = 1000000000000000n;
+      const targetCells = 0b0000000000000000111111111;
+      const randomWords = [123456789n, 26n];
+
+      for (const randomWord of randomWords) {
+        await Grid.write.roll([targetCells, zeroAddress, 0n, zeroAddress], {
+          account: user.account.address,
+          value: betAmount,
+        });
+        await MockVRFCoordinator.write.fulfillRandomWords([Grid.address, [randomWord]]);
+      }
+
+      expect(await Grid.read.getBetCount()).to.equal(2n);
+      expect(await Grid.read.getPlayerBetIds([user.account.address, 0n, 10n])).to.deep.equal([1n, 2n]);
+
+      const fulfilledEvents = await Grid.getEvents.GridRollFulfilled({}, { fromBlock: 0n });
+      const records = await Grid.read.getPlayerBets([user.account.address, 0n, 10n]);
+      expect(records.length).to.equal(2);
+
+      for (let i = 0; i < records.length; i++) {
+        expect(records[i].betId).to.equal(BigInt(i + 1));
+        expect(records[i].requestId).to.equal(fulfilledEvents[i].args.requestId);
+        expect(getAddress(records[i].player)).to.equal(getAddress(user.account.address));
+        expect(records[i].bet.amount).to.equal(betAmount);
+        expect(records[i].bet.cells).to.equal(targetCells);
+        expect(records[i].bet.token).to.equal(zeroAddress);
+        expect(records[i].bet.settled).to.be.true;
+        expect(records[i].bet.result).to.equal(deriveWinningCellsFromRandomViem(randomWords[i]));
+        expect(records[i].bet.payout).to.equal(fulfilledEvents[i].args.payout);
+        expect(records[i].bet.won).to.equal(fulfilledEvents[i].args.won);
+      }
+
+      expect(await Grid.read.getBet([2n])).to.deep.equal(records[1]);
+      expect(await Grid.read.getBetIdByRequestId([fulfilledEvents[0].args.requestId!])).to.equal(1n);
+    });
+
+    it('Should paginate the bets of a player', async function () {
+      const { Grid, MockVRFCoordinator, user, deployer, zeroAddress } = await loadFixture(deployGridFixture);
+
+      for (let i = 0; i < 4; i++) {
+        await Grid.write.roll([0b0000000000000000111111111, zeroAddress, 0n, zeroAddress], {
+          account: user.account.address,
+          value: 1000000000000000n,
+        });
+        await MockVRFCoordinator.write.fulfillRandomWords([Grid.address, [BigInt(i)]]);
+      }
+
+      const page = await Grid.read.getPlayerBets([user.account.address, 1n, 2n]);
+      expect(page.map((record) => record.betId)).to.deep.equal([2n, 3n]);
+
+      expect(await Grid.read.getPlayerBets([user.account.address, 4n, 10n])).to.deep.equal([]);
+      expect(await Grid.read.getPlayerBetCount([deployer.account.address])).to.equal(0n);
+    });
+
+    it('Should mark refunded bets in the bet history', async function () {
+      const { Grid, user, zeroAddress } = await loadFixture(deployGridFixture);
+
+      await Grid.write.roll([0b0000000000000000111111111, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: 1000000000000000n,
+      });
+
+      await time.increase(await Grid.read.refundTimeout());
+      await Grid.write.refundBet({
+        account: user.account.address,
+      });
+
+      const record = await Grid.read.getBet([1n]);
+      expect(record.bet.settled).to.be.true;
+      expect(record.bet.refunded).to.be.true;
+      expect(record.bet.payout).to.equal(0n);
+    });
+
+    it('Should revert when getting a bet that does not exist', async function () {
+      const { Grid } = await loadFixture(deployGridFixture);
+
+      await expect(Grid.read.getBet([1n])).to.be.rejectedWith('BetNotFound');
+    });
+  });
+
+  describe('Concurrent Bets', function () {
+    it('Should only allow owners multisig to set the max pending bets', async function () {
+      const { Grid, user, ownersMultisig } = await loadFixture(deployGridFixture);
+
+      await expect(
+        Grid.write.setMaxPendingBets([2n], {
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('only owners multisig!');
+
+      await expect(
+        Grid.write.setMaxPendingBets([0n], {
+          account: ownersMultisig.address,
+        }),
+      ).to.be.rejectedWith('InvalidMaxPendingBets');
+
+      await Grid.write.setMaxPendingBets([2n], {
+        account: ownersMultisig.address,
+      });
+      expect(await Grid.read.getMaxPendingBets()).to.equal(2n);
+    });
+
+    it('Should allow pending bets up to the configured cap and settle them independently', async function () {
+      const { Grid, MockVRFCoordinator, user, ownersMultisig, zeroAddress } = await loadFixture(deployGridFixture);
+      const targetCells = 0b0000000000000000111111111;
+
+      await Grid.write.setMaxPendingBets([2n], {
+        account: ownersMultisig.address,
+      });
+
+      for (const betAmount of [1000000000000000n, 2000000000000000n]) {
+        await Grid.write.roll([targetCells, zeroAddress, 0n, zeroAddress], {
+          account: user.account.address,
+          value: betAmount,
+        });
+      }
+
+      expect(await Grid.read.getPendingBetCount([user.account.address])).to.equal(2n);
+      await expect(
+        Grid.write.roll([targetCells, zeroAddress, 0n, zeroAddress], {
+          account: user.account.address,
+          value: 1000000000000000n,
+        }),
+      ).to.be.rejectedWith('RollInProgress');
+
+      const currentBet = await Grid.read.getCurrentBet({ account: user.account.address });
+      expect(currentBet[0]).to.equal(2000000000000000n);
+
+      await MockVRFCoordinator.write.fulfillRandomWords([Grid.address, [123456789n]]);
+
+      expect(await Grid.read.getPendingBetCount([user.account.address])).to.equal(1n);
+      expect(await Grid.read.isRollInProgress({ account: user.account.address })).to.be.true;
+      expect(await Grid.read.getLatestRollResult({ account: user.account.address })).to.equal(
+        deriveWinningCellsFromRandomViem(123456789n),
+      );
+      expect((await Grid.read.getBet([1n])).bet.settled).to.be.false;
+      expect((await Grid.read.getBet([2n])).bet.settled).to.be.true;
+    });
+
+    it('Should refund a specific pending bet by request ID', async function () {
+      const { Grid, user, ownersMultisig, zeroAddress } = await loadFixture(deployGridFixture);
+
+      await Grid.write.setMaxPendingBets([2n], {
+        account: ownersMultisig.address,
+      });
+
+      for (let i = 0; i < 2; i++) {
+        await Grid.write.roll([0b0000000000000000111111111, zeroAddress, 0n, zeroAddress], {
+          account: user.account.address,
+          value: 1000000000000000n,
+        });
+      }
+
+      const firstRequestId = (await Grid.read.getPlayerBets([user.account.address, 0n, 1n]))[0].requestId;
+
+      await time.increase(await Grid.read.refundTimeout());
+      await Grid.write.refundBet([firstRequestId], {
+        account: user.account.address,
+      });
+
+      expect(await Grid.read.getPendingBetCount([user.account.address])).to.equal(1n);
+      expect((await Grid.read.getBet([1n])).bet.refunded).to.be.true;
+      expect((await Grid.read.getBet([2n])).bet.settled).to.be.false;
+    });
+  });
+
+  describe('Winnings Claims', function () {
+    async function deployRejectingPlayerFixture() {
+      const fixture = await deployGridFixture();
+      const player = await hre.viem.deployContract('MockRejectingPlayer');
+      const randomWord = 123456789n;
+      const winningMask = deriveWinningCellsFromRandomViem(randomWord);
+
+      // Select every winning cell, then fill up with losing cells
+      const cells: number[] = [];
+      for (let i = 0; i < 25; i++) {
+        if (winningMask & (1 << i)) cells.push(i);
+      }
+      for (let i = 0; i < 25 && cells.length < 9; i++) {
+        if (!(winningMask & (1 << i))) cells.push(i);
+      }
+
+      const rollData = encodeFunctionData({
+        abi: fixture.Grid.abi,
+        functionName: 'roll',
+        args: [packCellsToMask(cells), zeroAddress, 0n, zeroAddress],
+      });
+      const claimData = encodeFunctionData({
+        abi: fixture.Grid.abi,
+        functionName: 'claimWinnings',
+        args: [zeroAddress],
+      });
+
+      return { ...fixture, player, randomWord, rollData, claimData };
+    }
+
+    it('Should credit winnings that cannot be pushed to the player', async function () {
+      const { Grid, MockVRFCoordinator, player, randomWord, rollData } =
+        await loadFixture(deployRejectingPlayerFixture);
+
+      await player.write.play([Grid.address, rollData], { value: 1000000000000000n });
+      await MockVRFCoordinator.write.fulfillRandomWords([Grid.address, [randomWord]]);
+
+      const [record] = await Grid.read.getPlayerBets([player.address, 0n, 1n]);
+      expect(record.bet.won).to.be.true;
+      expect(record.bet.payout > 0n).to.be.true;
+      expect(await Grid.read.getClaimableWinnings([player.address, zeroAddress])).to.equal(record.bet.payout);
+
+      const events = await Grid.getEvents.WinningsCredited();
+      expect(events.length).to.equal(1);
+      expect(events[0].args.amount).to.equal(record.bet.payout);
+    });
+
+    it('Should let the player claim credited winnings', async function () {
+      const { Grid, MockVRFCoordinator, publicClient, player, randomWord, rollData, claimData } =
+        await loadFixture(deployRejectingPlayerFixture);
+
+      await player.write.play([Grid.address, rollData], { value: 1000000000000000n });
+      await MockVRFCoordinator.write.fulfillRandomWords([Grid.address, [randomWord]]);
+      const payout = await Grid.read.getClaimableWinnings([player.address, zeroAddress]);
+
+      await player.write.setAcceptsPayments([true]);
+      await player.write.play([Grid.address, claimData]);
+
+      expect(await publicClient.getBalance({ address: player.address })).to.equal(payout);
+      expect(await Grid.read.getClaimableWinnings([player.address, zeroAddress])).to.equal(0n);
+      await expect(player.write.play([Grid.address, claimData])).to.be.rejectedWith('NothingToClaim');
+    });
+  });
+
+  describe('Deferred Settlement', function () {
+    it('Should record the random word and let anyone settle the bet', async function () {
+      const { Grid, MockVRFCoordinator, user, deployer, ownersMultisig, zeroAddress } =
+        await loadFixture(deployGridFixture);
+      const randomWord = 123456789n;
+
+      await expect(
+        Grid.write.setDeferredSettlement([true], {
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('only owners multisig!');
+
+      await Grid.write.setDeferredSettlement([true], {
+        account: ownersMultisig.address,
+      });
+      await Grid.write.roll([0b0000000000000000111111111, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: 1000000000000000n,
+      });
+      await MockVRFCoordinator.write.fulfillRandomWords([Grid.address, [randomWord]]);
+
+      const requestId = (await Grid.read.getBet([1n])).requestId;
+      expect(await Grid.read.isAwaitingSettlement([requestId])).to.be.true;
+      expect((await Grid.read.getBet([1n])).bet.settled).to.be.false;
+      expect(await Grid.getEvents.GridRollFulfilled()).to.have.length(0);
+
+      await Grid.write.settle([requestId], {
+        account: deployer.account.address,
+      });
+
+      const record = await Grid.read.getBet([1n]);
+      expect(record.bet.settled).to.be.true;
+      expect(record.bet.result).to.equal(deriveWinningCellsFromRandomViem(randomWord));
+      expect(await Grid.read.getPendingBetCount([user.account.address])).to.equal(0n);
+
+      const [fulfilled] = await Grid.getEvents.GridRollFulfilled();
+      expect(fulfilled.args.requestId).to.equal(requestId);
+    });
+
+    it('Should revert settling a bet without a recorded random word', async function () {
+      const { Grid, user, ownersMultisig, zeroAddress } = await loadFixture(deployGridFixture);
+
+      await Grid.write.setDeferredSettlement([true], {
+        account: ownersMultisig.address,
+      });
+      await Grid.write.roll([0b0000000000000000111111111, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: 1000000000000000n,
+      });
+
+      const requestId = (await Grid.read.getBet([1n])).requestId;
+      await expect(Grid.write.settle([requestId])).to.be.rejectedWith('SettlementNotAvailable');
+    });
+  });
 });
@@ -0,0 +1,756 @@
+import { expect } from 'chai';
+import hre from 'hardhat';
+import { encodeFunctionData, getAddress, keccak256, parseEther, toHex, zeroAddress } from 'viem';
+import {
+  impersonateAccount,
+  loadFixture,
+  setBalance,
+  setCode,
+  time,
+} from '@nomicfoundation/hardhat-toolbox-viem/network-helpers';
+import { deriveLotteryWinningTicketsViem } from '../../../utils/utils';
+
+describe('Lottery Contract', function () {
+  const ROUND_DURATION = 24n * 60n * 60n;
+  const CLAIM_PERIOD = 7 * 24 * 60 * 60;
+  // $1 at $500 per ETH
+  const NATIVE_TICKET_PRICE = parseEther('0.002');
+  const RANDOM_WORD = BigInt(keccak256(toHex('lottery')));
+
+  async function deployLotteryFixture() {
+    const [deployer, user, player2, , , , , administrator, owner1, owner2] =
+      await hre.viem.getWalletClients();
+    const publicClient = await hre.viem.getPublicClient();
+    const owners = [owner1, owner2];
+
+    const ownersMultisigImpl = await hre.viem.deployContract('MultisigWallet');
+    const ownersMultisigImplInitData = encodeFunctionData({
+      abi: ownersMultisigImpl.abi,
+      functionName: 'initialize',
+      args: [BigInt(owners.length), owners.map(owner => owner.account.address)],
+    });
+    const ownersMultisigProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      ownersMultisigImpl.address,
+      ownersMultisigImplInitData,
+    ]);
+    const ownersMultisig = await hre.viem.getContractAt(
+      'MultisigWallet',
+      ownersMultisigProxy.address,
+    );
+
+    await impersonateAccount(ownersMultisig.address);
+    await setBalance(ownersMultisig.address, parseEther('100'));
+
+    const accessRolesImpl = await hre.viem.deployContract('AccessRoles');
+    const accessRolesInitData = encodeFunctionData({
+      abi: accessRolesImpl.abi,
+      functionName: 'initialize',
+      args: [ownersMultisig.address, [administrator.account.address]],
+    });
+    const accessRolesProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      accessRolesImpl.address,
+      accessRolesInitData,
+    ]);
+    const accessRoles = await hre.viem.getContractAt('AccessRoles', accessRolesProxy.address);
+
+    const addressBookImpl = await hre.viem.deployContract('AddressBook');
+    const addressBookInitData = encodeFunctionData({
+      abi: addressBookImpl.abi,
+      functionName: 'initialize',
+      args: [accessRoles.address],
+    });
+    const addressBookProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      addressBookImpl.address,
+      addressBookInitData,
+    ]);
+    const addressBook = await hre.viem.getContractAt('AddressBook', addressBookProxy.address);
+
+    const gameManagerImpl = await hre.viem.deployContract('GameManager');
+    const gameManagerInitData = encodeFunctionData({
+      abi: gameManagerImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address],
+    });
+    const gameManagerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      gameManagerImpl.address,
+      gameManagerInitData,
+    ]);
+    const gameManager = await hre.viem.getContractAt('GameManager', gameManagerProxy.address);
+
+    await addressBook.write.initialSetGameManager([gameManager.address], {
+      account: deployer.account.address,
+    });
+
+    // Deploy MockERC20 token
+    const mockToken = await hre.viem.deployContract('MockERC20', ['Mock Token', 'MTK', 18]);
+    await mockToken.write.mint([user.account.address, parseEther('1000')]);
+
+    // Deploy Pricers for native token and ERC20 token
+    const nativePricerImpl = await hre.viem.deployContract('Pricer');
+    const nativePricerInitData = encodeFunctionData({
+      abi: nativePricerImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address, 50000000000n, 'ETH/USD Pricer'], // $500 with 8 decimals
+    });
+    const nativePricerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      nativePricerImpl.address,
+      nativePricerInitData,
+    ]);
+    const nativePricer = await hre.viem.getContractAt('Pricer', nativePricerProxy.address);
+
+    const tokenPricerImpl = await hre.viem.deployContract('Pricer');
+    const tokenPricerInitData = encodeFunctionData({
+      abi: tokenPricerImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address, 100000000n, 'MTK/USD Pricer'], // $1 with 8 decimals
+    });
+    const tokenPricerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      tokenPricerImpl.address,
+      tokenPricerInitData,
+    ]);
+    const tokenPricer = await hre.viem.getContractAt('Pricer', tokenPricerProxy.address);
+
+    // Deploy TokensManager
+    const tokensManagerImpl = await hre.viem.deployContract('TokensManager');
+    const tokensManagerInitData = encodeFunctionData({
+      abi: tokensManagerImpl.abi,
+      functionName: 'initialize',
+      args: [
+        addressBook.address,
+        [zeroAddress, mockToken.address],
+        [nativePricer.address, tokenPricer.address],
+      ],
+    });
+    const tokensManagerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      tokensManagerImpl.address,
+      tokensManagerInitData,
+    ]);
+    const tokensManager = await hre.viem.getContractAt('TokensManager', tokensManagerProxy.address);
+
+    await addressBook.write.initialSetTokensManager([tokensManager.address], {
+      account: deployer.account.address,
+    });
+
+    const MockVRFCoordinator = await hre.viem.deployContract('MockVRFCoordinator', []);
+    const LotteryImpl = await hre.viem.deployContract('Lottery', [MockVRFCoordinator.address]);
+    const lotteryInitData = encodeFunctionData({
+      abi: LotteryImpl.abi,
+      functionName: 'initialize',
+      args: [
+        MockVRFCoordinator.address,
+        1n,
+        '0x8af398995b04c28e9a51adb9721ef74c74f93e6a478f39e7e0777be13527e7ef',
+        addressBook.address,
+        parseEther('0.0005'), // $0.0005
+        parseEther('500'), // $500
+        1000, // 10%
+        parseEther('1'), // $1 per ticket
+        ROUND_DURATION,
+      ],
+    });
+    const LotteryProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      LotteryImpl.address,
+      lotteryInitData,
+    ]);
+    const Lottery = await hre.viem.getContractAt('Lottery', LotteryProxy.address);
+    await gameManager.write.addGame([Lottery.address], {
+      account: ownersMultisig.address,
+    });
+
+    const pauseManagerImpl = await hre.viem.deployContract('PauseManager');
+    const pauseManagerInitData = encodeFunctionData({
+      abi: pauseManagerImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address],
+    });
+    const pauseManagerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      pauseManagerImpl.address,
+      pauseManagerInitData,
+    ]);
+    const pauseManager = await hre.viem.getContractAt('PauseManager', pauseManagerProxy.address);
+
+    await addressBook.write.initialSetPauseManager([pauseManager.address], {
+      account: deployer.account.address,
+    });
+
+    // Deploy Treasury
+    const treasuryImpl = await hre.viem.deployContract('Treasury');
+    const treasuryInitData = encodeFunctionData({
+      abi: treasuryImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address],
+    });
+    const treasuryProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      treasuryImpl.address,
+      treasuryInitData,
+    ]);
+    const treasury = await hre.viem.getContractAt('Treasury', treasuryProxy.address);
+
+    // Deploy ReferralProgram
+    const referralProgramImpl = await hre.viem.deployContract('ReferralProgram');
+    const initialReferralPercent = 500n; // 5% (500/10000)
+    const referralProgramInitData = encodeFunctionData({
+      abi: referralProgramImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address, initialReferralPercent],
+    });
+    const referralProgramProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      referralProgramImpl.address,
+      referralProgramInitData,
+    ]);
+    const referralProgram = await hre.viem.getContractAt(
+      'ReferralProgram',
+      referralProgramProxy.address,
+    );
+
+    await addressBook.write.initialSetTreasury([treasury.address], {
+      account: deployer.account.address,
+    });
+    await addressBook.write.initialSetReferralProgram([referralProgram.address], {
+      account: deployer.account.address,
+    });
+
+    for (const owner of [owner1, owner2]) {
+      const isSigner = await ownersMultisig.read.signers([owner.account.address]);
+      expect(isSigner).to.be.true;
+
+      await setBalance(owner.account.address, parseEther('100'));
+    }
+
+    return {
+      publicClient,
+      Lottery,
+      MockVRFCoordinator,
+      accessRoles,
+      addressBook,
+      gameManager,
+      ownersMultisig,
+      administrator,
+      user,
+      player2,
+      owner1,
+      owner2,
+      deployer,
+      treasury,
+      mockToken,
+      tokensManager,
+      zeroAddress, // NATIVE_TOKEN
+    };
+  }
+
+  async function drawnRoundFixture() {
+    const fixture = await deployLotteryFixture();
+    const { Lottery, MockVRFCoordinator, user, player2 } = fixture;
+
+    // Tickets 0..5 belong to the user, tickets 6..9 to the second player
+    await Lottery.write.buyTickets([zeroAddress, 6n, zeroAddress], {
+      account: user.account.address,
+      value: NATIVE_TICKET_PRICE * 6n,
+    });
+    await Lottery.write.buyTickets([zeroAddress, 4n, zeroAddress], {
+      account: player2.account.address,
+      value: NATIVE_TICKET_PRICE * 4n,
+    });
+
+    await time.increase(ROUND_DURATION);
+    await Lottery.write.closeRound();
+    await MockVRFCoordinator.write.fulfillRandomWords([Lottery.address, [RANDOM_WORD]]);
+
+    const winningTickets = deriveLotteryWinningTicketsViem(RANDOM_WORD, 10n, 3n);
+    const expectedWinners = winningTickets.map(ticket =>
+      getAddress(ticket < 6n ? user.account.address : player2.account.address),
+    );
+
+    return { ...fixture, winningTickets, expectedWinners };
+  }
+
+  describe('Deployment', function () {
+    it('Should deploy successfully', async function () {
+      const { Lottery } = await loadFixture(deployLotteryFixture);
+      expect(Lottery.address).to.not.equal(0);
+    });
+
+    it('Should be registered in GameManager', async function () {
+      const { Lottery, gameManager } = await loadFixture(deployLotteryFixture);
+
+      const isRegistered = await gameManager.read.isGameExist([Lottery.address]);
+      expect(isRegistered).to.be.true;
+    });
+
+    it('Should start the first round with the default prize tiers', async function () {
+      const { Lottery, zeroAddress } = await loadFixture(deployLotteryFixture);
+
+      expect(await Lottery.read.currentRoundId()).to.equal(1n);
+      const round = await Lottery.read.getRound([1n]);
+      expect(round.status).to.equal(1);
+      expect(round.endTime - round.startTime).to.equal(ROUND_DURATION);
+
+      expect(await Lottery.read.getPrizeTiers()).to.deep.equal([5000, 3000, 2000]);
+      expect(await Lottery.read.getTicketPrice([zeroAddress])).to.equal(NATIVE_TICKET_PRICE);
+    });
+  });
+
+  describe('Buy Tickets', function () {
+    it('Should sell tickets for native token', async function () {
+      const { Lottery, user, zeroAddress } = await loadFixture(deployLotteryFixture);
+
+      await Lottery.write.buyTickets([zeroAddress, 3n, zeroAddress], {
+        account: user.account.address,
+        value: NATIVE_TICKET_PRICE * 3n,
+      });
+
+      const events = await Lottery.getEvents.TicketsPurchased();
+      expect(events.length).to.equal(1);
+      expect(events[0].args.roundId).to.equal(1n);
+      expect(getAddress(events[0].args.player!)).to.equal(getAddress(user.account.address));
+      expect(events[0].args.ticketCount).to.equal(3n);
+      expect(events[0].args.cost).to.equal(NATIVE_TICKET_PRICE * 3n);
+
+      expect(await Lottery.read.playerTickets([1n, user.account.address])).to.equal(3n);
+      expect((await Lottery.read.getRound([1n])).ticketCount).to.equal(3n);
+      expect(await Lottery.read.getRoundPools([1n])).to.deep.equal([
+        [zeroAddress],
+        [NATIVE_TICKET_PRICE * 3n],
+      ]);
+    });
+
+    it('Should sell tickets for ERC20 token', async function () {
+      const { Lottery, user, mockToken } = await loadFixture(deployLotteryFixture);
+
+      await mockToken.write.approve([Lottery.address, parseEther('5')], {
+        account: user.account.address,
+      });
+      await Lottery.write.buyTickets([mockToken.address, 5n, zeroAddress], {
+        account: user.account.address,
+      });
+
+      expect(await mockToken.read.balanceOf([Lottery.address])).to.equal(parseEther('5'));
+      expect(await Lottery.read.liabilities([mockToken.address])).to.equal(parseEther('5'));
+    });
+
+    it('Should revert if msg.value does not match the ticket cost', async function () {
+      const { Lottery, user, zeroAddress } = await loadFixture(deployLotteryFixture);
+
+      await expect(
+        Lottery.write.buyTickets([zeroAddress, 3n, zeroAddress], {
+          account: user.account.address,
+          value: NATIVE_TICKET_PRICE,
+        }),
+      ).to.be.rejectedWith('Bet amount must match msg.value for native token');
+    });
+
+    it('Should revert for zero tickets', async function () {
+      const { Lottery, user, zeroAddress } = await loadFixture(deployLotteryFixture);
+
+      await expect(
+        Lottery.write.buyTickets([zeroAddress, 0n, zeroAddress], {
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('InvalidTicketCount');
+    });
+
+    it('Should revert if the purchase cost exceeds the max bet amount', async function () {
+      const { Lottery, user, zeroAddress } = await loadFixture(deployLotteryFixture);
+
+      await expect(
+        Lottery.write.buyTickets([zeroAddress, 501n, zeroAddress], {
+          account: user.account.address,
+          value: NATIVE_TICKET_PRICE * 501n,
+        }),
+      ).to.be.rejectedWith('InvalidBetAmount');
+    });
+
+    it('Should revert after the end of the round', async function () {
+      const { Lottery, user, zeroAddress } = await loadFixture(deployLotteryFixture);
+
+      await time.increase(ROUND_DURATION);
+
+      await expect(
+        Lottery.write.buyTickets([zeroAddress, 1n, zeroAddress], {
+          account: user.account.address,
+          value: NATIVE_TICKET_PRICE,
+        }),
+      ).to.be.rejectedWith('RoundEnded');
+    });
+
+    it('Should sell tickets when the ReferralProgram rejects the wager', async function () {
+      const { Lottery, addressBook, user, zeroAddress } = await loadFixture(deployLotteryFixture);
+
+      // Replace the ReferralProgram with code that reverts every call
+      await setCode(await addressBook.read.referralProgram(), '0x60006000fd');
+      await Lottery.write.buyTickets([zeroAddress, 1n, zeroAddress], {
+        account: user.account.address,
+        value: NATIVE_TICKET_PRICE,
+      });
+
+      expect(await Lottery.read.playerTickets([1n, user.account.address])).to.equal(1n);
+
+      const events = await Lottery.getEvents.WagerNotReported();
+      expect(events.length).to.equal(1);
+      expect(events[0].args.amount).to.equal(NATIVE_TICKET_PRICE);
+    });
+  });
+
+  describe('Close Round', function () {
+    it('Should revert before the end of the round', async function () {
+      const { Lottery } = await loadFixture(deployLotteryFixture);
+
+      await expect(Lottery.write.closeRound()).to.be.rejectedWith('RoundNotEnded');
+    });
+
+    it('Should request the draw and start the next round', async function () {
+      const { Lottery, user, zeroAddress } = await loadFixture(deployLotteryFixture);
+
+      await Lottery.write.buyTickets([zeroAddress, 2n, zeroAddress], {
+        account: user.account.address,
+        value: NATIVE_TICKET_PRICE * 2n,
+      });
+      await time.increase(ROUND_DURATION);
+      await Lottery.write.closeRound();
+
+      const events = await Lottery.getEvents.RoundClosed();
+      expect(events[0].args.roundId).to.equal(1n);
+      expect(events[0].args.ticketCount).to.equal(2n);
+
+      expect((await Lottery.read.getRound([1n])).status).to.equal(2);
+      expect(await Lottery.read.getRoundPrizeTiers([1n])).to.deep.equal([5000, 3000, 2000]);
+      expect(await Lottery.read.currentRoundId()).to.equal(2n);
+      expect((await Lottery.read.getRound([2n])).status).to.equal(1);
+    });
+
+    it('Should close a round without tickets without a draw', async function () {
+      const { Lottery } = await loadFixture(deployLotteryFixture);
+
+      await time.increase(ROUND_DURATION);
+      await Lottery.write.closeRound();
+
+      expect(await Lottery.getEvents.RoundClosed()).to.have.length(0);
+      expect((await Lottery.read.getRound([1n])).status).to.equal(3);
+      expect(await Lottery.read.currentRoundId()).to.equal(2n);
+    });
+  });
+
+  describe('Draw', function () {
+    it('Should derive distinct winning tickets matching the TS reference implementation', async function () {
+      const { Lottery } = await loadFixture(deployLotteryFixture);
+
+      for (const [ticketCount, winnersCount] of [
+        [10n, 3n],
+        [3n, 3n],
+        [1000n, 10n],
+      ]) {
+        const tickets = await Lottery.read.deriveWinningTicketsFromRandom([
+          RANDOM_WORD,
+          ticketCount,
+          winnersCount,
+        ]);
+
+        expect(tickets).to.deep.equal(
+          deriveLotteryWinningTicketsViem(RANDOM_WORD, ticketCount, winnersCount),
+        );
+        expect(new Set(tickets).size).to.equal(Number(winnersCount));
+        tickets.forEach(ticket => expect(ticket < ticketCount).to.be.true);
+      }
+    });
+
+    it('Should draw the winners and keep the house cut for the treasury', async function () {
+      const { Lottery, publicClient, treasury, winningTickets, expectedWinners, zeroAddress } =
+        await loadFixture(drawnRoundFixture);
+
+      const events = await Lottery.getEvents.RoundDrawn();
+      expect(events[0].args.roundId).to.equal(1n);
+      expect(events[0].args.winningTickets).to.deep.equal(winningTickets);
+      expect(events[0].args.roundWinners!.map(address => getAddress(address))).to.deep.equal(expectedWinners);
+
+      const [roundWinners, settled] = await Lottery.read.getWinners([1n]);
+      expect(roundWinners.map(address => getAddress(address))).to.deep.equal(expectedWinners);
+      expect(settled).to.deep.equal([false, false, false]);
+
+      // 10% of the 0.02 ETH ticket sales
+      const [accrued] = await Lottery.getEvents.HouseCutAccrued();
+      expect(accrued.args.amount).to.equal(parseEther('0.002'));
+      expect(await publicClient.getBalance({ address: treasury.address })).to.equal(0n);
+      expect(await publicClient.getBalance({ address: Lottery.address })).to.equal(parseEther('0.02'));
+      expect(await Lottery.read.getPrize([1n, 0n, zeroAddress])).to.equal(parseEther('0.009'));
+      expect(await Lottery.read.getPrize([1n, 1n, zeroAddress])).to.equal(parseEther('0.0054'));
+      expect(await Lottery.read.getPrize([1n, 2n, zeroAddress])).to.equal(parseEther('0.0036'));
+      expect(await Lottery.read.liabilities([zeroAddress])).to.equal(parseEther('0.018'));
+    });
+
+    it('Should roll the prizes of tiers without a winner over to the next round', async function () {
+      const { Lottery, MockVRFCoordinator, user, mockToken } = await loadFixture(deployLotteryFixture);
+
+      await mockToken.write.approve([Lottery.address, parseEther('1')], {
+        account: user.account.address,
+      });
+      await Lottery.write.buyTickets([mockToken.address, 1n, zeroAddress], {
+        account: user.account.address,
+      });
+      await time.increase(ROUND_DURATION);
+      await Lottery.write.closeRound();
+      await MockVRFCoordinator.write.fulfillRandomWords([Lottery.address, [RANDOM_WORD]]);
+
+      const [roundWinners] = await Lottery.read.getWinners([1n]);
+      expect(getAddress(roundWinners[0])).to.equal(getAddress(user.account.address));
+      expect(roundWinners[1]).to.equal(zeroAddress);
+
+      expect((await Lottery.getEvents.HouseCutAccrued())[0].args.amount).to.equal(parseEther('0.1'));
+      expect(await Lottery.read.getPrize([1n, 0n, mockToken.address])).to.equal(parseEther('0.45'));
+      expect(await Lottery.read.getRoundPools([2n])).to.deep.equal([
+        [getAddress(mockToken.address)],
+        [parseEther('0.45')],
+      ]);
+    });
+
+    it('Should request the draw again after the draw timeout', async function () {
+      const { Lottery, MockVRFCoordinator, user, administrator, zeroAddress } =
+        await loadFixture(deployLotteryFixture);
+
+      await Lottery.write.buyTickets([zeroAddress, 1n, zeroAddress], {
+        account: user.account.address,
+        value: NATIVE_TICKET_PRICE,
+      });
+      await time.increase(ROUND_DURATION);
+      await Lottery.write.closeRound();
+      const { requestId } = await Lottery.read.getRound([1n]);
+
+      await expect(
+        Lottery.write.retryDraw([1n], { account: administrator.account }),
+      ).to.be.rejectedWith('DrawNotAvailable');
+      await time.increase(3600);
+      await expect(Lottery.write.retryDraw([1n], { account: user.account })).to.be.rejectedWith(
+        'only administrator!',
+      );
+
+      await Lottery.write.retryDraw([1n], { account: administrator.account });
+      expect((await Lottery.read.getRound([1n])).requestId).to.not.equal(requestId);
+
+      await MockVRFCoordinator.write.fulfillRandomWords([Lottery.address, [RANDOM_WORD]]);
+      expect((await Lottery.read.getRound([1n])).status).to.equal(3);
+    });
+  });
+
+  describe('Prizes', function () {
+    it('Should pay the prize to the winner once', async function () {
+      const { Lottery, publicClient, expectedWinners } = await loadFixture(drawnRoundFixture);
+
+      const balanceBefore = await publicClient.getBalance({ address: Lottery.address });
+      await Lottery.write.claimPrize([1n, 0n], { account: expectedWinners[0] });
+      const balanceAfter = await publicClient.getBalance({ address: Lottery.address });
+
+      expect(balanceBefore - balanceAfter).to.equal(parseEther('0.009'));
+      const events = await Lottery.getEvents.PrizeClaimed();
+      expect(getAddress(events[0].args.player!)).to.equal(expectedWinners[0]);
+
+      await expect(
+        Lottery.write.claimPrize([1n, 0n], { account: expectedWinners[0] }),
+      ).to.be.rejectedWith('PrizeNotAvailable');
+    });
+
+    it('Should revert if the caller is not the winner of the tier', async function () {
+      const { Lottery, deployer } = await loadFixture(drawnRoundFixture);
+
+      await expect(
+        Lottery.write.claimPrize([1n, 0n], { account: deployer.account.address }),
+      ).to.be.rejectedWith('PrizeNotAvailable');
+    });
+
+    it('Should roll unclaimed prizes over after the claim period', async function () {
+      const { Lottery, expectedWinners, zeroAddress } = await loadFixture(drawnRoundFixture);
+
+      await Lottery.write.claimPrize([1n, 0n], { account: expectedWinners[0] });
+
+      await expect(Lottery.write.rollOverUnclaimed([1n])).to.be.rejectedWith('RollOverNotAvailable');
+
+      await time.increase(CLAIM_PERIOD + 1);
+
+      await expect(
+        Lottery.write.claimPrize([1n, 1n], {
+          account: expectedWinners[1],
+        }),
+      ).to.be.rejectedWith('ClaimPeriodEnded');
+
+      await Lottery.write.rollOverUnclaimed([1n]);
+
+      expect(await Lottery.read.getRoundPools([2n])).to.deep.equal([[zeroAddress], [parseEther('0.009')]]);
+      expect((await Lottery.read.getWinners([1n]))[1]).to.deep.equal([true, true, true]);
+      expect(await Lottery.read.liabilities([zeroAddress])).to.equal(parseEther('0.009'));
+
+      await expect(Lottery.write.rollOverUnclaimed([1n])).to.be.rejectedWith('RollOverNotAvailable');
+    });
+  });
+
+  describe('Jackpot', function () {
+    async function deployLotteryWithJackpotFixture() {
+      const fixture = await deployLotteryFixture();
+      const { addressBook, deployer } = fixture;
+
+      const jackpotPoolImpl = await hre.viem.deployContract('JackpotPool');
+      const jackpotPoolInitData = encodeFunctionData({
+        abi: jackpotPoolImpl.abi,
+        functionName: 'initialize',
+        args: [addressBook.address, 100n, 1000000n], // 1% of every wager, won once in a million wagers
+      });
+      const jackpotPoolProxy = await hre.viem.deployContract('ERC1967Proxy', [
+        jackpotPoolImpl.address,
+        jackpotPoolInitData,
+      ]);
+      const jackpotPool = await hre.viem.getContractAt('JackpotPool', jackpotPoolProxy.address);
+
+      await addressBook.write.initialSetJackpotPool([jackpotPool.address], {
+        account: deployer.account.address,
+      });
+
+      return { ...fixture, jackpotPool };
+    }
+
+    it('Should contribute a share of the ticket sales of a drawn round from the house cut', async function () {
+      const { Lottery, MockVRFCoordinator, jackpotPool, publicClient, user, player2, mockToken, zeroAddress } =
+        await loadFixture(deployLotteryWithJackpotFixture);
+
+      await Lottery.write.buyTickets([zeroAddress, 6n, zeroAddress], {
+        account: user.account.address,
+        value: NATIVE_TICKET_PRICE * 6n,
+      });
+      await Lottery.write.buyTickets([zeroAddress, 4n, zeroAddress], {
+        account: player2.account.address,
+        value: NATIVE_TICKET_PRICE * 4n,
+      });
+      await mockToken.write.approve([Lottery.address, parseEther('1')], {
+        account: user.account.address,
+      });
+      await Lottery.write.buyTickets([mockToken.address, 1n, zeroAddress], {
+        account: user.account.address,
+      });
+
+      await time.increase(ROUND_DURATION);
+      await Lottery.write.closeRound();
+      await MockVRFCoordinator.write.fulfillRandomWords([Lottery.address, [RANDOM_WORD]]);
+
+      // 1% of the 0.02 ETH and 1 token ticket sales
+      expect(await jackpotPool.read.jackpots([zeroAddress])).to.equal(parseEther('0.0002'));
+      expect(await jackpotPool.read.jackpots([mockToken.address])).to.equal(parseEther('0.01'));
+      expect(await mockToken.read.balanceOf([jackpotPool.address])).to.equal(parseEther('0.01'));
+
+      const [roundWinners] = await Lottery.read.getWinners([1n]);
+      const events = await jackpotPool.getEvents.JackpotContributed();
+      expect(events.length).to.equal(2);
+      expect(getAddress(events[0].args.game!)).to.equal(getAddress(Lottery.address));
+      expect(getAddress(events[0].args.player!)).to.equal(getAddress(roundWinners[0]));
+
+      // The prize pools stay reserved, the contribution is paid from the 0.002 ETH house cut
+      expect(await publicClient.getBalance({ address: Lottery.address })).to.equal(parseEther('0.0198'));
+      expect(await Lottery.read.liabilities([zeroAddress])).to.equal(parseEther('0.018'));
+    });
+  });
+
+  describe('Withdraw', function () {
+    it('Should not withdraw the prize pools', async function () {
+      const { Lottery, deployer, user, administrator, zeroAddress } = await loadFixture(deployLotteryFixture);
+
+      await deployer.sendTransaction({ to: Lottery.address, value: parseEther('1') });
+      await Lottery.write.buyTickets([zeroAddress, 10n, zeroAddress], {
+        account: user.account.address,
+        value: NATIVE_TICKET_PRICE * 10n,
+      });
+
+      await expect(
+        Lottery.write.withdrawToTreasury([zeroAddress, parseEther('1.01')], {
+          account: administrator.account,
+        }),
+      ).to.be.rejectedWith('InsufficientContractBalance');
+
+      await Lottery.write.withdrawToTreasury([zeroAddress, parseEther('0.5')], {
+        account: administrator.account,
+      });
+    });
+
+    it('Should withdraw the house cut of a drawn round', async function () {
+      const { Lottery, publicClient, administrator, treasury, zeroAddress } = await loadFixture(drawnRoundFixture);
+
+      await expect(
+        Lottery.write.withdrawToTreasury([zeroAddress, parseEther('0.002')], {
+          account: administrator.account,
+        }),
+      ).to.be.rejectedWith('InsufficientContractBalance');
+
+      await Lottery.write.withdrawToTreasury([zeroAddress, parseEther('0.0019')], {
+        account: administrator.account,
+      });
+
+      expect(await publicClient.getBalance({ address: treasury.address })).to.equal(parseEther('0.0019'));
+      expect(await Lottery.read.liabilities([zeroAddress])).to.equal(parseEther('0.018'));
+    });
+  });
+
+  describe('Settings', function () {
+    it('Should set the prize tiers for new rounds', async function () {
+      const { Lottery, ownersMultisig } = await loadFixture(deployLotteryFixture);
+
+      await Lottery.write.setPrizeTiers([[7000, 3000]], { account: ownersMultisig.address });
+      expect(await Lottery.read.getPrizeTiers()).to.deep.equal([7000, 3000]);
+    });
+
+    it('Should reject invalid prize tiers', async function () {
+      const { Lottery, ownersMultisig } = await loadFixture(deployLotteryFixture);
+
+      for (const tiers of [[], [5000, 4000], [10000, 0], Array(11).fill(1000)]) {
+        await expect(
+          Lottery.write.setPrizeTiers([tiers], { account: ownersMultisig.address }),
+        ).to.be.rejectedWith('InvalidPrizeTiers');
+      }
+    });
+
+    it('Should reject invalid round settings', async function () {
+      const { Lottery, ownersMultisig } = await loadFixture(deployLotteryFixture);
+
+      await expect(
+        Lottery.write.setTicketPrice([0n], { account: ownersMultisig.address }),
+      ).to.be.rejectedWith('InvalidTicketPrice');
+      await expect(
+        Lottery.write.setRoundDuration([60n], { account: ownersMultisig.address }),
+      ).to.be.rejectedWith('InvalidRoundDuration');
+      await expect(
+        Lottery.write.setClaimPeriod([3600n], { account: ownersMultisig.address }),
+      ).to.be.rejectedWith('InvalidClaimPeriod');
+      await expect(
+        Lottery.write.setRefundTimeout([60n], { account: ownersMultisig.address }),
+      ).to.be.rejectedWith('InvalidRefundTimeout');
+    });
+
+    it('Should prevent non-owners from changing the settings', async function () {
+      const { Lottery, user } = await loadFixture(deployLotteryFixture);
+
+      await expect(
+        Lottery.write.setPrizeTiers([[10000]], { account: user.account.address }),
+      ).to.be.rejectedWith('only owners multisig!');
+      await expect(
+        Lottery.write.setTicketPrice([parseEther('2')], { account: user.account.address }),
+      ).to.be.rejectedWith('only owners multisig!');
+      await expect(
+        Lottery.write.setRoundDuration([3600n], { account: user.account.address }),
+      ).to.be.rejectedWith('only owners multisig!');
+    });
+  });
+
+  describe('Pause Integration', function () {
+    it('Should revert when PauseManager is paused', async function () {
+      const { Lottery, user, administrator, addressBook, zeroAddress } =
+        await loadFixture(deployLotteryFixture);
+
+      const pauseManagerAddress = await addressBook.read.pauseManager();
+      const pauseManager = await hre.viem.getContractAt('PauseManager', pauseManagerAddress);
+
+      await pauseManager.write.pauseContract([Lottery.address], {
+        account: administrator.account,
+      });
+
+      await expect(
+        Lottery.write.buyTickets([zeroAddress, 1n, zeroAddress], {
+          account: user.account.address,
+          value: NATIVE_TICKET_PRICE,
+        }),
+      ).to.be.rejectedWith('paused!');
+    });
+  });
+});
@@ -0,0 +1,788 @@
+import { expect } from 'chai';
+import hre from 'hardhat';
+import { encodeFunctionData, getAddress, parseEther, zeroAddress } from 'viem';
+import {
+  impersonateAccount,
+  loadFixture,
+  setBalance,
+  time,
+} from '@nomicfoundation/hardhat-toolbox-viem/network-helpers';
+import { deriveWinningCellsFromRandomViem } from '../../../utils/utils';
+
+describe('Mines Contract', function () {
+  const STAKE = parseEther('0.01');
+  const RANDOM_WORD = 12345n;
+
+  const PENDING = 1;
+  const ACTIVE = 2;
+  const CASHED_OUT = 3;
+  const LOST = 4;
+  const REFUNDED = 5;
+
+  // The board of a random word, split into the mines and the safe cells
+  function boardOf(randomWord: bigint, minesCount: number) {
+    const mineMask = deriveWinningCellsFromRandomViem(randomWord, 25, minesCount);
+    const cells = Array.from({ length: 25 }, (_, cell) => cell);
+    return {
+      mineMask,
+      mines: cells.filter(cell => (mineMask >>> cell) & 1),
+      safeCells: cells.filter(cell => !((mineMask >>> cell) & 1)),
+    };
+  }
+
+  function cellMaskOf(cells: number[]) {
+    return cells.reduce((mask, cell) => (mask | (1 << cell)) >>> 0, 0);
+  }
+
+  function payoutOf(amount: bigint, minesCount: number, revealedCount: number, houseEdge = 100n) {
+    let numerator = 1n;
+    let denominator = 1n;
+    for (let i = 0; i < revealedCount; i++) {
+      numerator *= BigInt(25 - i);
+      denominator *= BigInt(25 - minesCount - i);
+    }
+    const payout = (amount * (10000n - houseEdge) * numerator) / (denominator * 10000n);
+    const cap = amount * 1000n;
+    return payout > cap ? cap : payout;
+  }
+
+  async function deployMinesFixture() {
+    const [deployer, user, , , , , , administrator, owner1, owner2] =
+      await hre.viem.getWalletClients();
+    const publicClient = await hre.viem.getPublicClient();
+    const owners = [owner1, owner2];
+
+    const ownersMultisigImpl = await hre.viem.deployContract('MultisigWallet');
+    const ownersMultisigImplInitData = encodeFunctionData({
+      abi: ownersMultisigImpl.abi,
+      functionName: 'initialize',
+      args: [BigInt(owners.length), owners.map(owner => owner.account.address)],
+    });
+    const ownersMultisigProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      ownersMultisigImpl.address,
+      ownersMultisigImplInitData,
+    ]);
+    const ownersMultisig = await hre.viem.getContractAt(
+      'MultisigWallet',
+      ownersMultisigProxy.address,
+    );
+
+    await impersonateAccount(ownersMultisig.address);
+    await setBalance(ownersMultisig.address, parseEther('100'));
+
+    const accessRolesImpl = await hre.viem.deployContract('AccessRoles');
+    const accessRolesInitData = encodeFunctionData({
+      abi: accessRolesImpl.abi,
+      functionName: 'initialize',
+      args: [ownersMultisig.address, [administrator.account.address]],
+    });
+    const accessRolesProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      accessRolesImpl.address,
+      accessRolesInitData,
+    ]);
+    const accessRoles = await hre.viem.getContractAt('AccessRoles', accessRolesProxy.address);
+
+    const addressBookImpl = await hre.viem.deployContract('AddressBook');
+    const addressBookInitData = encodeFunctionData({
+      abi: addressBookImpl.abi,
+      functionName: 'initialize',
+      args: [accessRoles.address],
+    });
+    const addressBookProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      addressBookImpl.address,
+      addressBookInitData,
+    ]);
+    const addressBook = await hre.viem.getContractAt('AddressBook', addressBookProxy.address);
+
+    const gameManagerImpl = await hre.viem.deployContract('GameManager');
+    const gameManagerInitData = encodeFunctionData({
+      abi: gameManagerImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address],
+    });
+    const gameManagerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      gameManagerImpl.address,
+      gameManagerInitData,
+    ]);
+    const gameManager = await hre.viem.getContractAt('GameManager', gameManagerProxy.address);
+
+    await addressBook.write.initialSetGameManager([gameManager.address], {
+      account: deployer.account.address,
+    });
+
+    // Deploy MockERC20 token
+    const mockToken = await hre.viem.deployContract('MockERC20', ['Mock Token', 'MTK', 18]);
+    await mockToken.write.mint([user.account.address, parseEther('1000')]);
+
+    // Deploy Pricers for native token and ERC20 token
+    const nativePricerImpl = await hre.viem.deployContract('Pricer');
+    const nativePricerInitData = encodeFunctionData({
+      abi: nativePricerImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address, 50000000000n, 'ETH/USD Pricer'], // $500 with 8 decimals
+    });
+    const nativePricerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      nativePricerImpl.address,
+      nativePricerInitData,
+    ]);
+    const nativePricer = await hre.viem.getContractAt('Pricer', nativePricerProxy.address);
+
+    const tokenPricerImpl = await hre.viem.deployContract('Pricer');
+    const tokenPricerInitData = encodeFunctionData({
+      abi: tokenPricerImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address, 100000000n, 'MTK/USD Pricer'], // $1 with 8 decimals
+    });
+    const tokenPricerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      tokenPricerImpl.address,
+      tokenPricerInitData,
+    ]);
+    const tokenPricer = await hre.viem.getContractAt('Pricer', tokenPricerProxy.address);
+
+    // Deploy TokensManager
+    const tokensManagerImpl = await hre.viem.deployContract('TokensManager');
+    const tokensManagerInitData = encodeFunctionData({
+      abi: tokensManagerImpl.abi,
+      functionName: 'initialize',
+      args: [
+        addressBook.address,
+        [zeroAddress, mockToken.address],
+        [nativePricer.address, tokenPricer.address],
+      ],
+    });
+    const tokensManagerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      tokensManagerImpl.address,
+      tokensManagerInitData,
+    ]);
+    const tokensManager = await hre.viem.getContractAt('TokensManager', tokensManagerProxy.address);
+
+    await addressBook.write.initialSetTokensManager([tokensManager.address], {
+      account: deployer.account.address,
+    });
+
+    const MockVRFCoordinator = await hre.viem.deployContract('MockVRFCoordinator', []);
+    const MinesImpl = await hre.viem.deployContract('Mines', [MockVRFCoordinator.address]);
+    const coinflipInitData = encodeFunctionData({
+      abi: MinesImpl.abi,
+      functionName: 'initialize',
+      args: [
+        MockVRFCoordinator.address,
+        1n,
+        '0x8af398995b04c28e9a51adb9721ef74c74f93e6a478f39e7e0777be13527e7ef',
+        addressBook.address,
+        parseEther('0.0005'), // $0.0005
+        parseEther('500'), // $500
+        100, // 1%
+      ],
+    });
+    const MinesProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      MinesImpl.address,
+      coinflipInitData,
+    ]);
+    const Mines = await hre.viem.getContractAt('Mines', MinesProxy.address);
+    await setBalance(Mines.address, parseEther('100'));
+
+    // Mint some tokens to the Mines contract for payouts
+    await mockToken.write.mint([Mines.address, parseEther('100')]);
+
+    await gameManager.write.addGame([Mines.address], {
+      account: ownersMultisig.address,
+    });
+
+    const pauseManagerImpl = await hre.viem.deployContract('PauseManager');
+    const pauseManagerInitData = encodeFunctionData({
+      abi: pauseManagerImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address],
+    });
+    const pauseManagerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      pauseManagerImpl.address,
+      pauseManagerInitData,
+    ]);
+    const pauseManager = await hre.viem.getContractAt('PauseManager', pauseManagerProxy.address);
+
+    await addressBook.write.initialSetPauseManager([pauseManager.address], {
+      account: deployer.account.address,
+    });
+
+    // Deploy Treasury
+    const treasuryImpl = await hre.viem.deployContract('Treasury');
+    const treasuryInitData = encodeFunctionData({
+      abi: treasuryImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address],
+    });
+    const treasuryProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      treasuryImpl.address,
+      treasuryInitData,
+    ]);
+    const treasury = await hre.viem.getContractAt('Treasury', treasuryProxy.address);
+
+    // Deploy ReferralProgram
+    const referralProgramImpl = await hre.viem.deployContract('ReferralProgram');
+    const initialReferralPercent = 500n; // 5% (500/10000)
+    const referralProgramInitData = encodeFunctionData({
+      abi: referralProgramImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address, initialReferralPercent],
+    });
+    const referralProgramProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      referralProgramImpl.address,
+      referralProgramInitData,
+    ]);
+    const referralProgram = await hre.viem.getContractAt(
+      'ReferralProgram',
+      referralProgramProxy.address,
+    );
+
+    await addressBook.write.initialSetTreasury([treasury.address], {
+      account: deployer.account.address,
+    });
+    await addressBook.write.initialSetReferralProgram([referralProgram.address], {
+      account: deployer.account.address,
+    });
+
+    for (const owner of [owner1, owner2]) {
+      const isSigner = await ownersMultisig.read.signers([owner.account.address]);
+      expect(isSigner).to.be.true;
+
+      await setBalance(owner.account.address, parseEther('100'));
+    }
+
+    return {
+      publicClient,
+      Mines,
+      MockVRFCoordinator,
+      accessRoles,
+      addressBook,
+      gameManager,
+      ownersMultisig,
+      administrator,
+      user,
+      owner1,
+      owner2,
+      deployer,
+      treasury,
+      mockToken,
+      tokensManager,
+      pauseManager,
+      zeroAddress, // NATIVE_TOKEN
+    };
+  }
+
+
+  async function startedGameFixture() {
+    const fixture = await deployMinesFixture();
+    const { Mines, MockVRFCoordinator, user, mockToken } = fixture;
+
+    await mockToken.write.approve([Mines.address, STAKE], {
+      account: user.account.address,
+    });
+    await Mines.write.startGame([3, mockToken.address, STAKE, zeroAddress], {
+      account: user.account.address,
+    });
+    await MockVRFCoordinator.write.fulfillRandomWords([Mines.address, [RANDOM_WORD]]);
+
+    return { ...fixture, board: boardOf(RANDOM_WORD, 3) };
+  }
+
+  describe('Deployment', function () {
+    it('Should deploy successfully', async function () {
+      const { Mines } = await loadFixture(deployMinesFixture);
+      expect(Mines.address).to.not.equal(0);
+    });
+
+    it('Should be registered in GameManager', async function () {
+      const { Mines, gameManager } = await loadFixture(deployMinesFixture);
+
+      const isRegistered = await gameManager.read.isGameExist([Mines.address]);
+      expect(isRegistered).to.be.true;
+      expect(await Mines.read.houseEdge()).to.equal(1);
+      expect(await Mines.read.sessionTimeout()).to.equal(86400n);
+      expect(await Mines.read.maxMultiplier()).to.equal(10000000n);
+    });
+  });
+
+  describe('Payout Calculation', function () {
+    it('Should pay the inverse of the chance to reveal the cells minus the house edge', async function () {
+      const { Mines, zeroAddress } = await loadFixture(deployMinesFixture);
+      const betAmount = parseEther('1');
+
+      expect(await Mines.read.calculatePayout([betAmount, 1, 1, zeroAddress])).to.equal(
+        (betAmount * 9900n * 25n) / (24n * 10000n),
+      );
+      expect(await Mines.read.calculatePayout([betAmount, 24, 1, zeroAddress])).to.equal(
+        (betAmount * 9900n * 25n) / 10000n,
+      );
+      expect(await Mines.read.calculatePayout([betAmount, 3, 5, zeroAddress])).to.equal(
+        payoutOf(betAmount, 3, 5),
+      );
+    });
+
+    it('Should cap the payout at the maximum multiplier', async function () {
+      const { Mines, zeroAddress } = await loadFixture(deployMinesFixture);
+      const betAmount = parseEther('1');
+
+      // A cleared board with 12 mines pays ~5.2M times the stake uncapped
+      expect(await Mines.read.calculatePayout([betAmount, 12, 13, zeroAddress])).to.equal(betAmount * 1000n);
+      expect(await Mines.read.calculatePayout([betAmount, 3, 22, zeroAddress])).to.equal(betAmount * 1000n);
+    });
+
+    it('Should reject invalid mines or revealed counts', async function () {
+      const { Mines, zeroAddress } = await loadFixture(deployMinesFixture);
+
+      await expect(Mines.read.calculatePayout([parseEther('1'), 0, 1, zeroAddress])).to.be.rejectedWith(
+        'InvalidMinesCount',
+      );
+      await expect(Mines.read.calculatePayout([parseEther('1'), 3, 23, zeroAddress])).to.be.rejectedWith(
+        'InvalidRevealedCount',
+      );
+    });
+  });
+
+  describe('Start Game', function () {
+    it('Should emit MinesGameStarted event and reserve the capped payout of a cleared board', async function () {
+      const { Mines, user, zeroAddress } = await loadFixture(deployMinesFixture);
+
+      await Mines.write.startGame([3, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: STAKE,
+      });
+
+      const events = await Mines.getEvents.MinesGameStarted();
+      expect(events.length).to.equal(1);
+      expect(getAddress(events[0].args.player!)).to.equal(getAddress(user.account.address));
+      expect(events[0].args.betAmount).to.equal(STAKE);
+      expect(events[0].args.minesCount).to.equal(3);
+
+      const session = await Mines.read.getSession([user.account.address]);
+      expect(session.status).to.equal(PENDING);
+      expect(session.maxPayout).to.equal(STAKE * 1000n);
+      expect(await Mines.read.isGameInProgress({ account: user.account.address })).to.be.true;
+
+      const [liability] = await Mines.read.getExposure([zeroAddress]);
+      expect(liability).to.equal(session.maxPayout);
+    });
+
+    it('Should accept mid-range mine counts', async function () {
+      const { Mines, user, zeroAddress } = await loadFixture(deployMinesFixture);
+
+      await Mines.write.startGame([12, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: STAKE,
+      });
+
+      expect((await Mines.read.getSession([user.account.address])).maxPayout).to.equal(STAKE * 1000n);
+    });
+
+    it('Should revert if a game is already in progress', async function () {
+      const { Mines, user, mockToken } = await loadFixture(startedGameFixture);
+
+      await mockToken.write.approve([Mines.address, STAKE], {
+        account: user.account.address,
+      });
+
+      await expect(
+        Mines.write.startGame([3, mockToken.address, STAKE, zeroAddress], {
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('GameInProgress');
+    });
+
+    it('Should revert if the mines count is invalid', async function () {
+      const { Mines, user, zeroAddress } = await loadFixture(deployMinesFixture);
+
+      for (const minesCount of [0, 25]) {
+        await expect(
+          Mines.write.startGame([minesCount, zeroAddress, 0n, zeroAddress], {
+            account: user.account.address,
+            value: STAKE,
+          }),
+        ).to.be.rejectedWith('InvalidMinesCount');
+      }
+    });
+
+    it('Should revert if the reserved payout exceeds the allowed exposure', async function () {
+      const { Mines, user, zeroAddress } = await loadFixture(deployMinesFixture);
+
+      await expect(
+        Mines.write.startGame([3, zeroAddress, 0n, zeroAddress], {
+          account: user.account.address,
+          value: parseEther('0.1'),
+        }),
+      ).to.be.rejectedWith('ExposureLimitExceeded');
+    });
+  });
+
+  describe('Board', function () {
+    it('Should fix the mines with the Fisher-Yates derivation of the delivered word', async function () {
+      const { Mines, user, board } = await loadFixture(startedGameFixture);
+
+      const events = await Mines.getEvents.MinesBoardReady();
+      expect(events.length).to.equal(1);
+      expect(getAddress(events[0].args.player!)).to.equal(getAddress(user.account.address));
+
+      const session = await Mines.read.getSession([user.account.address]);
+      expect(session.status).to.equal(ACTIVE);
+      expect(board.mines.length).to.equal(3);
+
+      // The mines are only exposed once the game is over
+      expect(session.mineMask).to.equal(0);
+      await Mines.write.revealCell([board.mines[0]], {
+        account: user.account.address,
+      });
+      expect((await Mines.read.getSession([user.account.address])).mineMask).to.equal(board.mineMask);
+      expect((await Mines.read.getBet([1n])).session.mineMask).to.equal(board.mineMask);
+    });
+
+    it('Should close the pending request once the board is delivered', async function () {
+      const { Mines, MockVRFCoordinator, user, zeroAddress } = await loadFixture(deployMinesFixture);
+
+      await Mines.write.startGame([3, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: STAKE,
+      });
+      expect(await Mines.read.getPendingBetCount([user.account.address])).to.equal(1n);
+
+      await MockVRFCoordinator.write.fulfillRandomWords([Mines.address, [RANDOM_WORD]]);
+
+      expect(await Mines.read.getPendingBetCount([user.account.address])).to.equal(0n);
+      expect(await Mines.read.getBetCount()).to.equal(1n);
+    });
+  });
+
+  describe('Reveal Cells', function () {
+    it('Should reveal safe cells one transaction at a time', async function () {
+      const { Mines, user, board } = await loadFixture(startedGameFixture);
+      const cells = board.safeCells.slice(0, 3);
+
+      for (const cell of cells) {
+        await Mines.write.revealCell([cell], {
+          account: user.account.address,
+        });
+      }
+
+      const events = await Mines.getEvents.CellRevealed();
+      expect(events.length).to.equal(1);
+      expect(events[0].args.cell).to.equal(cells[2]);
+      expect(events[0].args.safe).to.be.true;
+      expect(events[0].args.revealedCount).to.equal(3);
+      expect(events[0].args.currentPayout).to.equal(payoutOf(STAKE, 3, 3));
+
+      const session = await Mines.read.getSession([user.account.address]);
+      expect(session.status).to.equal(ACTIVE);
+      expect(session.revealedCount).to.equal(3);
+      expect(session.revealedMask).to.equal(cellMaskOf(cells));
+      expect(await Mines.read.getCurrentPayout({ account: user.account.address })).to.equal(
+        payoutOf(STAKE, 3, 3),
+      );
+    });
+
+    it('Should revert before the board is delivered', async function () {
+      const { Mines, user, zeroAddress } = await loadFixture(deployMinesFixture);
+
+      await Mines.write.startGame([3, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: STAKE,
+      });
+
+      await expect(
+        Mines.write.revealCell([2], {
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('NoActiveGame');
+    });
+
+    it('Should end the game when a mine is revealed', async function () {
+      const { Mines, user, mockToken, board } = await loadFixture(startedGameFixture);
+
+      await Mines.write.revealCell([board.safeCells[0]], {
+        account: user.account.address,
+      });
+      await Mines.write.revealCell([board.mines[0]], {
+        account: user.account.address,
+      });
+
+      const revealEvents = await Mines.getEvents.CellRevealed();
+      expect(revealEvents[0].args.cell).to.equal(board.mines[0]);
+      expect(revealEvents[0].args.safe).to.be.false;
+
+      const events = await Mines.getEvents.BetSettled();
+      expect(events[0].args.won).to.be.false;
+      expect(events[0].args.payout).to.equal(0n);
+      expect(events[0].args.revealedCount).to.equal(1);
+
+      const session = await Mines.read.getSession([user.account.address]);
+      expect(session.status).to.equal(LOST);
+      expect(session.revealedMask).to.equal(cellMaskOf([board.safeCells[0], board.mines[0]]));
+      expect(await mockToken.read.balanceOf([user.account.address])).to.equal(parseEther('999.99'));
+
+      const [liability] = await Mines.read.getExposure([mockToken.address]);
+      expect(liability).to.equal(0n);
+
+      await expect(
+        Mines.write.revealCell([board.safeCells[1]], {
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('NoActiveGame');
+    });
+
+    it('Should revert for cells outside the board or revealed twice', async function () {
+      const { Mines, user, board } = await loadFixture(startedGameFixture);
+
+      await expect(
+        Mines.write.revealCell([25], {
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('InvalidCell');
+
+      await Mines.write.revealCell([board.safeCells[0]], {
+        account: user.account.address,
+      });
+      await expect(
+        Mines.write.revealCell([board.safeCells[0]], {
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('CellAlreadyRevealed');
+    });
+
+    it('Should revert while the game is paused', async function () {
+      const { Mines, pauseManager, administrator, user, board } = await loadFixture(startedGameFixture);
+
+      await pauseManager.write.pause({
+        account: administrator.account.address,
+      });
+
+      await expect(
+        Mines.write.revealCell([board.safeCells[0]], {
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('paused!');
+    });
+
+    it('Should cash out automatically after the last safe cell', async function () {
+      const { Mines, MockVRFCoordinator, user, zeroAddress, publicClient } =
+        await loadFixture(deployMinesFixture);
+
+      await Mines.write.startGame([24, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: STAKE,
+      });
+      await MockVRFCoordinator.write.fulfillRandomWords([Mines.address, [RANDOM_WORD]]);
+
+      const balanceBefore = await publicClient.getBalance({ address: user.account.address });
+
+      const [safeCell] = boardOf(RANDOM_WORD, 24).safeCells;
+      const hash = await Mines.write.revealCell([safeCell], {
+        account: user.account.address,
+      });
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+
+      const balanceAfter = await publicClient.getBalance({ address: user.account.address });
+      expect(balanceAfter - balanceBefore + receipt.gasUsed * receipt.effectiveGasPrice).to.equal(
+        (STAKE * 9900n * 25n) / 10000n,
+      );
+
+      const session = await Mines.read.getSession([user.account.address]);
+      expect(session.status).to.equal(CASHED_OUT);
+    });
+  });
+
+  describe('Cash Out', function () {
+    it('Should pay out the current multiplier', async function () {
+      const { Mines, user, mockToken, board } = await loadFixture(startedGameFixture);
+
+      for (const cell of board.safeCells.slice(0, 4)) {
+        await Mines.write.revealCell([cell], {
+          account: user.account.address,
+        });
+      }
+
+      await Mines.write.cashOut({
+        account: user.account.address,
+      });
+
+      const payout = payoutOf(STAKE, 3, 4);
+      expect(await mockToken.read.balanceOf([user.account.address])).to.equal(parseEther('999.99') + payout);
+
+      const events = await Mines.getEvents.MinesCashedOut();
+      expect(events[0].args.revealedCount).to.equal(4);
+      expect(events[0].args.payout).to.equal(payout);
+
+      const session = await Mines.read.getSession([user.account.address]);
+      expect(session.status).to.equal(CASHED_OUT);
+      expect(session.payout).to.equal(payout);
+      expect(await Mines.read.isGameInProgress({ account: user.account.address })).to.be.false;
+
+      const [liability] = await Mines.read.getExposure([mockToken.address]);
+      expect(liability).to.equal(0n);
+    });
+
+    it('Should revert before the board is delivered', async function () {
+      const { Mines, user, zeroAddress } = await loadFixture(deployMinesFixture);
+
+      await Mines.write.startGame([3, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: STAKE,
+      });
+
+      await expect(
+        Mines.write.cashOut({
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('NoActiveGame');
+    });
+
+    it('Should revert while the game is paused', async function () {
+      const { Mines, pauseManager, administrator, user } = await loadFixture(startedGameFixture);
+
+      await pauseManager.write.pause({
+        account: administrator.account.address,
+      });
+
+      await expect(
+        Mines.write.cashOut({
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('paused!');
+    });
+  });
+
+  describe('Abandoned Sessions', function () {
+    it('Should close idle games at the current multiplier', async function () {
+      const { Mines, administrator, user, mockToken, board } = await loadFixture(startedGameFixture);
+
+      for (const cell of board.safeCells.slice(0, 2)) {
+        await Mines.write.revealCell([cell], {
+          account: user.account.address,
+        });
+      }
+
+      await expect(
+        Mines.write.closeAbandonedSessions([[user.account.address]], {
+          account: administrator.account.address,
+        }),
+      ).to.be.rejectedWith('SessionNotAbandoned');
+
+      await time.increase(86400);
+
+      await Mines.write.closeAbandonedSessions([[user.account.address]], {
+        account: administrator.account.address,
+      });
+
+      expect(await mockToken.read.balanceOf([user.account.address])).to.equal(
+        parseEther('999.99') + payoutOf(STAKE, 3, 2),
+      );
+      const session = await Mines.read.getSession([user.account.address]);
+      expect(session.status).to.equal(CASHED_OUT);
+    });
+
+    it('Should revert if non-administrator tries to close games', async function () {
+      const { Mines, user } = await loadFixture(startedGameFixture);
+
+      await time.increase(86400);
+
+      await expect(
+        Mines.write.closeAbandonedSessions([[user.account.address]], {
+          account: user.account.address,
+        }),
+      ).to.be.rejected;
+    });
+  });
+
+  describe('Refunds', function () {
+    it('Should refund a game whose board was not delivered in time', async function () {
+      const { Mines, MockVRFCoordinator, user, zeroAddress } = await loadFixture(deployMinesFixture);
+
+      await Mines.write.startGame([3, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: STAKE,
+      });
+
+      await expect(
+        Mines.write.refundBet({
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('RefundNotAvailable');
+
+      await time.increase(3600);
+
+      await Mines.write.refundBet({
+        account: user.account.address,
+      });
+
+      const events = await Mines.getEvents.BetRefunded();
+      expect(events[0].args.amount).to.equal(STAKE);
+
+      const [liability] = await Mines.read.getExposure([zeroAddress]);
+      expect(liability).to.equal(0n);
+
+      // A late fulfillment does not activate the refunded game
+      await MockVRFCoordinator.write.fulfillRandomWords([Mines.address, [RANDOM_WORD]]);
+
+      const session = await Mines.read.getSession([user.account.address]);
+      expect(session.status).to.equal(REFUNDED);
+      expect(await Mines.read.isGameInProgress({ account: user.account.address })).to.be.false;
+    });
+
+    it('Should not refund an active game', async function () {
+      const { Mines, user } = await loadFixture(startedGameFixture);
+
+      await time.increase(3600);
+
+      await expect(
+        Mines.write.refundBet({
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('RefundNotAvailable');
+    });
+  });
+
+  describe('Configuration Functions', function () {
+    it('Should allow owners multisig to update the session timeout', async function () {
+      const { Mines, ownersMultisig, user } = await loadFixture(deployMinesFixture);
+
+      await Mines.write.setSessionTimeout([3600n], {
+        account: ownersMultisig.address,
+      });
+      expect(await Mines.read.sessionTimeout()).to.equal(3600n);
+
+      await expect(
+        Mines.write.setSessionTimeout([60n], {
+          account: ownersMultisig.address,
+        }),
+      ).to.be.rejectedWith('InvalidSessionTimeout');
+
+      await expect(
+        Mines.write.setSessionTimeout([3600n], {
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('only owners multisig!');
+    });
+
+    it('Should allow owners multisig to update the maximum multiplier', async function () {
+      const { Mines, ownersMultisig, user, zeroAddress } = await loadFixture(deployMinesFixture);
+
+      await Mines.write.setMaxMultiplier([100000n], {
+        account: ownersMultisig.address,
+      });
+      expect(await Mines.read.maxMultiplier()).to.equal(100000n);
+      expect(await Mines.read.calculatePayout([STAKE, 3, 22, zeroAddress])).to.equal(STAKE * 10n);
+
+      const [event] = await Mines.getEvents.MaxMultiplierSet();
+      expect(event.args.maxMultiplier).to.equal(100000n);
+
+      await expect(
+        Mines.write.setMaxMultiplier([10000n], {
+          account: ownersMultisig.address,
+        }),
+      ).to.be.rejectedWith('InvalidMaxMultiplier');
+
+      await expect(
+        Mines.write.setMaxMultiplier([100000n], {
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('only owners multisig!');
+    });
+  });
+});
@@ -0,0 +1,589 @@
+import { expect } from 'chai';
+import hre from 'hardhat';
+import { encodeFunctionData, getAddress, keccak256, parseEther, toHex, zeroAddress } from 'viem';
+import {
+  impersonateAccount,
+  loadFixture,
+  setBalance,
+  time,
+} from '@nomicfoundation/hardhat-toolbox-viem/network-helpers';
+import { derivePlinkoBucketFromRandomViem } from '../../../utils/utils';
+
+describe('Plinko Contract', function () {
+  const LOW = 0;
+  const MEDIUM = 1;
+  const HIGH = 2;
+
+  // Multipliers in basis points, the expected returns are ~98.98%, ~98.91% and ~98.98%
+  const LOW_8_ROWS = [56000, 21000, 11000, 10000, 5000, 10000, 11000, 21000, 56000];
+  const MEDIUM_8_ROWS = [130000, 30000, 13000, 7000, 4000, 7000, 13000, 30000, 130000];
+  const HIGH_16_ROWS = [
+    10000000, 1300000, 260000, 90000, 40000, 20000, 2000, 2000, 2000, 2000, 2000, 20000, 40000, 90000,
+    260000, 1300000, 10000000,
+  ];
+  // Expected return of ~99.06%, above the 99% allowed by the 1% house edge
+  const HIGH_8_ROWS = [290000, 40000, 15000, 3000, 2000, 3000, 15000, 40000, 290000];
+
+  async function deployPlinkoFixture() {
+    const [deployer, user, , , , , , administrator, owner1, owner2] =
+      await hre.viem.getWalletClients();
+    const publicClient = await hre.viem.getPublicClient();
+    const owners = [owner1, owner2];
+
+    const ownersMultisigImpl = await hre.viem.deployContract('MultisigWallet');
+    const ownersMultisigImplInitData = encodeFunctionData({
+      abi: ownersMultisigImpl.abi,
+      functionName: 'initialize',
+      args: [BigInt(owners.length), owners.map(owner => owner.account.address)],
+    });
+    const ownersMultisigProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      ownersMultisigImpl.address,
+      ownersMultisigImplInitData,
+    ]);
+    const ownersMultisig = await hre.viem.getContractAt(
+      'MultisigWallet',
+      ownersMultisigProxy.address,
+    );
+
+    await impersonateAccount(ownersMultisig.address);
+    await setBalance(ownersMultisig.address, parseEther('100'));
+
+    const accessRolesImpl = await hre.viem.deployContract('AccessRoles');
+    const accessRolesInitData = encodeFunctionData({
+      abi: accessRolesImpl.abi,
+      functionName: 'initialize',
+      args: [ownersMultisig.address, [administrator.account.address]],
+    });
+    const accessRolesProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      accessRolesImpl.address,
+      accessRolesInitData,
+    ]);
+    const accessRoles = await hre.viem.getContractAt('AccessRoles', accessRolesProxy.address);
+
+    const addressBookImpl = await hre.viem.deployContract('AddressBook');
+    const addressBookInitData = encodeFunctionData({
+      abi: addressBookImpl.abi,
+      functionName: 'initialize',
+      args: [accessRoles.address],
+    });
+    const addressBookProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      addressBookImpl.address,
+      addressBookInitData,
+    ]);
+    const addressBook = await hre.viem.getContractAt('AddressBook', addressBookProxy.address);
+
+    const gameManagerImpl = await hre.viem.deployContract('GameManager');
+    const gameManagerInitData = encodeFunctionData({
+      abi: gameManagerImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address],
+    });
+    const gameManagerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      gameManagerImpl.address,
+      gameManagerInitData,
+    ]);
+    const gameManager = await hre.viem.getContractAt('GameManager', gameManagerProxy.address);
+
+    await addressBook.write.initialSetGameManager([gameManager.address], {
+      account: deployer.account.address,
+    });
+
+    // Deploy MockERC20 token
+    const mockToken = await hre.viem.deployContract('MockERC20', ['Mock Token', 'MTK', 18]);
+    await mockToken.write.mint([user.account.address, parseEther('1000')]);
+
+    // Deploy Pricers for native token and ERC20 token
+    const nativePricerImpl = await hre.viem.deployContract('Pricer');
+    const nativePricerInitData = encodeFunctionData({
+      abi: nativePricerImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address, 50000000000n, 'ETH/USD Pricer'], // $500 with 8 decimals
+    });
+    const nativePricerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      nativePricerImpl.address,
+      nativePricerInitData,
+    ]);
+    const nativePricer = await hre.viem.getContractAt('Pricer', nativePricerProxy.address);
+
+    const tokenPricerImpl = await hre.viem.deployContract('Pricer');
+    const tokenPricerInitData = encodeFunctionData({
+      abi: tokenPricerImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address, 100000000n, 'MTK/USD Pricer'], // $1 with 8 decimals
+    });
+    const tokenPricerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      tokenPricerImpl.address,
+      tokenPricerInitData,
+    ]);
+    const tokenPricer = await hre.viem.getContractAt('Pricer', tokenPricerProxy.address);
+
+    // Deploy TokensManager
+    const tokensManagerImpl = await hre.viem.deployContract('TokensManager');
+    const tokensManagerInitData = encodeFunctionData({
+      abi: tokensManagerImpl.abi,
+      functionName: 'initialize',
+      args: [
+        addressBook.address,
+        [zeroAddress, mockToken.address],
+        [nativePricer.address, tokenPricer.address],
+      ],
+    });
+    const tokensManagerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      tokensManagerImpl.address,
+      tokensManagerInitData,
+    ]);
+    const tokensManager = await hre.viem.getContractAt('TokensManager', tokensManagerProxy.address);
+
+    await addressBook.write.initialSetTokensManager([tokensManager.address], {
+      account: deployer.account.address,
+    });
+
+    const MockVRFCoordinator = await hre.viem.deployContract('MockVRFCoordinator', []);
+    const PlinkoImpl = await hre.viem.deployContract('Plinko', [MockVRFCoordinator.address]);
+    const coinflipInitData = encodeFunctionData({
+      abi: PlinkoImpl.abi,
+      functionName: 'initialize',
+      args: [
+        MockVRFCoordinator.address,
+        1n,
+        '0x8af398995b04c28e9a51adb9721ef74c74f93e6a478f39e7e0777be13527e7ef',
+        addressBook.address,
+        parseEther('0.0005'), // $0.0005
+        parseEther('500'), // $500
+        100, // 1%
+      ],
+    });
+    const PlinkoProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      PlinkoImpl.address,
+      coinflipInitData,
+    ]);
+    const Plinko = await hre.viem.getContractAt('Plinko', PlinkoProxy.address);
+    await setBalance(Plinko.address, parseEther('100'));
+
+    // Mint some tokens to the Plinko contract for payouts
+    await mockToken.write.mint([Plinko.address, parseEther('100')]);
+
+    await gameManager.write.addGame([Plinko.address], {
+      account: ownersMultisig.address,
+    });
+
+    await Plinko.write.setMultipliers([8, LOW, LOW_8_ROWS], {
+      account: ownersMultisig.address,
+    });
+    await Plinko.write.setMultipliers([8, MEDIUM, MEDIUM_8_ROWS], {
+      account: ownersMultisig.address,
+    });
+    await Plinko.write.setMultipliers([16, HIGH, HIGH_16_ROWS], {
+      account: ownersMultisig.address,
+    });
+
+    const pauseManagerImpl = await hre.viem.deployContract('PauseManager');
+    const pauseManagerInitData = encodeFunctionData({
+      abi: pauseManagerImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address],
+    });
+    const pauseManagerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      pauseManagerImpl.address,
+      pauseManagerInitData,
+    ]);
+    const pauseManager = await hre.viem.getContractAt('PauseManager', pauseManagerProxy.address);
+
+    await addressBook.write.initialSetPauseManager([pauseManager.address], {
+      account: deployer.account.address,
+    });
+
+    // Deploy Treasury
+    const treasuryImpl = await hre.viem.deployContract('Treasury');
+    const treasuryInitData = encodeFunctionData({
+      abi: treasuryImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address],
+    });
+    const treasuryProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      treasuryImpl.address,
+      treasuryInitData,
+    ]);
+    const treasury = await hre.viem.getContractAt('Treasury', treasuryProxy.address);
+
+    // Deploy ReferralProgram
+    const referralProgramImpl = await hre.viem.deployContract('ReferralProgram');
+    const initialReferralPercent = 500n; // 5% (500/10000)
+    const referralProgramInitData = encodeFunctionData({
+      abi: referralProgramImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address, initialReferralPercent],
+    });
+    const referralProgramProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      referralProgramImpl.address,
+      referralProgramInitData,
+    ]);
+    const referralProgram = await hre.viem.getContractAt(
+      'ReferralProgram',
+      referralProgramProxy.address,
+    );
+
+    await addressBook.write.initialSetTreasury([treasury.address], {
+      account: deployer.account.address,
+    });
+    await addressBook.write.initialSetReferralProgram([referralProgram.address], {
+      account: deployer.account.address,
+    });
+
+    for (const owner of [owner1, owner2]) {
+      const isSigner = await ownersMultisig.read.signers([owner.account.address]);
+      expect(isSigner).to.be.true;
+
+      await setBalance(owner.account.address, parseEther('100'));
+    }
+
+    return {
+      publicClient,
+      Plinko,
+      MockVRFCoordinator,
+      accessRoles,
+      addressBook,
+      gameManager,
+      ownersMultisig,
+      administrator,
+      user,
+      owner1,
+      owner2,
+      deployer,
+      treasury,
+      mockToken,
+      tokensManager,
+      zeroAddress, // NATIVE_TOKEN
+    };
+  }
+
+  describe('Deployment', function () {
+    it('Should deploy successfully', async function () {
+      const { Plinko } = await loadFixture(deployPlinkoFixture);
+      expect(Plinko.address).to.not.equal(0);
+    });
+
+    it('Should be registered in GameManager', async function () {
+      const { Plinko, gameManager } = await loadFixture(deployPlinkoFixture);
+
+      const isRegistered = await gameManager.read.isGameExist([Plinko.address]);
+      expect(isRegistered).to.be.true;
+      expect(await Plinko.read.houseEdge()).to.equal(1);
+    });
+  });
+
+  describe('Multiplier Tables', function () {
+    it('Should return the configured multiplier table', async function () {
+      const { Plinko } = await loadFixture(deployPlinkoFixture);
+
+      const table = await Plinko.read.getMultipliers([8, LOW]);
+      expect(table).to.deep.equal(LOW_8_ROWS);
+    });
+
+    it('Should revert for a table that is not configured', async function () {
+      const { Plinko } = await loadFixture(deployPlinkoFixture);
+
+      await expect(Plinko.read.getMultipliers([8, HIGH])).to.be.rejectedWith('MultipliersNotSet');
+    });
+
+    it('Should reject a row count outside 8..16', async function () {
+      const { Plinko, ownersMultisig } = await loadFixture(deployPlinkoFixture);
+
+      await expect(Plinko.read.getMultipliers([7, LOW])).to.be.rejectedWith('InvalidRows');
+      await expect(
+        Plinko.write.setMultipliers([17, LOW, Array(18).fill(5000)], {
+          account: ownersMultisig.address,
+        }),
+      ).to.be.rejectedWith('InvalidRows');
+    });
+
+    it('Should reject a table without an entry for every bucket', async function () {
+      const { Plinko, ownersMultisig } = await loadFixture(deployPlinkoFixture);
+
+      await expect(
+        Plinko.write.setMultipliers([8, HIGH, LOW_8_ROWS.slice(1)], {
+          account: ownersMultisig.address,
+        }),
+      ).to.be.rejectedWith('InvalidMultipliers');
+    });
+
+    it('Should reject a table returning more than 100% minus the house edge', async function () {
+      const { Plinko, ownersMultisig } = await loadFixture(deployPlinkoFixture);
+
+      await expect(
+        Plinko.write.setMultipliers([8, HIGH, HIGH_8_ROWS], {
+          account: ownersMultisig.address,
+        }),
+      ).to.be.rejectedWith('ReturnToPlayerTooHigh');
+
+      await Plinko.write.setHouseEdge([90], {
+        account: ownersMultisig.address,
+      });
+      await Plinko.write.setMultipliers([8, HIGH, HIGH_8_ROWS], {
+        account: ownersMultisig.address,
+      });
+
+      expect(await Plinko.read.getMultipliers([8, HIGH])).to.deep.equal(HIGH_8_ROWS);
+    });
+
+    it('Should reject a house edge that configured tables do not keep', async function () {
+      const { Plinko, ownersMultisig } = await loadFixture(deployPlinkoFixture);
+
+      await expect(
+        Plinko.write.setHouseEdge([150], {
+          account: ownersMultisig.address,
+        }),
+      ).to.be.rejectedWith('ReturnToPlayerTooHigh');
+
+      await Plinko.write.setHouseEdge([50], {
+        account: ownersMultisig.address,
+      });
+      expect(await Plinko.read.houseEdgeBps()).to.equal(50);
+    });
+
+    it('Should prevent non-owners from setting multipliers', async function () {
+      const { Plinko, user } = await loadFixture(deployPlinkoFixture);
+
+      await expect(
+        Plinko.write.setMultipliers([8, HIGH, LOW_8_ROWS], {
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('only owners multisig!');
+    });
+  });
+
+  describe('Bucket Derivation', function () {
+    it('Should count right bounces of the first rows bits', async function () {
+      const { Plinko } = await loadFixture(deployPlinkoFixture);
+
+      expect(await Plinko.read.deriveBucketFromRandom([0n, 8])).to.equal(0);
+      expect(await Plinko.read.deriveBucketFromRandom([255n, 8])).to.equal(8);
+      // Bits above the row count are ignored
+      expect(await Plinko.read.deriveBucketFromRandom([0xff00n, 8])).to.equal(0);
+      expect(await Plinko.read.deriveBucketFromRandom([0xff00n, 16])).to.equal(8);
+    });
+
+    it('Should match the TS helper', async function () {
+      const { Plinko } = await loadFixture(deployPlinkoFixture);
+
+      for (let i = 0; i < 20; i++) {
+        const rw = BigInt(keccak256(toHex(i)));
+        const rows = 8 + (i % 9);
+
+        const bucket = await Plinko.read.deriveBucketFromRandom([rw, rows]);
+        expect(bucket).to.equal(derivePlinkoBucketFromRandomViem(rw, rows));
+      }
+    });
+  });
+
+  describe('Drop Function', function () {
+    it('Should emit PlinkoDropRequested event when drop is called with native token', async function () {
+      const { Plinko, user, zeroAddress } = await loadFixture(deployPlinkoFixture);
+      const betAmount = parseEther('0.01');
+
+      await Plinko.write.drop([16, HIGH, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: betAmount,
+      });
+
+      const events = await Plinko.getEvents.PlinkoDropRequested();
+      expect(events.length).to.equal(1);
+      expect(getAddress(events[0].args.player!)).to.equal(getAddress(user.account.address));
+      expect(events[0].args.betAmount).to.equal(betAmount);
+      expect(events[0].args.rows).to.equal(16);
+      expect(events[0].args.risk).to.equal(HIGH);
+      expect(await Plinko.read.isDropInProgress({ account: user.account.address })).to.be.true;
+    });
+
+    it('Should revert if a drop is already in progress', async function () {
+      const { Plinko, user, zeroAddress } = await loadFixture(deployPlinkoFixture);
+
+      await Plinko.write.drop([8, LOW, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: parseEther('0.01'),
+      });
+
+      await expect(
+        Plinko.write.drop([8, LOW, zeroAddress, 0n, zeroAddress], {
+          account: user.account.address,
+          value: parseEther('0.01'),
+        }),
+      ).to.be.rejectedWith('RollInProgress');
+    });
+
+    it('Should revert for invalid rows or a table that is not configured', async function () {
+      const { Plinko, user, zeroAddress } = await loadFixture(deployPlinkoFixture);
+
+      await expect(
+        Plinko.write.drop([17, LOW, zeroAddress, 0n, zeroAddress], {
+          account: user.account.address,
+          value: parseEther('0.01'),
+        }),
+      ).to.be.rejectedWith('InvalidRows');
+
+      await expect(
+        Plinko.write.drop([12, LOW, zeroAddress, 0n, zeroAddress], {
+          account: user.account.address,
+          value: parseEther('0.01'),
+        }),
+      ).to.be.rejectedWith('MultipliersNotSet');
+    });
+
+    it('Should revert if the bet amount is outside the limits', async function () {
+      const { Plinko, user, zeroAddress } = await loadFixture(deployPlinkoFixture);
+
+      await expect(
+        Plinko.write.drop([8, LOW, zeroAddress, 0n, zeroAddress], {
+          account: user.account.address,
+          value: parseEther('1') + 1n,
+        }),
+      ).to.be.rejectedWith('InvalidBetAmount');
+    });
+
+    it('Should revert if the highest multiplier exceeds the allowed exposure', async function () {
+      const { Plinko, user, zeroAddress } = await loadFixture(deployPlinkoFixture);
+
+      // 1000x of 0.1 ETH is more than half of the 100 ETH bankroll
+      await expect(
+        Plinko.write.drop([16, HIGH, zeroAddress, 0n, zeroAddress], {
+          account: user.account.address,
+          value: parseEther('0.1'),
+        }),
+      ).to.be.rejectedWith('ExposureLimitExceeded');
+    });
+  });
+
+  describe('Settlement', function () {
+    it('Should pay out the multiplier of the edge bucket', async function () {
+      const { Plinko, MockVRFCoordinator, publicClient, user, zeroAddress } =
+        await loadFixture(deployPlinkoFixture);
+      const betAmount = parseEther('0.1');
+
+      await Plinko.write.drop([8, MEDIUM, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: betAmount,
+      });
+
+      const [liability] = await Plinko.read.getExposure([zeroAddress]);
+      expect(liability).to.equal(parseEther('1.3'));
+
+      const balanceBefore = await publicClient.getBalance({ address: user.account.address });
+
+      // All bounces to the right
+      await MockVRFCoordinator.write.fulfillRandomWords([Plinko.address, [0xffn]]);
+
+      const balanceAfter = await publicClient.getBalance({ address: user.account.address });
+      expect(balanceAfter - balanceBefore).to.equal(parseEther('1.3'));
+
+      const events = await Plinko.getEvents.PlinkoDropFulfilled();
+      expect(events[0].args.bucket).to.equal(8);
+      expect(events[0].args.multiplier).to.equal(130000);
+
+      const [releasedLiability] = await Plinko.read.getExposure([zeroAddress]);
+      expect(releasedLiability).to.equal(0n);
+    });
+
+    it('Should pay out a fraction of the bet in the middle bucket', async function () {
+      const { Plinko, MockVRFCoordinator, user, mockToken } = await loadFixture(deployPlinkoFixture);
+      const betAmount = parseEther('5');
+
+      await mockToken.write.approve([Plinko.address, betAmount], {
+        account: user.account.address,
+      });
+      await Plinko.write.drop([8, LOW, mockToken.address, betAmount, zeroAddress], {
+        account: user.account.address,
+      });
+
+      // Four bounces to each side
+      await MockVRFCoordinator.write.fulfillRandomWords([Plinko.address, [0xa5n]]);
+
+      const events = await Plinko.getEvents.BetSettled();
+      expect(events[0].args.bucket).to.equal(4);
+      expect(events[0].args.won).to.be.true;
+      expect(events[0].args.payout).to.equal(parseEther('2.5'));
+
+      expect(await mockToken.read.balanceOf([user.account.address])).to.equal(parseEther('997.5'));
+
+      const bet = await Plinko.read.getCurrentBet({ account: user.account.address });
+      expect(bet[3]).to.equal(4);
+      expect(bet[4]).to.be.true;
+      expect(bet[5]).to.equal(parseEther('2.5'));
+    });
+
+    it('Should cap the payout at the reserved payout if the table was raised while pending', async function () {
+      const { Plinko, MockVRFCoordinator, ownersMultisig, user, zeroAddress } =
+        await loadFixture(deployPlinkoFixture);
+      const betAmount = parseEther('0.1');
+
+      await Plinko.write.drop([8, MEDIUM, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: betAmount,
+      });
+
+      // Expected return of ~80%, with a 20x edge bucket above the 13x reserved for the bet
+      await Plinko.write.setMultipliers(
+        [8, MEDIUM, [200000, 20000, 10000, 5000, 3000, 5000, 10000, 20000, 200000]],
+        { account: ownersMultisig.address },
+      );
+
+      // All bounces to the right
+      await MockVRFCoordinator.write.fulfillRandomWords([Plinko.address, [0xffn]]);
+
+      const events = await Plinko.getEvents.BetSettled();
+      expect(events[0].args.bucket).to.equal(8);
+      expect(events[0].args.payout).to.equal(parseEther('1.3'));
+
+      const [liability] = await Plinko.read.getExposure([zeroAddress]);
+      expect(liability).to.equal(0n);
+    });
+  });
+
+  describe('Refunds', function () {
+    it('Should refund a bet after the refund timeout', async function () {
+      const { Plinko, user, zeroAddress } = await loadFixture(deployPlinkoFixture);
+      const betAmount = parseEther('0.01');
+
+      await Plinko.write.drop([8, LOW, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: betAmount,
+      });
+
+      await expect(
+        Plinko.write.refundBet({
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('RefundNotAvailable');
+
+      await time.increase(3600);
+
+      await Plinko.write.refundBet({
+        account: user.account.address,
+      });
+
+      const events = await Plinko.getEvents.BetRefunded();
+      expect(events[0].args.amount).to.equal(betAmount);
+      expect(await Plinko.read.isDropInProgress({ account: user.account.address })).to.be.false;
+    });
+  });
+
+  describe('Pause Integration', function () {
+    it('Should revert when PauseManager is paused', async function () {
+      const { Plinko, user, administrator, addressBook, zeroAddress } =
+        await loadFixture(deployPlinkoFixture);
+
+      const pauseManagerAddress = await addressBook.read.pauseManager();
+      const pauseManager = await hre.viem.getContractAt('PauseManager', pauseManagerAddress);
+
+      await pauseManager.write.pauseContract([Plinko.address], {
+        account: administrator.account,
+      });
+
+      await expect(
+        Plinko.write.drop([8, LOW, zeroAddress, 0n, zeroAddress], {
+          account: user.account.address,
+          value: parseEther('0.01'),
+        }),
+      ).to.be.rejectedWith('paused!');
+    });
+  });
+});
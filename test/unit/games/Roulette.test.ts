@@ -0,0 +1,686 @@
+import { expect } from 'chai';
+import hre from 'hardhat';
+import { encodeFunctionData, getAddress, parseEther, zeroAddress } from 'viem';
+import {
+  impersonateAccount,
+  loadFixture,
+  setBalance,
+  time,
+} from '@nomicfoundation/hardhat-toolbox-viem/network-helpers';
+
+describe('Roulette Contract', function () {
+  async function deployRouletteFixture() {
+    const [deployer, user, , , , , , administrator, owner1, owner2] =
+      await hre.viem.getWalletClients();
+    const publicClient = await hre.viem.getPublicClient();
+    const owners = [owner1, owner2];
+
+    const ownersMultisigImpl = await hre.viem.deployContract('MultisigWallet');
+    const ownersMultisigImplInitData = encodeFunctionData({
+      abi: ownersMultisigImpl.abi,
+      functionName: 'initialize',
+      args: [BigInt(owners.length), owners.map(owner => owner.account.address)],
+    });
+    const ownersMultisigProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      ownersMultisigImpl.address,
+      ownersMultisigImplInitData,
+    ]);
+    const ownersMultisig = await hre.viem.getContractAt(
+      'MultisigWallet',
+      ownersMultisigProxy.address,
+    );
+
+    await impersonateAccount(ownersMultisig.address);
+    await setBalance(ownersMultisig.address, parseEther('100'));
+
+    const accessRolesImpl = await hre.viem.deployContract('AccessRoles');
+    const accessRolesInitData = encodeFunctionData({
+      abi: accessRolesImpl.abi,
+      functionName: 'initialize',
+      args: [ownersMultisig.address, [administrator.account.address]],
+    });
+    const accessRolesProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      accessRolesImpl.address,
+      accessRolesInitData,
+    ]);
+    const accessRoles = await hre.viem.getContractAt('AccessRoles', accessRolesProxy.address);
+
+    const addressBookImpl = await hre.viem.deployContract('AddressBook');
+    const addressBookInitData = encodeFunctionData({
+      abi: addressBookImpl.abi,
+      functionName: 'initialize',
+      args: [accessRoles.address],
+    });
+    const addressBookProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      addressBookImpl.address,
+      addressBookInitData,
+    ]);
+    const addressBook = await hre.viem.getContractAt('AddressBook', addressBookProxy.address);
+
+    const gameManagerImpl = await hre.viem.deployContract('GameManager');
+    const gameManagerInitData = encodeFunctionData({
+      abi: gameManagerImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address],
+    });
+    const gameManagerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      gameManagerImpl.address,
+      gameManagerInitData,
+    ]);
+    const gameManager = await hre.viem.getContractAt('GameManager', gameManagerProxy.address);
+
+    await addressBook.write.initialSetGameManager([gameManager.address], {
+      account: deployer.account.address,
+    });
+
+    // Deploy MockERC20 token
+    const mockToken = await hre.viem.deployContract('MockERC20', ['Mock Token', 'MTK', 18]);
+    await mockToken.write.mint([user.account.address, parseEther('1000')]);
+
+    // Deploy Pricers for native token and ERC20 token
+    const nativePricerImpl = await hre.viem.deployContract('Pricer');
+    const nativePricerInitData = encodeFunctionData({
+      abi: nativePricerImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address, 50000000000n, 'ETH/USD Pricer'], // $500 with 8 decimals
+    });
+    const nativePricerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      nativePricerImpl.address,
+      nativePricerInitData,
+    ]);
+    const nativePricer = await hre.viem.getContractAt('Pricer', nativePricerProxy.address);
+
+    const tokenPricerImpl = await hre.viem.deployContract('Pricer');
+    const tokenPricerInitData = encodeFunctionData({
+      abi: tokenPricerImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address, 100000000n, 'MTK/USD Pricer'], // $1 with 8 decimals
+    });
+    const tokenPricerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      tokenPricerImpl.address,
+      tokenPricerInitData,
+    ]);
+    const tokenPricer = await hre.viem.getContractAt('Pricer', tokenPricerProxy.address);
+
+    // Deploy TokensManager
+    const tokensManagerImpl = await hre.viem.deployContract('TokensManager');
+    const tokensManagerInitData = encodeFunctionData({
+      abi: tokensManagerImpl.abi,
+      functionName: 'initialize',
+      args: [
+        addressBook.address,
+        [zeroAddress, mockToken.address],
+        [nativePricer.address, tokenPricer.address],
+      ],
+    });
+    const tokensManagerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      tokensManagerImpl.address,
+      tokensManagerInitData,
+    ]);
+    const tokensManager = await hre.viem.getContractAt('TokensManager', tokensManagerProxy.address);
+
+    await addressBook.write.initialSetTokensManager([tokensManager.address], {
+      account: deployer.account.address,
+    });
+
+    const MockVRFCoordinator = await hre.viem.deployContract('MockVRFCoordinator', []);
+    const RouletteImpl = await hre.viem.deployContract('Roulette', [MockVRFCoordinator.address]);
+    const coinflipInitData = encodeFunctionData({
+      abi: RouletteImpl.abi,
+      functionName: 'initialize',
+      args: [
+        MockVRFCoordinator.address,
+        1n,
+        '0x8af398995b04c28e9a51adb9721ef74c74f93e6a478f39e7e0777be13527e7ef',
+        addressBook.address,
+        parseEther('0.0005'), // $0.0005
+        parseEther('500'), // $500
+        500, // 5%
+      ],
+    });
+    const RouletteProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      RouletteImpl.address,
+      coinflipInitData,
+    ]);
+    const Roulette = await hre.viem.getContractAt('Roulette', RouletteProxy.address);
+    await setBalance(Roulette.address, parseEther('100'));
+
+    // Mint some tokens to the Roulette contract for payouts
+    await mockToken.write.mint([Roulette.address, parseEther('100')]);
+
+    await gameManager.write.addGame([Roulette.address], {
+      account: ownersMultisig.address,
+    });
+
+    const pauseManagerImpl = await hre.viem.deployContract('PauseManager');
+    const pauseManagerInitData = encodeFunctionData({
+      abi: pauseManagerImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address],
+    });
+    const pauseManagerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      pauseManagerImpl.address,
+      pauseManagerInitData,
+    ]);
+    const pauseManager = await hre.viem.getContractAt('PauseManager', pauseManagerProxy.address);
+
+    await addressBook.write.initialSetPauseManager([pauseManager.address], {
+      account: deployer.account.address,
+    });
+
+    // Deploy Treasury
+    const treasuryImpl = await hre.viem.deployContract('Treasury');
+    const treasuryInitData = encodeFunctionData({
+      abi: treasuryImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address],
+    });
+    const treasuryProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      treasuryImpl.address,
+      treasuryInitData,
+    ]);
+    const treasury = await hre.viem.getContractAt('Treasury', treasuryProxy.address);
+
+    // Deploy ReferralProgram
+    const referralProgramImpl = await hre.viem.deployContract('ReferralProgram');
+    const initialReferralPercent = 500n; // 5% (500/10000)
+    const referralProgramInitData = encodeFunctionData({
+      abi: referralProgramImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address, initialReferralPercent],
+    });
+    const referralProgramProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      referralProgramImpl.address,
+      referralProgramInitData,
+    ]);
+    const referralProgram = await hre.viem.getContractAt(
+      'ReferralProgram',
+      referralProgramProxy.address,
+    );
+
+    await addressBook.write.initialSetTreasury([treasury.address], {
+      account: deployer.account.address,
+    });
+    await addressBook.write.initialSetReferralProgram([referralProgram.address], {
+      account: deployer.account.address,
+    });
+
+    for (const owner of [owner1, owner2]) {
+      const isSigner = await ownersMultisig.read.signers([owner.account.address]);
+      expect(isSigner).to.be.true;
+
+      await setBalance(owner.account.address, parseEther('100'));
+    }
+
+    return {
+      publicClient,
+      Roulette,
+      MockVRFCoordinator,
+      accessRoles,
+      addressBook,
+      gameManager,
+      ownersMultisig,
+      administrator,
+      user,
+      owner1,
+      owner2,
+      deployer,
+      treasury,
+      mockToken,
+      tokensManager,
+      zeroAddress, // NATIVE_TOKEN
+    };
+  }
+
+  const STRAIGHT = 0;
+  const SPLIT = 1;
+  const STREET = 2;
+  const CORNER = 3;
+  const RED = 4;
+  const BLACK = 5;
+  const ODD = 6;
+  const DOZEN = 8;
+  const COLUMN = 9;
+
+  function position(betType: number, amount: bigint, number = 0, secondNumber = 0) {
+    return { amount, betType, number, secondNumber };
+  }
+
+  function payoutOf(amount: bigint, covered: bigint, houseEdge = 500n) {
+    return (amount * 36n * (10000n - houseEdge)) / (covered * 10000n);
+  }
+
+  describe('Deployment', function () {
+    it('Should deploy successfully', async function () {
+      const { Roulette } = await loadFixture(deployRouletteFixture);
+      expect(Roulette.address).to.not.equal(0);
+    });
+
+    it('Should be registered in GameManager', async function () {
+      const { Roulette, gameManager } = await loadFixture(deployRouletteFixture);
+
+      const isRegistered = await gameManager.read.isGameExist([Roulette.address]);
+      expect(isRegistered).to.be.true;
+      expect(await Roulette.read.houseEdge()).to.equal(5);
+    });
+  });
+
+  describe('Spin Function', function () {
+    it('Should emit RouletteSpinRequested event with all positions of the spin', async function () {
+      const { Roulette, user, zeroAddress } = await loadFixture(deployRouletteFixture);
+      const positions = [
+        position(STRAIGHT, parseEther('0.01'), 17),
+        position(RED, parseEther('0.1')),
+        position(DOZEN, parseEther('0.05'), 2),
+      ];
+
+      await Roulette.write.spin([positions, zeroAddress, zeroAddress], {
+        account: user.account.address,
+        value: parseEther('0.16'),
+      });
+
+      const events = await Roulette.getEvents.RouletteSpinRequested();
+      expect(events.length).to.equal(1);
+      expect(getAddress(events[0].args.player!)).to.equal(getAddress(user.account.address));
+      expect(events[0].args.betAmount).to.equal(parseEther('0.16'));
+      expect(events[0].args.positions!.length).to.equal(3);
+      expect(events[0].args.positions![0].number).to.equal(17);
+
+      const storedPositions = await Roulette.read.getCurrentPositions({ account: user.account.address });
+      expect(storedPositions.length).to.equal(3);
+      expect(storedPositions[2].betType).to.equal(DOZEN);
+      expect(storedPositions[2].amount).to.equal(parseEther('0.05'));
+    });
+
+    it('Should take the total stake in ERC20 token', async function () {
+      const { Roulette, user, mockToken } = await loadFixture(deployRouletteFixture);
+      const positions = [position(RED, parseEther('1')), position(ODD, parseEther('2'))];
+
+      await mockToken.write.approve([Roulette.address, parseEther('3')], {
+        account: user.account.address,
+      });
+
+      await Roulette.write.spin([positions, mockToken.address, zeroAddress], {
+        account: user.account.address,
+      });
+
+      expect(await mockToken.read.balanceOf([Roulette.address])).to.equal(parseEther('103'));
+    });
+
+    it('Should revert if msg.value does not match the total stake', async function () {
+      const { Roulette, user, zeroAddress } = await loadFixture(deployRouletteFixture);
+
+      await expect(
+        Roulette.write.spin([[position(RED, parseEther('0.1'))], zeroAddress, zeroAddress], {
+          account: user.account.address,
+          value: parseEther('0.2'),
+        }),
+      ).to.be.rejectedWith('Bet amount must match msg.value for native token');
+    });
+
+    it('Should revert if a spin is already in progress', async function () {
+      const { Roulette, user, zeroAddress } = await loadFixture(deployRouletteFixture);
+
+      await Roulette.write.spin([[position(RED, parseEther('0.1'))], zeroAddress, zeroAddress], {
+        account: user.account.address,
+        value: parseEther('0.1'),
+      });
+
+      expect(await Roulette.read.isSpinInProgress({ account: user.account.address })).to.be.true;
+
+      await expect(
+        Roulette.write.spin([[position(RED, parseEther('0.1'))], zeroAddress, zeroAddress], {
+          account: user.account.address,
+          value: parseEther('0.1'),
+        }),
+      ).to.be.rejectedWith('RollInProgress');
+    });
+
+    it('Should revert if the positions count is invalid', async function () {
+      const { Roulette, user, zeroAddress } = await loadFixture(deployRouletteFixture);
+
+      await expect(
+        Roulette.write.spin([[], zeroAddress, zeroAddress], {
+          account: user.account.address,
+          value: 0n,
+        }),
+      ).to.be.rejectedWith('InvalidPositionsCount');
+
+      const positions = Array.from({ length: 17 }, (_, i) => position(STRAIGHT, parseEther('0.01'), i));
+      await expect(
+        Roulette.write.spin([positions, zeroAddress, zeroAddress], {
+          account: user.account.address,
+          value: parseEther('0.17'),
+        }),
+      ).to.be.rejectedWith('InvalidPositionsCount');
+    });
+
+    it('Should revert if the total stake is outside the limits', async function () {
+      const { Roulette, user, zeroAddress } = await loadFixture(deployRouletteFixture);
+
+      // $500 at $500 per ETH
+      await expect(
+        Roulette.write.spin(
+          [[position(RED, parseEther('0.6')), position(BLACK, parseEther('0.6'))], zeroAddress, zeroAddress],
+          {
+            account: user.account.address,
+            value: parseEther('1.2'),
+          },
+        ),
+      ).to.be.rejectedWith('InvalidBetAmount');
+    });
+  });
+
+  describe('Positions', function () {
+    it('Should accept valid positions on the layout', async function () {
+      const { Roulette, zeroAddress } = await loadFixture(deployRouletteFixture);
+      const amount = parseEther('1');
+
+      const validPositions = [
+        [position(STRAIGHT, amount, 0), 1n],
+        [position(SPLIT, amount, 0, 3), 2n],
+        [position(SPLIT, amount, 5, 4), 2n],
+        [position(SPLIT, amount, 33, 36), 2n],
+        [position(STREET, amount, 34), 3n],
+        [position(CORNER, amount, 32), 4n],
+        [position(ODD, amount), 18n],
+        [position(DOZEN, amount, 3), 12n],
+        [position(COLUMN, amount, 1), 12n],
+      ] as const;
+
+      for (const [validPosition, covered] of validPositions) {
+        expect(await Roulette.read.calculatePayout([validPosition, zeroAddress])).to.equal(
+          payoutOf(amount, covered),
+        );
+      }
+    });
+
+    it('Should reject positions that are not on the layout', async function () {
+      const { Roulette, zeroAddress } = await loadFixture(deployRouletteFixture);
+      const amount = parseEther('1');
+
+      const invalidPositions = [
+        position(STRAIGHT, amount, 37),
+        position(SPLIT, amount, 3, 4),
+        position(SPLIT, amount, 0, 4),
+        position(SPLIT, amount, 7, 7),
+        position(STREET, amount, 2),
+        position(CORNER, amount, 3),
+        position(CORNER, amount, 34),
+        position(DOZEN, amount, 0),
+        position(COLUMN, amount, 4),
+      ];
+
+      for (const invalidPosition of invalidPositions) {
+        await expect(
+          Roulette.read.calculatePayout([invalidPosition, zeroAddress]),
+        ).to.be.rejectedWith('InvalidPosition');
+      }
+    });
+
+    it('Should reject positions without a stake', async function () {
+      const { Roulette, user, zeroAddress } = await loadFixture(deployRouletteFixture);
+
+      await expect(
+        Roulette.write.spin(
+          [[position(RED, parseEther('0.1')), position(STRAIGHT, 0n, 7)], zeroAddress, zeroAddress],
+          {
+            account: user.account.address,
+            value: parseEther('0.1'),
+          },
+        ),
+      ).to.be.rejectedWith('InvalidPosition');
+    });
+  });
+
+  describe('Max Payout', function () {
+    it('Should cover the worst-case combined payout of overlapping positions', async function () {
+      const { Roulette, zeroAddress } = await loadFixture(deployRouletteFixture);
+      const amount = parseEther('0.1');
+
+      // 19 is red, odd and in the second dozen, so all positions win together
+      const positions = [
+        position(STRAIGHT, amount, 19),
+        position(RED, amount),
+        position(ODD, amount),
+        position(DOZEN, amount, 2),
+      ];
+
+      expect(await Roulette.read.calculateMaxPayout([positions, zeroAddress])).to.equal(
+        payoutOf(amount, 1n) + payoutOf(amount, 18n) * 2n + payoutOf(amount, 12n),
+      );
+    });
+
+    it('Should not add up positions that cannot win together', async function () {
+      const { Roulette, zeroAddress } = await loadFixture(deployRouletteFixture);
+      const amount = parseEther('0.1');
+
+      const positions = [position(RED, amount), position(BLACK, amount), position(STRAIGHT, amount, 0)];
+
+      expect(await Roulette.read.calculateMaxPayout([positions, zeroAddress])).to.equal(
+        payoutOf(amount, 1n),
+      );
+    });
+  });
+
+  describe('Settlement', function () {
+    it('Should pay out every winning position from one random word', async function () {
+      const { Roulette, MockVRFCoordinator, publicClient, user, zeroAddress } =
+        await loadFixture(deployRouletteFixture);
+      const amount = parseEther('0.01');
+
+      // 17 is black, odd, in the second dozen and the second column
+      const positions = [
+        position(STRAIGHT, amount, 17),
+        position(SPLIT, amount, 17, 20),
+        position(RED, amount),
+        position(ODD, amount),
+        position(DOZEN, amount, 2),
+        position(COLUMN, amount, 3),
+      ];
+
+      await Roulette.write.spin([positions, zeroAddress, zeroAddress], {
+        account: user.account.address,
+        value: amount * 6n,
+      });
+
+      const balanceBefore = await publicClient.getBalance({ address: user.account.address });
+
+      await MockVRFCoordinator.write.fulfillRandomWords([Roulette.address, [37n * 5n + 17n]]);
+
+      const payout =
+        payoutOf(amount, 1n) + payoutOf(amount, 2n) + payoutOf(amount, 18n) + payoutOf(amount, 12n);
+      const balanceAfter = await publicClient.getBalance({ address: user.account.address });
+      expect(balanceAfter - balanceBefore).to.equal(payout);
+
+      const events = await Roulette.getEvents.BetSettled();
+      expect(events[0].args.result).to.equal(17);
+      expect(events[0].args.won).to.be.true;
+      expect(events[0].args.payout).to.equal(payout);
+
+      const bet = await Roulette.read.getCurrentBet({ account: user.account.address });
+      expect(bet[1]).to.equal(17);
+      expect(bet[2]).to.be.true;
+      expect(bet[4]).to.equal(payout);
+    });
+
+    it('Should lose all even-money positions on zero', async function () {
+      const { Roulette, MockVRFCoordinator, user, mockToken } = await loadFixture(deployRouletteFixture);
+      const positions = [position(RED, parseEther('1')), position(BLACK, parseEther('1'))];
+
+      await mockToken.write.approve([Roulette.address, parseEther('2')], {
+        account: user.account.address,
+      });
+      await Roulette.write.spin([positions, mockToken.address, zeroAddress], {
+        account: user.account.address,
+      });
+
+      await MockVRFCoordinator.write.fulfillRandomWords([Roulette.address, [37n]]);
+
+      const events = await Roulette.getEvents.RouletteSpinFulfilled();
+      expect(events[0].args.result).to.equal(0);
+      expect(events[0].args.won).to.be.false;
+      expect(events[0].args.payout).to.equal(0n);
+
+      expect(await mockToken.read.balanceOf([Roulette.address])).to.equal(parseEther('102'));
+      expect(await Roulette.read.isSpinInProgress({ account: user.account.address })).to.be.false;
+    });
+
+    it('Should settle with the house edge of the moment the spin was placed', async function () {
+      const { Roulette, MockVRFCoordinator, ownersMultisig, user, zeroAddress } =
+        await loadFixture(deployRouletteFixture);
+      const amount = parseEther('0.1');
+
+      await Roulette.write.spin([[position(STRAIGHT, amount, 7)], zeroAddress, zeroAddress], {
+        account: user.account.address,
+        value: amount,
+      });
+
+      await Roulette.write.setHouseEdge([0], {
+        account: ownersMultisig.address,
+      });
+
+      await MockVRFCoordinator.write.fulfillRandomWords([Roulette.address, [7n]]);
+
+      const events = await Roulette.getEvents.BetSettled();
+      expect(events[0].args.payout).to.equal(payoutOf(amount, 1n));
+    });
+  });
+
+  describe('Exposure', function () {
+    it('Should reserve the worst-case payout and release it on fulfillment', async function () {
+      const { Roulette, MockVRFCoordinator, user, zeroAddress } = await loadFixture(deployRouletteFixture);
+      const positions = [position(STRAIGHT, parseEther('0.1'), 1), position(RED, parseEther('0.1'))];
+
+      await Roulette.write.spin([positions, zeroAddress, zeroAddress], {
+        account: user.account.address,
+        value: parseEther('0.2'),
+      });
+
+      const [liability] = await Roulette.read.getExposure([zeroAddress]);
+      expect(liability).to.equal(payoutOf(parseEther('0.1'), 1n) + payoutOf(parseEther('0.1'), 18n));
+
+      await MockVRFCoordinator.write.fulfillRandomWords([Roulette.address, [2n]]);
+
+      const [releasedLiability] = await Roulette.read.getExposure([zeroAddress]);
+      expect(releasedLiability).to.equal(0n);
+    });
+
+    it('Should revert if the worst-case payout exceeds the allowed exposure', async function () {
+      const { Roulette, ownersMultisig, user, zeroAddress } = await loadFixture(deployRouletteFixture);
+      const amount = parseEther('0.2');
+
+      // 10% of the ~100 ETH bankroll
+      await Roulette.write.setMaxExposureRatio([1000n], {
+        account: ownersMultisig.address,
+      });
+
+      // 1 is covered by both positions, so they would pay out ~10.26 ETH together
+      await expect(
+        Roulette.write.spin(
+          [[position(STRAIGHT, amount, 1), position(SPLIT, amount, 1, 2)], zeroAddress, zeroAddress],
+          {
+            account: user.account.address,
+            value: amount * 2n,
+          },
+        ),
+      ).to.be.rejectedWith('ExposureLimitExceeded');
+
+      // Positions that cannot win together only reserve the larger payout
+      await Roulette.write.spin(
+        [[position(STRAIGHT, amount, 1), position(SPLIT, amount, 4, 5)], zeroAddress, zeroAddress],
+        {
+          account: user.account.address,
+          value: amount * 2n,
+        },
+      );
+
+      const [liability] = await Roulette.read.getExposure([zeroAddress]);
+      expect(liability).to.equal(payoutOf(amount, 1n));
+    });
+  });
+
+  describe('Refunds', function () {
+    it('Should refund the total stake after the refund timeout', async function () {
+      const { Roulette, MockVRFCoordinator, user, zeroAddress } = await loadFixture(deployRouletteFixture);
+      const positions = [position(STRAIGHT, parseEther('0.1'), 1), position(RED, parseEther('0.2'))];
+
+      await Roulette.write.spin([positions, zeroAddress, zeroAddress], {
+        account: user.account.address,
+        value: parseEther('0.3'),
+      });
+
+      await time.increase(3600);
+
+      await Roulette.write.refundBet({
+        account: user.account.address,
+      });
+
+      const events = await Roulette.getEvents.BetRefunded();
+      expect(events[0].args.amount).to.equal(parseEther('0.3'));
+
+      const [liability] = await Roulette.read.getExposure([zeroAddress]);
+      expect(liability).to.equal(0n);
+
+      await MockVRFCoordinator.write.fulfillRandomWords([Roulette.address, [1n]]);
+      expect((await Roulette.getEvents.BetSettled()).length).to.equal(0);
+    });
+  });
+
+  describe('Pause Integration', function () {
+    it('Should revert when PauseManager is paused', async function () {
+      const { Roulette, user, administrator, addressBook, zeroAddress } =
+        await loadFixture(deployRouletteFixture);
+
+      const pauseManagerAddress = await addressBook.read.pauseManager();
+      const pauseManager = await hre.viem.getContractAt('PauseManager', pauseManagerAddress);
+
+      await pauseManager.write.pauseContract([Roulette.address], {
+        account: administrator.account,
+      });
+
+      await expect(
+        Roulette.write.spin([[position(RED, parseEther('0.1'))], zeroAddress, zeroAddress], {
+          account: user.account.address,
+          value: parseEther('0.1'),
+        }),
+      ).to.be.rejectedWith('paused!');
+    });
+  });
+
+  describe('Configuration Functions', function () {
+    it('Should allow owners multisig to update the house edge', async function () {
+      const { Roulette, ownersMultisig, mockToken } = await loadFixture(deployRouletteFixture);
+
+      await Roulette.write.setHouseEdge([0], {
+        account: ownersMultisig.address,
+      });
+      await Roulette.write.setTokenHouseEdge([mockToken.address, 250], {
+        account: ownersMultisig.address,
+      });
+
+      expect(await Roulette.read.calculatePayout([position(STRAIGHT, parseEther('1'), 1), zeroAddress])).to.equal(
+        parseEther('36'),
+      );
+      expect(
+        await Roulette.read.calculatePayout([position(STRAIGHT, parseEther('1'), 1), mockToken.address]),
+      ).to.equal(payoutOf(parseEther('1'), 1n, 250n));
+    });
+
+    it('Should prevent non-owners from changing configuration', async function () {
+      const { Roulette, user } = await loadFixture(deployRouletteFixture);
+
+      await expect(
+        Roulette.write.setHouseEdge([0], {
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('only owners multisig!');
+
+      await expect(
+        Roulette.write.setMaxExposureRatio([10000n], {
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('only owners multisig!');
+    });
+  });
+});
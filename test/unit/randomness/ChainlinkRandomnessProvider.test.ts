@@ -0,0 +1,767 @@
+import { expect } from 'chai';
+import hre from 'hardhat';
+import {
+  encodeAbiParameters,
+  encodeFunctionData,
+  getAddress,
+  keccak256,
+  parseEther,
+  zeroAddress,
+} from 'viem';
+import {
+  impersonateAccount,
+  loadFixture,
+  setBalance,
+  time,
+} from '@nomicfoundation/hardhat-toolbox-viem/network-helpers';
+import { getImplementationAddress } from '../../../scripts/utils/getImplementationAddress';
+
+describe('ChainlinkRandomnessProvider Contract', function () {
+  const keyHash = '0x8af398995b04c28e9a51adb9721ef74c74f93e6a478f39e7e0777be13527e7ef';
+
+  async function deployChainlinkProviderFixture() {
+    const [deployer, user, , , , , , administrator, owner1, owner2] =
+      await hre.viem.getWalletClients();
+    const publicClient = await hre.viem.getPublicClient();
+    const owners = [owner1, owner2];
+
+    const ownersMultisigImpl = await hre.viem.deployContract('MultisigWallet');
+    const ownersMultisigImplInitData = encodeFunctionData({
+      abi: ownersMultisigImpl.abi,
+      functionName: 'initialize',
+      args: [BigInt(owners.length), owners.map(owner => owner.account.address)],
+    });
+    const ownersMultisigProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      ownersMultisigImpl.address,
+      ownersMultisigImplInitData,
+    ]);
+    const ownersMultisig = await hre.viem.getContractAt(
+      'MultisigWallet',
+      ownersMultisigProxy.address,
+    );
+
+    await impersonateAccount(ownersMultisig.address);
+    await setBalance(ownersMultisig.address, parseEther('100'));
+
+    const accessRolesImpl = await hre.viem.deployContract('AccessRoles');
+    const accessRolesInitData = encodeFunctionData({
+      abi: accessRolesImpl.abi,
+      functionName: 'initialize',
+      args: [ownersMultisig.address, [administrator.account.address]],
+    });
+    const accessRolesProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      accessRolesImpl.address,
+      accessRolesInitData,
+    ]);
+    const accessRoles = await hre.viem.getContractAt('AccessRoles', accessRolesProxy.address);
+
+    const addressBookImpl = await hre.viem.deployContract('AddressBook');
+    const addressBookInitData = encodeFunctionData({
+      abi: addressBookImpl.abi,
+      functionName: 'initialize',
+      args: [accessRoles.address],
+    });
+    const addressBookProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      addressBookImpl.address,
+      addressBookInitData,
+    ]);
+    const addressBook = await hre.viem.getContractAt('AddressBook', addressBookProxy.address);
+
+    const gameManagerImpl = await hre.viem.deployContract('GameManager');
+    const gameManagerInitData = encodeFunctionData({
+      abi: gameManagerImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address],
+    });
+    const gameManagerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      gameManagerImpl.address,
+      gameManagerInitData,
+    ]);
+    const gameManager = await hre.viem.getContractAt('GameManager', gameManagerProxy.address);
+
+    await addressBook.write.initialSetGameManager([gameManager.address], {
+      account: deployer.account.address,
+    });
+
+    // Deploy MockERC20 token
+    const mockToken = await hre.viem.deployContract('MockERC20', ['Mock Token', 'MTK', 18]);
+    await mockToken.write.mint([user.account.address, parseEther('1000')]);
+
+    // Deploy Pricers for native token and ERC20 token
+    const nativePricerImpl = await hre.viem.deployContract('Pricer');
+    const nativePricerInitData = encodeFunctionData({
+      abi: nativePricerImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address, 50000000000n, 'ETH/USD Pricer'], // $500 with 8 decimals
+    });
+    const nativePricerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      nativePricerImpl.address,
+      nativePricerInitData,
+    ]);
+    const nativePricer = await hre.viem.getContractAt('Pricer', nativePricerProxy.address);
+
+    const tokenPricerImpl = await hre.viem.deployContract('Pricer');
+    const tokenPricerInitData = encodeFunctionData({
+      abi: tokenPricerImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address, 100000000n, 'MTK/USD Pricer'], // $1 with 8 decimals
+    });
+    const tokenPricerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      tokenPricerImpl.address,
+      tokenPricerInitData,
+    ]);
+    const tokenPricer = await hre.viem.getContractAt('Pricer', tokenPricerProxy.address);
+
+    // Deploy TokensManager
+    const tokensManagerImpl = await hre.viem.deployContract('TokensManager');
+    const tokensManagerInitData = encodeFunctionData({
+      abi: tokensManagerImpl.abi,
+      functionName: 'initialize',
+      args: [
+        addressBook.address,
+        [zeroAddress, mockToken.address],
+        [nativePricer.address, tokenPricer.address],
+      ],
+    });
+    const tokensManagerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      tokensManagerImpl.address,
+      tokensManagerInitData,
+    ]);
+    const tokensManager = await hre.viem.getContractAt('TokensManager', tokensManagerProxy.address);
+
+    await addressBook.write.initialSetTokensManager([tokensManager.address], {
+      account: deployer.account.address,
+    });
+
+    const MockVRFCoordinator = await hre.viem.deployContract('MockVRFCoordinator', []);
+    const DiceImpl = await hre.viem.deployContract('Dice', [MockVRFCoordinator.address]);
+    const diceInitData = encodeFunctionData({
+      abi: DiceImpl.abi,
+      functionName: 'initialize',
+      args: [
+        MockVRFCoordinator.address,
+        1n,
+        '0x8af398995b04c28e9a51adb9721ef74c74f93e6a478f39e7e0777be13527e7ef',
+        addressBook.address,
+        10,
+        90,
+        parseEther('0.0005'), // $0.0005
+        parseEther('500'), // $500
+        1000, // 10%
+      ],
+    });
+    const DiceProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      DiceImpl.address,
+      diceInitData,
+    ]);
+    const Dice = await hre.viem.getContractAt('Dice', DiceProxy.address);
+    await setBalance(Dice.address, parseEther('100'));
+
+    // Mint some tokens to the Dice contract for payouts
+    await mockToken.write.mint([Dice.address, parseEther('100')]);
+
+    await gameManager.write.addGame([Dice.address], {
+      account: ownersMultisig.address,
+    });
+
+    const pauseManagerImpl = await hre.viem.deployContract('PauseManager');
+    const pauseManagerInitData = encodeFunctionData({
+      abi: pauseManagerImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address],
+    });
+    const pauseManagerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      pauseManagerImpl.address,
+      pauseManagerInitData,
+    ]);
+    const pauseManager = await hre.viem.getContractAt('PauseManager', pauseManagerProxy.address);
+
+    await addressBook.write.initialSetPauseManager([pauseManager.address], {
+      account: deployer.account.address,
+    });
+
+    // Deploy Treasury
+    const treasuryImpl = await hre.viem.deployContract('Treasury');
+    const treasuryInitData = encodeFunctionData({
+      abi: treasuryImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address],
+    });
+    const treasuryProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      treasuryImpl.address,
+      treasuryInitData,
+    ]);
+    const treasury = await hre.viem.getContractAt('Treasury', treasuryProxy.address);
+
+    // Deploy ReferralProgram
+    const referralProgramImpl = await hre.viem.deployContract('ReferralProgram');
+    const initialReferralPercent = 500n; // 5% (500/10000)
+    const referralProgramInitData = encodeFunctionData({
+      abi: referralProgramImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address, initialReferralPercent],
+    });
+    const referralProgramProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      referralProgramImpl.address,
+      referralProgramInitData,
+    ]);
+    const referralProgram = await hre.viem.getContractAt(
+      'ReferralProgram',
+      referralProgramProxy.address,
+    );
+
+    await addressBook.write.initialSetTreasury([treasury.address], {
+      account: deployer.account.address,
+    });
+    await addressBook.write.initialSetReferralProgram([referralProgram.address], {
+      account: deployer.account.address,
+    });
+
+    for (const owner of [owner1, owner2]) {
+      const isSigner = await ownersMultisig.read.signers([owner.account.address]);
+      expect(isSigner).to.be.true;
+
+      await setBalance(owner.account.address, parseEther('100'));
+    }
+
+    const providerImpl = await hre.viem.deployContract('ChainlinkRandomnessProvider', [
+      MockVRFCoordinator.address,
+    ]);
+    const providerInitData = encodeFunctionData({
+      abi: providerImpl.abi,
+      functionName: 'initialize',
+      args: [MockVRFCoordinator.address, 1n, keyHash, addressBook.address],
+    });
+    const providerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      providerImpl.address,
+      providerInitData,
+    ]);
+    const provider = await hre.viem.getContractAt('ChainlinkRandomnessProvider', providerProxy.address);
+
+    await addressBook.write.setRandomnessProvider([provider.address], {
+      account: ownersMultisig.address,
+    });
+
+    return {
+      publicClient,
+      provider,
+      Dice,
+      MockVRFCoordinator,
+      addressBook,
+      ownersMultisig,
+      administrator,
+      deployer,
+      user,
+    };
+  }
+
+  describe('Deployment', function () {
+    it('Should initialize with correct parameters', async function () {
+      const { provider, addressBook } = await loadFixture(deployChainlinkProviderFixture);
+
+      expect(getAddress(await provider.read.addressBook())).to.equal(getAddress(addressBook.address));
+      expect(await provider.read.subscriptionId()).to.equal(1n);
+      expect(await provider.read.keyHash()).to.equal(keyHash);
+      expect(await provider.read.callbackGasLimit()).to.equal(500000);
+      expect(await provider.read.requestConfirmations()).to.equal(3);
+      expect(await provider.read.nativePayment()).to.be.false;
+    });
+
+    it('Should revert if initialized twice', async function () {
+      const { provider, MockVRFCoordinator, addressBook } = await loadFixture(deployChainlinkProviderFixture);
+
+      await expect(
+        provider.write.initialize([MockVRFCoordinator.address, 1n, keyHash, addressBook.address]),
+      ).to.be.rejectedWith('InvalidInitialization');
+    });
+  });
+
+  describe('Requests', function () {
+    it('Should forward the random words of Chainlink VRF to the game', async function () {
+      const { provider, Dice, MockVRFCoordinator, user } = await loadFixture(deployChainlinkProviderFixture);
+
+      await Dice.write.roll([50n, 0, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: 1000000000000000n,
+      });
+
+      const requestId = (await Dice.read.getBet([1n])).requestId;
+      expect(getAddress(await provider.read.requestConsumers([requestId]))).to.equal(getAddress(Dice.address));
+
+      const [requested] = await provider.getEvents.RandomnessRequested();
+      expect(requested.args.requestId).to.equal(requestId);
+      expect(getAddress(requested.args.player!)).to.equal(getAddress(user.account.address));
+      expect(requested.args.numWords).to.equal(1);
+
+      await MockVRFCoordinator.write.fulfillRandomWords([provider.address, [99n]]);
+
+      const record = await Dice.read.getBet([1n]);
+      expect(record.bet.settled).to.be.true;
+      expect(record.bet.won).to.be.true;
+      expect(record.bet.result).to.equal(100n);
+      expect(await provider.read.requestConsumers([requestId])).to.equal(zeroAddress);
+    });
+
+    it('Should fall back to the VRF subscription of the game without a randomness provider', async function () {
+      const { Dice, MockVRFCoordinator, addressBook, ownersMultisig, user } =
+        await loadFixture(deployChainlinkProviderFixture);
+
+      await addressBook.write.setRandomnessProvider([zeroAddress], {
+        account: ownersMultisig.address,
+      });
+      await Dice.write.roll([50n, 0, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: 1000000000000000n,
+      });
+      await MockVRFCoordinator.write.fulfillRandomWords([Dice.address, [24n]]);
+
+      const record = await Dice.read.getBet([1n]);
+      expect(record.bet.settled).to.be.true;
+      expect(record.bet.result).to.equal(25n);
+    });
+
+    it('Should deliver pending requests through their provider after it is replaced', async function () {
+      const { Dice, MockVRFCoordinator, addressBook, ownersMultisig, provider, user } =
+        await loadFixture(deployChainlinkProviderFixture);
+
+      await Dice.write.roll([50n, 0, zeroAddress, 0n, zeroAddress], {
+        account: user.account.address,
+        value: 1000000000000000n,
+      });
+      await addressBook.write.setRandomnessProvider([zeroAddress], {
+        account: ownersMultisig.address,
+      });
+      await MockVRFCoordinator.write.fulfillRandomWords([provider.address, [99n]]);
+
+      const record = await Dice.read.getBet([1n]);
+      expect(record.bet.settled).to.be.true;
+      expect(record.bet.result).to.equal(100n);
+    });
+
+    it('Should revert if requested by a non-game contract', async function () {
+      const { provider, user } = await loadFixture(deployChainlinkProviderFixture);
+
+      await expect(
+        provider.write.requestRandomness([user.account.address, 1], {
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('only game!');
+    });
+  });
+
+  describe('Settings', function () {
+    it('Should allow owners multisig to update the VRF settings', async function () {
+      const { provider, ownersMultisig } = await loadFixture(deployChainlinkProviderFixture);
+      const newKeyHash = '0x787d74caea10b2b357790d5b5247c2f63d1d91572a9846f780606e4d953677ae';
+
+      await provider.write.updateVRFSettings([zeroAddress, 42n], {
+        account: ownersMultisig.address,
+      });
+      await provider.write.setKeyHash([newKeyHash], {
+        account: ownersMultisig.address,
+      });
+      await provider.write.setCallbackGasLimit([800000], {
+        account: ownersMultisig.address,
+      });
+      await provider.write.setRequestConfirmations([5], {
+        account: ownersMultisig.address,
+      });
+      await provider.write.setNativePayment([true], {
+        account: ownersMultisig.address,
+      });
+
+      expect(await provider.read.subscriptionId()).to.equal(42n);
+      expect(await provider.read.keyHash()).to.equal(newKeyHash);
+      expect(await provider.read.callbackGasLimit()).to.equal(800000);
+      expect(await provider.read.requestConfirmations()).to.equal(5);
+      expect(await provider.read.nativePayment()).to.be.true;
+    });
+
+    it('Should revert for invalid settings', async function () {
+      const { provider, ownersMultisig } = await loadFixture(deployChainlinkProviderFixture);
+
+      await expect(
+        provider.write.setKeyHash(['0x0000000000000000000000000000000000000000000000000000000000000000'], {
+          account: ownersMultisig.address,
+        }),
+      ).to.be.rejectedWith('newKeyHash is zero!');
+
+      await expect(
+        provider.write.setCallbackGasLimit([50000], {
+          account: ownersMultisig.address,
+        }),
+      ).to.be.rejectedWith('Gas limit too low');
+
+      await expect(
+        provider.write.setRequestConfirmations([201], {
+          account: ownersMultisig.address,
+        }),
+      ).to.be.rejectedWith('Invalid request confirmations');
+    });
+
+    it('Should revert if non-owner tries to update the settings', async function () {
+      const { provider, administrator } = await loadFixture(deployChainlinkProviderFixture);
+
+      await expect(
+        provider.write.setNativePayment([true], {
+          account: administrator.account.address,
+        }),
+      ).to.be.rejectedWith('only owners multisig!');
+
+      await expect(
+        provider.write.updateVRFSettings([zeroAddress, 42n], {
+          account: administrator.account.address,
+        }),
+      ).to.be.rejectedWith('only owners multisig!');
+    });
+  });
+
+  describe('Batching', function () {
+    async function deployBatchingFixture() {
+      const fixture = await deployChainlinkProviderFixture();
+
+      await fixture.provider.write.setBatchWindow([60n], {
+        account: fixture.ownersMultisig.address,
+      });
+      await fixture.provider.write.setSettlementChunkSize([1n], {
+        account: fixture.ownersMultisig.address,
+      });
+
+      for (const player of [fixture.user, fixture.deployer]) {
+        await fixture.Dice.write.roll([50n, 0, zeroAddress, 0n, zeroAddress], {
+          account: player.account.address,
+          value: 1000000000000000n,
+        });
+      }
+
+      return fixture;
+    }
+
+    it('Should allow owners multisig to update the batching settings', async function () {
+      const { provider, ownersMultisig } = await loadFixture(deployChainlinkProviderFixture);
+
+      expect(await provider.read.batchWindow()).to.equal(0n);
+      expect(await provider.read.settlementChunkSize()).to.equal(3n);
+      expect(await provider.read.deliveryGasLimit()).to.equal(300000);
+
+      await provider.write.setBatchWindow([30n], {
+        account: ownersMultisig.address,
+      });
+      await provider.write.setSettlementChunkSize([10n], {
+        account: ownersMultisig.address,
+      });
+      await provider.write.setDeliveryGasLimit([400000], {
+        account: ownersMultisig.address,
+      });
+
+      expect(await provider.read.batchWindow()).to.equal(30n);
+      expect(await provider.read.settlementChunkSize()).to.equal(10n);
+      expect(await provider.read.deliveryGasLimit()).to.equal(400000);
+
+      const [windowEvent] = await provider.getEvents.BatchWindowSet({ fromBlock: 0n });
+      expect(windowEvent.args.batchWindow).to.equal(30n);
+      const [chunkEvent] = await provider.getEvents.SettlementChunkSizeSet({ fromBlock: 0n });
+      expect(chunkEvent.args.settlementChunkSize).to.equal(10n);
+    });
+
+    it('Should revert for invalid batching settings', async function () {
+      const { provider, ownersMultisig, administrator } = await loadFixture(deployChainlinkProviderFixture);
+
+      await expect(
+        provider.write.setBatchWindow([3601n], {
+          account: ownersMultisig.address,
+        }),
+      ).to.be.rejectedWith('Batch window too long');
+
+      await expect(
+        provider.write.setSettlementChunkSize([0n], {
+          account: ownersMultisig.address,
+        }),
+      ).to.be.rejectedWith('newSettlementChunkSize is zero!');
+
+      await expect(
+        provider.write.setBatchWindow([30n], {
+          account: administrator.account.address,
+        }),
+      ).to.be.rejectedWith('only owners multisig!');
+
+      await expect(
+        provider.write.setSettlementChunkSize([10n], {
+          account: administrator.account.address,
+        }),
+      ).to.be.rejectedWith('only owners multisig!');
+
+      await expect(
+        provider.write.setDeliveryGasLimit([50000], {
+          account: ownersMultisig.address,
+        }),
+      ).to.be.rejectedWith('Gas limit too low');
+
+      await expect(
+        provider.write.setDeliveryGasLimit([400000], {
+          account: administrator.account.address,
+        }),
+      ).to.be.rejectedWith('only owners multisig!');
+    });
+
+    it('Should collect the requests made within the window into one batch', async function () {
+      const { provider, Dice } = await loadFixture(deployBatchingFixture);
+
+      const batch = await provider.read.getBatch([1n]);
+      expect(batch.requested).to.be.false;
+      expect(batch.requestIds).to.deep.equal([
+        (await Dice.read.getBet([1n])).requestId,
+        (await Dice.read.getBet([2n])).requestId,
+      ]);
+      expect(await provider.read.openBatchId()).to.equal(1n);
+      expect(await provider.read.requestBatches([batch.requestIds[1]])).to.equal(1n);
+      expect(await provider.getEvents.BatchRequested()).to.have.lengthOf(0);
+
+      await expect(provider.write.requestBatch()).to.be.rejectedWith('Batch window not passed');
+    });
+
+    it('Should request the batch once its window has passed', async function () {
+      const { provider } = await loadFixture(deployBatchingFixture);
+
+      await time.increase(60);
+      await provider.write.requestBatch();
+
+      const batch = await provider.read.getBatch([1n]);
+      expect(batch.requested).to.be.true;
+      expect(await provider.read.openBatchId()).to.equal(0n);
+
+      const [requested] = await provider.getEvents.BatchRequested();
+      expect(requested.args.batchId).to.equal(1n);
+      expect(requested.args.vrfRequestId).to.equal(batch.vrfRequestId);
+      expect(requested.args.size).to.equal(2n);
+
+      await expect(provider.write.requestBatch()).to.be.rejectedWith('No open batch');
+    });
+
+    it('Should open a new batch for a request made after the window', async function () {
+      const { provider, Dice, administrator } = await loadFixture(deployBatchingFixture);
+
+      await time.increase(60);
+      await Dice.write.roll([50n, 0, zeroAddress, 0n, zeroAddress], {
+        account: administrator.account.address,
+        value: 1000000000000000n,
+      });
+
+      expect((await provider.read.getBatch([1n])).requested).to.be.true;
+      expect(await provider.read.openBatchId()).to.equal(2n);
+      expect((await provider.read.getBatch([2n])).requestIds).to.deep.equal([
+        (await Dice.read.getBet([3n])).requestId,
+      ]);
+    });
+
+    it('Should settle the bets of a batch in chunks with the expanded word', async function () {
+      const { provider, Dice, MockVRFCoordinator } = await loadFixture(deployBatchingFixture);
+      const randomWord = 12345n;
+
+      await time.increase(60);
+      await provider.write.requestBatch();
+      await expect(provider.write.deliverBatch([1n])).to.be.rejectedWith('Batch not fulfilled');
+
+      await MockVRFCoordinator.write.fulfillRandomWords([provider.address, [randomWord]]);
+
+      const batch = await provider.read.getBatch([1n]);
+      expect(batch.fulfilled).to.be.true;
+      expect(batch.randomWord).to.equal(randomWord);
+      expect(batch.deliveredCount).to.equal(1n);
+      expect((await Dice.read.getBet([1n])).bet.settled).to.be.true;
+      expect((await Dice.read.getBet([2n])).bet.settled).to.be.false;
+
+      await provider.write.deliverBatch([1n]);
+
+      for (const betId of [1n, 2n]) {
+        const record = await Dice.read.getBet([betId]);
+        const word = BigInt(
+          keccak256(
+            encodeAbiParameters(
+              [{ type: 'uint256' }, { type: 'uint256' }, { type: 'uint256' }],
+              [randomWord, record.requestId, 0n],
+            ),
+          ),
+        );
+        expect(record.bet.settled).to.be.true;
+        expect(record.bet.result).to.equal((word % 100n) + 1n);
+        expect(await provider.read.expandRandomWord([randomWord, record.requestId, 1])).to.deep.equal([word]);
+      }
+
+      expect((await provider.read.getBatch([1n])).deliveredCount).to.equal(2n);
+      await expect(provider.write.deliverBatch([1n])).to.be.rejectedWith('Batch already delivered');
+    });
+
+    it('Should not refund a bet whose batch is fulfilled', async function () {
+      const { provider, Dice, MockVRFCoordinator, deployer } = await loadFixture(deployBatchingFixture);
+
+      await time.increase(60);
+      await provider.write.requestBatch();
+      await MockVRFCoordinator.write.fulfillRandomWords([provider.address, [12345n]]);
+
+      const requestId = (await Dice.read.getBet([2n])).requestId;
+      expect(await provider.read.isFulfilled([requestId])).to.be.true;
+
+      await time.increase(3600);
+      await expect(
+        Dice.write.refundBet([requestId], {
+          account: deployer.account.address,
+        }),
+      ).to.be.rejectedWith('RefundNotAvailable');
+    });
+
+    describe('Failed Deliveries', function () {
+      async function deployFailedDeliveryFixture() {
+        const fixture = await deployBatchingFixture();
+
+        // Too little gas to settle a bet, so every delivery reverts
+        await fixture.provider.write.setDeliveryGasLimit([50001], {
+          account: fixture.ownersMultisig.address,
+        });
+        await fixture.provider.write.setSettlementChunkSize([3n], {
+          account: fixture.ownersMultisig.address,
+        });
+        await time.increase(60);
+        await fixture.provider.write.requestBatch();
+        await fixture.MockVRFCoordinator.write.fulfillRandomWords([fixture.provider.address, [12345n]]);
+
+        return fixture;
+      }
+
+      it('Should record a reverting delivery and continue with the rest of the batch', async function () {
+        const { provider, Dice } = await loadFixture(deployFailedDeliveryFixture);
+
+        const batch = await provider.read.getBatch([1n]);
+        expect(batch.fulfilled).to.be.true;
+        expect(batch.deliveredCount).to.equal(2n);
+
+        const events = await provider.getEvents.DeliveryFailed();
+        expect(events).to.have.lengthOf(2);
+
+        for (const betId of [1n, 2n]) {
+          const record = await Dice.read.getBet([betId]);
+          expect(record.bet.settled).to.be.false;
+          expect(await provider.read.failedDeliveries([record.requestId])).to.be.true;
+          // The outcome is public once the batch word is delivered
+          expect(await provider.read.isFulfilled([record.requestId])).to.be.true;
+          expect(getAddress(await provider.read.requestConsumers([record.requestId]))).to.equal(
+            getAddress(Dice.address),
+          );
+        }
+        expect(events[0].args.requestId).to.equal((await Dice.read.getBet([1n])).requestId);
+        expect(getAddress(events[0].args.consumer!)).to.equal(getAddress(Dice.address));
+      });
+
+      it('Should retry a failed delivery with the same words', async function () {
+        const { provider, Dice, ownersMultisig } = await loadFixture(deployFailedDeliveryFixture);
+        const requestId = (await Dice.read.getBet([1n])).requestId;
+
+        await expect(provider.write.retryDelivery([requestId])).to.be.rejectedWith('Delivery failed');
+
+        await provider.write.setDeliveryGasLimit([300000], {
+          account: ownersMultisig.address,
+        });
+        await provider.write.retryDelivery([requestId]);
+
+        const [word] = await provider.read.expandRandomWord([12345n, requestId, 1]);
+        const record = await Dice.read.getBet([1n]);
+        expect(record.bet.settled).to.be.true;
+        expect(record.bet.result).to.equal((word % 100n) + 1n);
+        expect(await provider.read.failedDeliveries([requestId])).to.be.false;
+        expect(await provider.read.isFulfilled([requestId])).to.be.true;
+
+        await expect(provider.write.retryDelivery([requestId])).to.be.rejectedWith('Delivery not failed');
+      });
+
+      it('Should not let the player refund a bet whose delivery failed', async function () {
+        const { provider, Dice, deployer, ownersMultisig } = await loadFixture(deployFailedDeliveryFixture);
+        const requestId = (await Dice.read.getBet([2n])).requestId;
+
+        await time.increase(3600);
+        await expect(
+          Dice.write.refundBet([requestId], {
+            account: deployer.account.address,
+          }),
+        ).to.be.rejectedWith('RefundNotAvailable');
+
+        await provider.write.setDeliveryGasLimit([300000], {
+          account: ownersMultisig.address,
+        });
+        await provider.write.retryDelivery([requestId]);
+        expect((await Dice.read.getBet([2n])).bet.settled).to.be.true;
+      });
+    });
+
+    describe('Batch Re-requests', function () {
+      async function deployRequestedBatchFixture() {
+        const fixture = await deployBatchingFixture();
+
+        await time.increase(60);
+        await fixture.provider.write.requestBatch();
+
+        return fixture;
+      }
+
+      it('Should request the word of a batch whose VRF callback failed again', async function () {
+        const { provider, Dice, MockVRFCoordinator, administrator } = await loadFixture(deployRequestedBatchFixture);
+        const previousVrfRequestId = (await provider.read.getBatch([1n])).vrfRequestId;
+
+        await provider.write.rerequestBatch([1n], {
+          account: administrator.account.address,
+        });
+
+        const batch = await provider.read.getBatch([1n]);
+        expect(batch.vrfRequestId).to.not.equal(previousVrfRequestId);
+
+        const [event] = await provider.getEvents.BatchRerequested();
+        expect(event.args.batchId).to.equal(1n);
+        expect(event.args.vrfRequestId).to.equal(batch.vrfRequestId);
+
+        await MockVRFCoordinator.write.fulfillRandomWords([provider.address, [12345n]]);
+
+        expect((await provider.read.getBatch([1n])).fulfilled).to.be.true;
+        expect((await Dice.read.getBet([1n])).bet.settled).to.be.true;
+
+        await expect(
+          provider.write.rerequestBatch([1n], {
+            account: administrator.account.address,
+          }),
+        ).to.be.rejectedWith('Batch already fulfilled');
+      });
+
+      it('Should revert re-requesting an unrequested batch or by a non-administrator', async function () {
+        const { provider, user, administrator } = await loadFixture(deployRequestedBatchFixture);
+
+        await expect(
+          provider.write.rerequestBatch([1n], {
+            account: user.account.address,
+          }),
+        ).to.be.rejectedWith('only administrator!');
+
+        await expect(
+          provider.write.rerequestBatch([2n], {
+            account: administrator.account.address,
+          }),
+        ).to.be.rejectedWith('Batch not requested');
+      });
+    });
+  });
+
+  describe('Upgrade Functionality', function () {
+    it('Should allow owners multisig to upgrade the contract', async function () {
+      const { provider, MockVRFCoordinator, ownersMultisig, publicClient } =
+        await loadFixture(deployChainlinkProviderFixture);
+
+      const newProviderImpl = await hre.viem.deployContract('ChainlinkRandomnessProvider', [
+        MockVRFCoordinator.address,
+      ]);
+
+      await provider.write.upgradeToAndCall([newProviderImpl.address, '0x'], {
+        account: ownersMultisig.address,
+      });
+
+      const implementationAddress = await getImplementationAddress(publicClient, provider.address);
+      expect(getAddress(implementationAddress)).to.equal(getAddress(newProviderImpl.address));
+    });
+  });
+});
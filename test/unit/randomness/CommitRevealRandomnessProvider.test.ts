@@ -0,0 +1,568 @@
+import { expect } from 'chai';
+import hre from 'hardhat';
+import { encodeAbiParameters, encodeFunctionData, getAddress, keccak256, parseEther, zeroAddress } from 'viem';
+import {
+  impersonateAccount,
+  loadFixture,
+  mine,
+  setBalance,
+  time,
+} from '@nomicfoundation/hardhat-toolbox-viem/network-helpers';
+import { getImplementationAddress } from '../../../scripts/utils/getImplementationAddress';
+
+describe('CommitRevealRandomnessProvider Contract', function () {
+  const seeds = [
+    keccak256('0x01'),
+    keccak256('0x02'),
+  ] as const;
+  const hashSeed = (seed: `0x${string}`) => keccak256(encodeAbiParameters([{ type: 'bytes32' }], [seed]));
+
+  async function deployCommitRevealFixture() {
+    const [deployer, user, , , , , , administrator, owner1, owner2] =
+      await hre.viem.getWalletClients();
+    const publicClient = await hre.viem.getPublicClient();
+    const owners = [owner1, owner2];
+
+    const ownersMultisigImpl = await hre.viem.deployContract('MultisigWallet');
+    const ownersMultisigImplInitData = encodeFunctionData({
+      abi: ownersMultisigImpl.abi,
+      functionName: 'initialize',
+      args: [BigInt(owners.length), owners.map(owner => owner.account.address)],
+    });
+    const ownersMultisigProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      ownersMultisigImpl.address,
+      ownersMultisigImplInitData,
+    ]);
+    const ownersMultisig = await hre.viem.getContractAt(
+      'MultisigWallet',
+      ownersMultisigProxy.address,
+    );
+
+    await impersonateAccount(ownersMultisig.address);
+    await setBalance(ownersMultisig.address, parseEther('100'));
+
+    const accessRolesImpl = await hre.viem.deployContract('AccessRoles');
+    const accessRolesInitData = encodeFunctionData({
+      abi: accessRolesImpl.abi,
+      functionName: 'initialize',
+      args: [ownersMultisig.address, [administrator.account.address]],
+    });
+    const accessRolesProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      accessRolesImpl.address,
+      accessRolesInitData,
+    ]);
+    const accessRoles = await hre.viem.getContractAt('AccessRoles', accessRolesProxy.address);
+
+    const addressBookImpl = await hre.viem.deployContract('AddressBook');
+    const addressBookInitData = encodeFunctionData({
+      abi: addressBookImpl.abi,
+      functionName: 'initialize',
+      args: [accessRoles.address],
+    });
+    const addressBookProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      addressBookImpl.address,
+      addressBookInitData,
+    ]);
+    const addressBook = await hre.viem.getContractAt('AddressBook', addressBookProxy.address);
+
+    const gameManagerImpl = await hre.viem.deployContract('GameManager');
+    const gameManagerInitData = encodeFunctionData({
+      abi: gameManagerImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address],
+    });
+    const gameManagerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      gameManagerImpl.address,
+      gameManagerInitData,
+    ]);
+    const gameManager = await hre.viem.getContractAt('GameManager', gameManagerProxy.address);
+
+    await addressBook.write.initialSetGameManager([gameManager.address], {
+      account: deployer.account.address,
+    });
+
+    // Deploy MockERC20 token
+    const mockToken = await hre.viem.deployContract('MockERC20', ['Mock Token', 'MTK', 18]);
+    await mockToken.write.mint([user.account.address, parseEther('1000')]);
+
+    // Deploy Pricers for native token and ERC20 token
+    const nativePricerImpl = await hre.viem.deployContract('Pricer');
+    const nativePricerInitData = encodeFunctionData({
+      abi: nativePricerImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address, 50000000000n, 'ETH/USD Pricer'], // $500 with 8 decimals
+    });
+    const nativePricerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      nativePricerImpl.address,
+      nativePricerInitData,
+    ]);
+    const nativePricer = await hre.viem.getContractAt('Pricer', nativePricerProxy.address);
+
+    const tokenPricerImpl = await hre.viem.deployContract('Pricer');
+    const tokenPricerInitData = encodeFunctionData({
+      abi: tokenPricerImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address, 100000000n, 'MTK/USD Pricer'], // $1 with 8 decimals
+    });
+    const tokenPricerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      tokenPricerImpl.address,
+      tokenPricerInitData,
+    ]);
+    const tokenPricer = await hre.viem.getContractAt('Pricer', tokenPricerProxy.address);
+
+    // Deploy TokensManager
+    const tokensManagerImpl = await hre.viem.deployContract('TokensManager');
+    const tokensManagerInitData = encodeFunctionData({
+      abi: tokensManagerImpl.abi,
+      functionName: 'initialize',
+      args: [
+        addressBook.address,
+        [zeroAddress, mockToken.address],
+        [nativePricer.address, tokenPricer.address],
+      ],
+    });
+    const tokensManagerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      tokensManagerImpl.address,
+      tokensManagerInitData,
+    ]);
+    const tokensManager = await hre.viem.getContractAt('TokensManager', tokensManagerProxy.address);
+
+    await addressBook.write.initialSetTokensManager([tokensManager.address], {
+      account: deployer.account.address,
+    });
+
+    const MockVRFCoordinator = await hre.viem.deployContract('MockVRFCoordinator', []);
+    const DiceImpl = await hre.viem.deployContract('Dice', [MockVRFCoordinator.address]);
+    const diceInitData = encodeFunctionData({
+      abi: DiceImpl.abi,
+      functionName: 'initialize',
+      args: [
+        MockVRFCoordinator.address,
+        1n,
+        '0x8af398995b04c28e9a51adb9721ef74c74f93e6a478f39e7e0777be13527e7ef',
+        addressBook.address,
+        10,
+        90,
+        parseEther('0.0005'), // $0.0005
+        parseEther('500'), // $500
+        1000, // 10%
+      ],
+    });
+    const DiceProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      DiceImpl.address,
+      diceInitData,
+    ]);
+    const Dice = await hre.viem.getContractAt('Dice', DiceProxy.address);
+    await setBalance(Dice.address, parseEther('100'));
+
+    // Mint some tokens to the Dice contract for payouts
+    await mockToken.write.mint([Dice.address, parseEther('100')]);
+
+    await gameManager.write.addGame([Dice.address], {
+      account: ownersMultisig.address,
+    });
+
+    const pauseManagerImpl = await hre.viem.deployContract('PauseManager');
+    const pauseManagerInitData = encodeFunctionData({
+      abi: pauseManagerImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address],
+    });
+    const pauseManagerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      pauseManagerImpl.address,
+      pauseManagerInitData,
+    ]);
+    const pauseManager = await hre.viem.getContractAt('PauseManager', pauseManagerProxy.address);
+
+    await addressBook.write.initialSetPauseManager([pauseManager.address], {
+      account: deployer.account.address,
+    });
+
+    // Deploy Treasury
+    const treasuryImpl = await hre.viem.deployContract('Treasury');
+    const treasuryInitData = encodeFunctionData({
+      abi: treasuryImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address],
+    });
+    const treasuryProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      treasuryImpl.address,
+      treasuryInitData,
+    ]);
+    const treasury = await hre.viem.getContractAt('Treasury', treasuryProxy.address);
+
+    // Deploy ReferralProgram
+    const referralProgramImpl = await hre.viem.deployContract('ReferralProgram');
+    const initialReferralPercent = 500n; // 5% (500/10000)
+    const referralProgramInitData = encodeFunctionData({
+      abi: referralProgramImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address, initialReferralPercent],
+    });
+    const referralProgramProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      referralProgramImpl.address,
+      referralProgramInitData,
+    ]);
+    const referralProgram = await hre.viem.getContractAt(
+      'ReferralProgram',
+      referralProgramProxy.address,
+    );
+
+    await addressBook.write.initialSetTreasury([treasury.address], {
+      account: deployer.account.address,
+    });
+    await addressBook.write.initialSetReferralProgram([referralProgram.address], {
+      account: deployer.account.address,
+    });
+
+    for (const owner of [owner1, owner2]) {
+      const isSigner = await ownersMultisig.read.signers([owner.account.address]);
+      expect(isSigner).to.be.true;
+
+      await setBalance(owner.account.address, parseEther('100'));
+    }
+
+    const providerImpl = await hre.viem.deployContract('CommitRevealRandomnessProvider');
+    const providerInitData = encodeFunctionData({
+      abi: providerImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address],
+    });
+    const providerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      providerImpl.address,
+      providerInitData,
+    ]);
+    const provider = await hre.viem.getContractAt('CommitRevealRandomnessProvider', providerProxy.address);
+
+    await addressBook.write.setRandomnessProvider([provider.address], {
+      account: ownersMultisig.address,
+    });
+    await provider.write.commitSeedHashes([seeds.map(hashSeed)], {
+      account: administrator.account.address,
+    });
+
+    return {
+      publicClient,
+      provider,
+      Dice,
+      addressBook,
+      ownersMultisig,
+      administrator,
+      treasury,
+      user,
+      deployer,
+    };
+  }
+
+  async function rollDice(Dice: any, user: any) {
+    await Dice.write.roll([50n, 0, zeroAddress, 0n, zeroAddress], {
+      account: user.account.address,
+      value: 1000000000000000n,
+    });
+    return (await Dice.read.getBet([await Dice.read.getBetCount()])).requestId as bigint;
+  }
+
+  describe('Deployment', function () {
+    it('Should be registered in AddressBook', async function () {
+      const { provider, addressBook } = await loadFixture(deployCommitRevealFixture);
+
+      expect(getAddress(await addressBook.read.randomnessProvider())).to.equal(getAddress(provider.address));
+    });
+
+    it('Should revert if initialized twice', async function () {
+      const { provider, addressBook } = await loadFixture(deployCommitRevealFixture);
+
+      await expect(provider.write.initialize([addressBook.address])).to.be.rejectedWith('InvalidInitialization');
+    });
+  });
+
+  describe('Seed Hashes', function () {
+    it('Should allow administrators to commit seed hashes', async function () {
+      const { provider, administrator } = await loadFixture(deployCommitRevealFixture);
+
+      expect(await provider.read.getAvailableSeedHashes()).to.equal(2n);
+
+      await provider.write.commitSeedHashes([[hashSeed(keccak256('0x03'))]], {
+        account: administrator.account.address,
+      });
+
+      expect(await provider.read.getAvailableSeedHashes()).to.equal(3n);
+      expect(await provider.read.seedHashes([2n])).to.equal(hashSeed(keccak256('0x03')));
+
+      const [event] = await provider.getEvents.SeedHashesCommitted();
+      expect(event.args.firstIndex).to.equal(2n);
+      expect(event.args.count).to.equal(1n);
+    });
+
+    it('Should revert if non-administrator commits seed hashes or no hash is given', async function () {
+      const { provider, user, administrator } = await loadFixture(deployCommitRevealFixture);
+
+      await expect(
+        provider.write.commitSeedHashes([[hashSeed(keccak256('0x03'))]], {
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('only administrator!');
+
+      await expect(
+        provider.write.commitSeedHashes([[]], {
+          account: administrator.account.address,
+        }),
+      ).to.be.rejectedWith('hashes is empty!');
+    });
+  });
+
+  describe('Requests', function () {
+    it('Should assign the next committed seed hash and the player seed to a bet', async function () {
+      const { provider, Dice, user, publicClient } = await loadFixture(deployCommitRevealFixture);
+      const playerSeed = keccak256('0xabcdef');
+
+      await provider.write.setPlayerSeed([playerSeed], {
+        account: user.account.address,
+      });
+      const requestId = await rollDice(Dice, user);
+
+      const [consumer, numWords, fulfilled, seedHash, requestPlayerSeed, player, blockNumber] =
+        await provider.read.requests([requestId]);
+      expect(getAddress(consumer)).to.equal(getAddress(Dice.address));
+      expect(numWords).to.equal(1);
+      expect(fulfilled).to.be.false;
+      expect(seedHash).to.equal(hashSeed(seeds[0]));
+      expect(getAddress(player)).to.equal(getAddress(user.account.address));
+      expect(blockNumber).to.equal(await publicClient.getBlockNumber());
+      expect(requestPlayerSeed).to.equal(
+        keccak256(
+          encodeAbiParameters(
+            [{ type: 'bytes32' }, { type: 'address' }, { type: 'uint256' }],
+            [playerSeed, user.account.address, requestId],
+          ),
+        ),
+      );
+      expect(await provider.read.getAvailableSeedHashes()).to.equal(1n);
+    });
+
+    it('Should revert bets once the committed seed hashes run out', async function () {
+      const { provider, Dice, user, ownersMultisig } = await loadFixture(deployCommitRevealFixture);
+
+      await Dice.write.setMaxPendingBets([3n], {
+        account: ownersMultisig.address,
+      });
+      await rollDice(Dice, user);
+      await rollDice(Dice, user);
+
+      expect(await provider.read.getAvailableSeedHashes()).to.equal(0n);
+      await expect(rollDice(Dice, user)).to.be.rejectedWith('No seed hash available');
+    });
+
+    it('Should lock the bond per request and revert bets once the bond runs out', async function () {
+      const { provider, Dice, user, ownersMultisig } = await loadFixture(deployCommitRevealFixture);
+
+      await provider.write.setBondPerRequest([parseEther('1')], {
+        account: ownersMultisig.address,
+      });
+      await expect(rollDice(Dice, user)).to.be.rejectedWith('Insufficient bond');
+
+      await provider.write.fundBond({
+        account: user.account.address,
+        value: parseEther('1'),
+      });
+      const requestId = await rollDice(Dice, user);
+
+      expect(await provider.read.lockedBond()).to.equal(parseEther('1'));
+      expect((await provider.read.requests([requestId]))[8]).to.equal(parseEther('1'));
+
+      await provider.write.reveal([requestId, seeds[0]]);
+      expect(await provider.read.lockedBond()).to.equal(0n);
+    });
+
+    it('Should only let owners multisig set the bond and administrators withdraw unlocked bond', async function () {
+      const { provider, Dice, user, administrator, ownersMultisig, publicClient, treasury } =
+        await loadFixture(deployCommitRevealFixture);
+
+      await expect(
+        provider.write.setBondPerRequest([parseEther('1')], {
+          account: administrator.account.address,
+        }),
+      ).to.be.rejectedWith('only owners multisig!');
+
+      await provider.write.setBondPerRequest([parseEther('1')], {
+        account: ownersMultisig.address,
+      });
+      await provider.write.fundBond({
+        account: user.account.address,
+        value: parseEther('3'),
+      });
+      await rollDice(Dice, user);
+
+      await expect(
+        provider.write.withdrawBond([parseEther('2')], {
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('only administrator!');
+      await expect(
+        provider.write.withdrawBond([parseEther('3')], {
+          account: administrator.account.address,
+        }),
+      ).to.be.rejectedWith('Insufficient unlocked bond');
+
+      const treasuryBalance = await publicClient.getBalance({ address: treasury.address });
+      await provider.write.withdrawBond([parseEther('2')], {
+        account: administrator.account.address,
+      });
+      expect(await publicClient.getBalance({ address: treasury.address })).to.equal(
+        treasuryBalance + parseEther('2'),
+      );
+    });
+
+    it('Should revert if requested by a non-game contract', async function () {
+      const { provider, user } = await loadFixture(deployCommitRevealFixture);
+
+      await expect(
+        provider.write.requestRandomness([user.account.address, 1], {
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('only game!');
+    });
+  });
+
+  describe('Reveals', function () {
+    it('Should settle the bet with the words derived from the revealed seed', async function () {
+      const { provider, Dice, user, deployer, publicClient } = await loadFixture(deployCommitRevealFixture);
+
+      const requestId = await rollDice(Dice, user);
+      const [, , , , playerSeed, , blockNumber] = await provider.read.requests([requestId]);
+
+      await provider.write.reveal([requestId, seeds[0]], {
+        account: deployer.account.address,
+      });
+
+      const { hash: blockHash } = await publicClient.getBlock({ blockNumber });
+      const [randomWord] = await provider.read.deriveRandomWords([seeds[0], playerSeed, blockHash!, 1]);
+      const record = await Dice.read.getBet([1n]);
+      expect(record.bet.settled).to.be.true;
+      expect(record.bet.result).to.equal((randomWord % 100n) + 1n);
+      expect((await provider.read.requests([requestId]))[2]).to.be.true;
+
+      const [event] = await provider.getEvents.RandomnessRevealed();
+      expect(event.args.requestId).to.equal(requestId);
+      expect(event.args.seed).to.equal(seeds[0]);
+    });
+
+    it('Should revert revealing an invalid seed, an unknown request or a request twice', async function () {
+      const { provider, Dice, user } = await loadFixture(deployCommitRevealFixture);
+
+      const requestId = await rollDice(Dice, user);
+
+      await expect(provider.write.reveal([requestId, seeds[1]])).to.be.rejectedWith('Invalid seed');
+      await expect(provider.write.reveal([requestId + 1n, seeds[0]])).to.be.rejectedWith('Unknown request');
+
+      await provider.write.reveal([requestId, seeds[0]]);
+      await expect(provider.write.reveal([requestId, seeds[0]])).to.be.rejectedWith('Already revealed');
+    });
+
+    it('Should let the player refund a bet whose seed is withheld', async function () {
+      const { provider, Dice, user } = await loadFixture(deployCommitRevealFixture);
+
+      const requestId = await rollDice(Dice, user);
+
+      await time.increase(await Dice.read.refundTimeout());
+      await Dice.write.refundBet([requestId], {
+        account: user.account.address,
+      });
+
+      expect((await Dice.read.getBet([1n])).bet.refunded).to.be.true;
+
+      await provider.write.reveal([requestId, seeds[0]]);
+      expect((await Dice.read.getBet([1n])).bet.won).to.be.false;
+    });
+
+    it('Should pay the bond to the player once the reveal window expires', async function () {
+      const { provider, Dice, user, ownersMultisig, publicClient } = await loadFixture(deployCommitRevealFixture);
+
+      await provider.write.setBondPerRequest([parseEther('1')], {
+        account: ownersMultisig.address,
+      });
+      await provider.write.fundBond({
+        account: ownersMultisig.address,
+        value: parseEther('1'),
+      });
+      const requestId = await rollDice(Dice, user);
+
+      await expect(provider.write.claimForfeitedBond([requestId])).to.be.rejectedWith(
+        'Reveal window not expired',
+      );
+
+      await mine(await provider.read.REVEAL_WINDOW());
+      await expect(provider.write.reveal([requestId, seeds[0]])).to.be.rejectedWith('Reveal window expired');
+
+      const playerBalance = await publicClient.getBalance({ address: user.account.address });
+      await provider.write.claimForfeitedBond([requestId]);
+
+      expect(await publicClient.getBalance({ address: user.account.address })).to.equal(
+        playerBalance + parseEther('1'),
+      );
+      expect(await provider.read.lockedBond()).to.equal(0n);
+      expect(await provider.read.isFulfilled([requestId])).to.be.false;
+
+      const [event] = await provider.getEvents.BondForfeited();
+      expect(event.args.requestId).to.equal(requestId);
+      expect(getAddress(event.args.player!)).to.equal(getAddress(user.account.address));
+      expect(event.args.bond).to.equal(parseEther('1'));
+
+      await expect(provider.write.claimForfeitedBond([requestId])).to.be.rejectedWith('Already revealed');
+      await expect(provider.write.reveal([requestId, seeds[0]])).to.be.rejectedWith('Already revealed');
+
+      await time.increase(await Dice.read.refundTimeout());
+      await Dice.write.refundBet([requestId], {
+        account: user.account.address,
+      });
+      expect((await Dice.read.getBet([1n])).bet.refunded).to.be.true;
+    });
+
+    it('Should only accept random words from the randomness provider the request was sent to', async function () {
+      const { Dice, user, addressBook, ownersMultisig, provider } = await loadFixture(deployCommitRevealFixture);
+
+      const requestId = await rollDice(Dice, user);
+
+      await expect(
+        Dice.write.fulfillRandomness([requestId, [1n]], {
+          account: user.account.address,
+        }),
+      ).to.be.rejectedWith('OnlyRandomnessProvider');
+
+      // Replacing the provider in the AddressBook does not strand the pending request
+      await addressBook.write.setRandomnessProvider([zeroAddress], {
+        account: ownersMultisig.address,
+      });
+      await provider.write.reveal([requestId, seeds[0]]);
+
+      expect((await Dice.read.getBet([1n])).bet.settled).to.be.true;
+    });
+  });
+
+  describe('Upgrade Functionality', function () {
+    it('Should allow owners multisig to upgrade the contract', async function () {
+      const { provider, ownersMultisig, publicClient } = await loadFixture(deployCommitRevealFixture);
+
+      const newProviderImpl = await hre.viem.deployContract('CommitRevealRandomnessProvider');
+
+      await provider.write.upgradeToAndCall([newProviderImpl.address, '0x'], {
+        account: ownersMultisig.address,
+      });
+
+      const implementationAddress = await getImplementationAddress(publicClient, provider.address);
+      expect(getAddress(implementationAddress)).to.equal(getAddress(newProviderImpl.address));
+    });
+
+    it('Should revert if non-owner tries to upgrade', async function () {
+      const { provider, administrator } = await loadFixture(deployCommitRevealFixture);
+
+      const newProviderImpl = await hre.viem.deployContract('CommitRevealRandomnessProvider');
+
+      await expect(
+        provider.write.upgradeToAndCall([newProviderImpl.address, '0x'], {
+          account: administrator.account.address,
+        }),
+      ).to.be.rejected;
+    });
+  });
+});
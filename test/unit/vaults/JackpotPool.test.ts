@@ -0,0 +1,574 @@
+import { expect } from 'chai';
+import hre from 'hardhat';
+import { encodeAbiParameters, encodeFunctionData, getAddress, keccak256, parseEther, zeroAddress } from 'viem';
+import {
+  impersonateAccount,
+  loadFixture,
+  setBalance,
+} from '@nomicfoundation/hardhat-toolbox-viem/network-helpers';
+import { getImplementationAddress } from '../../../scripts/utils/getImplementationAddress';
+
+describe('JackpotPool Contract', function () {
+  async function deployJackpotPoolFixture() {
+    const [deployer, player1, player2, player3, , , , administrator, owner1, owner2] =
+      await hre.viem.getWalletClients();
+    const publicClient = await hre.viem.getPublicClient();
+    const owners = [owner1, owner2];
+
+    // Deploy owners multisig
+    const ownersMultisigImpl = await hre.viem.deployContract('MultisigWallet');
+    const ownersMultisigImplInitData = encodeFunctionData({
+      abi: ownersMultisigImpl.abi,
+      functionName: 'initialize',
+      args: [BigInt(owners.length), owners.map(owner => owner.account.address)],
+    });
+    const ownersMultisigProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      ownersMultisigImpl.address,
+      ownersMultisigImplInitData,
+    ]);
+    const ownersMultisig = await hre.viem.getContractAt(
+      'MultisigWallet',
+      ownersMultisigProxy.address,
+    );
+
+    await impersonateAccount(ownersMultisig.address);
+    await setBalance(ownersMultisig.address, parseEther('100'));
+
+    // Deploy AccessRoles
+    const accessRolesImpl = await hre.viem.deployContract('AccessRoles');
+    const accessRolesInitData = encodeFunctionData({
+      abi: accessRolesImpl.abi,
+      functionName: 'initialize',
+      args: [ownersMultisig.address, [administrator.account.address]],
+    });
+    const accessRolesProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      accessRolesImpl.address,
+      accessRolesInitData,
+    ]);
+    const accessRoles = await hre.viem.getContractAt('AccessRoles', accessRolesProxy.address);
+
+    // Deploy AddressBook
+    const addressBookImpl = await hre.viem.deployContract('AddressBook');
+    const addressBookInitData = encodeFunctionData({
+      abi: addressBookImpl.abi,
+      functionName: 'initialize',
+      args: [accessRoles.address],
+    });
+    const addressBookProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      addressBookImpl.address,
+      addressBookInitData,
+    ]);
+    const addressBook = await hre.viem.getContractAt('AddressBook', addressBookProxy.address);
+
+    // Deploy PauseManager
+    const pauseManagerImpl = await hre.viem.deployContract('PauseManager');
+    const pauseManagerInitData = encodeFunctionData({
+      abi: pauseManagerImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address],
+    });
+    const pauseManagerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      pauseManagerImpl.address,
+      pauseManagerInitData,
+    ]);
+    const pauseManager = await hre.viem.getContractAt('PauseManager', pauseManagerProxy.address);
+
+    // Deploy TokensManager
+    const mockToken1 = await hre.viem.deployContract('MockERC20', ['Mock Token 1', 'MTK1', 18]);
+    const mockToken2 = await hre.viem.deployContract('MockERC20', ['Mock Token 2', 'MTK2', 6]);
+
+    const pricer1Impl = await hre.viem.deployContract('Pricer');
+    const pricer1InitData = encodeFunctionData({
+      abi: pricer1Impl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address, 50000000000n, 'ETH/USD Pricer'],
+    });
+    const pricer1Proxy = await hre.viem.deployContract('ERC1967Proxy', [
+      pricer1Impl.address,
+      pricer1InitData,
+    ]);
+    const pricer1 = await hre.viem.getContractAt('Pricer', pricer1Proxy.address);
+
+    const pricer2Impl = await hre.viem.deployContract('Pricer');
+    const pricer2InitData = encodeFunctionData({
+      abi: pricer2Impl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address, 100000000n, 'USDC/USD Pricer'],
+    });
+    const pricer2Proxy = await hre.viem.deployContract('ERC1967Proxy', [
+      pricer2Impl.address,
+      pricer2InitData,
+    ]);
+    const pricer2 = await hre.viem.getContractAt('Pricer', pricer2Proxy.address);
+
+    const TokensManagerImpl = await hre.viem.deployContract('TokensManager');
+    const TokensManagerInitData = encodeFunctionData({
+      abi: TokensManagerImpl.abi,
+      functionName: 'initialize',
+      args: [
+        addressBook.address,
+        [zeroAddress, mockToken1.address],
+        [pricer1.address, pricer2.address],
+      ],
+    });
+    const TokensManagerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      TokensManagerImpl.address,
+      TokensManagerInitData,
+    ]);
+    const tokensManager = await hre.viem.getContractAt('TokensManager', TokensManagerProxy.address);
+
+    // Deploy Treasury
+    const treasuryImpl = await hre.viem.deployContract('Treasury');
+    const treasuryInitData = encodeFunctionData({
+      abi: treasuryImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address],
+    });
+    const treasuryProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      treasuryImpl.address,
+      treasuryInitData,
+    ]);
+    const treasury = await hre.viem.getContractAt('Treasury', treasuryProxy.address);
+
+    const mockGameImpl = await hre.viem.deployContract('Dice', [deployer.account.address]);
+    const mockGameInitData = encodeFunctionData({
+      abi: mockGameImpl.abi,
+      functionName: 'initialize',
+      args: [
+        deployer.account.address,
+        1n,
+        '0x8af398995b04c28e9a51adb9721ef74c74f93e6a478f39e7e0777be13527e7ef',
+        addressBook.address,
+        10,
+        90,
+        parseEther('0.001'),
+        parseEther('1'),
+        1000, // 10%
+      ],
+    });
+    const mockGameProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      mockGameImpl.address,
+      mockGameInitData,
+    ]);
+    const mockGame = await hre.viem.getContractAt('Dice', mockGameProxy.address);
+
+    // Deploy GameManager
+    const gameManagerImpl = await hre.viem.deployContract('GameManager');
+    const gameManagerInitData = encodeFunctionData({
+      abi: gameManagerImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address],
+    });
+    const gameManagerProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      gameManagerImpl.address,
+      gameManagerInitData,
+    ]);
+    const gameManager = await hre.viem.getContractAt('GameManager', gameManagerProxy.address);
+
+    // Deploy JackpotPool
+    const jackpotPoolImpl = await hre.viem.deployContract('JackpotPool');
+    const initialContributionPercent = 100n; // 1% (100/10000)
+    const initialTriggerOdds = 1000000n;
+    const jackpotPoolInitData = encodeFunctionData({
+      abi: jackpotPoolImpl.abi,
+      functionName: 'initialize',
+      args: [addressBook.address, initialContributionPercent, initialTriggerOdds],
+    });
+    const jackpotPoolProxy = await hre.viem.deployContract('ERC1967Proxy', [
+      jackpotPoolImpl.address,
+      jackpotPoolInitData,
+    ]);
+    const jackpotPool = await hre.viem.getContractAt('JackpotPool', jackpotPoolProxy.address);
+
+    // Set contracts in AddressBook
+    await addressBook.write.initialSetPauseManager([pauseManager.address], {
+      account: deployer.account.address,
+    });
+    await addressBook.write.initialSetTreasury([treasury.address], {
+      account: deployer.account.address,
+    });
+    await addressBook.write.initialSetTokensManager([tokensManager.address], {
+      account: deployer.account.address,
+    });
+    await addressBook.write.initialSetGameManager([gameManager.address], {
+      account: deployer.account.address,
+    });
+    await addressBook.write.initialSetJackpotPool([jackpotPool.address], {
+      account: deployer.account.address,
+    });
+
+    // Register game contract in GameManager
+    await gameManager.write.addGame([mockGame.address], {
+      account: ownersMultisig.address,
+    });
+
+    // Fund the game and a player with a supported ERC20 token
+    const mockToken = mockToken1;
+    await mockToken.write.mint([mockGame.address, parseEther('1000')]);
+    await mockToken.write.mint([player1.account.address, parseEther('1000')]);
+
+    // Setup owners and players with balance
+    for (const wallet of [owner1, owner2, player1, player2, player3]) {
+      await setBalance(wallet.account.address, parseEther('100'));
+    }
+
+    await impersonateAccount(mockGame.address);
+    await setBalance(mockGame.address, parseEther('100'));
+
+    return {
+      publicClient,
+      jackpotPool,
+      accessRoles,
+      addressBook,
+      gameManager,
+      pauseManager,
+      tokensManager,
+      treasury,
+      ownersMultisig,
+      administrator,
+      player1,
+      player2,
+      player3,
+      mockGame,
+      deployer,
+      mockToken,
+      initialContributionPercent,
+      initialTriggerOdds,
+    };
+  }
+
+  async function contribute(
+    jackpotPool: Awaited<ReturnType<typeof deployJackpotPoolFixture>>['jackpotPool'],
+    mockGame: { address: `0x${string}` },
+    player: `0x${string}`,
+    amount: bigint,
+    token: `0x${string}`,
+    randomWord: bigint,
+  ) {
+    const contribution = await jackpotPool.read.calculateContribution([amount]);
+    return jackpotPool.write.contribute([player, amount, token, randomWord], {
+      account: mockGame.address,
+      value: token === zeroAddress ? contribution : 0n,
+    });
+  }
+
+  describe('Deployment', function () {
+    it('Should deploy successfully', async function () {
+      const { jackpotPool } = await loadFixture(deployJackpotPoolFixture);
+      expect(jackpotPool.address).to.not.equal(0);
+    });
+
+    it('Should be registered in AddressBook', async function () {
+      const { jackpotPool, addressBook } = await loadFixture(deployJackpotPoolFixture);
+
+      const jackpotPoolAddress = await addressBook.read.jackpotPool();
+      expect(getAddress(jackpotPoolAddress)).to.equal(getAddress(jackpotPool.address));
+    });
+
+    it('Should revert if the jackpot pool is set twice', async function () {
+      const { jackpotPool, addressBook, deployer } = await loadFixture(deployJackpotPoolFixture);
+
+      await expect(
+        addressBook.write.initialSetJackpotPool([jackpotPool.address], {
+          account: deployer.account.address,
+        }),
+      ).to.be.rejectedWith('jackpotPool contract exists!');
+    });
+  });
+
+  describe('Initialization', function () {
+    it('Should initialize with correct parameters', async function () {
+      const { jackpotPool, addressBook, initialContributionPercent, initialTriggerOdds } =
+        await loadFixture(deployJackpotPoolFixture);
+
+      expect(getAddress(await jackpotPool.read.addressBook())).to.equal(getAddress(addressBook.address));
+      expect(await jackpotPool.read.contributionPercent()).to.equal(initialContributionPercent);
+      expect(await jackpotPool.read.triggerOdds()).to.equal(initialTriggerOdds);
+    });
+
+    it('Should revert if initialized twice', async function () {
+      const { jackpotPool, addressBook } = await loadFixture(deployJackpotPoolFixture);
+
+      await expect(jackpotPool.write.initialize([addressBook.address, 100n, 1000000n])).to.be.rejected;
+    });
+  });
+
+  describe('Contributions', function () {
+    it('Should add native token contributions to the jackpot', async function () {
+      const { jackpotPool, mockGame, player1 } = await loadFixture(deployJackpotPoolFixture);
+
+      await contribute(jackpotPool, mockGame, player1.account.address, parseEther('1'), zeroAddress, 1n);
+      await contribute(jackpotPool, mockGame, player1.account.address, parseEther('2'), zeroAddress, 2n);
+
+      expect(await jackpotPool.read.getJackpotInfo([zeroAddress])).to.deep.equal([
+        parseEther('0.03'),
+        parseEther('0.03'),
+        0n,
+      ]);
+
+      const events = await jackpotPool.getEvents.JackpotContributed();
+      expect(events[0].args.amount).to.equal(parseEther('0.02'));
+      expect(events[0].args.jackpot).to.equal(parseEther('0.03'));
+    });
+
+    it('Should pull ERC20 token contributions from the game', async function () {
+      const { jackpotPool, mockGame, mockToken, player1 } = await loadFixture(deployJackpotPoolFixture);
+
+      await mockToken.write.approve([jackpotPool.address, parseEther('0.1')], {
+        account: mockGame.address,
+      });
+      await contribute(jackpotPool, mockGame, player1.account.address, parseEther('10'), mockToken.address, 1n);
+
+      expect(await jackpotPool.read.jackpots([mockToken.address])).to.equal(parseEther('0.1'));
+      expect(await mockToken.read.balanceOf([jackpotPool.address])).to.equal(parseEther('0.1'));
+      expect(await jackpotPool.read.jackpots([zeroAddress])).to.equal(0n);
+    });
+
+    it('Should revert if msg.value does not match the contribution', async function () {
+      const { jackpotPool, mockGame, player1 } = await loadFixture(deployJackpotPoolFixture);
+
+      await expect(
+        jackpotPool.write.contribute([player1.account.address, parseEther('1'), zeroAddress, 1n], {
+          account: mockGame.address,
+          value: parseEther('1'),
+        }),
+      ).to.be.rejectedWith('msg.value must match the contribution');
+    });
+
+    it('Should revert if called by non-game contract', async function () {
+      const { jackpotPool, player1 } = await loadFixture(deployJackpotPoolFixture);
+
+      await expect(
+        jackpotPool.write.contribute([player1.account.address, parseEther('1'), zeroAddress, 1n], {
+          account: player1.account.address,
+          value: parseEther('0.01'),
+        }),
+      ).to.be.rejectedWith('only game!');
+    });
+  });
+
+  describe('Jackpot Trigger', function () {
+    it('Should derive the trigger from the rehashed VRF word', async function () {
+      const { jackpotPool, ownersMultisig } = await loadFixture(deployJackpotPoolFixture);
+
+      await jackpotPool.write.setTriggerOdds([7n], { account: ownersMultisig.address });
+
+      for (let randomWord = 0n; randomWord < 20n; randomWord++) {
+        const hash = BigInt(
+          keccak256(encodeAbiParameters([{ type: 'uint256' }, { type: 'string' }], [randomWord, 'JACKPOT'])),
+        );
+        expect(await jackpotPool.read.isJackpotTriggered([randomWord])).to.equal(hash % 7n === 0n);
+      }
+    });
+
+    it('Should credit the whole jackpot to the player of the triggering wager', async function () {
+      const { jackpotPool, mockGame, player1, player2, ownersMultisig, publicClient } =
+        await loadFixture(deployJackpotPoolFixture);
+
+      await contribute(jackpotPool, mockGame, player1.account.address, parseEther('10'), zeroAddress, 1n);
+
+      // Every wager triggers the jackpot
+      await jackpotPool.write.setTriggerOdds([1n], { account: ownersMultisig.address });
+
+      const balanceBefore = await publicClient.getBalance({ address: player2.account.address });
+      await contribute(jackpotPool, mockGame, player2.account.address, parseEther('5'), zeroAddress, 2n);
+      const balanceAfter = await publicClient.getBalance({ address: player2.account.address });
+
+      // The jackpot is not pushed to the winner
+      expect(balanceAfter).to.equal(balanceBefore);
+      expect(await jackpotPool.read.getClaimableWinnings([player2.account.address, zeroAddress])).to.equal(
+        parseEther('0.15'),
+      );
+      expect(await jackpotPool.read.unclaimedWinnings([zeroAddress])).to.equal(parseEther('0.15'));
+      expect(await jackpotPool.read.getJackpotInfo([zeroAddress])).to.deep.equal([
+        0n,
+        parseEther('0.15'),
+        parseEther('0.15'),
+      ]);
+
+      const events = await jackpotPool.getEvents.JackpotWon();
+      expect(getAddress(events[0].args.game!)).to.equal(getAddress(mockGame.address));
+      expect(getAddress(events[0].args.player!)).to.equal(getAddress(player2.account.address));
+      expect(events[0].args.amount).to.equal(parseEther('0.15'));
+    });
+  });
+
+  describe('Claiming Winnings', function () {
+    it('Should let the winner claim the credited jackpot', async function () {
+      const { jackpotPool, mockGame, player1, ownersMultisig, publicClient } =
+        await loadFixture(deployJackpotPoolFixture);
+
+      await jackpotPool.write.setTriggerOdds([1n], { account: ownersMultisig.address });
+      await contribute(jackpotPool, mockGame, player1.account.address, parseEther('10'), zeroAddress, 1n);
+
+      const balanceBefore = await publicClient.getBalance({ address: player1.account.address });
+      const txHash = await jackpotPool.write.claimWinnings([zeroAddress], {
+        account: player1.account.address,
+      });
+      const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
+      const balanceAfter = await publicClient.getBalance({ address: player1.account.address });
+
+      const gasCost = receipt.gasUsed * receipt.effectiveGasPrice;
+      expect(balanceAfter - balanceBefore + gasCost).to.equal(parseEther('0.1'));
+      expect(await jackpotPool.read.getClaimableWinnings([player1.account.address, zeroAddress])).to.equal(0n);
+      expect(await jackpotPool.read.unclaimedWinnings([zeroAddress])).to.equal(0n);
+
+      const events = await jackpotPool.getEvents.WinningsClaimed();
+      expect(getAddress(events[0].args.player!)).to.equal(getAddress(player1.account.address));
+      expect(events[0].args.amount).to.equal(parseEther('0.1'));
+    });
+
+    it('Should revert if there is nothing to claim', async function () {
+      const { jackpotPool, player1 } = await loadFixture(deployJackpotPoolFixture);
+
+      await expect(
+        jackpotPool.write.claimWinnings([zeroAddress], {
+          account: player1.account.address,
+        }),
+      ).to.be.rejectedWith('JackpotPool: nothing to claim');
+    });
+  });
+
+  describe('Funding', function () {
+    it('Should top up the jackpot', async function () {
+      const { jackpotPool, mockToken, player1 } = await loadFixture(deployJackpotPoolFixture);
+
+      await jackpotPool.write.fundJackpot([zeroAddress, 0n], {
+        account: player1.account.address,
+        value: parseEther('1'),
+      });
+      await mockToken.write.approve([jackpotPool.address, parseEther('50')], {
+        account: player1.account.address,
+      });
+      await jackpotPool.write.fundJackpot([mockToken.address, parseEther('50')], {
+        account: player1.account.address,
+      });
+
+      expect(await jackpotPool.read.jackpots([zeroAddress])).to.equal(parseEther('1'));
+      expect(await jackpotPool.read.jackpots([mockToken.address])).to.equal(parseEther('50'));
+
+      const events = await jackpotPool.getEvents.JackpotFunded();
+      expect(events[0].args.jackpot).to.equal(parseEther('50'));
+    });
+
+    it('Should revert for unsupported tokens', async function () {
+      const { jackpotPool, player1 } = await loadFixture(deployJackpotPoolFixture);
+      const unsupportedToken = await hre.viem.deployContract('MockERC20', ['Mock Token', 'MTK', 18]);
+
+      await expect(
+        jackpotPool.write.fundJackpot([unsupportedToken.address, parseEther('1')], {
+          account: player1.account.address,
+        }),
+      ).to.be.rejected;
+    });
+  });
+
+  describe('Settings', function () {
+    it('Should allow owners multisig to update the parameters', async function () {
+      const { jackpotPool, ownersMultisig } = await loadFixture(deployJackpotPoolFixture);
+
+      await jackpotPool.write.setContributionPercent([250n], { account: ownersMultisig.address });
+      await jackpotPool.write.setTriggerOdds([5000n], { account: ownersMultisig.address });
+
+      expect(await jackpotPool.read.contributionPercent()).to.equal(250n);
+      expect(await jackpotPool.read.triggerOdds()).to.equal(5000n);
+    });
+
+    it('Should revert for invalid parameters', async function () {
+      const { jackpotPool, ownersMultisig } = await loadFixture(deployJackpotPoolFixture);
+
+      await expect(
+        jackpotPool.write.setContributionPercent([1001n], { account: ownersMultisig.address }),
+      ).to.be.rejectedWith('JackpotPool: percent is too high');
+      await expect(
+        jackpotPool.write.setTriggerOdds([0n], { account: ownersMultisig.address }),
+      ).to.be.rejectedWith('JackpotPool: odds is zero');
+    });
+
+    it('Should revert if non-owner tries to update the parameters', async function () {
+      const { jackpotPool, administrator } = await loadFixture(deployJackpotPoolFixture);
+
+      await expect(
+        jackpotPool.write.setContributionPercent([250n], { account: administrator.account.address }),
+      ).to.be.rejectedWith('only owners multisig!');
+      await expect(
+        jackpotPool.write.setTriggerOdds([5000n], { account: administrator.account.address }),
+      ).to.be.rejectedWith('only owners multisig!');
+    });
+  });
+
+  describe('Withdrawing to Treasury', function () {
+    it('Should only withdraw funds outside of the jackpot', async function () {
+      const { jackpotPool, mockGame, player1, administrator, treasury, publicClient } =
+        await loadFixture(deployJackpotPoolFixture);
+
+      await contribute(jackpotPool, mockGame, player1.account.address, parseEther('10'), zeroAddress, 1n);
+      await player1.sendTransaction({ to: jackpotPool.address, value: parseEther('1') });
+
+      await expect(
+        jackpotPool.write.withdrawToTreasury([zeroAddress, parseEther('1.01')], {
+          account: administrator.account.address,
+        }),
+      ).to.be.rejectedWith('Insufficient contract balance');
+
+      await jackpotPool.write.withdrawToTreasury([zeroAddress, parseEther('1')], {
+        account: administrator.account.address,
+      });
+
+      expect(await publicClient.getBalance({ address: treasury.address })).to.equal(parseEther('1'));
+      expect(await publicClient.getBalance({ address: jackpotPool.address })).to.equal(parseEther('0.1'));
+    });
+
+    it('Should not withdraw won jackpots waiting to be claimed', async function () {
+      const { jackpotPool, mockGame, player1, administrator, ownersMultisig } =
+        await loadFixture(deployJackpotPoolFixture);
+
+      await jackpotPool.write.setTriggerOdds([1n], { account: ownersMultisig.address });
+      await contribute(jackpotPool, mockGame, player1.account.address, parseEther('10'), zeroAddress, 1n);
+
+      await expect(
+        jackpotPool.write.withdrawToTreasury([zeroAddress, 1n], {
+          account: administrator.account.address,
+        }),
+      ).to.be.rejectedWith('Insufficient contract balance');
+    });
+
+    it('Should revert if non-administrator tries to withdraw', async function () {
+      const { jackpotPool, player1 } = await loadFixture(deployJackpotPoolFixture);
+
+      await expect(
+        jackpotPool.write.withdrawToTreasury([zeroAddress, parseEther('1')], {
+          account: player1.account.address,
+        }),
+      ).to.be.rejectedWith('only administrator!');
+    });
+  });
+
+  describe('Upgrade Functionality', function () {
+    it('Should allow owners multisig to upgrade the contract', async function () {
+      const { jackpotPool, ownersMultisig, publicClient } = await loadFixture(deployJackpotPoolFixture);
+
+      const newJackpotPoolImpl = await hre.viem.deployContract('JackpotPool');
+
+      await jackpotPool.write.upgradeToAndCall([newJackpotPoolImpl.address, '0x'], {
+        account: ownersMultisig.address,
+      });
+
+      const implementationAddress = await getImplementationAddress(publicClient, jackpotPool.address);
+
+      expect(getAddress(implementationAddress)).to.equal(getAddress(newJackpotPoolImpl.address));
+    });
+
+    it('Should revert if non-owner tries to upgrade', async function () {
+      const { jackpotPool, administrator } = await loadFixture(deployJackpotPoolFixture);
+
+      const newJackpotPoolImpl = await hre.viem.deployContract('JackpotPool');
+
+      await expect(
+        jackpotPool.write.upgradeToAndCall([newJackpotPoolImpl.address, '0x'], {
+          account: administrator.account.address,
+        }),
+      ).to.be.rejected;
+    });
+  });
+});
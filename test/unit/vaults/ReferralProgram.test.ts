@@ -143,7 +143,7 @@ describe('ReferralProgram Contract', function () {
         90,
         parseEther('0.001'),
         parseEther('1'),
-        10,
+        1000, // 10%
       ],
     });
     const mockGameProxy = await hre.viem.deployContract('ERC1967Proxy', [
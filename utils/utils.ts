@@ -22,7 +22,8 @@ export function deriveWinningCellsFromRandomViem(rw: bigint, totalCellsQuantity
     rnd = BigInt(keccak256(encoded));
   }
 
-  return mask;
+  // Bitwise operators work on signed 32-bit integers, convert back to uint32 for cell 31
+  return mask >>> 0;
 }
 
 export function packCellsToMask(cells: number[]): number {
@@ -30,5 +31,42 @@ export function packCellsToMask(cells: number[]): number {
   for (const cell of cells) {
     mask |= 1 << cell;
   }
-  return mask;
+  return mask >>> 0;
+}
+
+export function derivePlinkoBucketFromRandomViem(rw: bigint, rows = 16) {
+  let bucket = 0;
+
+  // Bit i of the random word is the bounce on row i, a set bit bounces the ball to the right
+  for (let i = 0n; i < BigInt(rows); i++) {
+    if ((rw >> i) & 1n) bucket++;
+  }
+
+  return bucket;
+}
+
+export function deriveCrashPointFromRandomViem(rw: bigint, houseEdgeBps = 100) {
+  // Lowest 52 bits of the random word, the crash point reaches m with a chance of (1 - edge) / m
+  const range = 1n << 52n;
+  const r = rw & (range - 1n);
+
+  // Crash point in basis points (10000 is 1x)
+  return ((10000n - BigInt(houseEdgeBps)) * range) / (range - r);
+}
+
+export function deriveLotteryWinningTicketsViem(rw: bigint, ticketCount: bigint, winnersCount: bigint) {
+  const tickets: bigint[] = [];
+  let rnd = rw;
+
+  // Floyd's sampling, a ticket already drawn is replaced by the highest ticket of the current range
+  for (let j = ticketCount - winnersCount; j < ticketCount; j++) {
+    let ticket = rnd % (j + 1n);
+    if (tickets.includes(ticket)) ticket = j;
+    tickets.push(ticket);
+
+    const encoded = encodeAbiParameters([{ type: 'uint256' }, { type: 'uint256' }], [rnd, j]);
+    rnd = BigInt(keccak256(encoded));
+  }
+
+  return tickets;
 }